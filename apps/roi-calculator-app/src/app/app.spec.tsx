@@ -1,5 +1,6 @@
 import { render } from '@testing-library/react';
 import { CssVarsProvider } from '@mui/joy/styles';
+import { MemoryRouter } from 'react-router-dom';
 
 import App from './app';
 
@@ -22,7 +23,9 @@ describe('App', () => {
   it('should render successfully', () => {
     const { baseElement } = render(
       <CssVarsProvider>
-        <App />
+        <MemoryRouter>
+          <App />
+        </MemoryRouter>
       </CssVarsProvider>
     );
     expect(baseElement).toBeTruthy();
@@ -31,7 +34,9 @@ describe('App', () => {
   it('should render the ROI calculator', () => {
     const { getByText } = render(
       <CssVarsProvider>
-        <App />
+        <MemoryRouter>
+          <App />
+        </MemoryRouter>
       </CssVarsProvider>
     );
     expect(getByText('Autonomous SOC ROI Calculator')).toBeTruthy();
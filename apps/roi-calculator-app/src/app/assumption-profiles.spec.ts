@@ -0,0 +1,29 @@
+import { DEFAULT_COEFFICIENTS } from '@stellarcyber/roi-engine';
+import { createUserProfile, deleteUserProfile, getAllProfiles, loadUserProfiles, saveUserProfiles } from './assumption-profiles';
+
+describe('assumption profiles', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('saves and restores user-defined profiles after the built-in ones', () => {
+    const coefficients = { ...DEFAULT_COEFFICIENTS, efficiency: { ...DEFAULT_COEFFICIENTS.efficiency, base: 33 } };
+    const profiles = createUserProfile(loadUserProfiles(), 'Board case', coefficients);
+    saveUserProfiles(profiles);
+
+    expect(loadUserProfiles()).toEqual(profiles);
+    expect(getAllProfiles(profiles).map((profile) => profile.name)).toEqual(['Conservative', 'Expected', 'Aggressive', 'Board case']);
+    expect(deleteUserProfile(profiles, profiles[0].id)).toEqual([]);
+  });
+
+  it('skips saved profiles with invalid coefficients', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    localStorage.setItem(
+      'roi-calculator-profiles',
+      JSON.stringify({ version: 2, profiles: [{ id: 'a', name: 'Broken', description: '', coefficients: { value: {} } }] })
+    );
+    expect(loadUserProfiles()).toEqual([]);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,54 @@
+import { BUILT_IN_PROFILES, convertCoefficients, type AssumptionProfile, type ModelCoefficients } from '@stellarcyber/roi-engine';
+import { SCHEMA_VERSION, validateCoefficients } from './scenario-schema';
+import { createScenarioId } from './scenarios';
+
+// User-defined profiles are shared across scenarios
+const PROFILES_STORAGE_KEY = 'roi-calculator-profiles';
+
+export const loadUserProfiles = (): AssumptionProfile[] => {
+  try {
+    const saved = localStorage.getItem(PROFILES_STORAGE_KEY);
+    if (!saved) {
+      return [];
+    }
+    const { profiles }: { version: number; profiles: AssumptionProfile[] } = JSON.parse(saved);
+    // Profiles with invalid coefficients are dropped rather than silently reset to the defaults
+    return profiles.filter((profile) => {
+      const { errors } = validateCoefficients(profile.coefficients);
+      if (errors.length > 0) {
+        console.warn(`Profile "${profile.name}" has invalid coefficients and was skipped:`, errors);
+      }
+      return errors.length === 0;
+    });
+  } catch (error) {
+    console.warn('Failed to load assumption profiles from localStorage:', error);
+    return [];
+  }
+};
+
+export const saveUserProfiles = (profiles: AssumptionProfile[]): void => {
+  try {
+    localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify({ version: SCHEMA_VERSION, profiles }));
+  } catch (error) {
+    console.warn('Failed to save assumption profiles to localStorage:', error);
+  }
+};
+
+export const createUserProfile = (
+  profiles: AssumptionProfile[],
+  name: string,
+  coefficients: ModelCoefficients
+): AssumptionProfile[] => [...profiles, { id: createScenarioId(), name, description: 'Custom profile', coefficients }];
+
+export const deleteUserProfile = (profiles: AssumptionProfile[], id: string): AssumptionProfile[] =>
+  profiles.filter((profile) => profile.id !== id);
+
+// Built-in profiles are in USD, `rate` converts their amounts into the scenario's input currency
+export const getBuiltInProfiles = (rate = 1): AssumptionProfile[] =>
+  rate === 1 ? BUILT_IN_PROFILES : BUILT_IN_PROFILES.map((profile) => ({ ...profile, coefficients: convertCoefficients(profile.coefficients, rate) }));
+
+// User profiles apply as saved
+export const getAllProfiles = (userProfiles: AssumptionProfile[], rate = 1): AssumptionProfile[] => [
+  ...getBuiltInProfiles(rate),
+  ...userProfiles,
+];
@@ -0,0 +1,147 @@
+import React from 'react';
+import Box from '@mui/joy/Box';
+import Typography from '@mui/joy/Typography';
+import Button from '@mui/joy/Button';
+import Input from '@mui/joy/Input';
+import Modal from '@mui/joy/Modal';
+import ModalDialog from '@mui/joy/ModalDialog';
+import ModalClose from '@mui/joy/ModalClose';
+import Stack from '@mui/joy/Stack';
+import Divider from '@mui/joy/Divider';
+import {
+  COEFFICIENT_GROUP_LABELS,
+  COEFFICIENT_LABELS,
+  DEFAULT_COEFFICIENTS,
+  VALUE_COEFFICIENT_SOURCES,
+  type CoefficientGroup,
+  type CurrencyCode,
+  type ModelCoefficients,
+} from '@stellarcyber/roi-engine';
+import { formatReportValue, getCoefficientFormat, getCurrencyLabel } from './report-data';
+
+interface AssumptionsDialogProps {
+  open: boolean;
+  title: string;
+  assumptions: ModelCoefficients;
+  groups?: CoefficientGroup[]; // defaults to every group
+  defaults?: ModelCoefficients; // in the input currency
+  currency?: CurrencyCode; // the input currency
+  onChange: (assumptions: ModelCoefficients) => void;
+  onClose: () => void;
+}
+
+const ALL_GROUPS = Object.keys(DEFAULT_COEFFICIENTS) as CoefficientGroup[];
+
+const getGroupValues = (coefficients: ModelCoefficients, group: CoefficientGroup): Record<string, number> => ({
+  ...coefficients[group],
+});
+
+export const countChangedAssumptions = (
+  assumptions: ModelCoefficients,
+  groups: CoefficientGroup[] = ALL_GROUPS,
+  defaultCoefficients: ModelCoefficients = DEFAULT_COEFFICIENTS
+): number =>
+  groups.reduce((count, group) => {
+    const values = getGroupValues(assumptions, group);
+    const defaults = getGroupValues(defaultCoefficients, group);
+    return count + Object.keys(defaults).filter((key) => values[key] !== defaults[key]).length;
+  }, 0);
+
+export const AssumptionsDialog: React.FC<AssumptionsDialogProps> = ({
+  open,
+  title,
+  assumptions,
+  groups = ALL_GROUPS,
+  defaults: defaultCoefficients = DEFAULT_COEFFICIENTS,
+  currency = 'USD',
+  onChange,
+  onClose,
+}) => {
+  const updateAssumption = (group: CoefficientGroup, key: string, value: number) =>
+    onChange({ ...assumptions, [group]: { ...assumptions[group], [key]: value } });
+
+  const resetAll = () =>
+    onChange(groups.reduce((reset, group) => ({ ...reset, [group]: defaultCoefficients[group] }), assumptions));
+
+  return (
+    <Modal open={open} onClose={onClose}>
+      <ModalDialog
+        aria-labelledby="assumptions-modal"
+        size="lg"
+        sx={{ maxWidth: '48rem', width: '90vw', maxHeight: '90vh', overflow: 'auto' }}
+      >
+        <ModalClose />
+        <Typography id="assumptions-modal" level="h3">
+          {title}
+        </Typography>
+        <Typography level="body-sm" color="neutral">
+          These assumptions drive the model. Changes are saved with the scenario and included in exports.
+        </Typography>
+
+        {groups.map((group) => {
+          const labels: Record<string, string> = COEFFICIENT_LABELS[group];
+          const sources: Record<string, string> = group === 'value' ? VALUE_COEFFICIENT_SOURCES : {};
+          const values = getGroupValues(assumptions, group);
+          const defaults = getGroupValues(defaultCoefficients, group);
+          return (
+            <Box key={group} sx={{ mt: 2 }}>
+              {groups.length > 1 && (
+                <Typography level="title-md" sx={{ mb: 1 }}>
+                  {COEFFICIENT_GROUP_LABELS[group]}
+                </Typography>
+              )}
+              <Stack spacing={2} divider={<Divider />}>
+                {Object.keys(defaults).map((key) => {
+                  const label = labels[key];
+                  const format = getCoefficientFormat(label);
+                  return (
+                    <Box key={key}>
+                      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 2 }}>
+                        <Typography level="title-sm">{getCurrencyLabel(label, currency)}</Typography>
+                        <Input
+                          type="number"
+                          size="sm"
+                          value={values[key]}
+                          onChange={(e) => updateAssumption(group, key, Math.max(0, parseFloat(e.target.value) || 0))}
+                          slotProps={{ input: { min: 0, step: format === 'currency' ? 500 : 'any' } }}
+                          sx={{ width: '9rem', flexShrink: 0 }}
+                        />
+                      </Box>
+                      {sources[key] && (
+                        <Typography level="body-xs" color="neutral" sx={{ mt: 0.5 }}>
+                          {sources[key]}
+                        </Typography>
+                      )}
+                      {values[key] !== defaults[key] && (
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 0.5 }}>
+                          <Typography level="body-xs" color="warning">
+                            Default: {formatReportValue(defaults[key], format, { currency, rate: 1 })}
+                          </Typography>
+                          <Button size="sm" variant="plain" onClick={() => updateAssumption(group, key, defaults[key])}>
+                            Reset
+                          </Button>
+                        </Box>
+                      )}
+                    </Box>
+                  );
+                })}
+              </Stack>
+            </Box>
+          );
+        })}
+
+        <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1, mt: 2 }}>
+          <Button
+            variant="outlined"
+            color="neutral"
+            disabled={countChangedAssumptions(assumptions, groups, defaultCoefficients) === 0}
+            onClick={resetAll}
+          >
+            Reset All to Defaults
+          </Button>
+          <Button onClick={onClose}>Done</Button>
+        </Box>
+      </ModalDialog>
+    </Modal>
+  );
+};
@@ -0,0 +1,61 @@
+import React from 'react';
+import Box from '@mui/joy/Box';
+import Typography from '@mui/joy/Typography';
+import Drawer from '@mui/joy/Drawer';
+import ModalClose from '@mui/joy/ModalClose';
+import Chip from '@mui/joy/Chip';
+import Stack from '@mui/joy/Stack';
+import Divider from '@mui/joy/Divider';
+import type { CalculationTrace } from '@stellarcyber/roi-engine';
+import { formatReportValue, formatTraceSubstitution, getTraceCapNote, type CurrencyDisplay } from './report-data';
+
+interface CalculationTraceDrawerProps {
+  trace: CalculationTrace | null;
+  currency: CurrencyDisplay; // every amount in the trace is converted so the arithmetic still adds up
+  onClose: () => void;
+}
+
+export const CalculationTraceDrawer: React.FC<CalculationTraceDrawerProps> = ({ trace, currency, onClose }) => (
+  <Drawer anchor="right" size="md" open={trace !== null} onClose={onClose}>
+    <ModalClose />
+    {trace && (
+      <Box sx={{ p: 3, overflow: 'auto' }}>
+        <Typography level="h3">{trace.title}</Typography>
+        <Typography level="body-sm" color="neutral" sx={{ mb: 2 }}>
+          How this figure is calculated from the current inputs and assumptions
+        </Typography>
+        <Stack spacing={2} divider={<Divider />}>
+          {trace.steps.map((step, index) => {
+            const capNote = getTraceCapNote(step);
+            const isResult = index === trace.steps.length - 1;
+            return (
+              <Box key={step.label}>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 2 }}>
+                  <Typography level="title-sm">
+                    {index + 1}. {step.label}
+                  </Typography>
+                  <Typography level={isResult ? 'title-lg' : 'title-sm'} color={isResult ? 'primary' : undefined}>
+                    {formatReportValue(step.value, step.format, currency)}
+                  </Typography>
+                </Box>
+                <Typography level="body-xs" fontFamily="code" sx={{ mt: 0.5 }}>
+                  {step.formula}
+                </Typography>
+                {step.operands.length > 0 && (
+                  <Typography level="body-xs" color="neutral" sx={{ mt: 0.5 }}>
+                    {formatTraceSubstitution(step, currency)}
+                  </Typography>
+                )}
+                {capNote && (
+                  <Chip size="sm" variant="soft" color={step.capApplied ? 'warning' : 'neutral'} sx={{ mt: 0.5 }}>
+                    {capNote}
+                  </Chip>
+                )}
+              </Box>
+            );
+          })}
+        </Stack>
+      </Box>
+    )}
+  </Drawer>
+);
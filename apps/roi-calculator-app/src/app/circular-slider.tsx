@@ -11,6 +11,7 @@ interface KnobProps {
   step: number;
   label: string;
   size?: number;
+  disabled?: boolean;
 }
 
 export const CircularSlider: React.FC<KnobProps> = ({
@@ -20,7 +21,8 @@ export const CircularSlider: React.FC<KnobProps> = ({
   max,
   step,
   label,
-  size = 300
+  size = 300,
+  disabled = false
 }) => {
   const { mode } = useColorScheme();
   const [isDragging, setIsDragging] = useState(false);
@@ -156,8 +158,8 @@ export const CircularSlider: React.FC<KnobProps> = ({
 
   // Handle mouse/touch events
   const handleMouseDown = (ev: React.MouseEvent) => {
-    // Don't start dragging if clicking on the input field
-    if (isClickOnInput(ev)) return;
+    // Don't start dragging if disabled or clicking on the input field
+    if (disabled || isClickOnInput(ev)) return;
 
     const p = getEventPoint(ev.nativeEvent);
     const r = knobRef.current?.offsetWidth ? knobRef.current.offsetWidth * 0.5 : 0;
@@ -172,8 +174,8 @@ export const CircularSlider: React.FC<KnobProps> = ({
   };
 
   const handleTouchStart = (ev: React.TouchEvent) => {
-    // Don't start dragging if touching the input field
-    if (isClickOnInput(ev)) return;
+    // Don't start dragging if disabled or touching the input field
+    if (disabled || isClickOnInput(ev)) return;
 
     const p = getEventPoint(ev.nativeEvent);
     const r = knobRef.current?.offsetWidth ? knobRef.current.offsetWidth * 0.5 : 0;
@@ -259,7 +261,8 @@ export const CircularSlider: React.FC<KnobProps> = ({
           width: knobSize,
           height: knobSize,
           position: 'relative',
-          cursor: isDragging ? 'grabbing' : 'grab',
+          cursor: disabled ? 'default' : isDragging ? 'grabbing' : 'grab',
+          opacity: disabled ? 0.5 : 1,
         }}
         onMouseDown={handleMouseDown}
         onTouchStart={handleTouchStart}
@@ -352,6 +355,7 @@ export const CircularSlider: React.FC<KnobProps> = ({
           type="text"
           value={value}
           onChange={handleInputChange}
+          disabled={disabled}
           min={min}
           max={max}
           step={step}
@@ -378,7 +382,7 @@ export const CircularSlider: React.FC<KnobProps> = ({
             border: 0,
             borderRadius: '50%',
             outline: 'none',
-            cursor: 'text',
+            cursor: disabled ? 'default' : 'text',
             pointerEvents: 'auto',
             boxShadow: isDark
               ? '0 1px 2px -1px #6b7280, 0 -1px 2px -1px #374151, inset 0 -1px 2px -1px #6b7280, inset 0 1px 2px -1px #374151'
@@ -0,0 +1,154 @@
+import React from 'react';
+import Box from '@mui/joy/Box';
+import Typography from '@mui/joy/Typography';
+import Button from '@mui/joy/Button';
+import Input from '@mui/joy/Input';
+import Select from '@mui/joy/Select';
+import Option from '@mui/joy/Option';
+import Grid from '@mui/joy/Grid';
+import Card from '@mui/joy/Card';
+import Stack from '@mui/joy/Stack';
+import {
+  COST_ITEM_TREATMENTS,
+  COST_ITEM_UNITS,
+  getCostItemAnnualCost,
+  type CalculationInputs,
+  type CostItemTreatment,
+  type CostItemUnit,
+  type CostLineItem,
+} from '@stellarcyber/roi-engine';
+import { formatCurrency, getCurrencyLabel, getInputCurrency } from './report-data';
+import { createScenarioId } from './scenarios';
+
+interface CostItemsEditorProps {
+  inputs: CalculationInputs;
+  // group names the edited control so a typing run is undone in one step
+  onChange: (items: CostLineItem[], group: string) => void;
+}
+
+const units = Object.keys(COST_ITEM_UNITS) as CostItemUnit[];
+const treatments = Object.keys(COST_ITEM_TREATMENTS) as CostItemTreatment[];
+
+const createCostItem = (): CostLineItem => ({
+  id: createScenarioId(),
+  name: 'New cost item',
+  basis: 'annual',
+  amount: 0,
+  unit: 'employee',
+  treatment: 'unchanged',
+  reductionPercentage: 0,
+});
+
+export const CostItemsEditor: React.FC<CostItemsEditorProps> = ({ inputs, onChange }) => {
+  const updateItem = (id: string, changes: Partial<CostLineItem>) => {
+    onChange(
+      inputs.costItems.map((item) => (item.id === id ? { ...item, ...changes } : item)),
+      `costItems.${id}.${Object.keys(changes).join(',')}`
+    );
+  };
+
+  // Amounts and percentages must stay in range, invalid entries keep the previous value
+  const updateNumber = (id: string, key: 'amount' | 'reductionPercentage', value: number) => {
+    if (Number.isFinite(value) && value >= 0 && (key === 'amount' || value <= 100)) {
+      updateItem(id, { [key]: value });
+    }
+  };
+
+  return (
+    <Stack spacing={2}>
+      <Typography level="body-xs" color="neutral">
+        Other current-state costs such as SOAR, UEBA, threat-intel feeds, MDR retainers, log storage or training. Each item is added
+        to the human SOC cost and is retired, reduced or left unchanged by the autonomous SOC.
+      </Typography>
+      {inputs.costItems.map((item) => (
+        <Card key={item.id} variant="outlined" size="sm">
+          <Grid container spacing={1.5}>
+            <Grid xs={12} sm={6}>
+              <Typography level="body-sm" sx={{ mb: 1 }}>
+                Name
+              </Typography>
+              <Input value={item.name} onChange={(e) => updateItem(item.id, { name: e.target.value })} />
+            </Grid>
+            <Grid xs={12} sm={6}>
+              <Typography level="body-sm" sx={{ mb: 1 }}>
+                Pricing
+              </Typography>
+              <Select value={item.basis} onChange={(_, value) => value && updateItem(item.id, { basis: value })}>
+                <Option value="annual">Annual amount</Option>
+                <Option value="perUnit">Per unit</Option>
+              </Select>
+            </Grid>
+            <Grid xs={12} sm={6}>
+              <Typography level="body-sm" sx={{ mb: 1 }}>
+                {getCurrencyLabel(item.basis === 'annual' ? 'Annual Amount ($)' : 'Price per Unit ($)', inputs.inputCurrency)}
+              </Typography>
+              <Input
+                type="number"
+                value={item.amount}
+                onChange={(e) => updateNumber(item.id, 'amount', parseFloat(e.target.value))}
+                slotProps={{ input: { min: 0, step: 'any' } }}
+              />
+            </Grid>
+            {item.basis === 'perUnit' && (
+              <Grid xs={12} sm={6}>
+                <Typography level="body-sm" sx={{ mb: 1 }}>
+                  Unit
+                </Typography>
+                <Select value={item.unit} onChange={(_, value) => value && updateItem(item.id, { unit: value })}>
+                  {units.map((unit) => (
+                    <Option key={unit} value={unit}>
+                      {COST_ITEM_UNITS[unit]}
+                    </Option>
+                  ))}
+                </Select>
+              </Grid>
+            )}
+            <Grid xs={12} sm={6}>
+              <Typography level="body-sm" sx={{ mb: 1 }}>
+                With Autonomous SOC
+              </Typography>
+              <Select value={item.treatment} onChange={(_, value) => value && updateItem(item.id, { treatment: value })}>
+                {treatments.map((treatment) => (
+                  <Option key={treatment} value={treatment}>
+                    {COST_ITEM_TREATMENTS[treatment]}
+                  </Option>
+                ))}
+              </Select>
+            </Grid>
+            {item.treatment === 'reduced' && (
+              <Grid xs={12} sm={6}>
+                <Typography level="body-sm" sx={{ mb: 1 }}>
+                  Reduction (%)
+                </Typography>
+                <Input
+                  type="number"
+                  value={item.reductionPercentage}
+                  onChange={(e) => updateNumber(item.id, 'reductionPercentage', parseFloat(e.target.value))}
+                  slotProps={{ input: { min: 0, max: 100, step: 1 } }}
+                />
+              </Grid>
+            )}
+          </Grid>
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+            <Typography level="body-sm" color="neutral">
+              {formatCurrency(getCostItemAnnualCost(item, inputs), getInputCurrency(inputs))} per year
+            </Typography>
+            <Button
+              size="sm"
+              variant="plain"
+              color="danger"
+              onClick={() => onChange(inputs.costItems.filter((candidate) => candidate.id !== item.id), 'costItems')}
+            >
+              Remove
+            </Button>
+          </Box>
+        </Card>
+      ))}
+      <Box>
+        <Button variant="outlined" onClick={() => onChange([...inputs.costItems, createCostItem()], 'costItems')}>
+          Add Line Item
+        </Button>
+      </Box>
+    </Stack>
+  );
+};
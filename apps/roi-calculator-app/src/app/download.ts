@@ -0,0 +1,14 @@
+// Save generated content through a temporary object URL, no server round trip
+export const downloadFile = (content: BlobPart, type: string, filename: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const getExportFilename = (prefix: string, name: string, extension: string): string => {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${prefix}${slug ? `-${slug}` : ''}.${extension}`;
+};
@@ -0,0 +1,78 @@
+import React from 'react';
+import Box from '@mui/joy/Box';
+import Typography from '@mui/joy/Typography';
+import Button from '@mui/joy/Button';
+import Input from '@mui/joy/Input';
+import Modal from '@mui/joy/Modal';
+import ModalDialog from '@mui/joy/ModalDialog';
+import ModalClose from '@mui/joy/ModalClose';
+import Table from '@mui/joy/Table';
+import { CURRENCIES, DEFAULT_EXCHANGE_RATES, type CurrencyCode, type ExchangeRates } from '@stellarcyber/roi-engine';
+
+interface ExchangeRatesDialogProps {
+  open: boolean;
+  rates: ExchangeRates;
+  onChange: (rates: ExchangeRates) => void;
+  onClose: () => void;
+}
+
+const currencies = Object.keys(CURRENCIES) as CurrencyCode[];
+
+export const ExchangeRatesDialog: React.FC<ExchangeRatesDialogProps> = ({ open, rates, onChange, onClose }) => {
+  const isDefault = currencies.every((currency) => rates[currency] === DEFAULT_EXCHANGE_RATES[currency]);
+
+  // A rate must stay positive to convert both ways, invalid entries keep the previous rate
+  const updateRate = (currency: CurrencyCode, value: number) => {
+    if (Number.isFinite(value) && value > 0) {
+      onChange({ ...rates, [currency]: value });
+    }
+  };
+
+  return (
+    <Modal open={open} onClose={onClose}>
+      <ModalDialog aria-labelledby="exchange-rates-modal" size="md" sx={{ minWidth: '28rem', maxHeight: '90vh', overflow: 'auto' }}>
+        <ModalClose />
+        <Typography id="exchange-rates-modal" level="h4">
+          Exchange Rates
+        </Typography>
+        <Typography level="body-sm" color="neutral">
+          Indicative rates bundled with the calculator. Edits are kept in this browser and used whenever a currency is chosen.
+        </Typography>
+        <Table size="sm" sx={{ '& th:last-of-type, & td:last-of-type': { textAlign: 'right' } }}>
+          <thead>
+            <tr>
+              <th>Currency</th>
+              <th>Units per 1 USD</th>
+            </tr>
+          </thead>
+          <tbody>
+            {currencies.map((currency) => (
+              <tr key={currency}>
+                <td>
+                  {CURRENCIES[currency].label} ({currency})
+                </td>
+                <td>
+                  <Input
+                    type="number"
+                    size="sm"
+                    value={rates[currency]}
+                    disabled={currency === 'USD'}
+                    onChange={(e) => updateRate(currency, parseFloat(e.target.value))}
+                    slotProps={{ input: { min: 0, step: 'any' } }}
+                    sx={{ width: '9rem', ml: 'auto' }}
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </Table>
+        <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1 }}>
+          <Button variant="outlined" color="neutral" disabled={isDefault} onClick={() => onChange(DEFAULT_EXCHANGE_RATES)}>
+            Reset to Bundled Rates
+          </Button>
+          <Button onClick={onClose}>Done</Button>
+        </Box>
+      </ModalDialog>
+    </Modal>
+  );
+};
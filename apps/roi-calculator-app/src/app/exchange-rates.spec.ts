@@ -0,0 +1,23 @@
+import { DEFAULT_EXCHANGE_RATES } from '@stellarcyber/roi-engine';
+import { loadExchangeRates, saveExchangeRates } from './exchange-rates';
+
+describe('exchange rates', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('uses the bundled rates until edited rates are saved', () => {
+    expect(loadExchangeRates()).toEqual(DEFAULT_EXCHANGE_RATES);
+    const rates = { ...DEFAULT_EXCHANGE_RATES, EUR: 0.9 };
+    saveExchangeRates(rates);
+    expect(loadExchangeRates()).toEqual(rates);
+  });
+
+  it('falls back to the bundled rate for invalid entries', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    localStorage.setItem('roi-calculator-exchange-rates', JSON.stringify({ ...DEFAULT_EXCHANGE_RATES, GBP: -1, JPY: 'x', INR: 80 }));
+    expect(loadExchangeRates()).toEqual({ ...DEFAULT_EXCHANGE_RATES, INR: 80 });
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,36 @@
+import { DEFAULT_EXCHANGE_RATES, type CurrencyCode, type ExchangeRates } from '@stellarcyber/roi-engine';
+
+// Edited rates apply to every scenario, each scenario keeps the rate it was last given
+const EXCHANGE_RATES_STORAGE_KEY = 'roi-calculator-exchange-rates';
+
+// Rates missing or invalid in storage fall back to the bundled ones
+export const loadExchangeRates = (): ExchangeRates => {
+  try {
+    const saved = localStorage.getItem(EXCHANGE_RATES_STORAGE_KEY);
+    if (!saved) {
+      return DEFAULT_EXCHANGE_RATES;
+    }
+    const rates: Record<string, unknown> = JSON.parse(saved);
+    return Object.fromEntries(
+      (Object.keys(DEFAULT_EXCHANGE_RATES) as CurrencyCode[]).map((currency) => {
+        const rate = rates[currency];
+        if (typeof rate === 'number' && Number.isFinite(rate) && rate > 0) {
+          return [currency, rate];
+        }
+        console.warn(`Exchange rate for ${currency} is missing or invalid, using the bundled rate`);
+        return [currency, DEFAULT_EXCHANGE_RATES[currency]];
+      })
+    ) as ExchangeRates;
+  } catch (error) {
+    console.warn('Failed to load exchange rates from localStorage:', error);
+    return DEFAULT_EXCHANGE_RATES;
+  }
+};
+
+export const saveExchangeRates = (rates: ExchangeRates): void => {
+  try {
+    localStorage.setItem(EXCHANGE_RATES_STORAGE_KEY, JSON.stringify(rates));
+  } catch (error) {
+    console.warn('Failed to save exchange rates to localStorage:', error);
+  }
+};
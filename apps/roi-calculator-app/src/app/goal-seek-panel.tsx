@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from 'react';
+import Box from '@mui/joy/Box';
+import Typography from '@mui/joy/Typography';
+import Button from '@mui/joy/Button';
+import Input from '@mui/joy/Input';
+import Select from '@mui/joy/Select';
+import Option from '@mui/joy/Option';
+import Alert from '@mui/joy/Alert';
+import {
+  applyInputChange,
+  calculateROI,
+  getDefaultGoalSeekRange,
+  goalSeek,
+  isVariableParameter,
+  type CalculationInputs,
+  type GoalSeekMetric,
+  type GoalSeekResult,
+  type ModelCoefficients,
+} from '@stellarcyber/roi-engine';
+import {
+  formatReportValue,
+  getCurrencySymbol,
+  getInputCurrency,
+  getReportingCurrency,
+  INPUT_SECTIONS,
+  type ReportFormat,
+} from './report-data';
+
+interface GoalSeekPanelProps {
+  inputs: CalculationInputs;
+  coefficients: ModelCoefficients;
+  onApply: (field: keyof CalculationInputs, value: number) => void;
+}
+
+const metricOptions: { value: GoalSeekMetric; label: string; format: ReportFormat; defaultTarget: number }[] = [
+  { value: 'roiPercentage', label: 'ROI', format: 'percentage', defaultTarget: 200 },
+  { value: 'annualSavings', label: 'Annual Savings', format: 'currency', defaultTarget: 0 },
+  { value: 'paybackPeriod', label: 'Payback Period', format: 'months', defaultTarget: 12 },
+];
+
+// Numeric model inputs only; toggles, the presets, currencies and the display-only exchange rate cannot be solved for
+const variableFields = INPUT_SECTIONS.flatMap((section) => section.fields).filter(
+  ({ format }) => !['boolean', 'region', 'industry', 'currencyCode', 'rate'].includes(format)
+);
+
+// Counts are applied as whole numbers and everything else to two decimals
+const roundForField = (value: number, format: ReportFormat): number =>
+  format === 'number' || format === 'months' ? Math.round(value) : Math.round(value * 100) / 100;
+
+export const GoalSeekPanel: React.FC<GoalSeekPanelProps> = ({ inputs, coefficients, onApply }) => {
+  const [metric, setMetric] = useState<GoalSeekMetric>('roiPercentage');
+  const [target, setTarget] = useState(200);
+  const [field, setField] = useState<keyof CalculationInputs>('pricePerSecurityIncident');
+  const [result, setResult] = useState<GoalSeekResult | null>(null);
+
+  // A solution only holds for the inputs it was solved against
+  useEffect(() => setResult(null), [inputs, coefficients]);
+
+  const metricOption = metricOptions.find((option) => option.value === metric) ?? metricOptions[0];
+  // Tenant load fields are set from the tenants in MSSP mode, so a solved value would not stick
+  const fieldOptions = variableFields.filter((option) => isVariableParameter({ inputs, coefficients }, { kind: 'input', field: option.field }));
+  const fieldOption = fieldOptions.find((option) => option.field === field) ?? fieldOptions[0];
+  const range =
+    fieldOption.format === 'percentage' ? { min: 0, max: 100 } : getDefaultGoalSeekRange(Number(inputs[fieldOption.field]));
+
+  // Savings targets are entered in the reporting currency, the model works in the input currency
+  const modelTarget = metricOption.format === 'currency' ? target / inputs.exchangeRate : target;
+  const solve = () => setResult(goalSeek(inputs, fieldOption.field, metric, modelTarget, { range }, coefficients));
+
+  const solvedValue = result?.reachable ? roundForField(result.value, fieldOption.format) : 0;
+  // Re-evaluated at the rounded value so the message matches what Apply produces
+  const solvedAchieved = result?.reachable
+    ? calculateROI(applyInputChange(inputs, fieldOption.field, solvedValue), coefficients)[metric]
+    : null;
+
+  const resetResult = () => setResult(null);
+
+  // Solved inputs are in the currency they are entered in, metrics in the reporting currency
+  const formatField = (value: number) => formatReportValue(value, fieldOption.format, getInputCurrency(inputs));
+  const formatMetric = (value: number | null) => formatReportValue(value, metricOption.format, getReportingCurrency(inputs));
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box sx={{ mb: 3 }}>
+        <Typography level="h2" sx={{ mb: 1 }}>
+          Goal Seek
+        </Typography>
+        <Typography level="body-md" color="neutral">
+          Find the input value that reaches a target ROI, annual savings or payback period
+        </Typography>
+      </Box>
+
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'flex-end', gap: 2, mb: 3 }}>
+        <Box>
+          <Typography level="body-sm" sx={{ mb: 0.5 }}>
+            Target metric
+          </Typography>
+          <Select
+            size="sm"
+            value={metric}
+            onChange={(_, value) => {
+              if (value) {
+                setMetric(value);
+                setTarget(metricOptions.find((option) => option.value === value)?.defaultTarget ?? 0);
+                resetResult();
+              }
+            }}
+            sx={{ minWidth: '14rem' }}
+          >
+            {metricOptions.map((option) => (
+              <Option key={option.value} value={option.value}>
+                {option.label}
+              </Option>
+            ))}
+          </Select>
+        </Box>
+        <Box>
+          <Typography level="body-sm" sx={{ mb: 0.5 }}>
+            Target value{metricOption.format === 'currency' && ` (${getCurrencySymbol(inputs.reportingCurrency)})`}
+          </Typography>
+          <Input
+            type="number"
+            size="sm"
+            value={target}
+            onChange={(e) => {
+              setTarget(parseFloat(e.target.value) || 0);
+              resetResult();
+            }}
+            sx={{ width: '10rem' }}
+          />
+        </Box>
+        <Box>
+          <Typography level="body-sm" sx={{ mb: 0.5 }}>
+            By changing
+          </Typography>
+          <Select
+            size="sm"
+            value={fieldOption.field}
+            onChange={(_, value) => {
+              if (value) {
+                setField(value);
+                resetResult();
+              }
+            }}
+            sx={{ minWidth: '20rem' }}
+          >
+            {fieldOptions.map((option) => (
+              <Option key={option.field} value={option.field}>
+                {option.label}
+              </Option>
+            ))}
+          </Select>
+        </Box>
+        <Button size="sm" onClick={solve}>
+          Solve
+        </Button>
+      </Box>
+
+      {result &&
+        (result.reachable ? (
+          <Alert
+            color="success"
+            variant="soft"
+            endDecorator={
+              <Button
+                size="sm"
+                color="success"
+                onClick={() => onApply(fieldOption.field, solvedValue)}
+              >
+                Apply
+              </Button>
+            }
+          >
+            Set {fieldOption.label} to {formatField(solvedValue)} for {metricOption.label} of {formatMetric(solvedAchieved)}{' '}
+            (currently {formatField(Number(inputs[fieldOption.field]))}).
+          </Alert>
+        ) : (
+          <Alert color="warning" variant="soft">
+            The target can't be reached by changing {fieldOption.label} between{' '}
+            {formatField(result.range.min)} and {formatField(result.range.max)}. The closest is{' '}
+            {formatMetric(result.closestAchieved)} at {formatField(result.closestValue)}.
+          </Alert>
+        ))}
+    </Box>
+  );
+};
@@ -0,0 +1,82 @@
+import React from 'react';
+import Box from '@mui/joy/Box';
+import type { HistogramBin } from '@stellarcyber/roi-engine';
+
+interface HistogramMarker {
+  label: string;
+  value: number;
+}
+
+interface HistogramChartProps {
+  bins: HistogramBin[];
+  markers: HistogramMarker[];
+  formatValue: (value: number) => string;
+}
+
+const WIDTH = 900;
+const HEIGHT = 260;
+const MARGIN = { top: 28, right: 24, bottom: 32, left: 24 };
+const BAR_COLOR = '#60A5FA';
+const MARKER_COLOR = '#F97316';
+
+export const HistogramChart: React.FC<HistogramChartProps> = ({ bins, markers, formatValue }) => {
+  if (bins.length === 0) {
+    return null;
+  }
+
+  const min = bins[0].start;
+  const max = bins[bins.length - 1].end;
+  const maxCount = Math.max(...bins.map((bin) => bin.count), 1);
+  const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+  const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+  const baseline = MARGIN.top + plotHeight;
+
+  const x = (value: number) => MARGIN.left + ((value - min) / (max - min || 1)) * plotWidth;
+
+  return (
+    <Box sx={{ color: 'text.primary', overflowX: 'auto' }}>
+      <svg width="100%" viewBox={`0 0 ${WIDTH} ${HEIGHT}`} style={{ minWidth: '40rem' }}>
+        {bins.map((bin) => {
+          const barHeight = (bin.count / maxCount) * plotHeight;
+          return (
+            <rect
+              key={bin.start}
+              x={x(bin.start) + 1}
+              y={baseline - barHeight}
+              width={Math.max(0, x(bin.end) - x(bin.start) - 2)}
+              height={barHeight}
+              fill={BAR_COLOR}
+              rx={2}
+            />
+          );
+        })}
+
+        {markers.map((marker) => (
+          <g key={marker.label}>
+            <line
+              x1={x(marker.value)}
+              y1={MARGIN.top - 8}
+              x2={x(marker.value)}
+              y2={baseline}
+              stroke={MARKER_COLOR}
+              strokeWidth="1.5"
+              strokeDasharray="4 3"
+            />
+            <text x={x(marker.value)} y={MARGIN.top - 12} textAnchor="middle" fontSize="11" fill="currentColor">
+              {marker.label} {formatValue(marker.value)}
+            </text>
+          </g>
+        ))}
+
+        {/* Axis */}
+        <line x1={MARGIN.left} y1={baseline} x2={WIDTH - MARGIN.right} y2={baseline} stroke="currentColor" strokeWidth="1" />
+        <text x={MARGIN.left} y={HEIGHT - 10} fontSize="11" fill="currentColor">
+          {formatValue(min)}
+        </text>
+        <text x={WIDTH - MARGIN.right} y={HEIGHT - 10} textAnchor="end" fontSize="11" fill="currentColor">
+          {formatValue(max)}
+        </text>
+      </svg>
+    </Box>
+  );
+};
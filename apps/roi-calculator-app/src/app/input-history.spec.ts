@@ -0,0 +1,65 @@
+import { baseInputs, DEFAULT_COEFFICIENTS } from '@stellarcyber/roi-engine';
+import {
+  createInputHistory,
+  GROUP_WINDOW_MS,
+  loadInputHistory,
+  recordChange,
+  redoChange,
+  saveInputHistory,
+  undoChange,
+} from './input-history';
+
+const entry = (employeeCount: number) => ({ inputs: { ...baseInputs, employeeCount }, coefficients: DEFAULT_COEFFICIENTS });
+
+const expectStep = <T,>(step: T | null): T => {
+  expect(step).not.toBeNull();
+  return step as T;
+};
+
+describe('input history', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('undoes and redoes changes in order', () => {
+    let history = recordChange(createInputHistory(), entry(500), 'employeeCount', 0);
+    history = recordChange(history, entry(600), 'falsePositiveRate', 10);
+
+    const undone = expectStep(undoChange(history, entry(700)));
+    expect(undone.entry).toEqual(entry(600));
+    const redone = expectStep(redoChange(undone.history, entry(600)));
+    expect(redone.entry).toEqual(entry(700));
+    expect(redoChange(redone.history, entry(700))).toBeNull();
+  });
+
+  it('groups a continuous drag of one control into a single step', () => {
+    let history = recordChange(createInputHistory(), entry(500), 'employeeCount', 0);
+    history = recordChange(history, entry(550), 'employeeCount', 100);
+    history = recordChange(history, entry(600), 'employeeCount', 200);
+    expect(history.past).toEqual([entry(500)]);
+
+    history = recordChange(history, entry(650), 'employeeCount', 200 + GROUP_WINDOW_MS);
+    expect(history.past).toEqual([entry(500), entry(650)]);
+  });
+
+  it('clears the redo steps when a new change is made', () => {
+    const history = recordChange(createInputHistory(), entry(500), 'employeeCount', 0);
+    const undone = expectStep(undoChange(history, entry(600)));
+    expect(recordChange(undone.history, entry(500), 'falsePositiveRate', 10).future).toEqual([]);
+  });
+
+  it('survives a reload for the same scenario only', () => {
+    const history = recordChange(createInputHistory(), entry(500), 'employeeCount', 0);
+    saveInputHistory('a', history);
+    expect(loadInputHistory('a')).toEqual({ past: [entry(500)], future: [] });
+    expect(loadInputHistory('b')).toEqual(createInputHistory());
+  });
+
+  it('drops saved steps that no longer validate', () => {
+    localStorage.setItem(
+      'roi-calculator-history',
+      JSON.stringify({ scenarioId: 'a', version: 0, past: [{ employeeCount: 900 }, { inputs: { employeeCount: 900 } }], future: [] })
+    );
+    expect(loadInputHistory('a').past).toEqual([entry(900)]);
+  });
+});
@@ -0,0 +1,97 @@
+import type { BaseInputs, ModelCoefficients } from '@stellarcyber/roi-engine';
+import { migrateScenario, SCHEMA_VERSION, validateCoefficients, validateInputs } from './scenario-schema';
+
+export interface HistoryEntry {
+  inputs: BaseInputs;
+  coefficients: ModelCoefficients;
+}
+
+export interface InputHistory {
+  past: HistoryEntry[]; // oldest first
+  future: HistoryEntry[]; // next redo first
+  // The control behind the latest step, so a continuous drag or typing run stays a single step
+  group?: string;
+  changedAt?: number;
+}
+
+// Saved for the active scenario only, switching scenarios starts a new history
+const HISTORY_STORAGE_KEY = 'roi-calculator-history';
+
+export const MAX_HISTORY_STEPS = 100;
+export const GROUP_WINDOW_MS = 1000;
+
+export const createInputHistory = (): InputHistory => ({ past: [], future: [] });
+
+// Records the state before a change, repeated changes to the same control in quick succession join the previous step
+export const recordChange = (history: InputHistory, previous: HistoryEntry, group?: string, now = Date.now()): InputHistory => {
+  const isContinuation =
+    group !== undefined &&
+    group === history.group &&
+    history.changedAt !== undefined &&
+    now - history.changedAt < GROUP_WINDOW_MS &&
+    history.past.length > 0;
+  return {
+    past: isContinuation ? history.past : [...history.past, previous].slice(-MAX_HISTORY_STEPS),
+    future: [],
+    group,
+    changedAt: now,
+  };
+};
+
+export const undoChange = (history: InputHistory, current: HistoryEntry): { history: InputHistory; entry: HistoryEntry } | null =>
+  history.past.length === 0
+    ? null
+    : {
+        history: { past: history.past.slice(0, -1), future: [current, ...history.future] },
+        entry: history.past[history.past.length - 1],
+      };
+
+export const redoChange = (history: InputHistory, current: HistoryEntry): { history: InputHistory; entry: HistoryEntry } | null =>
+  history.future.length === 0
+    ? null
+    : {
+        history: { past: [...history.past, current], future: history.future.slice(1) },
+        entry: history.future[0],
+      };
+
+// Entries are upgraded like saved scenarios, any that no longer validate are dropped
+const restoreEntries = (entries: unknown, version: number): HistoryEntry[] =>
+  Array.isArray(entries)
+    ? entries.flatMap((entry: { inputs?: Record<string, unknown>; coefficients?: unknown }) => {
+        if (typeof entry?.inputs !== 'object' || entry.inputs === null) {
+          return [];
+        }
+        const migrated = migrateScenario({ inputs: { ...entry.inputs }, coefficients: entry.coefficients }, version);
+        const { inputs, errors: inputErrors } = validateInputs(migrated.inputs);
+        const { coefficients, errors: coefficientErrors } = validateCoefficients(migrated.coefficients);
+        return inputErrors.length + coefficientErrors.length > 0 ? [] : [{ inputs, coefficients }];
+      })
+    : [];
+
+export const loadInputHistory = (scenarioId: string): InputHistory => {
+  try {
+    const saved = localStorage.getItem(HISTORY_STORAGE_KEY);
+    if (!saved) {
+      return createInputHistory();
+    }
+    const { scenarioId: savedId, version = 0, past, future } = JSON.parse(saved);
+    if (savedId !== scenarioId) {
+      return createInputHistory();
+    }
+    return { past: restoreEntries(past, version), future: restoreEntries(future, version) };
+  } catch (error) {
+    console.warn('Failed to load undo history from localStorage:', error);
+    return createInputHistory();
+  }
+};
+
+export const saveInputHistory = (scenarioId: string, history: InputHistory): void => {
+  try {
+    localStorage.setItem(
+      HISTORY_STORAGE_KEY,
+      JSON.stringify({ scenarioId, version: SCHEMA_VERSION, past: history.past, future: history.future })
+    );
+  } catch (error) {
+    console.warn('Failed to save undo history to localStorage:', error);
+  }
+};
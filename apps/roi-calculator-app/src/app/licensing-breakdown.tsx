@@ -0,0 +1,92 @@
+import React from 'react';
+import Box from '@mui/joy/Box';
+import Typography from '@mui/joy/Typography';
+import Grid from '@mui/joy/Grid';
+import Table from '@mui/joy/Table';
+import { PRICED_PRODUCTS, type CalculationInputs, type PricedProduct } from '@stellarcyber/roi-engine';
+import { formatCurrency, formatReportValue, getPricingTableRows, getReportingCurrency, PRICING_TABLE_COLUMNS } from './report-data';
+
+interface LicensingBreakdownProps {
+  inputs: CalculationInputs;
+}
+
+const products = Object.keys(PRICED_PRODUCTS) as PricedProduct[];
+
+export const LicensingBreakdown: React.FC<LicensingBreakdownProps> = ({ inputs }) => {
+  const currency = getReportingCurrency(inputs);
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box sx={{ mb: 3 }}>
+        <Typography level="h2" sx={{ mb: 1 }}>
+          Licensing Breakdown
+        </Typography>
+        <Typography level="body-md" color="neutral">
+          Each price tier charges the volume within it at its own price. A committed volume is billed in full, volume above it is
+          charged at the overage price or, without one, the tier prices, and the annual total is raised to the minimum contract
+          value.
+        </Typography>
+      </Box>
+
+      <Grid container spacing={3}>
+        {products.map((product) => {
+          const rows = getPricingTableRows(inputs, product, currency);
+          return (
+            <Grid key={product} xs={12} md={6}>
+              <Typography level="h4" sx={{ mb: 1 }}>
+                {PRICED_PRODUCTS[product].label}
+              </Typography>
+              <Box sx={{ overflowX: 'auto' }}>
+                <Table
+                  size="sm"
+                  sx={{
+                    '& th, & td': { textAlign: 'right' },
+                    '& th:first-of-type, & td:first-of-type': { textAlign: 'left' },
+                    '& tfoot td': { fontWeight: 'lg' },
+                  }}
+                >
+                  <thead>
+                    <tr>
+                      {PRICING_TABLE_COLUMNS.map((column) => (
+                        <th key={column}>{column}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.slice(0, -1).map((cells) => (
+                      <tr key={cells[0]}>
+                        {cells.map((cell, index) => (
+                          <td key={index}>{cell}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                  <tfoot>
+                    <tr>
+                      {rows[rows.length - 1].map((cell, index) => (
+                        <td key={index}>{cell}</td>
+                      ))}
+                    </tr>
+                  </tfoot>
+                </Table>
+              </Box>
+              {product === 'logVolumePricing' && !inputs.switchFromLegacySIEM && (
+                <Typography level="body-xs" color="neutral" sx={{ mt: 1 }}>
+                  Priced for the {formatReportValue(inputs.xdrLogForwardingPercentage, 'percentage')} of log volume forwarded to Stellar
+                  XDR while the legacy SIEM stays in place.
+                </Typography>
+              )}
+              {/* A pinned platform cost is used in place of the plan's price */}
+              {product === 'logVolumePricing' && inputs.overrides.stellarXDRPlatformCosts !== undefined && (
+                <Typography level="body-xs" color="neutral" sx={{ mt: 1 }}>
+                  The annual Stellar XDR platform cost is pinned at {formatCurrency(inputs.stellarXDRPlatformCosts, currency)} and is
+                  used in place of this total.
+                </Typography>
+              )}
+            </Grid>
+          );
+        })}
+      </Grid>
+    </Box>
+  );
+};
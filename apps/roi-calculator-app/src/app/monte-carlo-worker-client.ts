@@ -0,0 +1,18 @@
+import type { CalculationInputs, ModelCoefficients, MonteCarloResult, UncertainParameter } from '@stellarcyber/roi-engine';
+
+export interface MonteCarloRequest {
+  id: number;
+  inputs: CalculationInputs;
+  coefficients: ModelCoefficients;
+  uncertainties: UncertainParameter[];
+  iterations: number;
+}
+
+export interface MonteCarloResponse {
+  id: number;
+  result: MonteCarloResult;
+}
+
+// Kept in its own module so the worker URL is only resolved where workers exist
+export const createMonteCarloWorker = (): Worker =>
+  new Worker(new URL('./monte-carlo.worker.ts', import.meta.url), { type: 'module' });
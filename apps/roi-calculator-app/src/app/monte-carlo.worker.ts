@@ -0,0 +1,8 @@
+import { runMonteCarlo } from '@stellarcyber/roi-engine';
+import type { MonteCarloRequest, MonteCarloResponse } from './monte-carlo-worker-client';
+
+globalThis.addEventListener('message', (event: MessageEvent<MonteCarloRequest>) => {
+  const { id, inputs, coefficients, uncertainties, iterations } = event.data;
+  const response: MonteCarloResponse = { id, result: runMonteCarlo(inputs, uncertainties, { iterations }, coefficients) };
+  globalThis.postMessage(response);
+});
@@ -0,0 +1,215 @@
+import React from 'react';
+import Box from '@mui/joy/Box';
+import Typography from '@mui/joy/Typography';
+import Button from '@mui/joy/Button';
+import Card from '@mui/joy/Card';
+import Grid from '@mui/joy/Grid';
+import Input from '@mui/joy/Input';
+import Table from '@mui/joy/Table';
+import {
+  calculatePortfolio,
+  calculateTenantResults,
+  validateInputValue,
+  type CalculationInputs,
+  type CalculationResults,
+  type MsspTenant,
+} from '@stellarcyber/roi-engine';
+import { formatCurrency, formatReportValue, getCurrencyLabel, getReportingCurrency } from './report-data';
+import { createScenarioId } from './scenarios';
+
+interface MsspPortfolioProps {
+  inputs: CalculationInputs;
+  results: CalculationResults;
+  // group names the edited control so a typing run is undone in one step
+  onTenantsChange: (tenants: MsspTenant[], group: string) => void;
+}
+
+type TenantNumberField = Exclude<keyof MsspTenant, 'id' | 'name'>;
+
+// Each tenant column and the input whose limits it shares
+const tenantColumns: { field: TenantNumberField; label: string; limitsOf: keyof CalculationInputs }[] = [
+  { field: 'employeeCount', label: 'Employees', limitsOf: 'employeeCount' },
+  { field: 'securityIncidentsPerMonth', label: 'Incidents / Month', limitsOf: 'unlinkedIncidentsPerMonth' },
+  { field: 'monthlyLogVolumeGB', label: 'Log GB / Month', limitsOf: 'monthlyLogVolumeGB' },
+  { field: 'falsePositiveRate', label: 'False Positives (%)', limitsOf: 'falsePositiveRate' },
+  { field: 'monthlyFee', label: 'Monthly Fee ($)', limitsOf: 'professionalServicesCost' },
+];
+
+// A new tenant starts from the given load, e.g. the organization the calculator was set up for
+export const createTenant = (
+  name: string,
+  load: Pick<MsspTenant, 'employeeCount' | 'securityIncidentsPerMonth' | 'monthlyLogVolumeGB' | 'falsePositiveRate'>
+): MsspTenant => ({
+  id: createScenarioId(),
+  name,
+  employeeCount: load.employeeCount,
+  securityIncidentsPerMonth: load.securityIncidentsPerMonth,
+  monthlyLogVolumeGB: load.monthlyLogVolumeGB,
+  falsePositiveRate: load.falsePositiveRate,
+  monthlyFee: 0,
+});
+
+export const MsspPortfolio: React.FC<MsspPortfolioProps> = ({ inputs, results, onTenantsChange }) => {
+  const currency = getReportingCurrency(inputs);
+  const tenantResults = calculateTenantResults(inputs, results);
+  const portfolio = calculatePortfolio(tenantResults);
+
+  const updateTenant = (id: string, changes: Partial<MsspTenant>) => {
+    onTenantsChange(
+      inputs.tenants.map((tenant) => (tenant.id === id ? { ...tenant, ...changes } : tenant)),
+      `tenants.${id}.${Object.keys(changes).join(',')}`
+    );
+  };
+
+  // Invalid entries keep the previous value
+  const updateNumber = (id: string, column: (typeof tenantColumns)[number], text: string) => {
+    const value = text.trim() === '' ? NaN : Number(text);
+    if (validateInputValue(column.limitsOf, value) === null) {
+      updateTenant(id, { [column.field]: value });
+    }
+  };
+
+  const addTenant = () => {
+    const last = inputs.tenants[inputs.tenants.length - 1];
+    onTenantsChange([...inputs.tenants, createTenant(`Tenant ${inputs.tenants.length + 1}`, last ?? inputs)], 'tenants');
+  };
+
+  const summary = [
+    { label: 'Portfolio Annual Savings', value: formatCurrency(portfolio.annualSavings, currency) },
+    { label: 'Portfolio ROI', value: formatReportValue(portfolio.roiPercentage, 'percentage') },
+    {
+      label: 'Portfolio Margin',
+      value: `${formatCurrency(portfolio.margin, currency)} (${formatReportValue(portfolio.marginPercentage, 'percentage')})`,
+    },
+  ];
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box sx={{ mb: 3 }}>
+        <Typography level="h2" sx={{ mb: 1 }}>
+          MSSP Tenant Portfolio
+        </Typography>
+        <Typography level="body-md" color="neutral">
+          One shared SOC sized from the combined tenant load. Shared costs are split by each tenant's share of incidents and log
+          volume, and margin is the fee charged less the cost to serve.
+        </Typography>
+      </Box>
+
+      <Grid container spacing={2} sx={{ mb: 3 }}>
+        {summary.map((item) => (
+          <Grid key={item.label} xs={12} sm={4}>
+            <Card variant="soft" color="primary" sx={{ textAlign: 'center', p: 2 }}>
+              <Typography level="body-sm">{item.label}</Typography>
+              <Typography level="h3">{item.value}</Typography>
+            </Card>
+          </Grid>
+        ))}
+      </Grid>
+
+      <Typography level="h4" sx={{ mb: 1 }}>
+        Tenants
+      </Typography>
+      <Box sx={{ overflowX: 'auto', mb: 1 }}>
+        <Table size="sm" sx={{ minWidth: '48rem' }}>
+          <thead>
+            <tr>
+              <th style={{ width: '22%' }}>Name</th>
+              {tenantColumns.map((column) => (
+                <th key={column.field}>{getCurrencyLabel(column.label, inputs.inputCurrency)}</th>
+              ))}
+              <th style={{ width: '6rem' }} aria-label="Actions" />
+            </tr>
+          </thead>
+          <tbody>
+            {inputs.tenants.map((tenant) => (
+              <tr key={tenant.id}>
+                <td>
+                  <Input size="sm" value={tenant.name} onChange={(e) => updateTenant(tenant.id, { name: e.target.value })} />
+                </td>
+                {tenantColumns.map((column) => (
+                  <td key={column.field}>
+                    <Input
+                      size="sm"
+                      type="number"
+                      value={tenant[column.field]}
+                      onChange={(e) => updateNumber(tenant.id, column, e.target.value)}
+                      slotProps={{ input: { min: 0, step: 'any' } }}
+                    />
+                  </td>
+                ))}
+                <td>
+                  <Button
+                    size="sm"
+                    variant="plain"
+                    color="danger"
+                    disabled={inputs.tenants.length === 1}
+                    onClick={() => onTenantsChange(inputs.tenants.filter((candidate) => candidate.id !== tenant.id), 'tenants')}
+                  >
+                    Remove
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </Table>
+      </Box>
+      <Button variant="outlined" onClick={addTenant} sx={{ mb: 3 }}>
+        Add Tenant
+      </Button>
+
+      <Typography level="h4" sx={{ mb: 1 }}>
+        ROI and Margin by Tenant
+      </Typography>
+      <Box sx={{ overflowX: 'auto' }}>
+        <Table
+          size="sm"
+          sx={{
+            minWidth: '48rem',
+            '& th, & td': { textAlign: 'right' },
+            '& th:first-of-type, & td:first-of-type': { textAlign: 'left' },
+            '& tfoot td': { fontWeight: 'lg' },
+          }}
+        >
+          <thead>
+            <tr>
+              <th>Tenant</th>
+              <th>Share of Incidents</th>
+              <th>Annual Savings</th>
+              <th>ROI</th>
+              <th>Cost to Serve</th>
+              <th>Revenue</th>
+              <th>Margin</th>
+              <th>Margin (%)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {tenantResults.map((tenant) => (
+              <tr key={tenant.id}>
+                <td>{tenant.name}</td>
+                <td>{formatReportValue(tenant.incidentShare, 'percentage')}</td>
+                <td>{formatCurrency(tenant.annualSavings, currency)}</td>
+                <td>{formatReportValue(tenant.roiPercentage, 'percentage')}</td>
+                <td>{formatCurrency(tenant.costToServe, currency)}</td>
+                <td>{formatCurrency(tenant.annualRevenue, currency)}</td>
+                <td>{formatCurrency(tenant.margin, currency)}</td>
+                <td>{formatReportValue(tenant.marginPercentage, 'percentage')}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr>
+              <td>Portfolio</td>
+              <td>{formatReportValue(100, 'percentage')}</td>
+              <td>{formatCurrency(portfolio.annualSavings, currency)}</td>
+              <td>{formatReportValue(portfolio.roiPercentage, 'percentage')}</td>
+              <td>{formatCurrency(portfolio.costToServe, currency)}</td>
+              <td>{formatCurrency(portfolio.annualRevenue, currency)}</td>
+              <td>{formatCurrency(portfolio.margin, currency)}</td>
+              <td>{formatReportValue(portfolio.marginPercentage, 'percentage')}</td>
+            </tr>
+          </tfoot>
+        </Table>
+      </Box>
+    </Box>
+  );
+};
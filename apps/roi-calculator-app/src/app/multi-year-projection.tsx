@@ -0,0 +1,89 @@
+import React from 'react';
+import Box from '@mui/joy/Box';
+import Typography from '@mui/joy/Typography';
+import Button from '@mui/joy/Button';
+import Card from '@mui/joy/Card';
+import Grid from '@mui/joy/Grid';
+import Table from '@mui/joy/Table';
+import ToggleButtonGroup from '@mui/joy/ToggleButtonGroup';
+import type { Projection } from '@stellarcyber/roi-engine';
+import { formatCurrency, type CurrencyDisplay } from './report-data';
+
+interface MultiYearProjectionProps {
+  projection: Projection;
+  projectionYears: number;
+  discountRate: number;
+  currency: CurrencyDisplay;
+  onProjectionYearsChange: (years: number) => void;
+}
+
+export const MultiYearProjection: React.FC<MultiYearProjectionProps> = ({
+  projection,
+  projectionYears,
+  discountRate,
+  currency,
+  onProjectionYearsChange,
+}) => {
+  const summary = [
+    { label: `${projectionYears}-Year Cumulative Savings`, value: formatCurrency(projection.cumulativeSavings, currency) },
+    { label: `NPV @ ${discountRate}%`, value: formatCurrency(projection.npv, currency) },
+    { label: 'IRR', value: projection.irr === null ? 'n/a' : `${projection.irr.toFixed(1)}%` },
+  ];
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+        <Box>
+          <Typography level="h2" sx={{ mb: 1 }}>
+            Multi-Year TCO Projection
+          </Typography>
+          <Typography level="body-md" color="neutral">
+            Human SOC vs Autonomous SOC cost with growth, inflation and price escalators
+          </Typography>
+        </Box>
+        <ToggleButtonGroup
+          size="sm"
+          value={String(projectionYears)}
+          onChange={(_, value) => value && onProjectionYearsChange(Number(value))}
+        >
+          <Button value="3">3 Years</Button>
+          <Button value="5">5 Years</Button>
+        </ToggleButtonGroup>
+      </Box>
+
+      <Grid container spacing={2} sx={{ mb: 3 }}>
+        {summary.map((item) => (
+          <Grid key={item.label} xs={12} sm={4}>
+            <Card variant="soft" color="primary" sx={{ textAlign: 'center', p: 2 }}>
+              <Typography level="body-sm">{item.label}</Typography>
+              <Typography level="h3">{item.value}</Typography>
+            </Card>
+          </Grid>
+        ))}
+      </Grid>
+
+      <Table size="sm" sx={{ '& th, & td': { textAlign: 'right' }, '& th:first-of-type, & td:first-of-type': { textAlign: 'left' } }}>
+        <thead>
+          <tr>
+            <th>Year</th>
+            <th>Human SOC Cost</th>
+            <th>Autonomous SOC Cost</th>
+            <th>Annual Savings</th>
+            <th>Cumulative Savings</th>
+          </tr>
+        </thead>
+        <tbody>
+          {projection.years.map((year) => (
+            <tr key={year.year}>
+              <td>Year {year.year}</td>
+              <td>{formatCurrency(year.humanSOCCost, currency)}</td>
+              <td>{formatCurrency(year.autonomousSOCCost, currency)}</td>
+              <td>{formatCurrency(year.annualSavings, currency)}</td>
+              <td>{formatCurrency(year.cumulativeSavings, currency)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </Table>
+    </Box>
+  );
+};
@@ -0,0 +1,25 @@
+import {
+  COEFFICIENT_GROUP_LABELS,
+  COEFFICIENT_LABELS,
+  DEFAULT_COEFFICIENTS,
+  defaultInputs,
+  getModelParameters,
+  type ModelParameter,
+} from '@stellarcyber/roi-engine';
+import { INPUT_LABELS } from './report-data';
+
+export const getParameterId = (parameter: ModelParameter): string =>
+  parameter.kind === 'input' ? `input:${parameter.field}` : `coefficient:${parameter.group}.${parameter.key}`;
+
+export const getParameterLabel = (parameter: ModelParameter): string => {
+  if (parameter.kind === 'input') {
+    return INPUT_LABELS[parameter.field];
+  }
+  const labels: Record<string, string> = COEFFICIENT_LABELS[parameter.group];
+  return `${COEFFICIENT_GROUP_LABELS[parameter.group]}: ${labels[parameter.key]}`;
+};
+
+// Every parameter an analysis can vary, for pickers
+export const PARAMETER_OPTIONS = getModelParameters({ inputs: defaultInputs, coefficients: DEFAULT_COEFFICIENTS }).map(
+  (parameter) => ({ id: getParameterId(parameter), label: getParameterLabel(parameter), parameter })
+);
@@ -1,5 +1,6 @@
 import React, { useState, useRef } from 'react';
 import Box from '@mui/joy/Box';
+import { DEFAULT_CURRENCY_DISPLAY, formatCurrency, type CurrencyDisplay } from './report-data';
 
 interface PieChartData {
   name: string;
@@ -10,12 +11,14 @@ interface PieChartData {
 
 interface PieChartProps {
   data: PieChartData[];
+  currency?: CurrencyDisplay;
   size?: number;
   strokeWidth?: number;
 }
 
 export const PieChart: React.FC<PieChartProps> = ({
   data,
+  currency = DEFAULT_CURRENCY_DISPLAY,
   size = 400,
   strokeWidth = 80
 }) => {
@@ -29,19 +32,10 @@ export const PieChart: React.FC<PieChartProps> = ({
 
   let currentAngle = -90; // Start from top
 
-  const formatCurrency = (amount: number): string => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(amount);
-  };
-
   // Calculate tooltip dimensions based on content
   const getTooltipDimensions = (name: string, value: number, description?: string) => {
     const nameLength = name.length;
-    const valueLength = formatCurrency(value).length;
+    const valueLength = formatCurrency(value, currency).length;
     const descLength = description ? description.length : 0;
 
     // Base width on longest text line
@@ -185,7 +179,7 @@ export const PieChart: React.FC<PieChartProps> = ({
               fontSize="11"
               fontWeight="600"
             >
-              {formatCurrency(item.value)}
+              {formatCurrency(item.value, currency)}
             </text>
             <text
               x={tooltipPosition.x}
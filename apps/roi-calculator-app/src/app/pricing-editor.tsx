@@ -0,0 +1,183 @@
+import React from 'react';
+import Box from '@mui/joy/Box';
+import Typography from '@mui/joy/Typography';
+import Button from '@mui/joy/Button';
+import Input from '@mui/joy/Input';
+import Select from '@mui/joy/Select';
+import Option from '@mui/joy/Option';
+import Grid from '@mui/joy/Grid';
+import Stack from '@mui/joy/Stack';
+import {
+  getPricingBreakdown,
+  PRICED_PRODUCTS,
+  PRICING_MODELS,
+  validateInputValue,
+  type CalculationInputs,
+  type PricedProduct,
+  type PriceTier,
+  type PricingModel,
+  type VolumePricing,
+} from '@stellarcyber/roi-engine';
+import { formatCurrency, getCurrencyLabel, getInputCurrency } from './report-data';
+
+interface PricingEditorProps {
+  inputs: CalculationInputs;
+  product: PricedProduct;
+  // group names the edited control so a typing run is undone in one step
+  onChange: (pricing: VolumePricing, group: string) => void;
+}
+
+const models = Object.keys(PRICING_MODELS) as PricingModel[];
+
+// Volumes share the limits of the log volume input, prices those of the unit price and the minimum those of other amounts
+type PricingLimits = 'monthlyLogVolumeGB' | 'pricePerSecurityIncident' | 'professionalServicesCost';
+
+// The entered number, or null when it is outside the limits so the previous value is kept
+const parseNumber = (text: string, limitsOf: PricingLimits): number | null => {
+  const value = text.trim() === '' ? NaN : Number(text);
+  return validateInputValue(limitsOf, value) === null ? value : null;
+};
+
+export const PricingEditor: React.FC<PricingEditorProps> = ({ inputs, product, onChange }) => {
+  const pricing = inputs[product];
+  const { label, unit, volumeField, unitPriceField } = PRICED_PRODUCTS[product];
+  const currencyLabel = (text: string) => getCurrencyLabel(text, inputs.inputCurrency);
+
+  const update = (changes: Partial<VolumePricing>, group = `${product}.${Object.keys(changes).join(',')}`) => {
+    onChange({ ...pricing, ...changes }, group);
+  };
+
+  const updateNumber = (key: 'committedVolume' | 'overagePrice' | 'minimumAnnualValue', text: string, limitsOf: PricingLimits) => {
+    const value = parseNumber(text, limitsOf);
+    if (value !== null) {
+      update({ [key]: value });
+    }
+  };
+
+  const updateTier = (index: number, key: keyof PriceTier, text: string) => {
+    const value = parseNumber(text, key === 'from' ? 'monthlyLogVolumeGB' : 'pricePerSecurityIncident');
+    if (value !== null) {
+      update({ tiers: pricing.tiers.map((tier, i) => (i === index ? { ...tier, [key]: value } : tier)) }, `${product}.tiers.${index}.${key}`);
+    }
+  };
+
+  // A new tier starts above the last one, the first at the current volume and unit price
+  const addTier = () => {
+    const last = pricing.tiers[pricing.tiers.length - 1];
+    const tier = last ? { from: last.from * 2, price: last.price } : { from: inputs[volumeField], price: inputs[unitPriceField] };
+    update({ tiers: [...pricing.tiers, tier] });
+  };
+
+  return (
+    <Stack spacing={2}>
+      <Typography level="title-md">{label}</Typography>
+      <Box>
+        <Typography level="body-sm" sx={{ mb: 1 }}>
+          Pricing Model
+        </Typography>
+        <Select value={pricing.model} onChange={(_, value) => value && update({ model: value })} size="sm">
+          {models.map((model) => (
+            <Option key={model} value={model}>
+              {PRICING_MODELS[model]}
+            </Option>
+          ))}
+        </Select>
+      </Box>
+      {pricing.model === 'tiered' && (
+        <>
+          {pricing.tiers.map((tier, index) => (
+            <Grid key={index} container spacing={1.5} sx={{ alignItems: 'flex-end' }}>
+              <Grid xs={5}>
+                <Typography level="body-sm" sx={{ mb: 1 }}>
+                  From ({unit} / month)
+                </Typography>
+                <Input
+                  size="sm"
+                  type="number"
+                  value={tier.from}
+                  onChange={(e) => updateTier(index, 'from', e.target.value)}
+                  slotProps={{ input: { min: 0, step: 'any' } }}
+                />
+              </Grid>
+              <Grid xs={4}>
+                <Typography level="body-sm" sx={{ mb: 1 }}>
+                  {currencyLabel('Unit Price ($)')}
+                </Typography>
+                <Input
+                  size="sm"
+                  type="number"
+                  value={tier.price}
+                  onChange={(e) => updateTier(index, 'price', e.target.value)}
+                  slotProps={{ input: { min: 0, step: 'any' } }}
+                />
+              </Grid>
+              <Grid xs={3}>
+                <Button
+                  size="sm"
+                  variant="plain"
+                  color="danger"
+                  onClick={() => update({ tiers: pricing.tiers.filter((_, i) => i !== index) })}
+                >
+                  Remove
+                </Button>
+              </Grid>
+            </Grid>
+          ))}
+          <Typography level="body-xs" color="neutral">
+            Each tier charges the volume from its start up to the next tier at its own price. Volume below the first tier is
+            charged at the unit price.
+          </Typography>
+          <Box>
+            <Button size="sm" variant="outlined" onClick={addTier}>
+              Add Tier
+            </Button>
+          </Box>
+        </>
+      )}
+      <Box>
+        <Typography level="body-sm" sx={{ mb: 1 }}>
+          Committed Monthly Volume ({unit})
+        </Typography>
+        <Input
+          size="sm"
+          type="number"
+          value={pricing.committedVolume}
+          onChange={(e) => updateNumber('committedVolume', e.target.value, 'monthlyLogVolumeGB')}
+          slotProps={{ input: { min: 0, step: 'any' } }}
+        />
+      </Box>
+      {pricing.committedVolume > 0 && (
+        <Box>
+          <Typography level="body-sm" sx={{ mb: 1 }}>
+            {currencyLabel('Overage Unit Price ($)')}
+          </Typography>
+          <Input
+            size="sm"
+            type="number"
+            value={pricing.overagePrice}
+            onChange={(e) => updateNumber('overagePrice', e.target.value, 'pricePerSecurityIncident')}
+            slotProps={{ input: { min: 0, step: 'any' } }}
+          />
+          <Typography level="body-xs" color="neutral" sx={{ mt: 0.5 }}>
+            At 0, volume above the commitment is charged at the tier prices.
+          </Typography>
+        </Box>
+      )}
+      <Box>
+        <Typography level="body-sm" sx={{ mb: 1 }}>
+          {currencyLabel('Minimum Annual Contract Value ($)')}
+        </Typography>
+        <Input
+          size="sm"
+          type="number"
+          value={pricing.minimumAnnualValue}
+          onChange={(e) => updateNumber('minimumAnnualValue', e.target.value, 'professionalServicesCost')}
+          slotProps={{ input: { min: 0, step: 'any' } }}
+        />
+      </Box>
+      <Typography level="body-sm" color="neutral">
+        {formatCurrency(getPricingBreakdown(inputs, product).annualCost, getInputCurrency(inputs))} per year
+      </Typography>
+    </Stack>
+  );
+};
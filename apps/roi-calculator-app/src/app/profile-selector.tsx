@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import Box from '@mui/joy/Box';
+import Typography from '@mui/joy/Typography';
+import Button from '@mui/joy/Button';
+import Checkbox from '@mui/joy/Checkbox';
+import Input from '@mui/joy/Input';
+import Select from '@mui/joy/Select';
+import Option from '@mui/joy/Option';
+import Modal from '@mui/joy/Modal';
+import ModalDialog from '@mui/joy/ModalDialog';
+import ModalClose from '@mui/joy/ModalClose';
+import {
+  convertCoefficients,
+  DEFAULT_COEFFICIENTS,
+  findMatchingProfile,
+  type AssumptionProfile,
+  type CurrencyCode,
+  type ModelCoefficients,
+} from '@stellarcyber/roi-engine';
+import { AssumptionsDialog } from './assumptions-dialog';
+import { getAllProfiles } from './assumption-profiles';
+
+interface ProfileSelectorProps {
+  coefficients: ModelCoefficients;
+  inputCurrency: CurrencyCode;
+  usdRate: number; // converts the built-in profiles into the input currency
+  userProfiles: AssumptionProfile[];
+  compareProfiles: boolean;
+  onCoefficientsChange: (coefficients: ModelCoefficients) => void;
+  onSaveProfile: (name: string) => void;
+  onDeleteProfile: (id: string) => void;
+  onCompareProfilesChange: (compare: boolean) => void;
+}
+
+// Shown while the coefficients no longer match any profile
+const CUSTOM_PROFILE_ID = 'custom';
+
+export const ProfileSelector: React.FC<ProfileSelectorProps> = ({
+  coefficients,
+  inputCurrency,
+  usdRate,
+  userProfiles,
+  compareProfiles,
+  onCoefficientsChange,
+  onSaveProfile,
+  onDeleteProfile,
+  onCompareProfilesChange,
+}) => {
+  const [profileName, setProfileName] = useState<string | null>(null);
+  const [isAssumptionsOpen, setIsAssumptionsOpen] = useState(false);
+  const profiles = getAllProfiles(userProfiles, usdRate);
+  const activeProfile = findMatchingProfile(coefficients, profiles);
+  const activeUserProfile = userProfiles.find((profile) => profile.id === activeProfile?.id);
+
+  const submitProfileName = () => {
+    if (!profileName?.trim()) {
+      return;
+    }
+    onSaveProfile(profileName.trim());
+    setProfileName(null);
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1 }}>
+      <Typography level="body-sm">Assumption profile:</Typography>
+      <Select
+        value={activeProfile?.id ?? CUSTOM_PROFILE_ID}
+        onChange={(_, value) => {
+          const profile = profiles.find((candidate) => candidate.id === value);
+          if (profile) {
+            onCoefficientsChange(profile.coefficients);
+          }
+        }}
+        size="sm"
+        sx={{ minWidth: '12rem' }}
+      >
+        {profiles.map((profile) => (
+          <Option key={profile.id} value={profile.id} title={profile.description}>
+            {profile.name}
+          </Option>
+        ))}
+        {!activeProfile && (
+          <Option value={CUSTOM_PROFILE_ID} disabled>
+            Custom
+          </Option>
+        )}
+      </Select>
+      <Button size="sm" variant="outlined" onClick={() => setIsAssumptionsOpen(true)}>
+        Edit Assumptions
+      </Button>
+      <Button size="sm" variant="outlined" disabled={Boolean(activeProfile)} onClick={() => setProfileName('')}>
+        Save as Profile
+      </Button>
+      {activeUserProfile && (
+        <Button size="sm" variant="outlined" color="danger" onClick={() => onDeleteProfile(activeUserProfile.id)}>
+          Delete Profile
+        </Button>
+      )}
+      <Checkbox
+        size="sm"
+        label="Show all three profiles"
+        checked={compareProfiles}
+        onChange={(e) => onCompareProfilesChange(e.target.checked)}
+        sx={{ ml: 1 }}
+      />
+
+      <AssumptionsDialog
+        open={isAssumptionsOpen}
+        title="Model Assumptions"
+        assumptions={coefficients}
+        defaults={convertCoefficients(DEFAULT_COEFFICIENTS, usdRate)}
+        currency={inputCurrency}
+        onChange={onCoefficientsChange}
+        onClose={() => setIsAssumptionsOpen(false)}
+      />
+
+      <Modal open={profileName !== null} onClose={() => setProfileName(null)}>
+        <ModalDialog aria-labelledby="profile-name-modal" size="sm">
+          <ModalClose />
+          <Typography id="profile-name-modal" level="h4">
+            Save Assumption Profile
+          </Typography>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              submitProfileName();
+            }}
+          >
+            <Input
+              autoFocus
+              value={profileName ?? ''}
+              onChange={(e) => setProfileName(e.target.value)}
+              placeholder="Profile name"
+              size="sm"
+              sx={{ mb: 2 }}
+            />
+            <Button type="submit" fullWidth disabled={!profileName?.trim()}>
+              Save
+            </Button>
+          </form>
+        </ModalDialog>
+      </Modal>
+    </Box>
+  );
+};
@@ -0,0 +1,132 @@
+import {
+  applyInputChange,
+  calculateComputedFields,
+  DEFAULT_COEFFICIENTS,
+  defaultInputs,
+  runCalculation,
+  setVolumePricing,
+} from '@stellarcyber/roi-engine';
+import {
+  formatReportValue,
+  getAssumptionRows,
+  getInputRows,
+  getKpiCards,
+  getMethodology,
+  getPricingTableRows,
+  getReportingCurrency,
+  INPUT_SECTIONS,
+} from './report-data';
+
+describe('report data', () => {
+  it('formats values for print', () => {
+    expect(formatReportValue(125000, 'currency')).toBe('$125,000');
+    expect(formatReportValue(1.5, 'currency')).toBe('$1.50');
+    expect(formatReportValue(42.345, 'percentage')).toBe('42.3%');
+    expect(formatReportValue(null, 'months')).toBe('Not reached');
+    expect(formatReportValue(true, 'boolean')).toBe('Yes');
+    expect(formatReportValue('emea', 'region')).toBe('EMEA');
+    expect(formatReportValue('custom', 'region')).toBe('Custom');
+  });
+
+  it('formats amounts in the reporting currency and its locale', () => {
+    const euro = { currency: 'EUR' as const, rate: 0.92 };
+    expect(formatReportValue(125000, 'currency', euro)).toBe(`115.000\u00a0€`);
+    expect(formatReportValue(1250, 'number', euro)).toBe('1.250');
+    expect(formatReportValue('JPY', 'currencyCode')).toBe('Japanese Yen (JPY)');
+    expect(getKpiCards({ ...defaultInputs, reportingCurrency: 'GBP', exchangeRate: 0.79 }, runCalculation(defaultInputs))[0].value).toMatch(/^£/);
+  });
+
+  it('lists every input section and hides coexistence fields when switching', () => {
+    const sections = getInputRows(defaultInputs);
+    expect(sections.map((section) => section.title)).toEqual(INPUT_SECTIONS.map((section) => section.title));
+    const labels = sections.flatMap((section) => section.rows.map((row) => row.label));
+    expect(labels).toContain('Number of Employees');
+    expect(labels).not.toContain('Log Volume Forwarded to Legacy SIEM');
+
+    const coexistence = calculateComputedFields({ ...defaultInputs, switchFromLegacySIEM: false });
+    const coexistenceLabels = getInputRows(coexistence).flatMap((section) => section.rows.map((row) => row.label));
+    expect(coexistenceLabels).toContain('Log Volume Forwarded to Legacy SIEM');
+
+    const pinned = getInputRows(applyInputChange(defaultInputs, 'humanSOCAnalysts', 9));
+    expect(pinned.flatMap((section) => section.rows)).toContainEqual({ label: 'SOC Analysts (pinned)', value: '9' });
+  });
+
+  it('lists the cost line items after the additional costs', () => {
+    const inputs = {
+      ...defaultInputs,
+      costItems: [
+        { id: 'a', name: 'SOAR', basis: 'annual', amount: 60000, unit: 'employee', treatment: 'retired', reductionPercentage: 0 },
+        { id: 'b', name: 'Training', basis: 'perUnit', amount: 1500, unit: 'socHeadcount', treatment: 'reduced', reductionPercentage: 25 },
+      ],
+    } as const;
+    const sections = getInputRows({ ...inputs, costItems: [...inputs.costItems] });
+    const titles = sections.map((section) => section.title);
+    expect(titles[titles.indexOf('Additional Costs') + 1]).toBe('Existing Security Stack');
+    const headcount = defaultInputs.humanSOCAnalysts + defaultInputs.humanSOCManager + defaultInputs.humanSOCEngineer + defaultInputs.humanSOCDirector;
+    expect(sections.find((section) => section.title === 'Existing Security Stack')?.rows).toEqual([
+      { label: 'SOAR', value: '$60,000 per year, retired by autonomous SOC' },
+      {
+        label: 'Training',
+        value: `${formatReportValue(headcount * 1500, 'currency')} per year ($1,500 per SOC head per year), reduced by 25.0%`,
+      },
+    ]);
+  });
+
+  it('lists the licensing plans and their tier breakdown when not priced flat', () => {
+    expect(getInputRows(defaultInputs).map((section) => section.title)).not.toContain('Licensing');
+    const inputs = setVolumePricing(defaultInputs, 'incidentPricing', {
+      model: 'tiered',
+      tiers: [{ from: 1000, price: 2 }],
+      committedVolume: 3000,
+      overagePrice: 2.5,
+      minimumAnnualValue: 0,
+    });
+    const titles = getInputRows(inputs).map((section) => section.title);
+    expect(titles[titles.indexOf('Additional Costs') + 1]).toBe('Licensing');
+    expect(getPricingTableRows(inputs, 'incidentPricing', getReportingCurrency(inputs))).toEqual([
+      ['Up to 1,000 incidents', '1,000', '$3', '$36,000'],
+      ['Over 1,000 incidents', '2,000', '$2', '$48,000'],
+      ['Overage', '0', '$2.50', '$0'],
+      ['Total', '2,400', '', '$84,000'],
+    ]);
+  });
+
+  it('builds the KPI cards from the calculation output', () => {
+    const output = runCalculation(defaultInputs);
+    const cards = getKpiCards(defaultInputs, output);
+    expect(cards.map((card) => card.title)).toEqual([
+      'Annual Savings',
+      'Annual Time Savings',
+      'Platform Savings',
+      'Freed Employees',
+      'ROI',
+      'Efficiency Improvement',
+      'Payback Period',
+      'First-Year ROI',
+    ]);
+    expect(cards[0].value).toBe(formatReportValue(output.results.annualSavings, 'currency'));
+  });
+
+  it('lists every value assumption with its source and flags edited ones', () => {
+    const rows = getAssumptionRows('value', { ...DEFAULT_COEFFICIENTS, value: { ...DEFAULT_COEFFICIENTS.value, escalationCost: 7500 } });
+    expect(rows).toHaveLength(Object.keys(DEFAULT_COEFFICIENTS.value).length);
+    expect(rows.every((row) => row.source.length > 0)).toBe(true);
+    expect(rows.find((row) => row.label === 'Cost of an escalated incident ($)')).toMatchObject({
+      value: '$7,500',
+      defaultValue: '$5,000',
+    });
+    expect(rows.find((row) => row.label === 'Escalation risk reduction (%)')).toMatchObject({ value: '30.0%', defaultValue: null });
+  });
+
+  it('lists the efficiency and incident response assumptions and describes the efficiency model from them', () => {
+    const coefficients = { ...DEFAULT_COEFFICIENTS, efficiency: { ...DEFAULT_COEFFICIENTS.efficiency, base: 28, cap: 70 } };
+    expect(getAssumptionRows('efficiency', coefficients).find((row) => row.label === 'Base efficiency improvement (%)')).toMatchObject({
+      value: '28.0%',
+      defaultValue: '38.0%',
+    });
+    expect(getAssumptionRows('incidentResponse', coefficients)).toHaveLength(Object.keys(DEFAULT_COEFFICIENTS.incidentResponse).length);
+    const efficiency = getMethodology(coefficients).find((note) => note.title === 'Efficiency improvement');
+    expect(efficiency?.body).toContain('A 28% automation baseline');
+    expect(efficiency?.body).toContain('above 1,024 GB per month (0.001 points per GB, up to 15), capped at 70%.');
+  });
+});
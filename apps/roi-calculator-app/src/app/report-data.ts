@@ -0,0 +1,597 @@
+import {
+  COEFFICIENT_LABELS,
+  COST_ITEM_TREATMENTS,
+  COST_ITEM_UNITS,
+  calculatePortfolio,
+  calculateTenantResults,
+  CURRENCIES,
+  DEFAULT_COEFFICIENTS,
+  getCostItemAnnualCost,
+  getPricingBreakdown,
+  INDUSTRY_PRESETS,
+  isFlatPricing,
+  PRICED_PRODUCTS,
+  PRICING_MODELS,
+  SALARY_PRESETS,
+  VALUE_COEFFICIENT_SOURCES,
+  type BaseInputs,
+  type CalculationInputs,
+  type CalculationOutput,
+  type CalculationResults,
+  type CoefficientGroup,
+  type CostLineItem,
+  type CurrencyCode,
+  type InputField,
+  type ModelCoefficients,
+  type MsspTenant,
+  type PriceBand,
+  type PricedProduct,
+  type TraceStep,
+} from '@stellarcyber/roi-engine';
+
+export type ReportFormat =
+  | 'currency'
+  | 'percentage'
+  | 'number'
+  | 'decimal'
+  | 'months'
+  | 'hours'
+  | 'multiplier'
+  | 'boolean'
+  | 'region'
+  | 'industry'
+  | 'currencyCode'
+  | 'rate';
+
+// The currency amounts are shown in and the rate applied to amounts held in the input currency
+export interface CurrencyDisplay {
+  currency: CurrencyCode;
+  rate: number;
+  // ISO code in place of the symbol, for output whose fonts lack some symbols
+  currencyDisplay?: 'symbol' | 'code';
+}
+
+export interface ReportField {
+  field: InputField;
+  label: string;
+  format: ReportFormat;
+}
+
+export interface ReportSection {
+  title: string;
+  fields: ReportField[];
+}
+
+export interface ReportRow {
+  label: string;
+  value: string;
+}
+
+export interface AssumptionRow extends ReportRow {
+  source: string;
+  defaultValue: string | null; // null while the assumption is left at its default
+}
+
+export interface KpiCard {
+  title: string;
+  value: string;
+  subtitle: string;
+}
+
+export interface MethodologyNote {
+  title: string;
+  body: string;
+}
+
+// Mirrors the Model Customization sections so the report reads like the calculator
+export const INPUT_SECTIONS: ReportSection[] = [
+  {
+    title: 'Basic Configuration',
+    fields: [
+      { field: 'employeeCount', label: 'Number of Employees', format: 'number' },
+      { field: 'industry', label: 'Industry', format: 'industry' },
+      { field: 'incidentsPerEmployee', label: 'Monthly Incidents per Employee', format: 'decimal' },
+      { field: 'linkEmployeesToIncidents', label: 'Link Employees to Incidents', format: 'boolean' },
+      { field: 'securityIncidentsPerMonth', label: 'Security Incidents per Month', format: 'number' },
+      { field: 'unlinkedIncidentsPerMonth', label: 'Independent Security Incidents per Month', format: 'number' },
+      { field: 'msspMode', label: 'MSSP Mode', format: 'boolean' },
+    ],
+  },
+  {
+    title: 'Security Metrics',
+    fields: [
+      { field: 'averageIncidentResponseTime', label: 'Average Incident Response Time (hours)', format: 'decimal' },
+      { field: 'falsePositiveRate', label: 'False Positive Rate', format: 'percentage' },
+      { field: 'pricePerSecurityIncident', label: 'Price per Security Incident', format: 'currency' },
+      { field: 'logVolumeIncidentRatio', label: 'Log Volume Incident Ratio', format: 'decimal' },
+      { field: 'monthlyLogVolumeGB', label: 'Monthly Log Volume (GB)', format: 'number' },
+    ],
+  },
+  {
+    title: 'Human SOC Team',
+    fields: [
+      { field: 'humanSOCAnalysts', label: 'SOC Analysts', format: 'number' },
+      { field: 'humanSOCManager', label: 'SOC Managers', format: 'number' },
+      { field: 'humanSOCEngineer', label: 'SOC Engineers', format: 'number' },
+      { field: 'humanSOCDirector', label: 'SOC Director', format: 'number' },
+    ],
+  },
+  {
+    title: 'Staffing Ratios',
+    fields: [
+      { field: 'incidentsPerAnalyst', label: 'Monthly Incidents per Analyst', format: 'number' },
+      { field: 'incidentsPerManager', label: 'Monthly Incidents per Manager', format: 'number' },
+      { field: 'incidentsPerEngineer', label: 'Monthly Incidents per Engineer', format: 'number' },
+      { field: 'incidentsPerDirector', label: 'Monthly Incidents per Director', format: 'number' },
+      { field: 'minAnalysts', label: 'Minimum Analysts', format: 'number' },
+      { field: 'minManagers', label: 'Minimum Managers', format: 'number' },
+      { field: 'minEngineers', label: 'Minimum Engineers', format: 'number' },
+      { field: 'minDirectors', label: 'Minimum Directors', format: 'number' },
+      { field: 'analystsPerManager', label: 'Analysts per Manager', format: 'number' },
+      { field: 'managersPerDirector', label: 'Managers per Director', format: 'number' },
+    ],
+  },
+  {
+    title: 'Salary Bands',
+    fields: [
+      { field: 'salaryRegion', label: 'Region', format: 'region' },
+      { field: 'analystSalary', label: 'SOC Analyst Salary', format: 'currency' },
+      { field: 'managerSalary', label: 'SOC Manager Salary', format: 'currency' },
+      { field: 'engineerSalary', label: 'SOC Engineer Salary', format: 'currency' },
+      { field: 'directorSalary', label: 'SOC Director Salary', format: 'currency' },
+      { field: 'laborOverheadMultiplier', label: 'Benefits & Overhead Multiplier', format: 'multiplier' },
+    ],
+  },
+  {
+    title: 'Additional Costs',
+    fields: [
+      { field: 'legacySIEMPricePerGB', label: 'Legacy SIEM Price per GB', format: 'currency' },
+      { field: 'siemLicensingCosts', label: 'Annual SIEM Licensing Costs', format: 'currency' },
+      { field: 'stellarXDRCostPerGB', label: 'Stellar XDR Cost per GB', format: 'currency' },
+      { field: 'stellarXDRPlatformCosts', label: 'Annual Stellar XDR Platform Costs', format: 'currency' },
+      { field: 'switchFromLegacySIEM', label: 'Switch from Legacy SIEM', format: 'boolean' },
+      { field: 'siemLogForwardingPercentage', label: 'Log Volume Forwarded to Legacy SIEM', format: 'percentage' },
+      { field: 'xdrLogForwardingPercentage', label: 'Log Volume Forwarded to Stellar XDR', format: 'percentage' },
+    ],
+  },
+  {
+    title: 'Implementation Costs',
+    fields: [
+      { field: 'professionalServicesCost', label: 'Professional Services', format: 'currency' },
+      { field: 'siemMigrationCost', label: 'SIEM Migration', format: 'currency' },
+      { field: 'trainingCost', label: 'Training', format: 'currency' },
+      { field: 'dualRunningMonths', label: 'Dual-Running Period', format: 'months' },
+      { field: 'rampUpMonths', label: 'Efficiency Ramp-Up Period', format: 'months' },
+    ],
+  },
+  {
+    title: 'Multi-Year Projection',
+    fields: [
+      { field: 'projectionYears', label: 'Projection Horizon (years)', format: 'number' },
+      { field: 'employeeGrowthRate', label: 'Annual Employee Growth', format: 'percentage' },
+      { field: 'logVolumeGrowthRate', label: 'Annual Log Volume Growth', format: 'percentage' },
+      { field: 'salaryInflationRate', label: 'Annual Salary Inflation', format: 'percentage' },
+      { field: 'legacySIEMPriceEscalator', label: 'Legacy SIEM Annual Price Escalator', format: 'percentage' },
+      { field: 'stellarPriceEscalator', label: 'Stellar Cyber Annual Price Escalator', format: 'percentage' },
+      { field: 'discountRate', label: 'Discount Rate', format: 'percentage' },
+    ],
+  },
+  {
+    title: 'Currency',
+    fields: [
+      { field: 'inputCurrency', label: 'Input Currency', format: 'currencyCode' },
+      { field: 'reportingCurrency', label: 'Reporting Currency', format: 'currencyCode' },
+      { field: 'exchangeRate', label: 'Exchange Rate (reporting per input unit)', format: 'rate' },
+    ],
+  },
+];
+
+export const INPUT_LABELS = Object.fromEntries(
+  INPUT_SECTIONS.flatMap((section) => section.fields.map(({ field, label }) => [field, label]))
+) as Record<InputField, string>;
+
+// Forwarding percentages only apply when the legacy SIEM stays in place
+const COEXISTENCE_FIELDS: InputField[] = ['siemLogForwardingPercentage', 'xdrLogForwardingPercentage'];
+
+// Span-of-control rules are off at 0, in which case the incident ratio applies
+const SPAN_OF_CONTROL_FIELDS: InputField[] = ['analystsPerManager', 'managersPerDirector'];
+
+// Pinned overrides are marked so readers know the value was set by hand rather than computed
+export const getInputLabel = (inputs: Pick<BaseInputs, 'overrides'>, field: InputField, label: string): string =>
+  field in inputs.overrides ? `${label} (pinned)` : label;
+
+export const DEFAULT_CURRENCY_DISPLAY: CurrencyDisplay = { currency: 'USD', rate: 1 };
+
+// Inputs and assumptions are shown as entered
+export const getInputCurrency = (inputs: Pick<BaseInputs, 'inputCurrency'>): CurrencyDisplay => ({
+  currency: inputs.inputCurrency,
+  rate: 1,
+});
+
+// Results are converted into the reporting currency
+export const getReportingCurrency = (inputs: Pick<BaseInputs, 'reportingCurrency' | 'exchangeRate'>): CurrencyDisplay => ({
+  currency: inputs.reportingCurrency,
+  rate: inputs.exchangeRate,
+});
+
+const getCurrencyFormat = (currency: CurrencyCode, options: Intl.NumberFormatOptions = {}): Intl.NumberFormat =>
+  new Intl.NumberFormat(CURRENCIES[currency].locale, { style: 'currency', currency, ...options });
+
+export const getCurrencySymbol = (currency: CurrencyCode, currencyDisplay: CurrencyDisplay['currencyDisplay'] = 'symbol'): string =>
+  getCurrencyFormat(currency, { currencyDisplay })
+    .formatToParts(0)
+    .find((part) => part.type === 'currency')?.value ?? currency;
+
+// Labels carry their unit, e.g. "Salary ($)", which is shown with the symbol of the currency in use
+export const getCurrencyLabel = (
+  label: string,
+  currency: CurrencyCode,
+  currencyDisplay: CurrencyDisplay['currencyDisplay'] = 'symbol'
+): string => label.replace('($)', `(${getCurrencySymbol(currency, currencyDisplay)})`);
+
+export const formatCurrency = (amount: number, display: CurrencyDisplay = DEFAULT_CURRENCY_DISPLAY): string => {
+  const value = amount * display.rate;
+  const format = getCurrencyFormat(display.currency, { currencyDisplay: display.currencyDisplay ?? 'symbol' });
+  // Keep cents on small unit prices such as per-GB rates, for currencies that have them
+  const fractionDigits =
+    Number.isInteger(value) || Math.abs(value) >= 100 ? 0 : format.resolvedOptions().maximumFractionDigits ?? 2;
+  return getCurrencyFormat(display.currency, {
+    currencyDisplay: display.currencyDisplay ?? 'symbol',
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  }).format(value);
+};
+
+export const formatReportValue = (
+  value: number | string | boolean | null,
+  format: ReportFormat,
+  currency: CurrencyDisplay = DEFAULT_CURRENCY_DISPLAY
+): string => {
+  if (value === null) {
+    return 'Not reached';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'Yes' : 'No';
+  }
+  if (typeof value === 'string') {
+    if (format === 'industry') {
+      return INDUSTRY_PRESETS[value as keyof typeof INDUSTRY_PRESETS]?.label ?? 'Custom';
+    }
+    if (format === 'currencyCode') {
+      return value in CURRENCIES ? `${CURRENCIES[value as CurrencyCode].label} (${value})` : value;
+    }
+    return format === 'region' ? SALARY_PRESETS[value as keyof typeof SALARY_PRESETS]?.label ?? 'Custom' : value;
+  }
+
+  const { locale } = CURRENCIES[currency.currency];
+  switch (format) {
+    case 'currency':
+      return formatCurrency(value, currency);
+    case 'percentage':
+      return `${value.toFixed(1)}%`;
+    case 'decimal':
+      return value.toLocaleString(locale, { maximumFractionDigits: 2 });
+    case 'rate':
+      return value.toLocaleString(locale, { maximumSignificantDigits: 6 });
+    case 'months':
+      return `${value.toFixed(1)} months`;
+    case 'hours':
+      return `${Math.round(value).toLocaleString(locale)} hrs`;
+    case 'multiplier':
+      return `${value.toFixed(2)}x`;
+    default:
+      return Math.round(value).toLocaleString(locale);
+  }
+};
+
+export const COST_ITEMS_SECTION_TITLE = 'Existing Security Stack';
+
+export const getCostItemTreatmentLabel = (item: CostLineItem): string =>
+  item.treatment === 'reduced' ? `Reduced by ${formatReportValue(item.reductionPercentage, 'percentage')}` : COST_ITEM_TREATMENTS[item.treatment];
+
+// e.g. "$12,000 per year ($2.00 per employee per year), retired by autonomous SOC"
+export const describeCostItem = (item: CostLineItem, inputs: CalculationInputs, currency: CurrencyDisplay): string => {
+  const annualCost = `${formatCurrency(getCostItemAnnualCost(item, inputs), currency)} per year`;
+  const pricing = item.basis === 'perUnit' ? ` (${formatCurrency(item.amount, currency)} ${COST_ITEM_UNITS[item.unit]})` : '';
+  const treatment = getCostItemTreatmentLabel(item);
+  return `${annualCost}${pricing}, ${treatment.charAt(0).toLowerCase()}${treatment.slice(1)}`;
+};
+
+export const TENANTS_SECTION_TITLE = 'MSSP Tenants';
+
+// e.g. "800 employees, 3,200 incidents and 4,000 GB of logs a month, 85.0% false positives, $15,000 monthly fee"
+export const describeTenant = (tenant: MsspTenant, currency: CurrencyDisplay): string =>
+  `${formatReportValue(tenant.employeeCount, 'number', currency)} employees, ` +
+  `${formatReportValue(tenant.securityIncidentsPerMonth, 'number', currency)} incidents and ` +
+  `${formatReportValue(tenant.monthlyLogVolumeGB, 'number', currency)} GB of logs a month, ` +
+  `${formatReportValue(tenant.falsePositiveRate, 'percentage')} false positives, ${formatCurrency(tenant.monthlyFee, currency)} monthly fee`;
+
+export const TENANT_TABLE_COLUMNS = ['Tenant', 'Annual Savings', 'ROI', 'Cost to Serve', 'Revenue', 'Margin'];
+
+// One row per tenant and a portfolio total, amounts in the reporting currency
+export const getTenantTableRows = (inputs: CalculationInputs, results: CalculationResults, currency: CurrencyDisplay): string[][] => {
+  const tenants = calculateTenantResults(inputs, results);
+  return [...tenants, { ...calculatePortfolio(tenants), name: 'Portfolio' }].map((tenant) => [
+    tenant.name,
+    formatCurrency(tenant.annualSavings, currency),
+    formatReportValue(tenant.roiPercentage, 'percentage'),
+    formatCurrency(tenant.costToServe, currency),
+    formatCurrency(tenant.annualRevenue, currency),
+    `${formatCurrency(tenant.margin, currency)} (${formatReportValue(tenant.marginPercentage, 'percentage')})`,
+  ]);
+};
+
+export const PRICING_SECTION_TITLE = 'Licensing';
+
+// True when either product has licensing terms beyond its unit price
+export const hasVolumePricing = (inputs: Pick<BaseInputs, PricedProduct>): boolean =>
+  !isFlatPricing(inputs.incidentPricing) || !isFlatPricing(inputs.logVolumePricing);
+
+// e.g. "Up to 1,000 incidents", "1,000 to 5,000 incidents" or "Over 5,000 incidents"
+export const describePriceBand = (band: Pick<PriceBand, 'from' | 'to'>, unit: string): string => {
+  const format = (volume: number) => formatReportValue(volume, 'number');
+  if (band.to === null) {
+    return band.from === 0 ? `All ${unit}` : `Over ${format(band.from)} ${unit}`;
+  }
+  return band.from === 0 ? `Up to ${format(band.to)} ${unit}` : `${format(band.from)} to ${format(band.to)} ${unit}`;
+};
+
+// e.g. "Volume tiers from 1,000 incidents at $2.00, 5,000 committed a month with overage at $2.50, $50,000 annual minimum"
+export const describeVolumePricing = (inputs: CalculationInputs, product: PricedProduct, currency: CurrencyDisplay): string => {
+  const pricing = inputs[product];
+  const { unit } = PRICED_PRODUCTS[product];
+  const tiers =
+    pricing.model === 'tiered' && pricing.tiers.length > 0
+      ? ` from ${[...pricing.tiers]
+          .sort((a, b) => a.from - b.from)
+          .map((tier) => `${formatReportValue(tier.from, 'number')} ${unit} at ${formatCurrency(tier.price, currency)}`)
+          .join(', ')}`
+      : '';
+  const commitment =
+    pricing.committedVolume > 0
+      ? `, ${formatReportValue(pricing.committedVolume, 'number')} ${unit} committed a month with overage at ` +
+        (pricing.overagePrice > 0 ? formatCurrency(pricing.overagePrice, currency) : 'the tier prices')
+      : '';
+  const minimum = pricing.minimumAnnualValue > 0 ? `, ${formatCurrency(pricing.minimumAnnualValue, currency)} annual minimum` : '';
+  return `${PRICING_MODELS[pricing.model]}${tiers}${commitment}${minimum}`;
+};
+
+export const PRICING_TABLE_COLUMNS = ['Tier', 'Monthly Volume', 'Unit Price', 'Annual Cost'];
+
+// One row per price band, then the overage, the top-up to the minimum and the total, amounts in the reporting currency
+export const getPricingTableRows = (inputs: CalculationInputs, product: PricedProduct, currency: CurrencyDisplay): string[][] => {
+  const breakdown = getPricingBreakdown(inputs, product);
+  const { unit } = PRICED_PRODUCTS[product];
+  const volume = (value: number) => formatReportValue(value, 'number');
+  return [
+    ...breakdown.bands.map((band) => [
+      describePriceBand(band, unit),
+      volume(band.volume),
+      formatCurrency(band.price, currency),
+      formatCurrency(band.annualCost, currency),
+    ]),
+    // Without an overage price the volume above the commitment is in the bands
+    ...(inputs[product].committedVolume > 0 && inputs[product].overagePrice > 0
+      ? [
+          [
+            'Overage',
+            volume(breakdown.overageVolume),
+            formatCurrency(inputs[product].overagePrice, currency),
+            formatCurrency(breakdown.overageCost, currency),
+          ],
+        ]
+      : []),
+    ...(breakdown.minimumTopUp > 0 ? [['Minimum contract top-up', '', '', formatCurrency(breakdown.minimumTopUp, currency)]] : []),
+    ['Total', volume(breakdown.volume), '', formatCurrency(breakdown.annualCost, currency)],
+  ];
+};
+
+const getPricingSection = (inputs: CalculationInputs, currency: CurrencyDisplay): { title: string; rows: ReportRow[] } => ({
+  title: PRICING_SECTION_TITLE,
+  rows: (Object.keys(PRICED_PRODUCTS) as PricedProduct[]).map((product) => ({
+    label: PRICED_PRODUCTS[product].label,
+    value: describeVolumePricing(inputs, product, currency),
+  })),
+});
+
+const getTenantSection = (inputs: CalculationInputs, currency: CurrencyDisplay): { title: string; rows: ReportRow[] } => ({
+  title: TENANTS_SECTION_TITLE,
+  rows: inputs.tenants.map((tenant) => ({ label: tenant.name, value: describeTenant(tenant, currency) })),
+});
+
+const getCostItemSection = (inputs: CalculationInputs, currency: CurrencyDisplay): { title: string; rows: ReportRow[] } => ({
+  title: COST_ITEMS_SECTION_TITLE,
+  rows: inputs.costItems.map((item) => ({ label: item.name, value: describeCostItem(item, inputs, currency) })),
+});
+
+// Inputs are listed in the currency they were entered in. The MSSP tenants follow the basic configuration,
+// and the licensing terms and cost line items follow the other additional costs.
+export const getInputRows = (inputs: CalculationInputs, currencyDisplay?: CurrencyDisplay['currencyDisplay']): { title: string; rows: ReportRow[] }[] =>
+  INPUT_SECTIONS.flatMap((section) => {
+    const currency = { ...getInputCurrency(inputs), currencyDisplay };
+    const rows = section.fields
+      .filter(({ field }) => !inputs.switchFromLegacySIEM || !COEXISTENCE_FIELDS.includes(field))
+      .filter(({ field }) => inputs[field] !== 0 || !SPAN_OF_CONTROL_FIELDS.includes(field))
+      // The independent incident volume is already shown as the incidents per month
+      .filter(({ field }) => field !== 'unlinkedIncidentsPerMonth')
+      // A rate between a currency and itself says nothing
+      .filter(({ field }) => field !== 'exchangeRate' || inputs.inputCurrency !== inputs.reportingCurrency)
+      .map(({ field, label, format }) => ({
+        label: getInputLabel(inputs, field, label),
+        value: formatReportValue(inputs[field], format, currency),
+      }));
+    if (section.title === 'Basic Configuration' && inputs.msspMode && inputs.tenants.length > 0) {
+      return [{ title: section.title, rows }, getTenantSection(inputs, currency)];
+    }
+    if (section.title === 'Additional Costs') {
+      return [
+        { title: section.title, rows },
+        ...(hasVolumePricing(inputs) ? [getPricingSection(inputs, currency)] : []),
+        ...(inputs.costItems.length > 0 ? [getCostItemSection(inputs, currency)] : []),
+      ];
+    }
+    return [{ title: section.title, rows }];
+  });
+
+// Coefficient labels end with their unit, e.g. "(%)" or "($)"
+export const getCoefficientFormat = (label: string): ReportFormat =>
+  label.endsWith('(%)') ? 'percentage' : label.endsWith('($)') ? 'currency' : 'decimal';
+
+// Assumptions are entered in the input currency, the USD defaults are converted for comparison.
+// Only the value model assumptions have a documented source.
+export const getAssumptionRows = (
+  group: CoefficientGroup,
+  coefficients: ModelCoefficients,
+  currency: CurrencyDisplay = DEFAULT_CURRENCY_DISPLAY,
+  defaults: ModelCoefficients = DEFAULT_COEFFICIENTS
+): AssumptionRow[] => {
+  const labels: Record<string, string> = COEFFICIENT_LABELS[group];
+  const sources: Record<string, string> = group === 'value' ? VALUE_COEFFICIENT_SOURCES : {};
+  const values: Record<string, number> = { ...coefficients[group] };
+  const defaultValues: Record<string, number> = { ...defaults[group] };
+  return Object.keys(DEFAULT_COEFFICIENTS[group]).map((key) => {
+    const format = getCoefficientFormat(labels[key]);
+    return {
+      label: getCurrencyLabel(labels[key], currency.currency, currency.currencyDisplay),
+      value: formatReportValue(values[key], format, currency),
+      source: sources[key] ?? '',
+      defaultValue: values[key] === defaultValues[key] ? null : formatReportValue(defaultValues[key], format, currency),
+    };
+  });
+};
+
+// "Label = value" for each figure substituted into a trace step's formula
+export const formatTraceSubstitution = (step: TraceStep, currency: CurrencyDisplay = DEFAULT_CURRENCY_DISPLAY): string =>
+  step.operands.map((operand) => `${operand.label} = ${formatReportValue(operand.value, operand.format, currency)}`).join(', ');
+
+export const getTraceCapNote = (step: TraceStep): string | null =>
+  step.capApplied === undefined ? null : step.capApplied ? 'Cap applied' : 'Below cap';
+
+// Same order and wording as the KPI cards on the calculator
+export const getKpiCards = (
+  inputs: CalculationInputs,
+  { results, workforce }: CalculationOutput,
+  currency: CurrencyDisplay = getReportingCurrency(inputs)
+): KpiCard[] => [
+  {
+    title: 'Annual Savings',
+    value: formatReportValue(results.annualSavings, 'currency', currency),
+    subtitle: 'Cost reduction with Autonomous SOC',
+  },
+  {
+    title: 'Annual Time Savings',
+    value: formatReportValue(workforce.annualTimeSavings, 'hours'),
+    subtitle: 'Saved worker hours per year',
+  },
+  {
+    title: 'Platform Savings',
+    value: formatReportValue(results.platformSavings, 'currency', currency),
+    subtitle: inputs.switchFromLegacySIEM ? 'Stellar XDR platform savings' : 'Legacy SIEM and Stellar XDR coexistence',
+  },
+  {
+    title: 'Freed Employees',
+    value: formatReportValue(workforce.freedEmployees, 'number'),
+    subtitle: 'Team members freed for higher-value work',
+  },
+  {
+    title: 'ROI',
+    value: formatReportValue(results.roiPercentage, 'percentage'),
+    subtitle: 'Return on investment',
+  },
+  {
+    title: 'Efficiency Improvement',
+    value: formatReportValue(results.efficiencyImprovement, 'percentage'),
+    subtitle: 'Operational efficiency gain',
+  },
+  {
+    title: 'Payback Period',
+    value: formatReportValue(results.paybackPeriod, 'months'),
+    subtitle: 'Including one-time costs and ramp-up',
+  },
+  {
+    title: 'First-Year ROI',
+    value: formatReportValue(results.firstYearROIPercentage, 'percentage'),
+    subtitle: `${formatReportValue(results.firstYearSavings, 'currency', currency)} net savings in year 1`,
+  },
+];
+
+// Weights can be small fractions of a point, e.g. 0.001 per GB
+const formatPoints = (value: number): string => formatReportValue(value, 'rate');
+
+// Built from the scenario's coefficients so the appendix matches the figures in the report
+export const getMethodology = ({ efficiency }: ModelCoefficients): MethodologyNote[] => [
+  {
+    title: 'Human SOC cost',
+    body:
+      'Each SOC role is costed at its base salary multiplied by the benefits & overhead multiplier. ' +
+      'Headcount is derived from monthly security incidents using the staffing ratios (incidents per head, minimum headcount and ' +
+      'optional analysts per manager and managers per director) unless overridden. Annual SIEM licensing and any other ' +
+      'security stack costs are added to personnel cost.',
+  },
+  {
+    title: 'Autonomous SOC cost',
+    body:
+      'Monthly security incidents multiplied by the price per security incident, annualised over 12 months. With volume licensing, ' +
+      'each price tier charges the incidents within it at its own price, a committed volume is billed in full with incidents above it ' +
+      'at the overage price or, without one, the tier prices, and the annual total is raised to the minimum contract value. ' +
+      'Stellar XDR platform costs are priced from the monthly log volume in the same way.',
+  },
+  {
+    title: 'Efficiency improvement',
+    body:
+      `A ${formatPoints(efficiency.base)}% automation baseline plus uplifts for false positive rate ` +
+      `(${formatPoints(efficiency.falsePositiveWeight)} points per %, up to ${formatPoints(efficiency.falsePositiveCap)}), response time ` +
+      `(${formatPoints(efficiency.responseTimeWeight)} points per hour, up to ${formatPoints(efficiency.responseTimeCap)}) and log volume ` +
+      `above ${formatReportValue(efficiency.logVolumeThresholdGB, 'number')} GB per month ` +
+      `(${formatPoints(efficiency.logVolumeWeight)} points per GB, up to ${formatPoints(efficiency.logVolumeCap)}), ` +
+      `capped at ${formatPoints(efficiency.cap)}%. ` +
+      'The human SOC personnel and SIEM licensing cost is reduced by this percentage, personnel only when the legacy SIEM is ' +
+      'kept in coexistence. Other security stack costs are instead ' +
+      'retired, reduced by their own percentage or left unchanged as set for each line item.',
+  },
+  {
+    title: 'Platform savings',
+    body:
+      'Current SIEM licensing minus platform spend after the change. When switching, the legacy SIEM is retired; ' +
+      'in coexistence each platform is licensed for the share of log volume forwarded to it, with Stellar XDR priced for its ' +
+      'forwarded volume.',
+  },
+  {
+    title: 'Annual savings and ROI',
+    body:
+      'Annual savings are the efficiency savings on the human SOC cost, less the autonomous SOC cost, plus platform savings. ' +
+      'ROI is annual savings divided by the autonomous SOC cost.',
+  },
+  {
+    title: 'Payback and first-year ROI',
+    body:
+      'One-time costs (professional services, migration, training and dual running of the legacy SIEM) are recovered month by month ' +
+      'while efficiency ramps up linearly over the ramp-up period. First-year ROI divides year-one net savings by year-one spend.',
+  },
+  {
+    title: 'Multi-year projection',
+    body:
+      'Employee and log volume growth, salary inflation and both price escalators compound annually. ' +
+      'NPV discounts yearly cash flows at the discount rate and IRR is the rate at which NPV is zero.',
+  },
+  {
+    title: 'Value creation',
+    body:
+      'Additional value beyond direct savings is estimated per category from analyst hourly cost and the value model assumptions: ' +
+      'false positives avoided, escalations prevented, analyst time redirected to higher-value work, faster response, lower turnover, ' +
+      'compliance effort saved, and stress reduction and shift coverage per analyst. Each assumption and its source is listed with the inputs.',
+  },
+  {
+    title: 'Currency',
+    body:
+      'Prices, salaries and monetary assumptions are entered in the input currency. Results are converted into the reporting ' +
+      'currency at the scenario exchange rate, taken from an editable table of indicative rates when either currency is chosen.',
+  },
+  {
+    title: 'MSSP portfolio',
+    body:
+      'In MSSP mode one shared SOC is sized from the combined load of all tenants, with the false positive rate weighted by ' +
+      'incident volume. Each tenant carries the share of staffing, cost items and autonomous SOC licensing that matches its incidents, ' +
+      'and the share of SIEM and platform costs that matches its log volume. Margin is the fee charged to the tenant less its cost to serve.',
+  },
+];
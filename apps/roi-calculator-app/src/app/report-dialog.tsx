@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import Box from '@mui/joy/Box';
+import Typography from '@mui/joy/Typography';
+import Button from '@mui/joy/Button';
+import Input from '@mui/joy/Input';
+import Stack from '@mui/joy/Stack';
+import Modal from '@mui/joy/Modal';
+import ModalDialog from '@mui/joy/ModalDialog';
+import ModalClose from '@mui/joy/ModalClose';
+
+interface ReportDialogProps {
+  open: boolean;
+  scenarioName: string;
+  onClose: () => void;
+  onDownload: (customerName: string, preparedBy: string) => void;
+}
+
+export const ReportDialog: React.FC<ReportDialogProps> = ({ open, scenarioName, onClose, onDownload }) => {
+  const [customerName, setCustomerName] = useState('');
+  const [preparedBy, setPreparedBy] = useState('');
+
+  return (
+    <Modal open={open} onClose={onClose}>
+      <ModalDialog aria-labelledby="report-modal" size="sm" sx={{ minWidth: '24rem' }}>
+        <ModalClose />
+        <Typography id="report-modal" level="h4">
+          Download Report
+        </Typography>
+        <Typography level="body-sm" color="neutral">
+          PDF report for the &quot;{scenarioName}&quot; scenario with all inputs, KPIs, value analysis and methodology.
+        </Typography>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            onDownload(customerName.trim(), preparedBy.trim());
+          }}
+        >
+          <Stack spacing={2} sx={{ mb: 2 }}>
+            <Box>
+              <Typography level="body-sm" sx={{ mb: 1 }}>
+                Prepared for
+              </Typography>
+              <Input
+                autoFocus
+                value={customerName}
+                onChange={(e) => setCustomerName(e.target.value)}
+                placeholder="Customer name"
+                size="sm"
+              />
+            </Box>
+            <Box>
+              <Typography level="body-sm" sx={{ mb: 1 }}>
+                Prepared by
+              </Typography>
+              <Input value={preparedBy} onChange={(e) => setPreparedBy(e.target.value)} placeholder="Your name" size="sm" />
+            </Box>
+          </Stack>
+          <Button type="submit" fullWidth>
+            Download PDF
+          </Button>
+        </form>
+      </ModalDialog>
+    </Modal>
+  );
+};
@@ -0,0 +1,35 @@
+/**
+ * @jest-environment node
+ */
+import { applyTenantLoad, DEFAULT_COEFFICIENTS, defaultInputs, runCalculation, setVolumePricing } from '@stellarcyber/roi-engine';
+import { createReportDocument } from './report-pdf';
+
+describe('PDF report', () => {
+  it('paginates the cover, summary, value analysis, inputs and methodology', () => {
+    const doc = createReportDocument(
+      { customerName: 'Acme Corp', preparedBy: '', scenarioName: 'Current State', date: new Date(2025, 0, 15) },
+      defaultInputs,
+      DEFAULT_COEFFICIENTS,
+      runCalculation(defaultInputs)
+    );
+    expect(doc.getNumberOfPages()).toBeGreaterThanOrEqual(5);
+  });
+
+  it('adds a tenant portfolio page in MSSP mode', () => {
+    const cover = { customerName: 'Acme MSSP', preparedBy: '', scenarioName: 'Portfolio', date: new Date(2025, 0, 15) };
+    const tenant = { name: 'Tenant', employeeCount: 500, securityIncidentsPerMonth: 2000, monthlyLogVolumeGB: 3000, falsePositiveRate: 85, monthlyFee: 20000 };
+    const inputs = applyTenantLoad({ ...defaultInputs, msspMode: true, tenants: [{ ...tenant, id: 'a' }, { ...tenant, id: 'b' }] });
+    const pages = (doc: ReturnType<typeof createReportDocument>) => doc.getNumberOfPages();
+    const single = createReportDocument(cover, defaultInputs, DEFAULT_COEFFICIENTS, runCalculation(defaultInputs));
+    const portfolio = createReportDocument(cover, inputs, DEFAULT_COEFFICIENTS, runCalculation(inputs));
+    expect(pages(portfolio)).toBeGreaterThan(pages(single));
+  });
+
+  it('adds a licensing breakdown page for volume pricing', () => {
+    const cover = { customerName: 'Acme Corp', preparedBy: '', scenarioName: 'Enterprise', date: new Date(2025, 0, 15) };
+    const inputs = setVolumePricing(defaultInputs, 'logVolumePricing', { ...defaultInputs.logVolumePricing, minimumAnnualValue: 250000 });
+    const single = createReportDocument(cover, defaultInputs, DEFAULT_COEFFICIENTS, runCalculation(defaultInputs));
+    const licensed = createReportDocument(cover, inputs, DEFAULT_COEFFICIENTS, runCalculation(inputs));
+    expect(licensed.getNumberOfPages()).toBeGreaterThan(single.getNumberOfPages());
+  });
+});
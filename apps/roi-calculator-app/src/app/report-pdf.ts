@@ -0,0 +1,456 @@
+import { jsPDF } from 'jspdf';
+import {
+  COEFFICIENT_GROUP_LABELS,
+  DEFAULT_COEFFICIENTS,
+  getCalculationTraces,
+  PRICED_PRODUCTS,
+  type CalculationInputs,
+  type CalculationOutput,
+  type CoefficientGroup,
+  type CurrencyCode,
+  type ModelCoefficients,
+  type PricedProduct,
+} from '@stellarcyber/roi-engine';
+import { getExportFilename } from './download';
+import {
+  formatReportValue,
+  formatTraceSubstitution,
+  getAssumptionRows,
+  getCurrencySymbol,
+  getInputCurrency,
+  getInputRows,
+  getKpiCards,
+  getMethodology,
+  getReportingCurrency,
+  getTenantTableRows,
+  getPricingTableRows,
+  getTraceCapNote,
+  hasVolumePricing,
+  PRICING_TABLE_COLUMNS,
+  TENANT_TABLE_COLUMNS,
+  type CurrencyDisplay,
+} from './report-data';
+import { getValueBreakdown, type ValueCategoryItem } from './value-categories';
+
+export interface ReportCover {
+  customerName: string;
+  preparedBy: string;
+  scenarioName: string;
+  date: Date;
+}
+
+// Letter size in points
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_HEIGHT = 32;
+
+const BRAND_DARK = '#0f0f0f';
+const BRAND_PRIMARY = '#7c3aed';
+const TEXT_MUTED = '#6b7280';
+const ROW_SHADE = '#f3f4f6';
+
+// The standard PDF fonts cover Latin-1 and the euro sign, other currency symbols are written as ISO codes
+const getPdfCurrencyDisplay = (currency: CurrencyCode): CurrencyDisplay['currencyDisplay'] =>
+  /^[\u0020-\u00ff\u20ac]*$/.test(getCurrencySymbol(currency)) ? 'symbol' : 'code';
+
+// Donut chart drawn with the same geometry as PieChart, arcs approximated by short segments
+const drawDonutChart = (doc: jsPDF, data: ValueCategoryItem[], centerX: number, centerY: number, radius: number) => {
+  const total = data.reduce((sum, item) => sum + item.value, 0);
+  if (total <= 0) {
+    return;
+  }
+
+  let currentAngle = -90; // Start from top
+  doc.setDrawColor('#ffffff');
+  doc.setLineWidth(1);
+  data.forEach((item) => {
+    const sweep = (item.value / total) * 360;
+    const steps = Math.max(2, Math.ceil(sweep / 2));
+    const points: [number, number][] = [[centerX, centerY]];
+    for (let step = 0; step <= steps; step++) {
+      const radians = ((currentAngle + (sweep * step) / steps) * Math.PI) / 180;
+      points.push([centerX + radius * Math.cos(radians), centerY + radius * Math.sin(radians)]);
+    }
+    const deltas = points.slice(1).map(([x, y], index) => [x - points[index][0], y - points[index][1]]);
+    doc.setFillColor(item.color);
+    doc.lines(deltas, centerX, centerY, [1, 1], 'FD', true);
+    currentAngle += sweep;
+  });
+
+  // Center circle for donut effect
+  doc.setFillColor('#ffffff');
+  doc.circle(centerX, centerY, radius * 0.58, 'F');
+};
+
+export const createReportDocument = (
+  cover: ReportCover,
+  inputs: CalculationInputs,
+  coefficients: ModelCoefficients,
+  output: CalculationOutput,
+  defaultCoefficients: ModelCoefficients = DEFAULT_COEFFICIENTS
+): jsPDF => {
+  const doc = new jsPDF({ unit: 'pt', format: 'letter' });
+  const { results, totalValue, valueMetrics } = output;
+  // Inputs and assumptions are listed as entered, results in the reporting currency
+  const inputCurrency = { ...getInputCurrency(inputs), currencyDisplay: getPdfCurrencyDisplay(inputs.inputCurrency) };
+  const currency = { ...getReportingCurrency(inputs), currencyDisplay: getPdfCurrencyDisplay(inputs.reportingCurrency) };
+  const formatAmount = (value: number) => formatReportValue(value, 'currency', currency);
+  let y = MARGIN;
+
+  const addPage = () => {
+    doc.addPage();
+    y = MARGIN;
+  };
+
+  // Start a new page when the next block would run into the footer
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT) {
+      addPage();
+    }
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(40);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(18);
+    doc.setTextColor(BRAND_PRIMARY);
+    doc.text(text, MARGIN, y + 18);
+    y += 32;
+  };
+
+  const subheading = (text: string) => {
+    ensureSpace(48);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(12);
+    doc.setTextColor(BRAND_DARK);
+    doc.text(text, MARGIN, y + 12);
+    y += 20;
+  };
+
+  const paragraph = (text: string, fontSize = 10) => {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(fontSize);
+    doc.setTextColor(BRAND_DARK);
+    const lines: string[] = doc.splitTextToSize(text, CONTENT_WIDTH);
+    const lineHeight = fontSize * 1.4;
+    ensureSpace(lines.length * lineHeight);
+    doc.text(lines, MARGIN, y + fontSize, { lineHeightFactor: 1.4 });
+    y += lines.length * lineHeight + 8;
+  };
+
+  // Label/value rows with alternating shading
+  const keyValueTable = (rows: { label: string; value: string }[]) => {
+    doc.setFontSize(10);
+    rows.forEach((row, index) => {
+      ensureSpace(18);
+      if (index % 2 === 0) {
+        doc.setFillColor(ROW_SHADE);
+        doc.rect(MARGIN, y, CONTENT_WIDTH, 18, 'F');
+      }
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(BRAND_DARK);
+      doc.text(row.label, MARGIN + 8, y + 12.5);
+      doc.setFont('helvetica', 'bold');
+      doc.text(row.value, MARGIN + CONTENT_WIDTH - 8, y + 12.5, { align: 'right' });
+      y += 18;
+    });
+    y += 12;
+  };
+
+  // Rows of text cells, the first column left-aligned and the rest right-aligned; the last row is bold when totalRow is set
+  const columnTable = (columns: string[], rows: string[][], totalRow = false) => {
+    const firstWidth = CONTENT_WIDTH * 0.25;
+    const columnWidth = (CONTENT_WIDTH - firstWidth) / (columns.length - 1);
+    const cellX = (index: number) => (index === 0 ? MARGIN + 8 : MARGIN + firstWidth + columnWidth * index - 8);
+    const drawRow = (cells: string[], bold: boolean) =>
+      cells.forEach((cell, index) => {
+        doc.setFont('helvetica', bold ? 'bold' : 'normal');
+        doc.text(cell, cellX(index), y + 12.5, { align: index === 0 ? 'left' : 'right' });
+      });
+    doc.setFontSize(8);
+    doc.setTextColor(TEXT_MUTED);
+    ensureSpace(18);
+    drawRow(columns.map((column) => column.toUpperCase()), true);
+    y += 18;
+    doc.setTextColor(BRAND_DARK);
+    rows.forEach((cells, index) => {
+      ensureSpace(18);
+      if (index % 2 === 0) {
+        doc.setFillColor(ROW_SHADE);
+        doc.rect(MARGIN, y, CONTENT_WIDTH, 18, 'F');
+      }
+      drawRow(cells, totalRow && index === rows.length - 1);
+      y += 18;
+    });
+    y += 12;
+  };
+
+  // Cover
+  doc.setFillColor(BRAND_DARK);
+  doc.rect(0, 0, PAGE_WIDTH, PAGE_HEIGHT * 0.45, 'F');
+  doc.setFillColor(BRAND_PRIMARY);
+  doc.rect(0, PAGE_HEIGHT * 0.45, PAGE_WIDTH, 6, 'F');
+  doc.setTextColor('#ffffff');
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(12);
+  doc.text('STELLAR CYBER', MARGIN, MARGIN + 12);
+  doc.setFontSize(30);
+  doc.text('Autonomous SOC', MARGIN, PAGE_HEIGHT * 0.3);
+  doc.text('ROI Report', MARGIN, PAGE_HEIGHT * 0.3 + 38);
+
+  y = PAGE_HEIGHT * 0.45 + 56;
+  const coverRows = [
+    { label: 'Prepared for', value: cover.customerName },
+    { label: 'Prepared by', value: cover.preparedBy },
+    { label: 'Scenario', value: cover.scenarioName },
+    {
+      label: 'Currency',
+      value:
+        inputs.inputCurrency === inputs.reportingCurrency
+          ? formatReportValue(inputs.reportingCurrency, 'currencyCode')
+          : `${formatReportValue(inputs.reportingCurrency, 'currencyCode')}, converted at 1 ${inputs.inputCurrency} = ` +
+            `${formatReportValue(inputs.exchangeRate, 'rate')} ${inputs.reportingCurrency}`,
+    },
+    {
+      label: 'Date',
+      value: cover.date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }),
+    },
+  ].filter((row) => row.value.trim() !== '');
+  coverRows.forEach((row) => {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(11);
+    doc.setTextColor(TEXT_MUTED);
+    doc.text(row.label.toUpperCase(), MARGIN, y);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(16);
+    doc.setTextColor(BRAND_DARK);
+    doc.text(row.value, MARGIN, y + 20);
+    y += 48;
+  });
+
+  // Executive summary with the KPI cards
+  addPage();
+  heading('Executive Summary');
+  const cardGap = 12;
+  const cardWidth = (CONTENT_WIDTH - cardGap) / 2;
+  const cardHeight = 78;
+  getKpiCards(inputs, output, currency).forEach((card, index) => {
+    const column = index % 2;
+    if (column === 0) {
+      ensureSpace(cardHeight + cardGap);
+    }
+    const x = MARGIN + column * (cardWidth + cardGap);
+    doc.setFillColor(ROW_SHADE);
+    doc.setDrawColor(BRAND_PRIMARY);
+    doc.setLineWidth(0.75);
+    doc.roundedRect(x, y, cardWidth, cardHeight, 6, 6, 'FD');
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(11);
+    doc.setTextColor(BRAND_DARK);
+    doc.text(card.title, x + 12, y + 20);
+    doc.setFontSize(20);
+    doc.setTextColor(BRAND_PRIMARY);
+    doc.text(card.value, x + 12, y + 46);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    doc.setTextColor(TEXT_MUTED);
+    doc.text(card.subtitle, x + 12, y + 64);
+    if (column === 1) {
+      y += cardHeight + cardGap;
+    }
+  });
+  y += 12;
+
+  subheading('Annual Cost Comparison');
+  keyValueTable([
+    { label: 'Human SOC Cost', value: formatAmount(results.humanSOCTotalCost) },
+    { label: 'Efficiency-Adjusted Human SOC Cost', value: formatAmount(results.adjustedAnnualSOCCost) },
+    { label: 'Autonomous SOC Cost', value: formatAmount(results.autonomousSOCTotalCost) },
+    { label: 'One-Time Costs', value: formatAmount(results.oneTimeCosts) },
+    { label: 'Incident Response Improvement', value: formatReportValue(results.incidentResponseImprovement, 'percentage') },
+  ]);
+
+  // Tier, overage and minimum breakdown when licensing goes beyond the unit prices
+  if (hasVolumePricing(inputs)) {
+    addPage();
+    heading('Licensing Breakdown');
+    paragraph(
+      'Each price tier charges the volume within it at its own price. A committed volume is billed in full, ' +
+        'volume above it is charged at the overage price or, without one, the tier prices, and the annual total is raised to the ' +
+        'minimum contract value.'
+    );
+    (Object.keys(PRICED_PRODUCTS) as PricedProduct[]).forEach((product) => {
+      subheading(PRICED_PRODUCTS[product].label);
+      columnTable(PRICING_TABLE_COLUMNS, getPricingTableRows(inputs, product, currency), true);
+    });
+  }
+
+  // Per-tenant and portfolio figures for MSSPs
+  if (inputs.msspMode && inputs.tenants.length > 0) {
+    addPage();
+    heading('MSSP Tenant Portfolio');
+    paragraph(
+      'Shared SOC costs are split across tenants by their share of incidents and log volume. ' +
+        'Margin is the annual fee less the cost to serve with the autonomous SOC.'
+    );
+    columnTable(TENANT_TABLE_COLUMNS, getTenantTableRows(inputs, results, currency), true);
+  }
+
+  // Value creation
+  addPage();
+  heading('Value Creation Analysis');
+  keyValueTable([
+    { label: 'Direct Cost Savings', value: formatAmount(results.annualSavings) },
+    { label: 'Additional Value Created', value: formatAmount(totalValue) },
+    { label: 'Total ROI Value', value: formatAmount(results.annualSavings + totalValue) },
+  ]);
+
+  const breakdown = getValueBreakdown(valueMetrics);
+  subheading('Value Categories');
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(TEXT_MUTED);
+  doc.text('CATEGORY', MARGIN + 20, y + 10);
+  doc.text('VALUE', MARGIN + CONTENT_WIDTH - 70, y + 10, { align: 'right' });
+  doc.text('SHARE', MARGIN + CONTENT_WIDTH - 8, y + 10, { align: 'right' });
+  y += 16;
+  breakdown.forEach((category, index) => {
+    ensureSpace(30);
+    if (index % 2 === 0) {
+      doc.setFillColor(ROW_SHADE);
+      doc.rect(MARGIN, y, CONTENT_WIDTH, 30, 'F');
+    }
+    doc.setFillColor(category.color);
+    doc.circle(MARGIN + 9, y + 11, 4, 'F');
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(10);
+    doc.setTextColor(BRAND_DARK);
+    doc.text(category.name, MARGIN + 20, y + 13);
+    doc.text(formatAmount(category.value), MARGIN + CONTENT_WIDTH - 70, y + 13, { align: 'right' });
+    doc.text(
+      formatReportValue(totalValue === 0 ? 0 : (category.value / totalValue) * 100, 'percentage'),
+      MARGIN + CONTENT_WIDTH - 8,
+      y + 13,
+      { align: 'right' }
+    );
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(TEXT_MUTED);
+    doc.text(category.description, MARGIN + 20, y + 24);
+    y += 30;
+  });
+  y += 16;
+
+  const chartRadius = 110;
+  ensureSpace(chartRadius * 2 + 40);
+  subheading('Value Distribution');
+  drawDonutChart(doc, breakdown, PAGE_WIDTH / 2, y + chartRadius, chartRadius);
+  y += chartRadius * 2 + 16;
+
+  // Inputs and assumptions
+  addPage();
+  heading('Inputs & Assumptions');
+  getInputRows(inputs, inputCurrency.currencyDisplay).forEach((section) => {
+    subheading(section.title);
+    keyValueTable(section.rows);
+  });
+
+  // Model assumptions, each with its source where documented and its default when edited
+  (Object.keys(DEFAULT_COEFFICIENTS) as CoefficientGroup[]).forEach((group) => {
+    subheading(`${COEFFICIENT_GROUP_LABELS[group]} Assumptions`);
+    getAssumptionRows(group, coefficients, inputCurrency, defaultCoefficients).forEach((row, index) => {
+      doc.setFontSize(8);
+      const note = [row.source, row.defaultValue === null ? '' : `Default: ${row.defaultValue}.`].filter(Boolean).join(' ');
+      const noteLines: string[] = note ? doc.splitTextToSize(note, CONTENT_WIDTH - 16) : [];
+      const rowHeight = 20 + noteLines.length * 10;
+      ensureSpace(rowHeight);
+      if (index % 2 === 0) {
+        doc.setFillColor(ROW_SHADE);
+        doc.rect(MARGIN, y, CONTENT_WIDTH, rowHeight, 'F');
+      }
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(10);
+      doc.setTextColor(BRAND_DARK);
+      doc.text(row.label, MARGIN + 8, y + 12.5);
+      doc.setFont('helvetica', 'bold');
+      doc.text(row.value, MARGIN + CONTENT_WIDTH - 8, y + 12.5, { align: 'right' });
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(8);
+      doc.setTextColor(TEXT_MUTED);
+      doc.text(noteLines, MARGIN + 8, y + 24, { lineHeightFactor: 1.25 });
+      y += rowHeight;
+    });
+  });
+
+  // Methodology appendix
+  addPage();
+  heading('Appendix: Methodology');
+  getMethodology(coefficients).forEach((note) => {
+    subheading(note.title);
+    paragraph(note.body);
+  });
+  paragraph(
+    'Estimates are indicative and depend on the inputs and assumptions listed in this report. ' +
+      'All figures are annual unless stated otherwise.',
+    9
+  );
+
+  // Step-by-step trace of every KPI and value category, for auditing the figures
+  addPage();
+  heading('Appendix: Calculation Trace');
+  Object.values(getCalculationTraces(inputs, coefficients)).forEach((trace) => {
+    subheading(trace.title);
+    trace.steps.forEach((step, index) => {
+      doc.setFontSize(8);
+      const capNote = getTraceCapNote(step);
+      const detail = [step.formula, formatTraceSubstitution(step, currency), capNote].filter(Boolean).join('\n');
+      const detailLines: string[] = doc.splitTextToSize(detail, CONTENT_WIDTH - 16);
+      const rowHeight = 20 + detailLines.length * 10;
+      ensureSpace(rowHeight);
+      if (index % 2 === 0) {
+        doc.setFillColor(ROW_SHADE);
+        doc.rect(MARGIN, y, CONTENT_WIDTH, rowHeight, 'F');
+      }
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(10);
+      doc.setTextColor(BRAND_DARK);
+      doc.text(step.label, MARGIN + 8, y + 12.5);
+      doc.setFont('helvetica', 'bold');
+      doc.text(formatReportValue(step.value, step.format, currency), MARGIN + CONTENT_WIDTH - 8, y + 12.5, { align: 'right' });
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(8);
+      doc.setTextColor(TEXT_MUTED);
+      doc.text(detailLines, MARGIN + 8, y + 24, { lineHeightFactor: 1.25 });
+      y += rowHeight;
+    });
+    y += 12;
+  });
+
+  // Footer on every page except the cover
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 2; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setDrawColor(ROW_SHADE);
+    doc.setLineWidth(1);
+    doc.line(MARGIN, PAGE_HEIGHT - MARGIN, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - MARGIN);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(TEXT_MUTED);
+    doc.text(`Autonomous SOC ROI Report - ${cover.scenarioName}`, MARGIN, PAGE_HEIGHT - MARGIN + 14);
+    doc.text(`Page ${page} of ${pageCount}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - MARGIN + 14, { align: 'right' });
+  }
+
+  return doc;
+};
+
+export const downloadReport = (
+  cover: ReportCover,
+  inputs: CalculationInputs,
+  coefficients: ModelCoefficients,
+  output: CalculationOutput,
+  defaultCoefficients?: ModelCoefficients
+): void => {
+  createReportDocument(cover, inputs, coefficients, output, defaultCoefficients).save(getExportFilename('roi-report', cover.customerName || cover.scenarioName, 'pdf'));
+};
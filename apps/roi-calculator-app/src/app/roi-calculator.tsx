@@ -1,7 +1,8 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import Box from '@mui/joy/Box';
 import Typography from '@mui/joy/Typography';
 import Button from '@mui/joy/Button';
+import ButtonGroup from '@mui/joy/ButtonGroup';
 import Input from '@mui/joy/Input';
 import Card from '@mui/joy/Card';
 import Grid from '@mui/joy/Grid';
@@ -15,314 +16,399 @@ import Modal from '@mui/joy/Modal';
 import ModalDialog from '@mui/joy/ModalDialog';
 import ModalClose from '@mui/joy/ModalClose';
 import Slider from '@mui/joy/Slider';
+import Select from '@mui/joy/Select';
+import Option from '@mui/joy/Option';
+import Alert from '@mui/joy/Alert';
+import Badge from '@mui/joy/Badge';
+import Checkbox from '@mui/joy/Checkbox';
+import Link from '@mui/joy/Link';
+import Snackbar from '@mui/joy/Snackbar';
+import Dropdown from '@mui/joy/Dropdown';
+import Menu from '@mui/joy/Menu';
+import MenuButton from '@mui/joy/MenuButton';
+import MenuItem from '@mui/joy/MenuItem';
 import { useColorScheme } from '@mui/joy/styles';
+import { useSearchParams } from 'react-router-dom';
+import {
+  applyInputChange,
+  applyTenantLoad,
+  BUILT_IN_PROFILES,
+  calculateComputedFields,
+  convertCoefficients,
+  convertInputs,
+  CURRENCIES,
+  DEFAULT_COEFFICIENTS,
+  defaultInputs,
+  getCalculationTraces,
+  getExchangeRate,
+  getInputIssues,
+  INPUT_RULES,
+  isDerivedField,
+  isVariableParameter,
+  INDUSTRY_PRESETS,
+  PRICED_PRODUCTS,
+  runCalculation,
+  setFieldPinned,
+  setVolumePricing,
+  validateInputValue,
+  SALARY_PRESETS,
+  TENANT_LOAD_FIELDS,
+  toBaseInputs,
+  type AssumptionProfile,
+  type BaseInputs,
+  type CalculationInputs,
+  type CalculationOutput,
+  type CurrencyCode,
+  type ExchangeRates,
+  type InputField,
+  type ModelCoefficients,
+  type ModelState,
+  type MonteCarloMetric,
+  type PricedProduct,
+  type TraceKey,
+  type UncertainParameter,
+} from '@stellarcyber/roi-engine';
 import { ValueAnalysis } from './value-analysis';
 import { CircularSlider } from './circular-slider';
-
-
-interface CalculationInputs {
-  // Company size inputs
-  employeeCount: number;
-
-  // Security metrics
-  securityIncidentsPerMonth: number;
-  averageIncidentResponseTime: number; // in hours
-  falsePositiveRate: number; // percentage
-  pricePerSecurityIncident: number; // in dollars
-
-  // Human SOC costs
-  humanSOCAnalysts: number;
-  humanSOCManager: number;
-  humanSOCEngineer: number;
-  humanSOCDirector: number;
-
-
-
-  // Additional costs
-  legacySIEMPricePerGB: number;
-  stellarXDRCostPerGB: number;
-  switchFromLegacySIEM: boolean;
-
-  // Log volume metrics
-  logVolumeIncidentRatio: number;
-  monthlyLogVolumeGB: number;
-  stellarXDRPlatformCosts: number;
-  siemLicensingCosts: number;
-}
-
-interface CalculationResults {
-  humanSOCTotalCost: number;
-  autonomousSOCTotalCost: number;
-  adjustedAnnualSOCCost: number;
-  platformSavings: number;
-  annualSavings: number;
-  roiPercentage: number;
-  paybackPeriod: number; // in months
-  efficiencyImprovement: number; // percentage
-  incidentResponseImprovement: number; // percentage
+import { MultiYearProjection } from './multi-year-projection';
+import { ScenarioManager } from './scenario-manager';
+import { ScenarioComparison } from './scenario-comparison';
+import {
+  createScenario,
+  deleteScenario,
+  duplicateScenario,
+  getActiveScenario,
+  loadScenarioStore,
+  renameScenario,
+  saveScenarioStore,
+  updateScenarioCoefficients,
+  updateScenarioInputs,
+  type ScenarioStore,
+} from './scenarios';
+import { buildShareUrl, decodeShareParams, type SharedScenario } from './share-link';
+import { ReportDialog } from './report-dialog';
+import { downloadFile, getExportFilename } from './download';
+import { buildCsv, getSpreadsheetSheets } from './spreadsheet-data';
+import { createScenarioDocument } from './scenario-schema';
+import { ScenarioImport } from './scenario-import';
+import { SensitivityAnalysis } from './sensitivity-analysis';
+import { GoalSeekPanel } from './goal-seek-panel';
+import { getDefaultUncertainties, recenterUncertainties, UncertaintyAnalysis } from './uncertainty-analysis';
+import { useMonteCarlo } from './use-monte-carlo';
+import { ProfileSelector } from './profile-selector';
+import { createUserProfile, deleteUserProfile, getBuiltInProfiles, loadUserProfiles, saveUserProfiles } from './assumption-profiles';
+import { CalculationTraceDrawer } from './calculation-trace-drawer';
+import { formatCurrency, formatReportValue, getCurrencyLabel, getReportingCurrency, hasVolumePricing } from './report-data';
+import { loadExchangeRates, saveExchangeRates } from './exchange-rates';
+import {
+  createInputHistory,
+  loadInputHistory,
+  recordChange,
+  redoChange,
+  saveInputHistory,
+  undoChange,
+  type HistoryEntry,
+  type InputHistory,
+} from './input-history';
+import { ExchangeRatesDialog } from './exchange-rates-dialog';
+import { CostItemsEditor } from './cost-items-editor';
+import { createTenant, MsspPortfolio } from './mssp-portfolio';
+import { PricingEditor } from './pricing-editor';
+import { LicensingBreakdown } from './licensing-breakdown';
+
+interface InvalidEntry {
+  text: string;
+  error: string;
 }
 
-const baseInputs = {
-  employeeCount: 500,
-  averageIncidentResponseTime: 4,
-  falsePositiveRate: 90,
-  pricePerSecurityIncident: 3,
-  legacySIEMPricePerGB: 3,
-  stellarXDRCostPerGB: 2,
-  logVolumeIncidentRatio: 1.5,
-  switchFromLegacySIEM: true,
-};
-
-// Helper function to calculate computed fields
-const calculateComputedFields = (base: typeof baseInputs): CalculationInputs => {
-  const ratio = 2400 / 500; // default incidents / default employees
-  const securityIncidentsPerMonth = Math.round(base.employeeCount * ratio);
-  const monthlyLogVolumeGB = Math.round(securityIncidentsPerMonth * base.logVolumeIncidentRatio);
-  const stellarXDRPlatformCosts = monthlyLogVolumeGB * base.stellarXDRCostPerGB * 12;
-  const siemLicensingCosts = monthlyLogVolumeGB * base.legacySIEMPricePerGB * 12;
-  return {
-    ...base,
-    securityIncidentsPerMonth,
-    monthlyLogVolumeGB,
-    stellarXDRPlatformCosts,
-    siemLicensingCosts,
-    humanSOCAnalysts: Math.ceil(securityIncidentsPerMonth / 1000),
-    humanSOCManager: Math.ceil(securityIncidentsPerMonth / 3000),
-    humanSOCEngineer: Math.ceil(securityIncidentsPerMonth / 3000),
-    humanSOCDirector: Math.ceil(securityIncidentsPerMonth / 6000),
-  };
-};
-
-const defaultInputs = calculateComputedFields(baseInputs);
+const currencyOptions = (Object.keys(CURRENCIES) as CurrencyCode[]).map((code) => ({
+  value: code,
+  label: `${CURRENCIES[code].label} (${code})`,
+}));
 
 export const ROICalculator: React.FC = () => {
-  // Load inputs from localStorage or use defaults
-  const loadInputsFromStorage = (): CalculationInputs => {
-    try {
-      const saved = localStorage.getItem('roi-calculator-inputs');
-      if (saved) {
-        const parsed = JSON.parse(saved);
-        // Merge with base inputs to handle any missing fields
-        const loadedBaseInputs = { ...baseInputs, ...parsed };
-        return calculateComputedFields(loadedBaseInputs);
-      }
-    } catch (error) {
-      console.warn('Failed to load inputs from localStorage:', error);
-    }
-    return defaultInputs;
-  };
-
-  const [inputs, setInputs] = useState<CalculationInputs>(loadInputsFromStorage);
-  const [results, setResults] = useState<CalculationResults | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [scenarioStore, setScenarioStore] = useState<ScenarioStore>(loadScenarioStore);
+  // A configuration opened from a shared link stays out of localStorage until the user saves it
+  const [sharedScenario, setSharedScenario] = useState<SharedScenario | null>(() => decodeShareParams(searchParams));
+  const [inputs, setInputs] = useState<CalculationInputs>(() =>
+    calculateComputedFields(sharedScenario?.inputs ?? getActiveScenario(scenarioStore).inputs)
+  );
+  const [coefficients, setCoefficients] = useState<ModelCoefficients>(
+    () => sharedScenario?.coefficients ?? getActiveScenario(scenarioStore).coefficients
+  );
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isComparisonOpen, setIsComparisonOpen] = useState(false);
+  const [isLinkCopied, setIsLinkCopied] = useState(false);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+  // Distributions are kept with the model state they were set up against and follow its values as they change
+  const [uncertaintySetup, setUncertaintySetup] = useState<{ uncertainties: UncertainParameter[]; state: ModelState }>(() => ({
+    uncertainties: getDefaultUncertainties({ inputs, coefficients }),
+    state: { inputs, coefficients },
+  }));
+  const [iterations, setIterations] = useState(5000);
+  const [userProfiles, setUserProfiles] = useState<AssumptionProfile[]>(loadUserProfiles);
+  const [compareProfiles, setCompareProfiles] = useState(false);
+  const [traceKey, setTraceKey] = useState<TraceKey | null>(null);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRates>(loadExchangeRates);
+  const [isExchangeRatesOpen, setIsExchangeRatesOpen] = useState(false);
+  const [history, setHistory] = useState<InputHistory>(() =>
+    sharedScenario ? createInputHistory() : loadInputHistory(scenarioStore.activeScenarioId)
+  );
+  // Entries that fail a hard limit are kept as typed with their error instead of being applied
+  const [invalidEntries, setInvalidEntries] = useState<Partial<Record<keyof CalculationInputs, InvalidEntry>>>({});
   const { mode } = useColorScheme();
 
-  const calculateROI = useCallback((): CalculationResults => {
-    // Human SOC annual costs
-    const analystSalary = 85000;
-    const managerSalary = 120000;
-    const engineerSalary = 150000;
-    const directorSalary = 200000;
-
-    const humanSOCPersonnelCost = (
-      inputs.humanSOCAnalysts * analystSalary +
-      inputs.humanSOCManager * managerSalary +
-      inputs.humanSOCEngineer * engineerSalary +
-      inputs.humanSOCDirector * directorSalary
-    );
+  const output = useMemo(() => runCalculation(inputs, coefficients), [inputs, coefficients]);
+  const modelState = useMemo(() => ({ inputs, coefficients }), [inputs, coefficients]);
+  // Tenant load fields follow the tenants in MSSP mode, so they drop out of the simulation
+  const uncertainties = useMemo(
+    () =>
+      recenterUncertainties(uncertaintySetup.uncertainties, uncertaintySetup.state, modelState).filter(({ parameter }) =>
+        isVariableParameter(modelState, parameter)
+      ),
+    [uncertaintySetup, modelState]
+  );
+  const { results, projection, valueMetrics, totalValue, workforce } = output;
+  // Runs in a web worker so slider drags stay responsive
+  const simulation = useMonteCarlo(modelState, uncertainties, iterations, uncertainties.length > 0);
+  const traces = useMemo(() => getCalculationTraces(inputs, coefficients), [inputs, coefficients]);
+  // The bundled defaults and profiles are in USD, converted to match amounts entered in another currency
+  const usdRate = getExchangeRate('USD', inputs.inputCurrency, exchangeRates);
+  const defaultCoefficients = useMemo(() => convertCoefficients(DEFAULT_COEFFICIENTS, usdRate), [usdRate]);
+  const profileOutputs = useMemo(
+    () => (compareProfiles ? getBuiltInProfiles(usdRate).map((profile) => runCalculation(inputs, profile.coefficients)) : []),
+    [compareProfiles, inputs, usdRate]
+  );
+  const currency = getReportingCurrency(inputs);
+  const inputIssues = useMemo(() => getInputIssues(inputs, usdRate), [inputs, usdRate]);
+  const invalidEntryCount = Object.keys(invalidEntries).length;
+  const errorCount = invalidEntryCount + inputIssues.filter((issue) => issue.severity === 'error').length;
+  const warningCount = inputIssues.filter((issue) => issue.severity === 'warning').length;
+
+  // Persist scenario changes and load the inputs of the active scenario
+  const updateScenarioStore = (store: ScenarioStore) => {
+    saveScenarioStore(store);
+    setScenarioStore(store);
+    if (store.activeScenarioId !== scenarioStore.activeScenarioId) {
+      setInputs(calculateComputedFields(getActiveScenario(store).inputs));
+      setCoefficients(getActiveScenario(store).coefficients);
+      setHistory(loadInputHistory(store.activeScenarioId));
+    }
+  };
 
-    const humanSOCTotalCost = humanSOCPersonnelCost + inputs.siemLicensingCosts;
+  // Show and persist a model state along with the undo history that leads to it
+  const setModelState = (newInputs: CalculationInputs, newCoefficients: ModelCoefficients, newHistory: InputHistory) => {
+    setInputs(newInputs);
+    setCoefficients(newCoefficients);
+    setHistory(newHistory);
+    if (sharedScenario) {
+      return;
+    }
+    // Save to localStorage (only the base fields, not computed ones)
+    const id = scenarioStore.activeScenarioId;
+    const store = updateScenarioCoefficients(updateScenarioInputs(scenarioStore, id, toBaseInputs(newInputs)), id, newCoefficients);
+    saveScenarioStore(store);
+    setScenarioStore(store);
+    saveInputHistory(id, newHistory);
+  };
 
-    // Autonomous SOC annual costs
-    const autonomousSOCMonthlyCost = inputs.securityIncidentsPerMonth * inputs.pricePerSecurityIncident;
-    const autonomousSOCAnnualCost = autonomousSOCMonthlyCost * 12;
+  // Every edit is undoable, group names the control so a slider drag or a typing run is undone in one step
+  const commitModelState = (newInputs: CalculationInputs, newCoefficients: ModelCoefficients, group?: string) => {
+    setModelState(newInputs, newCoefficients, recordChange(history, { inputs: toBaseInputs(inputs), coefficients }, group));
+  };
 
-    // Calculate dynamic efficiency improvements
-    const calculateEfficiencyImprovement = (): number => {
-      // Base efficiency improvement from automation
-      const baseEfficiency = 38;
+  // In MSSP mode every change is followed by the combined tenant load, so the shared SOC stays sized for it
+  const updateInputs = (newInputs: CalculationInputs, group?: string) => {
+    commitModelState(applyTenantLoad(newInputs), coefficients, group);
+  };
 
-      // False positive rate impact: Higher false positive rates mean greater efficiency gains
-      const falsePositiveImpact = Math.min(inputs.falsePositiveRate * 0.2, 15); // Max 15% additional
+  const updateCoefficients = (newCoefficients: ModelCoefficients) => {
+    commitModelState(inputs, newCoefficients, 'coefficients');
+  };
 
-      // Response time impact: Slower response times indicate greater efficiency potential
-      const responseTimeImpact = Math.min(inputs.averageIncidentResponseTime * 3, 25); // Max 25% additional
+  const restoreHistoryEntry = (step: { history: InputHistory; entry: HistoryEntry } | null) => {
+    if (step) {
+      setModelState(calculateComputedFields(step.entry.inputs), step.entry.coefficients, step.history);
+    }
+  };
 
-      // Log volume impact: Higher log volumes mean greater efficiency gains from automation
-      // For every GB in excess of 1 TiB (1024 GB), add 1% improvement up to 15% maximum
-      const oneTiBInGB = 1024;
-      const excessLogVolume = Math.max(0, inputs.monthlyLogVolumeGB - oneTiBInGB);
-      const logVolumeImpact = Math.min(excessLogVolume * 0.001, 15); // 0.001 = 1% per GB, max 15%
+  const undo = () => restoreHistoryEntry(undoChange(history, { inputs: toBaseInputs(inputs), coefficients }));
+  const redo = () => restoreHistoryEntry(redoChange(history, { inputs: toBaseInputs(inputs), coefficients }));
 
-      const totalEfficiency = baseEfficiency + falsePositiveImpact + responseTimeImpact + logVolumeImpact;
+  // The shortcut listener is registered once and calls the handlers of the latest render
+  const historyHandlers = useRef({ undo, redo });
+  historyHandlers.current = { undo, redo };
 
-      // Cap at 80% maximum efficiency improvement
-      return Math.min(totalEfficiency, 80);
+  // Ctrl/Cmd+Z and Shift+Ctrl/Cmd+Z, text fields keep their own undo while sliders and checkboxes do not have one
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      const isTextEntry = target?.closest('input:not([type=range]):not([type=checkbox]), textarea, [contenteditable]:not([contenteditable=false])');
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z' || isTextEntry) {
+        return;
+      }
+      event.preventDefault();
+      if (event.shiftKey) {
+        historyHandlers.current.redo();
+      } else {
+        historyHandlers.current.undo();
+      }
     };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Switching the input currency converts the monetary assumptions along with the inputs, saved as one change
+  const changeInputCurrency = (inputCurrency: CurrencyCode) => {
+    const newInputs = applyInputChange(inputs, 'inputCurrency', inputCurrency, exchangeRates);
+    const newCoefficients = convertCoefficients(coefficients, getExchangeRate(inputs.inputCurrency, inputCurrency, exchangeRates));
+    commitModelState(newInputs, newCoefficients);
+  };
 
-    const calculateIncidentResponseImprovement = (): number => {
-      // Base response time improvement
-      const baseImprovement = 45;
-
-      // Current response time impact: Slower response times mean greater improvement potential
-      const responseTimeImpact = Math.min(inputs.averageIncidentResponseTime * 2, 15); // Max 15% additional
-
-      // False positive impact: Higher false positives mean more time wasted, so greater improvement
-      const falsePositiveImpact = Math.min(inputs.falsePositiveRate * 0.15, 8); // Max 8% additional
-
-      const totalImprovement = baseImprovement + responseTimeImpact + falsePositiveImpact;
-
-      // Cap at 80% maximum response improvement
-      return Math.min(totalImprovement, 80);
-    };
+  // Edited rates are picked up by the current scenario straight away
+  const updateExchangeRates = (rates: ExchangeRates) => {
+    saveExchangeRates(rates);
+    setExchangeRates(rates);
+    updateInputs({ ...inputs, exchangeRate: getExchangeRate(inputs.inputCurrency, inputs.reportingCurrency, rates) });
+  };
 
-    const efficiencyImprovement = calculateEfficiencyImprovement();
-    const incidentResponseImprovement = calculateIncidentResponseImprovement();
+  // Defaults are converted into the scenario's input currency, which is kept along with the reporting currency
+  const resetInputs = () => {
+    const { inputCurrency, reportingCurrency, exchangeRate } = inputs;
+    updateInputs({ ...convertInputs(defaultInputs, usdRate), inputCurrency, reportingCurrency, exchangeRate });
+  };
 
-    // Calculate adjusted annual SOC cost (efficiency-adjusted human cost only)
-    const adjustedAnnualSOCCost = humanSOCTotalCost * (1 - efficiencyImprovement / 100);
+  const updateUserProfiles = (profiles: AssumptionProfile[]) => {
+    saveUserProfiles(profiles);
+    setUserProfiles(profiles);
+  };
 
-    // Calculate platform savings (SIEM licensing costs - Stellar XDR platform costs)
-    const platformSavings = inputs.siemLicensingCosts - inputs.stellarXDRPlatformCosts;
+  // The edits made to a shared configuration stay undoable once it is saved as a scenario
+  const closeSharedLink = (store: ScenarioStore = scenarioStore, newHistory: InputHistory = history) => {
+    saveScenarioStore(store);
+    setScenarioStore(store);
+    setHistory(newHistory);
+    saveInputHistory(store.activeScenarioId, newHistory);
+    setSharedScenario(null);
+    setSearchParams({}, { replace: true });
+  };
 
-    // Calculate savings and ROI
-    const annualSavings = humanSOCTotalCost - (adjustedAnnualSOCCost + autonomousSOCAnnualCost) + platformSavings;
+  const copyShareLink = async () => {
+    try {
+      await navigator.clipboard.writeText(buildShareUrl({ inputs: toBaseInputs(inputs), coefficients }));
+      setIsLinkCopied(true);
+    } catch (error) {
+      console.warn('Failed to copy link to clipboard:', error);
+    }
+  };
 
-    // Calculate ROI percentage, return 0 if autonomousSOCAnnualCost is 0 to avoid NaN
-    const roiPercentage = autonomousSOCAnnualCost === 0 ? 0 : (annualSavings / autonomousSOCAnnualCost) * 100;
-    const paybackPeriod = 0; // No setup costs, immediate ROI
+  const reportScenarioName = sharedScenario ? 'Shared Link' : getActiveScenario(scenarioStore).name;
 
-    return {
-      humanSOCTotalCost,
-      autonomousSOCTotalCost: autonomousSOCAnnualCost,
-      adjustedAnnualSOCCost,
-      platformSavings,
-      annualSavings,
-      roiPercentage,
-      paybackPeriod,
-      efficiencyImprovement,
-      incidentResponseImprovement,
-    };
-  }, [inputs]);
+  const exportCsv = () => {
+    downloadFile(
+      buildCsv(getSpreadsheetSheets(inputs, coefficients, output)),
+      'text/csv;charset=utf-8',
+      getExportFilename('roi-calculator', reportScenarioName, 'csv')
+    );
+  };
 
-  useEffect(() => {
-    setResults(calculateROI());
-  }, [inputs, calculateROI]);
+  const exportXlsx = async () => {
+    const { downloadXlsx } = await import('./xlsx-export');
+    await downloadXlsx(
+      getSpreadsheetSheets(inputs, coefficients, output),
+      inputs.reportingCurrency,
+      getExportFilename('roi-calculator', reportScenarioName, 'xlsx')
+    );
+  };
 
+  const exportJson = () => {
+    downloadFile(
+      JSON.stringify(createScenarioDocument(reportScenarioName, toBaseInputs(inputs), coefficients), null, 2),
+      'application/json',
+      getExportFilename('roi-scenario', reportScenarioName, 'json')
+    );
+  };
 
+  // Imported scenarios are added alongside the existing ones and become active
+  const importScenario = (name: string, importedInputs: BaseInputs, importedCoefficients: ModelCoefficients) => {
+    const store = createScenario(scenarioStore, name, importedInputs, importedCoefficients);
+    if (sharedScenario) {
+      closeSharedLink(store, createInputHistory());
+      setInputs(calculateComputedFields(importedInputs));
+      setCoefficients(importedCoefficients);
+    } else {
+      updateScenarioStore(store);
+    }
+  };
 
   const handleInputChange = (field: keyof CalculationInputs, value: string | number | boolean) => {
-    setInputs(prev => {
-      const newInputs = {
-        ...prev,
-        [field]: value,
-      };
-
-      // If employee count changes, update security incidents per month proportionally
-      if (field === 'employeeCount') {
-        const ratio = defaultInputs.securityIncidentsPerMonth / defaultInputs.employeeCount;
-        const newIncidents = Math.round(Number(value) * ratio);
-        newInputs.securityIncidentsPerMonth = newIncidents;
-
-        // Also update SOC staff based on the new incident count
-        newInputs.humanSOCAnalysts = Math.ceil(newIncidents / 1000);
-        newInputs.humanSOCManager = Math.ceil(newIncidents / 3000);
-        newInputs.humanSOCEngineer = Math.ceil(newIncidents / 3000);
-        newInputs.humanSOCDirector = Math.ceil(newIncidents / 6000);
-
-        // Update monthly log volume
-        const newLogVolume = Math.round(newIncidents * newInputs.logVolumeIncidentRatio);
-        newInputs.monthlyLogVolumeGB = newLogVolume;
-
-        // Update Stellar XDR Platform Costs
-        newInputs.stellarXDRPlatformCosts = newLogVolume * newInputs.stellarXDRCostPerGB * 12;
-
-        // Update SIEM Licensing Costs
-        newInputs.siemLicensingCosts = newLogVolume * newInputs.legacySIEMPricePerGB * 12;
-      }
-
-      // If security incidents per month changes, update employee count proportionally
-      if (field === 'securityIncidentsPerMonth') {
-        const incidents = Number(value);
-        const ratio = defaultInputs.securityIncidentsPerMonth / defaultInputs.employeeCount;
-        const newEmployeeCount = Math.round(incidents / ratio);
-        newInputs.employeeCount = newEmployeeCount;
-
-        // Also update SOC staff based on the new incident count
-        newInputs.humanSOCAnalysts = Math.ceil(incidents / 1000);
-        newInputs.humanSOCManager = Math.ceil(incidents / 3000);
-        newInputs.humanSOCEngineer = Math.ceil(incidents / 3000);
-        newInputs.humanSOCDirector = Math.ceil(incidents / 6000);
-
-        // Update monthly log volume
-        const newLogVolume = Math.round(incidents * newInputs.logVolumeIncidentRatio);
-        newInputs.monthlyLogVolumeGB = newLogVolume;
-
-        // Update Stellar XDR Platform Costs
-        newInputs.stellarXDRPlatformCosts = newLogVolume * newInputs.stellarXDRCostPerGB * 12;
-
-        // Update SIEM Licensing Costs
-        newInputs.siemLicensingCosts = newLogVolume * newInputs.legacySIEMPricePerGB * 12;
-      }
-
-      // If log volume incident ratio changes, update monthly log volume
-      if (field === 'logVolumeIncidentRatio') {
-        const newLogVolume = Math.round(newInputs.securityIncidentsPerMonth * Number(value));
-        newInputs.monthlyLogVolumeGB = newLogVolume;
-        newInputs.stellarXDRPlatformCosts = newLogVolume * newInputs.stellarXDRCostPerGB * 12;
-        newInputs.siemLicensingCosts = newLogVolume * newInputs.legacySIEMPricePerGB * 12;
-      }
-
-      // If stellar XDR cost per GB changes, update platform costs
-      if (field === 'stellarXDRCostPerGB') {
-        newInputs.stellarXDRPlatformCosts = newInputs.monthlyLogVolumeGB * Number(value) * 12;
-      }
-
-      // If legacy SIEM price per GB changes, update SIEM licensing costs
-      if (field === 'legacySIEMPricePerGB') {
-        newInputs.siemLicensingCosts = newInputs.monthlyLogVolumeGB * Number(value) * 12;
-      }
-
-      // Save to localStorage (only the base fields, not computed ones)
-      try {
-        const baseFieldsToSave = {
-          employeeCount: newInputs.employeeCount,
-          averageIncidentResponseTime: newInputs.averageIncidentResponseTime,
-          falsePositiveRate: newInputs.falsePositiveRate,
-          pricePerSecurityIncident: newInputs.pricePerSecurityIncident,
-          legacySIEMPricePerGB: newInputs.legacySIEMPricePerGB,
-          stellarXDRCostPerGB: newInputs.stellarXDRCostPerGB,
-          logVolumeIncidentRatio: newInputs.logVolumeIncidentRatio,
-          switchFromLegacySIEM: newInputs.switchFromLegacySIEM,
-        };
-        localStorage.setItem('roi-calculator-inputs', JSON.stringify(baseFieldsToSave));
-      } catch (error) {
-        console.warn('Failed to save inputs to localStorage:', error);
-      }
-      return newInputs;
-    });
+    if (field in invalidEntries) {
+      const remaining = { ...invalidEntries };
+      delete remaining[field];
+      setInvalidEntries(remaining);
+    }
+    if (field === 'inputCurrency') {
+      changeInputCurrency(value as CurrencyCode);
+      return;
+    }
+    // The first tenant starts from the organization set up so far
+    if (field === 'msspMode' && value && inputs.tenants.length === 0) {
+      updateInputs({ ...inputs, msspMode: true, tenants: [createTenant('Tenant 1', inputs)] }, field);
+      return;
+    }
+    updateInputs(applyInputChange(inputs, field, value, exchangeRates), field);
   };
 
-  const formatCurrency = (amount: number): string => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(amount);
-  };
+  const formatAmount = (amount: number): string => formatCurrency(amount, currency);
 
   const formatPercentage = (value: number): string => {
     return `${value.toFixed(1)}%`;
   };
 
+  const formatMonths = (months: number | null): string => {
+    return months === null ? 'Not reached' : `${months.toFixed(1)} months`;
+  };
+
   const formatHours = (hours: number): string => {
     return `${Math.round(hours).toLocaleString()} hrs`;
   };
 
+  // P10-P90 band from the latest simulation, shown under a KPI value
+  const renderRange = (metric: MonteCarloMetric, format: (value: number) => string) => {
+    const range = simulation.result?.percentiles[metric];
+    const formatBound = (value: number | null) => (value === null ? 'Not reached' : format(value));
+    return (
+      range && (
+        <Typography level="body-xs" sx={{ mt: 0.5, opacity: 0.85 }}>
+          P10–P90: {formatBound(range.p10)} – {formatBound(range.p90)}
+        </Typography>
+      )
+    );
+  };
+
+  // Conservative / Expected / Aggressive values side by side, shown under a KPI value
+  const renderProfileValues = (select: (output: CalculationOutput) => number | null, format: (value: number) => string) =>
+    profileOutputs.length > 0 && (
+      <Typography level="body-xs" sx={{ mt: 0.5, opacity: 0.85 }}>
+        {BUILT_IN_PROFILES.map((profile, index) => {
+          const value = select(profileOutputs[index]);
+          return `${profile.name}: ${value === null ? 'Not reached' : format(value)}`;
+        }).join(' · ')}
+      </Typography>
+    );
+
+  const renderTraceLink = (key: TraceKey) => (
+    <Link component="button" level="body-xs" underline="always" onClick={() => setTraceKey(key)} sx={{ mt: 0.5, alignSelf: 'flex-start' }}>
+      Show your work
+    </Link>
+  );
+
+  const isTenantLoadField = (field: InputField) => inputs.msspMode && TENANT_LOAD_FIELDS.includes(field);
+
   const renderCheckboxField = (
     label: string,
-    field: keyof CalculationInputs,
+    field: InputField,
     checked: boolean,
     onChange: (checked: boolean) => void
   ) => (
@@ -331,6 +417,7 @@ export const ROICalculator: React.FC = () => {
         <input
           type="checkbox"
           checked={checked}
+          disabled={isTenantLoadField(field)}
           onChange={(e) => onChange(e.target.checked)}
           style={{ width: '16px', height: '16px' }}
         />
@@ -341,36 +428,107 @@ export const ROICalculator: React.FC = () => {
     </Box>
   );
 
+  const renderSelectField = (
+    label: string,
+    field: InputField,
+    options: { value: string; label: string }[]
+  ) => (
+    <Box>
+      <Typography level="body-sm" sx={{ mb: 1 }}>
+        {label}
+      </Typography>
+      <Select
+        value={String(inputs[field])}
+        onChange={(_, value) => value && handleInputChange(field, value)}
+        disabled={isTenantLoadField(field)}
+        size="sm"
+      >
+        {options.map((option) => (
+          <Option key={option.value} value={option.value}>
+            {option.label}
+          </Option>
+        ))}
+      </Select>
+    </Box>
+  );
+
+  // Numbers are checked against the field's hard limits before they reach the model
+  const handleNumberEntry = (field: keyof CalculationInputs, text: string) => {
+    const value = text.trim() === '' ? NaN : Number(text);
+    const error = validateInputValue(field, value);
+    if (error) {
+      setInvalidEntries({ ...invalidEntries, [field]: { text, error } });
+      return;
+    }
+    handleInputChange(field, value);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setInvalidEntries({});
+  };
+
   const renderInputField = (
     label: string,
-    field: keyof CalculationInputs,
+    field: InputField,
     type: 'number' | 'text' = 'number',
-    options?: { min?: number; max?: number; step?: number }
+    options?: { step?: number }
   ) => {
     const value = inputs[field];
     // Skip rendering if the field is a boolean (should use renderCheckboxField instead)
     if (typeof value === 'boolean') {
       return null;
     }
+    const rule = INPUT_RULES[field];
+    const invalidEntry = invalidEntries[field];
+    const issue = inputIssues.find((candidate) => candidate.field === field);
+    const message = invalidEntry?.error ?? issue?.message;
+    const color = invalidEntry || issue?.severity === 'error' ? 'danger' : issue ? 'warning' : undefined;
+    const isPinned = field in inputs.overrides;
 
     return (
       <Box>
         <Typography level="body-sm" sx={{ mb: 1 }}>
-          {label}
+          {getCurrencyLabel(label, inputs.inputCurrency)}
         </Typography>
         <Input
           type={type}
-          value={value}
-          onChange={(e) => handleInputChange(field, type === 'number' ? parseFloat(e.target.value) || 0 : e.target.value)}
+          value={invalidEntry?.text ?? value}
+          disabled={isTenantLoadField(field)}
+          onChange={(e) => (type === 'number' ? handleNumberEntry(field, e.target.value) : handleInputChange(field, e.target.value))}
+          color={color}
+          error={color === 'danger'}
+          endDecorator={
+            isDerivedField(field) && (
+              <Button
+                size="sm"
+                variant={isPinned ? 'soft' : 'plain'}
+                color={isPinned ? 'primary' : 'neutral'}
+                onClick={() => updateInputs(setFieldPinned(inputs, field, !isPinned))}
+                title={
+                  isPinned
+                    ? 'Set by hand and kept when other inputs change. Click to go back to the computed value.'
+                    : 'Computed from the other inputs. Click to pin the current value, or type over it.'
+                }
+              >
+                {isPinned ? 'Pinned' : 'Computed'}
+              </Button>
+            )
+          }
           slotProps={{
             input: {
-              min: options?.min,
-              max: options?.max,
+              min: rule?.min,
+              max: rule?.max,
               step: options?.step,
             },
           }}
           size="sm"
         />
+        {message && (
+          <Typography level="body-xs" color={color} sx={{ mt: 0.5 }}>
+            {message}
+          </Typography>
+        )}
       </Box>
     );
   };
@@ -425,6 +583,99 @@ export const ROICalculator: React.FC = () => {
       </Box>
 
       <Box sx={{ mt: 4, p: 2 }}>
+        {/* Scenarios */}
+        <Box sx={{ maxWidth: '75rem', mx: 'auto', mb: 2, display: 'flex', alignItems: 'center', gap: 2 }}>
+          <Box sx={{ flexGrow: 1 }}>
+            {sharedScenario ? (
+              <Alert
+                color="primary"
+                variant="soft"
+                endDecorator={
+                  <Box sx={{ display: 'flex', gap: 1 }}>
+                    <Button
+                      size="sm"
+                      onClick={() =>
+                        closeSharedLink(createScenario(scenarioStore, 'Shared Link', toBaseInputs(inputs), coefficients))
+                      }
+                    >
+                      Save as New Scenario
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outlined"
+                      onClick={() => closeSharedLink(
+                        updateScenarioCoefficients(
+                          updateScenarioInputs(scenarioStore, scenarioStore.activeScenarioId, toBaseInputs(inputs)),
+                          scenarioStore.activeScenarioId,
+                          coefficients
+                        )
+                      )}
+                    >
+                      Replace &quot;{getActiveScenario(scenarioStore).name}&quot;
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="plain"
+                      color="neutral"
+                      onClick={() => {
+                        setInputs(calculateComputedFields(getActiveScenario(scenarioStore).inputs));
+                        setCoefficients(getActiveScenario(scenarioStore).coefficients);
+                        closeSharedLink(scenarioStore, loadInputHistory(scenarioStore.activeScenarioId));
+                      }}
+                    >
+                      Discard
+                    </Button>
+                  </Box>
+                }
+              >
+                Viewing a shared configuration. Your saved scenarios are unchanged.
+              </Alert>
+            ) : (
+              <ScenarioManager
+                store={scenarioStore}
+                onSelect={(id) => updateScenarioStore({ ...scenarioStore, activeScenarioId: id })}
+                onCreate={(name) => updateScenarioStore(createScenario(scenarioStore, name))}
+                onRename={(id, name) => updateScenarioStore(renameScenario(scenarioStore, id, name))}
+                onDuplicate={(id) => updateScenarioStore(duplicateScenario(scenarioStore, id))}
+                onDelete={(id) => updateScenarioStore(deleteScenario(scenarioStore, id))}
+                onCompare={() => setIsComparisonOpen(true)}
+              />
+            )}
+          </Box>
+          <ButtonGroup size="sm" variant="outlined">
+            <Button onClick={undo} disabled={history.past.length === 0} title="Undo (Ctrl+Z)">
+              Undo
+            </Button>
+            <Button onClick={redo} disabled={history.future.length === 0} title="Redo (Ctrl+Shift+Z)">
+              Redo
+            </Button>
+          </ButtonGroup>
+          <ScenarioImport onImport={importScenario} />
+          <Button size="sm" variant="outlined" onClick={copyShareLink}>
+            Copy Link
+          </Button>
+          <Dropdown>
+            <MenuButton size="sm" variant="solid" color="primary">
+              Export
+            </MenuButton>
+            <Menu size="sm" placement="bottom-end">
+              <MenuItem onClick={() => setIsReportOpen(true)}>PDF Report</MenuItem>
+              <MenuItem onClick={exportCsv}>CSV</MenuItem>
+              <MenuItem onClick={exportXlsx}>Excel Workbook (XLSX)</MenuItem>
+              <MenuItem onClick={exportJson}>Scenario (JSON)</MenuItem>
+            </Menu>
+          </Dropdown>
+          <Snackbar
+            open={isLinkCopied}
+            autoHideDuration={3000}
+            onClose={() => setIsLinkCopied(false)}
+            color="success"
+            variant="soft"
+          >
+            Link copied to clipboard
+          </Snackbar>
+        </Box>
+
         <Card sx={{ mb: 3, background: 'rgba(15, 15, 15, 0.8)', backdropFilter: 'blur(10px)', maxWidth: '75rem', mx: 'auto' }}>
           <Grid container spacing={3}>
             {/* Configuration Controls */}
@@ -441,6 +692,7 @@ export const ROICalculator: React.FC = () => {
                         step={50}
                         label="Number of Employees"
                         size={400}
+                        disabled={isTenantLoadField('employeeCount')}
                       />
                     </Box>
                   </Grid>
@@ -455,19 +707,34 @@ export const ROICalculator: React.FC = () => {
                           value={inputs.securityIncidentsPerMonth}
                           onChange={(_, value) => handleInputChange('securityIncidentsPerMonth', value as number)}
                           min={0}
-                          max={24000}
+                          max={Math.max(24000, inputs.securityIncidentsPerMonth)}
                           step={10}
+                          disabled={isTenantLoadField('securityIncidentsPerMonth')}
                           size="sm"
                           sx={{ width: '100%' }}
                         />
+                        <Checkbox
+                          size="sm"
+                          label="Link employees to incidents"
+                          checked={inputs.linkEmployeesToIncidents}
+                          onChange={(e) => handleInputChange('linkEmployeesToIncidents', e.target.checked)}
+                          disabled={isTenantLoadField('linkEmployeesToIncidents')}
+                          sx={{ mt: 1 }}
+                        />
                       </Box>
-                      <Button
-                        variant="outlined"
-                        fullWidth
-                        onClick={() => setIsModalOpen(true)}
+                      <Badge
+                        badgeContent={errorCount + warningCount}
+                        color={errorCount > 0 ? 'danger' : 'warning'}
+                        sx={{ display: 'flex' }}
                       >
-                        Model Customization
-                      </Button>
+                        <Button
+                          variant="outlined"
+                          fullWidth
+                          onClick={() => setIsModalOpen(true)}
+                        >
+                          Model Customization
+                        </Button>
+                      </Badge>
                     </Stack>
                   </Grid>
                 </Grid>
@@ -476,281 +743,455 @@ export const ROICalculator: React.FC = () => {
 
             {/* ROI Analysis Results */}
             <Grid xs={12} md={7}>
-              {results && (
-                <Box sx={{ p: 3, height: '100%' }}>
-                  {(() => {
-                    const totalHeadcount = inputs.humanSOCAnalysts + inputs.humanSOCManager + inputs.humanSOCEngineer + inputs.humanSOCDirector;
-                    const optimizedHeadcount = Math.max(0, Math.ceil(totalHeadcount * (1 - results.efficiencyImprovement / 100)));
-                    const freedEmployees = Math.max(0, totalHeadcount - optimizedHeadcount);
-                    const monthlyHoursPerEmployee = 2080 / 12;
-                    const monthlyTimeSavings = totalHeadcount * monthlyHoursPerEmployee * (results.efficiencyImprovement / 100);
-                    const annualTimeSavings = monthlyTimeSavings * 12;
-
-                    return (
-                      <Grid container spacing={2}>
-                          {/* Top Left: Annual Savings */}
-                          <Grid xs={12} sm={6}>
-                            <Card sx={{
-                              background: mode === 'dark'
-                                ? 'linear-gradient(135deg, #059669 0%, #047857 100%)'
-                                : 'linear-gradient(135deg, #bbf7d0 0%, #86efac 100%)',
-                              color: mode === 'dark' ? 'white' : '#059669',
-                              height: '100%',
-                              minHeight: '12rem',
-                              '& .MuiTypography-root': {
-                                color: mode === 'dark' ? 'white' : '#059669'
-                              }
-                            }}>
-                              <Typography level="h4">Annual Savings</Typography>
-                              <Typography level="h2">
-                                {formatCurrency(results.annualSavings)}
-                              </Typography>
-                              <Typography level="body-sm">
-                                Cost reduction with Autonomous SOC
-                              </Typography>
-                            </Card>
-                          </Grid>
-                          {/* Top Right: Annual Time Savings */}
-                          <Grid xs={12} sm={6}>
-                            <Card sx={{
-                              background: mode === 'dark'
-                                ? 'linear-gradient(135deg, #6b7280 0%, #4b5563 100%)'
-                                : 'linear-gradient(135deg, #f3f4f6 0%, #e5e7eb 100%)',
-                              color: mode === 'dark' ? 'white' : '#374151',
-                              height: '100%',
-                              minHeight: '12rem',
-                              '& .MuiTypography-root': {
-                                color: mode === 'dark' ? 'white' : '#374151'
-                              }
-                            }}>
-                              <Typography level="h4">Annual Time Savings</Typography>
-                              <Typography level="h2">
-                                {formatHours(annualTimeSavings)}
-                              </Typography>
-                              <Typography level="body-sm">
-                                Saved worker hours per year
-                              </Typography>
-                            </Card>
-                          </Grid>
-                          {/* Middle Left: Platform Savings */}
-                          <Grid xs={12} sm={6}>
-                            <Card sx={{
-                              background: mode === 'dark'
-                                ? 'linear-gradient(135deg, #059669 0%, #047857 100%)'
-                                : 'linear-gradient(135deg, #bbf7d0 0%, #86efac 100%)',
-                              color: mode === 'dark' ? 'white' : '#059669',
-                              height: '100%',
-                              minHeight: '12rem',
-                              '& .MuiTypography-root': {
-                                color: mode === 'dark' ? 'white' : '#059669'
-                              }
-                            }}>
-                              <Typography level="h4">Platform Savings</Typography>
-                              <Typography level="h2">
-                                {formatCurrency(results.platformSavings)}
-                              </Typography>
-                              <Typography level="body-sm">
-                                Stellar XDR platform savings
-                              </Typography>
-                            </Card>
-                          </Grid>
-                          {/* Middle Right: Freed Employees */}
-                          <Grid xs={12} sm={6}>
-                            <Card sx={{
-                              background: mode === 'dark'
-                                ? 'linear-gradient(135deg, #6b7280 0%, #4b5563 100%)'
-                                : 'linear-gradient(135deg, #f3f4f6 0%, #e5e7eb 100%)',
-                              color: mode === 'dark' ? 'white' : '#374151',
-                              height: '100%',
-                              minHeight: '12rem',
-                              '& .MuiTypography-root': {
-                                color: mode === 'dark' ? 'white' : '#374151'
-                              }
-                            }}>
-                              <Typography level="h4">Freed Employees</Typography>
-                              <Typography level="h2">
-                                {freedEmployees.toLocaleString()}
-                              </Typography>
-                              <Typography level="body-sm">
-                                Team members freed for higher-value work
-                              </Typography>
-                            </Card>
-                          </Grid>
-                          {/* Bottom Left: ROI */}
-                          <Grid xs={12} sm={6}>
-                            <Card sx={{
-                              background: mode === 'dark'
-                                ? 'linear-gradient(135deg, #7c3aed 0%, #5b21b6 100%)'
-                                : 'linear-gradient(135deg, #ddd6fe 0%, #c4b5fd 100%)',
-                              color: mode === 'dark' ? 'white' : '#7c3aed',
-                              height: '100%',
-                              minHeight: '12rem',
-                              '& .MuiTypography-root': {
-                                color: mode === 'dark' ? 'white' : '#7c3aed'
-                              }
-                            }}>
-                              <Typography level="h4">ROI</Typography>
-                              <Typography level="h2">
-                                {formatPercentage(results.roiPercentage)}
-                              </Typography>
-                              <Typography level="body-sm">
-                                Return on investment
-                              </Typography>
-                            </Card>
-                          </Grid>
-                          {/* Bottom Right: Efficiency Improvement */}
-                          <Grid xs={12} sm={6}>
-                            <Card sx={{
-                              background: mode === 'dark'
-                                ? 'linear-gradient(135deg, #7c3aed 0%, #5b21b6 100%)'
-                                : 'linear-gradient(135deg, #ddd6fe 0%, #c4b5fd 100%)',
-                              color: mode === 'dark' ? 'white' : '#7c3aed',
-                              height: '100%',
-                              minHeight: '12rem',
-                              '& .MuiTypography-root': {
-                                color: mode === 'dark' ? 'white' : '#7c3aed'
-                              }
-                            }}>
-                              <Typography level="h4">Efficiency Improvement</Typography>
-                              <Typography level="h2">
-                                {formatPercentage(results.efficiencyImprovement)}
-                              </Typography>
-                              <Typography level="body-sm">
-                                Operational efficiency gain
-                              </Typography>
-                            </Card>
-                          </Grid>
-                      </Grid>
-                    );
-                  })()}
+              <Box sx={{ p: 3, height: '100%' }}>
+                <Box sx={{ mb: 2 }}>
+                  <ProfileSelector
+                    coefficients={coefficients}
+                    inputCurrency={inputs.inputCurrency}
+                    usdRate={usdRate}
+                    userProfiles={userProfiles}
+                    compareProfiles={compareProfiles}
+                    onCoefficientsChange={updateCoefficients}
+                    onSaveProfile={(name) => updateUserProfiles(createUserProfile(userProfiles, name, coefficients))}
+                    onDeleteProfile={(id) => updateUserProfiles(deleteUserProfile(userProfiles, id))}
+                    onCompareProfilesChange={setCompareProfiles}
+                  />
                 </Box>
-              )}
+                <Grid container spacing={2}>
+                    {/* Top Left: Annual Savings */}
+                    <Grid xs={12} sm={6}>
+                      <Card sx={{
+                        background: mode === 'dark'
+                          ? 'linear-gradient(135deg, #059669 0%, #047857 100%)'
+                          : 'linear-gradient(135deg, #bbf7d0 0%, #86efac 100%)',
+                        color: mode === 'dark' ? 'white' : '#059669',
+                        height: '100%',
+                        minHeight: '12rem',
+                        '& .MuiTypography-root': {
+                          color: mode === 'dark' ? 'white' : '#059669'
+                        }
+                      }}>
+                        <Typography level="h4">Annual Savings</Typography>
+                        <Typography level="h2">
+                          {formatAmount(results.annualSavings)}
+                        </Typography>
+                        <Typography level="body-sm">
+                          Cost reduction with Autonomous SOC
+                        </Typography>
+                        {renderRange('annualSavings', formatAmount)}
+                        {renderProfileValues(({ results }) => results.annualSavings, formatAmount)}
+                        {renderTraceLink('annualSavings')}
+                      </Card>
+                    </Grid>
+                    {/* Top Right: Annual Time Savings */}
+                    <Grid xs={12} sm={6}>
+                      <Card sx={{
+                        background: mode === 'dark'
+                          ? 'linear-gradient(135deg, #6b7280 0%, #4b5563 100%)'
+                          : 'linear-gradient(135deg, #f3f4f6 0%, #e5e7eb 100%)',
+                        color: mode === 'dark' ? 'white' : '#374151',
+                        height: '100%',
+                        minHeight: '12rem',
+                        '& .MuiTypography-root': {
+                          color: mode === 'dark' ? 'white' : '#374151'
+                        }
+                      }}>
+                        <Typography level="h4">Annual Time Savings</Typography>
+                        <Typography level="h2">
+                          {formatHours(workforce.annualTimeSavings)}
+                        </Typography>
+                        <Typography level="body-sm">
+                          Saved worker hours per year
+                        </Typography>
+                        {renderRange('annualTimeSavings', formatHours)}
+                        {renderProfileValues(({ workforce }) => workforce.annualTimeSavings, formatHours)}
+                        {renderTraceLink('annualTimeSavings')}
+                      </Card>
+                    </Grid>
+                    {/* Middle Left: Platform Savings */}
+                    <Grid xs={12} sm={6}>
+                      <Card sx={{
+                        background: mode === 'dark'
+                          ? 'linear-gradient(135deg, #059669 0%, #047857 100%)'
+                          : 'linear-gradient(135deg, #bbf7d0 0%, #86efac 100%)',
+                        color: mode === 'dark' ? 'white' : '#059669',
+                        height: '100%',
+                        minHeight: '12rem',
+                        '& .MuiTypography-root': {
+                          color: mode === 'dark' ? 'white' : '#059669'
+                        }
+                      }}>
+                        <Typography level="h4">Platform Savings</Typography>
+                        <Typography level="h2">
+                          {formatAmount(results.platformSavings)}
+                        </Typography>
+                        <Typography level="body-sm">
+                          {inputs.switchFromLegacySIEM
+                            ? 'Stellar XDR platform savings'
+                            : 'Legacy SIEM and Stellar XDR coexistence'}
+                        </Typography>
+                        {renderRange('platformSavings', formatAmount)}
+                        {renderProfileValues(({ results }) => results.platformSavings, formatAmount)}
+                        {renderTraceLink('platformSavings')}
+                      </Card>
+                    </Grid>
+                    {/* Middle Right: Freed Employees */}
+                    <Grid xs={12} sm={6}>
+                      <Card sx={{
+                        background: mode === 'dark'
+                          ? 'linear-gradient(135deg, #6b7280 0%, #4b5563 100%)'
+                          : 'linear-gradient(135deg, #f3f4f6 0%, #e5e7eb 100%)',
+                        color: mode === 'dark' ? 'white' : '#374151',
+                        height: '100%',
+                        minHeight: '12rem',
+                        '& .MuiTypography-root': {
+                          color: mode === 'dark' ? 'white' : '#374151'
+                        }
+                      }}>
+                        <Typography level="h4">Freed Employees</Typography>
+                        <Typography level="h2">
+                          {workforce.freedEmployees.toLocaleString()}
+                        </Typography>
+                        <Typography level="body-sm">
+                          Team members freed for higher-value work
+                        </Typography>
+                        {renderRange('freedEmployees', (value: number) => value.toLocaleString())}
+                        {renderProfileValues(({ workforce }) => workforce.freedEmployees, (value: number) => value.toLocaleString())}
+                        {renderTraceLink('freedEmployees')}
+                      </Card>
+                    </Grid>
+                    {/* Bottom Left: ROI */}
+                    <Grid xs={12} sm={6}>
+                      <Card sx={{
+                        background: mode === 'dark'
+                          ? 'linear-gradient(135deg, #7c3aed 0%, #5b21b6 100%)'
+                          : 'linear-gradient(135deg, #ddd6fe 0%, #c4b5fd 100%)',
+                        color: mode === 'dark' ? 'white' : '#7c3aed',
+                        height: '100%',
+                        minHeight: '12rem',
+                        '& .MuiTypography-root': {
+                          color: mode === 'dark' ? 'white' : '#7c3aed'
+                        }
+                      }}>
+                        <Typography level="h4">ROI</Typography>
+                        <Typography level="h2">
+                          {formatPercentage(results.roiPercentage)}
+                        </Typography>
+                        <Typography level="body-sm">
+                          Return on investment
+                        </Typography>
+                        {renderRange('roiPercentage', formatPercentage)}
+                        {renderProfileValues(({ results }) => results.roiPercentage, formatPercentage)}
+                        {renderTraceLink('roiPercentage')}
+                      </Card>
+                    </Grid>
+                    {/* Bottom Right: Efficiency Improvement */}
+                    <Grid xs={12} sm={6}>
+                      <Card sx={{
+                        background: mode === 'dark'
+                          ? 'linear-gradient(135deg, #7c3aed 0%, #5b21b6 100%)'
+                          : 'linear-gradient(135deg, #ddd6fe 0%, #c4b5fd 100%)',
+                        color: mode === 'dark' ? 'white' : '#7c3aed',
+                        height: '100%',
+                        minHeight: '12rem',
+                        '& .MuiTypography-root': {
+                          color: mode === 'dark' ? 'white' : '#7c3aed'
+                        }
+                      }}>
+                        <Typography level="h4">Efficiency Improvement</Typography>
+                        <Typography level="h2">
+                          {formatPercentage(results.efficiencyImprovement)}
+                        </Typography>
+                        <Typography level="body-sm">
+                          Operational efficiency gain
+                        </Typography>
+                        {renderRange('efficiencyImprovement', formatPercentage)}
+                        {renderProfileValues(({ results }) => results.efficiencyImprovement, formatPercentage)}
+                        {renderTraceLink('efficiencyImprovement')}
+                      </Card>
+                    </Grid>
+                    {/* Payback Period */}
+                    <Grid xs={12} sm={6}>
+                      <Card sx={{
+                        background: mode === 'dark'
+                          ? 'linear-gradient(135deg, #6b7280 0%, #4b5563 100%)'
+                          : 'linear-gradient(135deg, #f3f4f6 0%, #e5e7eb 100%)',
+                        color: mode === 'dark' ? 'white' : '#374151',
+                        height: '100%',
+                        minHeight: '12rem',
+                        '& .MuiTypography-root': {
+                          color: mode === 'dark' ? 'white' : '#374151'
+                        }
+                      }}>
+                        <Typography level="h4">Payback Period</Typography>
+                        <Typography level="h2">
+                          {formatMonths(results.paybackPeriod)}
+                        </Typography>
+                        <Typography level="body-sm">
+                          Including one-time costs and ramp-up
+                        </Typography>
+                        {renderRange('paybackPeriod', formatMonths)}
+                        {renderProfileValues(({ results }) => results.paybackPeriod, formatMonths)}
+                        {renderTraceLink('paybackPeriod')}
+                      </Card>
+                    </Grid>
+                    {/* First-Year ROI */}
+                    <Grid xs={12} sm={6}>
+                      <Card sx={{
+                        background: mode === 'dark'
+                          ? 'linear-gradient(135deg, #6b7280 0%, #4b5563 100%)'
+                          : 'linear-gradient(135deg, #f3f4f6 0%, #e5e7eb 100%)',
+                        color: mode === 'dark' ? 'white' : '#374151',
+                        height: '100%',
+                        minHeight: '12rem',
+                        '& .MuiTypography-root': {
+                          color: mode === 'dark' ? 'white' : '#374151'
+                        }
+                      }}>
+                        <Typography level="h4">First-Year ROI</Typography>
+                        <Typography level="h2">
+                          {formatPercentage(results.firstYearROIPercentage)}
+                        </Typography>
+                        <Typography level="body-sm">
+                          {formatAmount(results.firstYearSavings)} net savings in year 1
+                        </Typography>
+                        {renderRange('firstYearROIPercentage', formatPercentage)}
+                        {renderProfileValues(({ results }) => results.firstYearROIPercentage, formatPercentage)}
+                        {renderTraceLink('firstYearROIPercentage')}
+                      </Card>
+                    </Grid>
+                </Grid>
+              </Box>
             </Grid>
           </Grid>
         </Card>
 
-        {/* Key Benefits of Autonomous SOC */}
-        {results && (
+        {/* Licensing Breakdown */}
+        {hasVolumePricing(inputs) && (
           <Card sx={{ mb: 3, background: 'rgba(15, 15, 15, 0.8)', backdropFilter: 'blur(10px)', maxWidth: '75rem', mx: 'auto' }}>
-            <Box sx={{ p: 3 }}>
-              <Typography level="h4" sx={{ mb: 2 }}>
-                Key Benefits of Autonomous SOC
-              </Typography>
-              <Grid container spacing={2}>
-                <Grid xs={12} sm={4} md={2}>
-                  <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', textAlign: 'center', p: 2 }}>
-                    <Box sx={{ mb: 1 }}><img src="/monitoring.svg" alt="24/7 monitoring and response" style={{ width: '2.5rem', height: '2.5rem' }} /></Box>
-                    <Typography level="body-sm">24/7 monitoring and response</Typography>
-                  </Box>
-                </Grid>
-                <Grid xs={12} sm={4} md={2}>
-                  <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', textAlign: 'center', p: 2, position: 'relative' }}>
-                    <Box sx={{
-                      position: 'absolute',
-                      left: 0,
-                      top: '50%',
-                      transform: 'translateY(-50%)',
-                      width: '1px',
-                      height: '60%',
-                      backgroundColor: 'divider',
-                      display: { xs: 'none', sm: 'block' }
-                    }} />
-                    <Box sx={{ mb: 1 }}><img src="/checkbox.svg" alt="Reduced false positives" style={{ width: '2.5rem', height: '2.5rem' }} /></Box>
-                    <Typography level="body-sm">Reduced false positives by 95%</Typography>
-                  </Box>
-                </Grid>
-                <Grid xs={12} sm={4} md={2}>
-                  <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', textAlign: 'center', p: 2, position: 'relative' }}>
-                    <Box sx={{
-                      position: 'absolute',
-                      left: 0,
-                      top: '50%',
-                      transform: 'translateY(-50%)',
-                      width: '1px',
-                      height: '60%',
-                      backgroundColor: 'divider',
-                      display: { xs: 'none', sm: 'block' }
-                    }} />
-                    <Box sx={{ mb: 1 }}><img src="/stopwatch.svg" alt="Faster incident response" style={{ width: '2.5rem', height: '2.5rem' }} /></Box>
-                    <Typography level="body-sm">{formatPercentage(results.incidentResponseImprovement)} faster incident response</Typography>
-                  </Box>
-                </Grid>
-                <Grid xs={12} sm={4} md={2}>
-                  <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', textAlign: 'center', p: 2, position: 'relative' }}>
-                    <Box sx={{
-                      position: 'absolute',
-                      left: 0,
-                      top: '50%',
-                      transform: 'translateY(-50%)',
-                      width: '1px',
-                      height: '60%',
-                      backgroundColor: 'divider',
-                      display: { xs: 'none', sm: 'block' }
-                    }} />
-                    <Box sx={{ mb: 1 }}><img src="/scalability.svg" alt="Scalable security operations" style={{ width: '2.5rem', height: '2.5rem' }} /></Box>
-                    <Typography level="body-sm">Scalable security operations</Typography>
-                  </Box>
-                </Grid>
-                <Grid xs={12} sm={4} md={2}>
-                  <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', textAlign: 'center', p: 2, position: 'relative' }}>
-                    <Box sx={{
-                      position: 'absolute',
-                      left: 0,
-                      top: '50%',
-                      transform: 'translateY(-50%)',
-                      width: '1px',
-                      height: '60%',
-                      backgroundColor: 'divider',
-                      display: { xs: 'none', sm: 'block' }
-                    }} />
-                    <Box sx={{ mb: 1 }}><img src="/shield.svg" alt="Reduced human error and fatigue" style={{ width: '2.5rem', height: '2.5rem' }} /></Box>
-                    <Typography level="body-sm">Reduced human error and fatigue</Typography>
-                  </Box>
-                </Grid>
-                <Grid xs={12} sm={4} md={2}>
-                  <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', textAlign: 'center', p: 2, position: 'relative' }}>
-                    <Box sx={{
-                      position: 'absolute',
-                      left: 0,
-                      top: '50%',
-                      transform: 'translateY(-50%)',
-                      width: '1px',
-                      height: '60%',
-                      backgroundColor: 'divider',
-                      display: { xs: 'none', sm: 'block' }
-                    }} />
-                    <Box sx={{ mb: 1 }}><img src="/radar.svg" alt="Advanced threat detection with AI/ML" style={{ width: '2.5rem', height: '2.5rem' }} /></Box>
-                    <Typography level="body-sm">Advanced threat detection</Typography>
-                  </Box>
-                </Grid>
-              </Grid>
-            </Box>
+            <LicensingBreakdown inputs={inputs} />
           </Card>
         )}
 
-        {/* Value Creation Analysis */}
-        {results && (
+        {/* MSSP Tenant Portfolio */}
+        {inputs.msspMode && (
           <Card sx={{ mb: 3, background: 'rgba(15, 15, 15, 0.8)', backdropFilter: 'blur(10px)', maxWidth: '75rem', mx: 'auto' }}>
-            <ValueAnalysis
-              inputs={{
-                falsePositiveRate: inputs.falsePositiveRate,
-                securityIncidentsPerMonth: inputs.securityIncidentsPerMonth,
-                averageIncidentResponseTime: inputs.averageIncidentResponseTime,
-                humanSOCAnalysts: inputs.humanSOCAnalysts,
-                employeeCount: inputs.employeeCount,
-              }}
-              results={{
-                annualSavings: results.annualSavings,
-                humanSOCTotalCost: results.humanSOCTotalCost,
-                autonomousSOCTotalCost: results.autonomousSOCTotalCost,
-              }}
+            <MsspPortfolio
+              inputs={inputs}
+              results={results}
+              onTenantsChange={(tenants, group) => updateInputs({ ...inputs, tenants }, group)}
             />
           </Card>
         )}
+
+        {/* Multi-Year TCO Projection */}
+        <Card sx={{ mb: 3, background: 'rgba(15, 15, 15, 0.8)', backdropFilter: 'blur(10px)', maxWidth: '75rem', mx: 'auto' }}>
+          <MultiYearProjection
+            projection={projection}
+            projectionYears={inputs.projectionYears}
+            discountRate={inputs.discountRate}
+            currency={currency}
+            onProjectionYearsChange={(years) => handleInputChange('projectionYears', years)}
+          />
+        </Card>
+
+        {/* Sensitivity Analysis */}
+        <Card sx={{ mb: 3, background: 'rgba(15, 15, 15, 0.8)', backdropFilter: 'blur(10px)', maxWidth: '75rem', mx: 'auto' }}>
+          <SensitivityAnalysis inputs={inputs} coefficients={coefficients} />
+        </Card>
+
+        {/* Goal Seek */}
+        <Card sx={{ mb: 3, background: 'rgba(15, 15, 15, 0.8)', backdropFilter: 'blur(10px)', maxWidth: '75rem', mx: 'auto' }}>
+          <GoalSeekPanel inputs={inputs} coefficients={coefficients} onApply={handleInputChange} />
+        </Card>
+
+        {/* Uncertainty Analysis */}
+        <Card sx={{ mb: 3, background: 'rgba(15, 15, 15, 0.8)', backdropFilter: 'blur(10px)', maxWidth: '75rem', mx: 'auto' }}>
+          <UncertaintyAnalysis
+            state={modelState}
+            uncertainties={uncertainties}
+            onUncertaintiesChange={(changed) => setUncertaintySetup({ uncertainties: changed, state: modelState })}
+            iterations={iterations}
+            onIterationsChange={setIterations}
+            result={simulation.result}
+            isRunning={simulation.isRunning}
+          />
+        </Card>
+
+        {/* Key Benefits of Autonomous SOC */}
+        <Card sx={{ mb: 3, background: 'rgba(15, 15, 15, 0.8)', backdropFilter: 'blur(10px)', maxWidth: '75rem', mx: 'auto' }}>
+          <Box sx={{ p: 3 }}>
+            <Typography level="h4" sx={{ mb: 2 }}>
+              Key Benefits of Autonomous SOC
+            </Typography>
+            <Grid container spacing={2}>
+              <Grid xs={12} sm={4} md={2}>
+                <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', textAlign: 'center', p: 2 }}>
+                  <Box sx={{ mb: 1 }}><img src="/monitoring.svg" alt="24/7 monitoring and response" style={{ width: '2.5rem', height: '2.5rem' }} /></Box>
+                  <Typography level="body-sm">24/7 monitoring and response</Typography>
+                </Box>
+              </Grid>
+              <Grid xs={12} sm={4} md={2}>
+                <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', textAlign: 'center', p: 2, position: 'relative' }}>
+                  <Box sx={{
+                    position: 'absolute',
+                    left: 0,
+                    top: '50%',
+                    transform: 'translateY(-50%)',
+                    width: '1px',
+                    height: '60%',
+                    backgroundColor: 'divider',
+                    display: { xs: 'none', sm: 'block' }
+                  }} />
+                  <Box sx={{ mb: 1 }}><img src="/checkbox.svg" alt="Reduced false positives" style={{ width: '2.5rem', height: '2.5rem' }} /></Box>
+                  <Typography level="body-sm">
+                    Reduced false positives by {formatReportValue(100 - coefficients.value.autonomousFalsePositiveRate, 'decimal')}%
+                  </Typography>
+                </Box>
+              </Grid>
+              <Grid xs={12} sm={4} md={2}>
+                <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', textAlign: 'center', p: 2, position: 'relative' }}>
+                  <Box sx={{
+                    position: 'absolute',
+                    left: 0,
+                    top: '50%',
+                    transform: 'translateY(-50%)',
+                    width: '1px',
+                    height: '60%',
+                    backgroundColor: 'divider',
+                    display: { xs: 'none', sm: 'block' }
+                  }} />
+                  <Box sx={{ mb: 1 }}><img src="/stopwatch.svg" alt="Faster incident response" style={{ width: '2.5rem', height: '2.5rem' }} /></Box>
+                  <Typography level="body-sm">{formatPercentage(results.incidentResponseImprovement)} faster incident response</Typography>
+                </Box>
+              </Grid>
+              <Grid xs={12} sm={4} md={2}>
+                <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', textAlign: 'center', p: 2, position: 'relative' }}>
+                  <Box sx={{
+                    position: 'absolute',
+                    left: 0,
+                    top: '50%',
+                    transform: 'translateY(-50%)',
+                    width: '1px',
+                    height: '60%',
+                    backgroundColor: 'divider',
+                    display: { xs: 'none', sm: 'block' }
+                  }} />
+                  <Box sx={{ mb: 1 }}><img src="/scalability.svg" alt="Scalable security operations" style={{ width: '2.5rem', height: '2.5rem' }} /></Box>
+                  <Typography level="body-sm">Scalable security operations</Typography>
+                </Box>
+              </Grid>
+              <Grid xs={12} sm={4} md={2}>
+                <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', textAlign: 'center', p: 2, position: 'relative' }}>
+                  <Box sx={{
+                    position: 'absolute',
+                    left: 0,
+                    top: '50%',
+                    transform: 'translateY(-50%)',
+                    width: '1px',
+                    height: '60%',
+                    backgroundColor: 'divider',
+                    display: { xs: 'none', sm: 'block' }
+                  }} />
+                  <Box sx={{ mb: 1 }}><img src="/shield.svg" alt="Reduced human error and fatigue" style={{ width: '2.5rem', height: '2.5rem' }} /></Box>
+                  <Typography level="body-sm">Reduced human error and fatigue</Typography>
+                </Box>
+              </Grid>
+              <Grid xs={12} sm={4} md={2}>
+                <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', textAlign: 'center', p: 2, position: 'relative' }}>
+                  <Box sx={{
+                    position: 'absolute',
+                    left: 0,
+                    top: '50%',
+                    transform: 'translateY(-50%)',
+                    width: '1px',
+                    height: '60%',
+                    backgroundColor: 'divider',
+                    display: { xs: 'none', sm: 'block' }
+                  }} />
+                  <Box sx={{ mb: 1 }}><img src="/radar.svg" alt="Advanced threat detection with AI/ML" style={{ width: '2.5rem', height: '2.5rem' }} /></Box>
+                  <Typography level="body-sm">Advanced threat detection</Typography>
+                </Box>
+              </Grid>
+            </Grid>
+          </Box>
+        </Card>
+
+        {/* Value Creation Analysis */}
+        <Card sx={{ mb: 3, background: 'rgba(15, 15, 15, 0.8)', backdropFilter: 'blur(10px)', maxWidth: '75rem', mx: 'auto' }}>
+          <ValueAnalysis
+            results={results}
+            valueMetrics={valueMetrics}
+            totalValue={totalValue}
+            assumptions={coefficients}
+            defaultAssumptions={defaultCoefficients}
+            inputCurrency={inputs.inputCurrency}
+            currency={currency}
+            onAssumptionsChange={updateCoefficients}
+            onShowTrace={setTraceKey}
+          />
+
+          <CalculationTraceDrawer trace={traceKey && traces[traceKey]} currency={currency} onClose={() => setTraceKey(null)} />
+        </Card>
       </Box>
 
+      {/* PDF Report Dialog */}
+      <ReportDialog
+        open={isReportOpen}
+        scenarioName={reportScenarioName}
+        onClose={() => setIsReportOpen(false)}
+        onDownload={async (customerName, preparedBy) => {
+          // The PDF library is bundled but only loaded once a report is requested
+          const { downloadReport } = await import('./report-pdf');
+          downloadReport(
+            { customerName, preparedBy, scenarioName: reportScenarioName, date: new Date() },
+            inputs,
+            coefficients,
+            output,
+            defaultCoefficients
+          );
+          setIsReportOpen(false);
+        }}
+      />
+
+      {/* Scenario Comparison Modal */}
+      <Modal open={isComparisonOpen} onClose={() => setIsComparisonOpen(false)}>
+        <ModalDialog
+          aria-labelledby="comparison-modal"
+          size="lg"
+          sx={{
+            maxWidth: '1100px',
+            width: '90vw',
+            maxHeight: '90vh',
+            overflow: 'auto'
+          }}
+        >
+          <Box sx={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            pb: 2,
+            borderBottom: '1px solid',
+            borderColor: 'divider'
+          }}>
+            <Typography id="comparison-modal" level="h2">
+              Scenario Comparison
+            </Typography>
+            <ModalClose />
+          </Box>
+          <ScenarioComparison scenarios={scenarioStore.scenarios} exchangeRates={exchangeRates} />
+        </ModalDialog>
+      </Modal>
+
+      <ExchangeRatesDialog
+        open={isExchangeRatesOpen}
+        rates={exchangeRates}
+        onChange={updateExchangeRates}
+        onClose={() => setIsExchangeRatesOpen(false)}
+      />
+
       {/* Model Customization Modal */}
-      <Modal open={isModalOpen} onClose={() => setIsModalOpen(false)}>
+      <Modal open={isModalOpen} onClose={closeModal}>
         <ModalDialog
           aria-labelledby="customization-modal"
           size="lg"
@@ -793,8 +1234,30 @@ export const ROICalculator: React.FC = () => {
                 </AccordionSummary>
                 <AccordionDetails>
                   <Stack spacing={2}>
-                    {renderInputField('Number of Employees', 'employeeCount', 'number', { min: 1 })}
-                    {renderInputField('Security Incidents per Month', 'securityIncidentsPerMonth', 'number', { min: 0 })}
+                    {renderCheckboxField('MSSP mode', 'msspMode', inputs.msspMode, (checked) => handleInputChange('msspMode', checked))}
+                    {inputs.msspMode && (
+                      <Typography level="body-xs" color="neutral">
+                        The employee count, incident volume, false positive rate and log volume are the combined load of the tenants,
+                        edited in the MSSP Tenant Portfolio.
+                      </Typography>
+                    )}
+                    {renderSelectField('Industry', 'industry', [
+                      ...Object.entries(INDUSTRY_PRESETS).map(([value, preset]) => ({ value, label: preset.label })),
+                      { value: 'custom', label: 'Custom' },
+                    ])}
+                    {renderInputField('Number of Employees', 'employeeCount', 'number')}
+                    {renderInputField('Monthly Incidents per Employee', 'incidentsPerEmployee', 'number', { step: 0.1 })}
+                    {renderInputField('Security Incidents per Month', 'securityIncidentsPerMonth', 'number')}
+                    {renderCheckboxField(
+                      'Link employees to incidents',
+                      'linkEmployeesToIncidents',
+                      inputs.linkEmployeesToIncidents,
+                      (checked) => handleInputChange('linkEmployeesToIncidents', checked)
+                    )}
+                    <Typography level="body-xs" color="neutral">
+                      An industry preset sets the incidents per employee, log volume ratio and false positive rate. While linked,
+                      changing the employee count rescales the incident volume and vice versa.
+                    </Typography>
                   </Stack>
                 </AccordionDetails>
               </Accordion>
@@ -806,11 +1269,11 @@ export const ROICalculator: React.FC = () => {
                 </AccordionSummary>
                 <AccordionDetails>
                   <Stack spacing={2}>
-                    {renderInputField('Average Incident Response Time (hours)', 'averageIncidentResponseTime', 'number', { min: 0, step: 0.5 })}
-                    {renderInputField('False Positive Rate (%)', 'falsePositiveRate', 'number', { min: 0, max: 100, step: 0.1 })}
-                    {renderInputField('Price per Security Incident ($)', 'pricePerSecurityIncident', 'number', { min: 0 })}
-                    {renderInputField('Log Volume Incident Ratio', 'logVolumeIncidentRatio', 'number', { min: 0, step: 0.1 })}
-                    {renderInputField('Monthly Log Volume (GB)', 'monthlyLogVolumeGB', 'number', { min: 0 })}
+                    {renderInputField('Average Incident Response Time (hours)', 'averageIncidentResponseTime', 'number', { step: 0.5 })}
+                    {renderInputField('False Positive Rate (%)', 'falsePositiveRate', 'number', { step: 0.1 })}
+                    {renderInputField('Price per Security Incident ($)', 'pricePerSecurityIncident', 'number')}
+                    {renderInputField('Log Volume Incident Ratio', 'logVolumeIncidentRatio', 'number', { step: 0.1 })}
+                    {renderInputField('Monthly Log Volume (GB)', 'monthlyLogVolumeGB', 'number')}
                   </Stack>
                 </AccordionDetails>
               </Accordion>
@@ -822,10 +1285,59 @@ export const ROICalculator: React.FC = () => {
                 </AccordionSummary>
                 <AccordionDetails>
                   <Stack spacing={2}>
-                    {renderInputField('SOC Analysts', 'humanSOCAnalysts', 'number', { min: 0 })}
-                    {renderInputField('SOC Managers', 'humanSOCManager', 'number', { min: 0 })}
-                    {renderInputField('SOC Engineers', 'humanSOCEngineer', 'number', { min: 0 })}
-                    {renderInputField('SOC Director', 'humanSOCDirector', 'number', { min: 0 })}
+                    {renderInputField('SOC Analysts', 'humanSOCAnalysts', 'number')}
+                    {renderInputField('SOC Managers', 'humanSOCManager', 'number')}
+                    {renderInputField('SOC Engineers', 'humanSOCEngineer', 'number')}
+                    {renderInputField('SOC Director', 'humanSOCDirector', 'number')}
+                  </Stack>
+                </AccordionDetails>
+              </Accordion>
+
+              {/* Staffing Ratios */}
+              <Accordion defaultExpanded>
+                <AccordionSummary>
+                  <Typography level="h4">Staffing Ratios</Typography>
+                </AccordionSummary>
+                <AccordionDetails>
+                  <Stack spacing={2}>
+                    {renderInputField('Monthly Incidents per Analyst', 'incidentsPerAnalyst', 'number', { step: 100 })}
+                    {renderInputField('Monthly Incidents per Manager', 'incidentsPerManager', 'number', { step: 100 })}
+                    {renderInputField('Monthly Incidents per Engineer', 'incidentsPerEngineer', 'number', { step: 100 })}
+                    {renderInputField('Monthly Incidents per Director', 'incidentsPerDirector', 'number', { step: 100 })}
+                    {renderInputField('Minimum Analysts', 'minAnalysts', 'number')}
+                    {renderInputField('Minimum Managers', 'minManagers', 'number')}
+                    {renderInputField('Minimum Engineers', 'minEngineers', 'number')}
+                    {renderInputField('Minimum Directors', 'minDirectors', 'number')}
+                    {renderInputField('Analysts per Manager', 'analystsPerManager', 'number')}
+                    {renderInputField('Managers per Director', 'managersPerDirector', 'number')}
+                    <Typography level="body-xs" color="neutral">
+                      The SOC team is resized from these ratios whenever the incident load changes. When analysts per manager or
+                      managers per director is set, that role is sized from the team it manages instead of the incident load; 0 turns
+                      the rule off.
+                    </Typography>
+                  </Stack>
+                </AccordionDetails>
+              </Accordion>
+
+              {/* Salary Bands */}
+              <Accordion defaultExpanded>
+                <AccordionSummary>
+                  <Typography level="h4">Salary Bands</Typography>
+                </AccordionSummary>
+                <AccordionDetails>
+                  <Stack spacing={2}>
+                    {renderSelectField('Region', 'salaryRegion', [
+                      ...Object.entries(SALARY_PRESETS).map(([value, preset]) => ({ value, label: preset.label })),
+                      { value: 'custom', label: 'Custom' },
+                    ])}
+                    {renderInputField('SOC Analyst Salary ($)', 'analystSalary', 'number', { step: 1000 })}
+                    {renderInputField('SOC Manager Salary ($)', 'managerSalary', 'number', { step: 1000 })}
+                    {renderInputField('SOC Engineer Salary ($)', 'engineerSalary', 'number', { step: 1000 })}
+                    {renderInputField('SOC Director Salary ($)', 'directorSalary', 'number', { step: 1000 })}
+                    {renderInputField('Benefits & Overhead Multiplier', 'laborOverheadMultiplier', 'number', { step: 0.05 })}
+                    <Typography level="body-xs" color="neutral">
+                      Base salaries are multiplied by the benefits & overhead multiplier to give the fully-loaded cost of each role.
+                    </Typography>
                   </Stack>
                 </AccordionDetails>
               </Accordion>
@@ -837,16 +1349,120 @@ export const ROICalculator: React.FC = () => {
                 </AccordionSummary>
                 <AccordionDetails>
                   <Stack spacing={2}>
-                                      {renderInputField('Legacy SIEM Price per GB ($)', 'legacySIEMPricePerGB', 'number', { min: 0, step: 0.01 })}
-                  {renderInputField('Annual SIEM Licensing Costs ($)', 'siemLicensingCosts', 'number', { min: 0 })}
-                  {renderInputField('Stellar XDR Cost per GB ($)', 'stellarXDRCostPerGB', 'number', { min: 0, step: 0.01 })}
-                  {renderInputField('Annual Stellar XDR Platform Costs ($)', 'stellarXDRPlatformCosts', 'number', { min: 0 })}
+                                      {renderInputField('Legacy SIEM Price per GB ($)', 'legacySIEMPricePerGB', 'number', { step: 0.01 })}
+                  {renderInputField('Annual SIEM Licensing Costs ($)', 'siemLicensingCosts', 'number')}
+                  {renderInputField('Stellar XDR Cost per GB ($)', 'stellarXDRCostPerGB', 'number', { step: 0.01 })}
+                  {renderInputField('Annual Stellar XDR Platform Costs ($)', 'stellarXDRPlatformCosts', 'number')}
                     {renderCheckboxField(
                       'Switch from Legacy SIEM',
                       'switchFromLegacySIEM',
                       inputs.switchFromLegacySIEM,
                       (checked) => handleInputChange('switchFromLegacySIEM', checked)
                     )}
+                    {!inputs.switchFromLegacySIEM && (
+                      <>
+                        <Typography level="body-xs" color="neutral">
+                          Coexistence mode keeps the legacy SIEM alongside Stellar XDR. Each platform is licensed for the share of log volume forwarded to it.
+                        </Typography>
+                        {renderInputField('Log Volume Forwarded to Legacy SIEM (%)', 'siemLogForwardingPercentage', 'number')}
+                        {renderInputField('Log Volume Forwarded to Stellar XDR (%)', 'xdrLogForwardingPercentage', 'number')}
+                      </>
+                    )}
+                  </Stack>
+                </AccordionDetails>
+              </Accordion>
+
+              {/* Licensing */}
+              <Accordion defaultExpanded={hasVolumePricing(inputs)}>
+                <AccordionSummary>
+                  <Typography level="h4">Licensing</Typography>
+                </AccordionSummary>
+                <AccordionDetails>
+                  <Stack spacing={3}>
+                    <Typography level="body-xs" color="neutral">
+                      Flat pricing charges every incident or GB at the unit price above. Volume tiers, an annual commitment and a minimum contract value replace it for larger deals.
+                    </Typography>
+                    {(Object.keys(PRICED_PRODUCTS) as PricedProduct[]).map((product) => (
+                      <PricingEditor
+                        key={product}
+                        inputs={inputs}
+                        product={product}
+                        onChange={(pricing, group) => updateInputs(setVolumePricing(inputs, product, pricing), group)}
+                      />
+                    ))}
+                  </Stack>
+                </AccordionDetails>
+              </Accordion>
+
+              {/* Existing Security Stack */}
+              <Accordion defaultExpanded={inputs.costItems.length > 0}>
+                <AccordionSummary>
+                  <Typography level="h4">Existing Security Stack</Typography>
+                </AccordionSummary>
+                <AccordionDetails>
+                  <CostItemsEditor inputs={inputs} onChange={(costItems, group) => updateInputs({ ...inputs, costItems }, group)} />
+                </AccordionDetails>
+              </Accordion>
+
+              {/* Implementation Costs */}
+              <Accordion defaultExpanded>
+                <AccordionSummary>
+                  <Typography level="h4">Implementation Costs</Typography>
+                </AccordionSummary>
+                <AccordionDetails>
+                  <Stack spacing={2}>
+                    {renderInputField('Professional Services ($)', 'professionalServicesCost', 'number', { step: 1000 })}
+                    {renderInputField('SIEM Migration ($)', 'siemMigrationCost', 'number', { step: 1000 })}
+                    {renderInputField('Training ($)', 'trainingCost', 'number', { step: 1000 })}
+                    {renderInputField('Dual-Running Period (months)', 'dualRunningMonths', 'number')}
+                    {renderInputField('Efficiency Ramp-Up Period (months)', 'rampUpMonths', 'number')}
+                    <Typography level="body-xs" color="neutral">
+                      Dual-running licenses the legacy SIEM alongside Stellar XDR during cutover. Efficiency gains phase in linearly over the ramp-up period.
+                    </Typography>
+                  </Stack>
+                </AccordionDetails>
+              </Accordion>
+
+              {/* Multi-Year Projection */}
+              <Accordion defaultExpanded>
+                <AccordionSummary>
+                  <Typography level="h4">Multi-Year Projection</Typography>
+                </AccordionSummary>
+                <AccordionDetails>
+                  <Stack spacing={2}>
+                    {renderInputField('Annual Employee Growth (%)', 'employeeGrowthRate', 'number', { step: 0.5 })}
+                    {renderInputField('Annual Log Volume Growth (%)', 'logVolumeGrowthRate', 'number', { step: 0.5 })}
+                    {renderInputField('Annual Salary Inflation (%)', 'salaryInflationRate', 'number', { step: 0.5 })}
+                    {renderInputField('Legacy SIEM Annual Price Escalator (%)', 'legacySIEMPriceEscalator', 'number', { step: 0.5 })}
+                    {renderInputField('Stellar Cyber Annual Price Escalator (%)', 'stellarPriceEscalator', 'number', { step: 0.5 })}
+                    {renderInputField('Discount Rate (%)', 'discountRate', 'number', { step: 0.5 })}
+                  </Stack>
+                </AccordionDetails>
+              </Accordion>
+
+              {/* Currency */}
+              <Accordion defaultExpanded>
+                <AccordionSummary>
+                  <Typography level="h4">Currency</Typography>
+                </AccordionSummary>
+                <AccordionDetails>
+                  <Stack spacing={2}>
+                    {renderSelectField('Input Currency', 'inputCurrency', currencyOptions)}
+                    {renderSelectField('Reporting Currency', 'reportingCurrency', currencyOptions)}
+                    {inputs.inputCurrency !== inputs.reportingCurrency &&
+                      renderInputField(
+                        `Exchange Rate (${inputs.reportingCurrency} per 1 ${inputs.inputCurrency})`,
+                        'exchangeRate',
+                        'number',
+                        { step: 0.0001 }
+                      )}
+                    <Typography level="body-xs" color="neutral">
+                      Prices, salaries and monetary assumptions are entered in the input currency; changing it converts them. Results,
+                      charts and exports are shown in the reporting currency.{' '}
+                      <Link component="button" level="body-xs" onClick={() => setIsExchangeRatesOpen(true)}>
+                        Edit exchange rates
+                      </Link>
+                    </Typography>
                   </Stack>
                 </AccordionDetails>
               </Accordion>
@@ -866,21 +1482,13 @@ export const ROICalculator: React.FC = () => {
             <Button
               variant="outlined"
               color="neutral"
-              onClick={() => {
-                setInputs(defaultInputs);
-                // Clear localStorage when resetting to defaults
-                try {
-                  localStorage.removeItem('roi-calculator-inputs');
-                } catch (error) {
-                  console.warn('Failed to clear localStorage:', error);
-                }
-              }}
+              onClick={resetInputs}
             >
               Reset to Defaults
             </Button>
             <Button
               variant="outlined"
-              onClick={() => setIsModalOpen(false)}
+              onClick={closeModal}
             >
               Close
             </Button>
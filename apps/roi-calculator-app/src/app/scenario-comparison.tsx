@@ -0,0 +1,158 @@
+import React, { useMemo, useState } from 'react';
+import Box from '@mui/joy/Box';
+import Typography from '@mui/joy/Typography';
+import Checkbox from '@mui/joy/Checkbox';
+import Table from '@mui/joy/Table';
+import {
+  calculateComputedFields,
+  CURRENCIES,
+  getExchangeRate,
+  runCalculation,
+  VALUE_CATEGORIES,
+  type CalculationOutput,
+  type ExchangeRates,
+} from '@stellarcyber/roi-engine';
+import { formatReportValue, type ReportFormat } from './report-data';
+import { MAX_COMPARED_SCENARIOS, type Scenario } from './scenarios';
+
+interface ScenarioComparisonProps {
+  scenarios: Scenario[];
+  exchangeRates: ExchangeRates;
+}
+
+interface ComparisonRow {
+  label: string;
+  format: ReportFormat;
+  higherIsBetter: boolean;
+  getValue: (output: CalculationOutput) => number | null;
+}
+
+const comparisonRows: ComparisonRow[] = [
+  { label: 'Annual Savings', format: 'currency', higherIsBetter: true, getValue: (o) => o.results.annualSavings },
+  { label: 'Platform Savings', format: 'currency', higherIsBetter: true, getValue: (o) => o.results.platformSavings },
+  { label: 'ROI', format: 'percentage', higherIsBetter: true, getValue: (o) => o.results.roiPercentage },
+  { label: 'First-Year ROI', format: 'percentage', higherIsBetter: true, getValue: (o) => o.results.firstYearROIPercentage },
+  { label: 'Payback Period', format: 'months', higherIsBetter: false, getValue: (o) => o.results.paybackPeriod },
+  { label: 'Efficiency Improvement', format: 'percentage', higherIsBetter: true, getValue: (o) => o.results.efficiencyImprovement },
+  { label: 'Human SOC Cost', format: 'currency', higherIsBetter: false, getValue: (o) => o.results.humanSOCTotalCost },
+  { label: 'Autonomous SOC Cost', format: 'currency', higherIsBetter: false, getValue: (o) => o.results.autonomousSOCTotalCost },
+  { label: 'Freed Employees', format: 'number', higherIsBetter: true, getValue: (o) => o.workforce.freedEmployees },
+  { label: 'Annual Time Savings', format: 'hours', higherIsBetter: true, getValue: (o) => o.workforce.annualTimeSavings },
+  { label: 'Total Value Created', format: 'currency', higherIsBetter: true, getValue: (o) => o.totalValue },
+  ...VALUE_CATEGORIES.map((category): ComparisonRow => ({
+    label: category.name,
+    format: 'currency',
+    higherIsBetter: true,
+    getValue: (o) => o.valueMetrics[category.key],
+  })),
+];
+
+export const ScenarioComparison: React.FC<ScenarioComparisonProps> = ({ scenarios, exchangeRates }) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>(() =>
+    scenarios.slice(0, MAX_COMPARED_SCENARIOS).map((scenario) => scenario.id)
+  );
+
+  const compared = useMemo(
+    () =>
+      selectedIds
+        .map((id) => scenarios.find((scenario) => scenario.id === id))
+        .filter((scenario): scenario is Scenario => scenario !== undefined)
+        .map((scenario) => ({ scenario, output: runCalculation(calculateComputedFields(scenario.inputs), scenario.coefficients) })),
+    [scenarios, selectedIds]
+  );
+
+  // Amounts are compared in the first scenario's reporting currency, each scenario converts at its own rate first
+  const currency = compared[0]?.scenario.inputs.reportingCurrency ?? 'USD';
+  const getRowValue = (row: ComparisonRow, { scenario, output }: (typeof compared)[number]): number | null => {
+    const value = row.getValue(output);
+    if (value === null || row.format !== 'currency') {
+      return value;
+    }
+    return value * scenario.inputs.exchangeRate * getExchangeRate(scenario.inputs.reportingCurrency, currency, exchangeRates);
+  };
+
+  const toggleScenario = (id: string, checked: boolean) => {
+    setSelectedIds((prev) => (checked ? [...prev, id] : prev.filter((selectedId) => selectedId !== id)));
+  };
+
+  const formatValue = (value: number | null, format: ReportFormat): string => formatReportValue(value, format, { currency, rate: 1 });
+
+  // Deltas are shown against the first selected scenario
+  const renderDelta = (row: ComparisonRow, value: number | null, baseline: number | null) => {
+    if (value === null || baseline === null) {
+      return null;
+    }
+    const delta = value - baseline;
+    if (Math.abs(delta) < 0.05) {
+      return null;
+    }
+    const isBetter = row.higherIsBetter ? delta > 0 : delta < 0;
+    const sign = delta > 0 ? '+' : '-';
+    return (
+      <Typography level="body-xs" color={isBetter ? 'success' : 'danger'}>
+        {sign}{formatValue(Math.abs(delta), row.format)}
+      </Typography>
+    );
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, mb: 2 }}>
+        {scenarios.map((scenario) => {
+          const checked = selectedIds.includes(scenario.id);
+          return (
+            <Checkbox
+              key={scenario.id}
+              label={scenario.name}
+              checked={checked}
+              disabled={!checked && selectedIds.length >= MAX_COMPARED_SCENARIOS}
+              onChange={(e) => toggleScenario(scenario.id, e.target.checked)}
+              size="sm"
+            />
+          );
+        })}
+      </Box>
+
+      {compared.length < 2 ? (
+        <Typography level="body-sm" color="neutral">
+          Select two to {MAX_COMPARED_SCENARIOS} scenarios to compare.
+        </Typography>
+      ) : (
+        <Table size="sm" sx={{ '& th, & td': { textAlign: 'right' }, '& th:first-of-type, & td:first-of-type': { textAlign: 'left' } }}>
+          <thead>
+            <tr>
+              <th>Metric</th>
+              {compared.map(({ scenario }) => (
+                <th key={scenario.id}>{scenario.name}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {comparisonRows.map((row) => {
+              const baseline = getRowValue(row, compared[0]);
+              return (
+                <tr key={row.label}>
+                  <td>{row.label}</td>
+                  {compared.map((entry, index) => {
+                    const value = getRowValue(row, entry);
+                    return (
+                      <td key={entry.scenario.id}>
+                        <Typography level="body-sm">{formatValue(value, row.format)}</Typography>
+                        {index > 0 && renderDelta(row, value, baseline)}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+          </tbody>
+        </Table>
+      )}
+      {compared.length >= 2 && (
+        <Typography level="body-xs" color="neutral" sx={{ mt: 1 }}>
+          Amounts in {CURRENCIES[currency].label}
+        </Typography>
+      )}
+    </Box>
+  );
+};
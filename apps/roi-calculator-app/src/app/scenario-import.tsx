@@ -0,0 +1,75 @@
+import React, { useRef, useState } from 'react';
+import Button from '@mui/joy/Button';
+import Typography from '@mui/joy/Typography';
+import List from '@mui/joy/List';
+import ListItem from '@mui/joy/ListItem';
+import Modal from '@mui/joy/Modal';
+import ModalDialog from '@mui/joy/ModalDialog';
+import ModalClose from '@mui/joy/ModalClose';
+import type { BaseInputs, ModelCoefficients } from '@stellarcyber/roi-engine';
+import { parseScenarioDocument, type FieldError } from './scenario-schema';
+
+interface ScenarioImportProps {
+  onImport: (name: string, inputs: BaseInputs, coefficients: ModelCoefficients) => void;
+}
+
+type ImportFailure = { fileName: string; errors: FieldError[] } | null;
+
+export const ScenarioImport: React.FC<ScenarioImportProps> = ({ onImport }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [failure, setFailure] = useState<ImportFailure>(null);
+
+  const importFile = async (file: File) => {
+    const result = parseScenarioDocument(await file.text(), file.name.replace(/\.json$/i, ''));
+    if (result.ok) {
+      onImport(result.name, result.inputs, result.coefficients);
+    } else {
+      setFailure({ fileName: file.name, errors: result.errors });
+    }
+  };
+
+  return (
+    <>
+      <Button size="sm" variant="outlined" onClick={() => fileInputRef.current?.click()}>
+        Import
+      </Button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        hidden
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          // Reset so picking the same file again still triggers a change
+          e.target.value = '';
+          if (file) {
+            importFile(file);
+          }
+        }}
+      />
+
+      <Modal open={failure !== null} onClose={() => setFailure(null)}>
+        <ModalDialog aria-labelledby="import-error-modal" size="sm" sx={{ maxWidth: '32rem' }}>
+          <ModalClose />
+          <Typography id="import-error-modal" level="h4">
+            Import Failed
+          </Typography>
+          <Typography level="body-sm" color="neutral">
+            {failure?.fileName} could not be imported. Nothing was changed.
+          </Typography>
+          <List size="sm" sx={{ overflow: 'auto' }}>
+            {failure?.errors.map((error) => (
+              <ListItem key={`${error.field}-${error.message}`}>
+                <Typography level="body-sm" color="danger">
+                  {error.field && <Typography fontFamily="code">{error.field}</Typography>}
+                  {error.field && ': '}
+                  {error.message}
+                </Typography>
+              </ListItem>
+            ))}
+          </List>
+        </ModalDialog>
+      </Modal>
+    </>
+  );
+};
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import Box from '@mui/joy/Box';
+import Typography from '@mui/joy/Typography';
+import Button from '@mui/joy/Button';
+import Input from '@mui/joy/Input';
+import Select from '@mui/joy/Select';
+import Option from '@mui/joy/Option';
+import Modal from '@mui/joy/Modal';
+import ModalDialog from '@mui/joy/ModalDialog';
+import ModalClose from '@mui/joy/ModalClose';
+import type { ScenarioStore } from './scenarios';
+
+interface ScenarioManagerProps {
+  store: ScenarioStore;
+  onSelect: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onCompare: () => void;
+}
+
+type NameDialog = { mode: 'create' | 'rename'; name: string } | null;
+
+export const ScenarioManager: React.FC<ScenarioManagerProps> = ({
+  store,
+  onSelect,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onCompare,
+}) => {
+  const [nameDialog, setNameDialog] = useState<NameDialog>(null);
+  const activeScenario = store.scenarios.find((scenario) => scenario.id === store.activeScenarioId);
+
+  const submitNameDialog = () => {
+    if (!nameDialog || !nameDialog.name.trim()) {
+      return;
+    }
+    if (nameDialog.mode === 'create') {
+      onCreate(nameDialog.name.trim());
+    } else {
+      onRename(store.activeScenarioId, nameDialog.name.trim());
+    }
+    setNameDialog(null);
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1 }}>
+      <Typography level="body-sm">Scenario:</Typography>
+      <Select
+        value={store.activeScenarioId}
+        onChange={(_, value) => value && onSelect(value)}
+        size="sm"
+        sx={{ minWidth: '12rem' }}
+      >
+        {store.scenarios.map((scenario) => (
+          <Option key={scenario.id} value={scenario.id}>
+            {scenario.name}
+          </Option>
+        ))}
+      </Select>
+      <Button size="sm" variant="outlined" onClick={() => setNameDialog({ mode: 'create', name: '' })}>
+        New
+      </Button>
+      <Button size="sm" variant="outlined" onClick={() => setNameDialog({ mode: 'rename', name: activeScenario?.name ?? '' })}>
+        Rename
+      </Button>
+      <Button size="sm" variant="outlined" onClick={() => onDuplicate(store.activeScenarioId)}>
+        Duplicate
+      </Button>
+      <Button
+        size="sm"
+        variant="outlined"
+        color="danger"
+        disabled={store.scenarios.length <= 1}
+        onClick={() => onDelete(store.activeScenarioId)}
+      >
+        Delete
+      </Button>
+      <Button size="sm" variant="outlined" disabled={store.scenarios.length < 2} onClick={onCompare}>
+        Compare
+      </Button>
+
+      <Modal open={nameDialog !== null} onClose={() => setNameDialog(null)}>
+        <ModalDialog aria-labelledby="scenario-name-modal" size="sm">
+          <ModalClose />
+          <Typography id="scenario-name-modal" level="h4">
+            {nameDialog?.mode === 'create' ? 'New Scenario' : 'Rename Scenario'}
+          </Typography>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              submitNameDialog();
+            }}
+          >
+            <Input
+              autoFocus
+              value={nameDialog?.name ?? ''}
+              onChange={(e) => setNameDialog((prev) => (prev ? { ...prev, name: e.target.value } : prev))}
+              placeholder="Scenario name"
+              size="sm"
+              sx={{ mb: 2 }}
+            />
+            <Button type="submit" fullWidth disabled={!nameDialog?.name.trim()}>
+              {nameDialog?.mode === 'create' ? 'Create' : 'Rename'}
+            </Button>
+          </form>
+        </ModalDialog>
+      </Modal>
+    </Box>
+  );
+};
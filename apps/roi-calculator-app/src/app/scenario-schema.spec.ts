@@ -0,0 +1,172 @@
+import { baseInputs, DEFAULT_COEFFICIENTS, STAFFING_FIELDS } from '@stellarcyber/roi-engine';
+import { createScenarioDocument, parseScenarioDocument, SCHEMA_VERSION } from './scenario-schema';
+
+describe('scenario documents', () => {
+  it('round-trips an exported scenario', () => {
+    const inputs = { ...baseInputs, employeeCount: 1200 };
+    const coefficients = { ...DEFAULT_COEFFICIENTS, value: { ...DEFAULT_COEFFICIENTS.value, escalationCost: 7500 } };
+    const result = parseScenarioDocument(JSON.stringify(createScenarioDocument('Proposed', inputs, coefficients)), 'fallback');
+    expect(result).toEqual({ ok: true, name: 'Proposed', inputs, coefficients });
+  });
+
+  it('migrates unversioned inputs, dropping computed fields', () => {
+    const legacy = { employeeCount: 800, securityIncidentsPerMonth: 3840, humanSOCAnalysts: 4 };
+    expect(parseScenarioDocument(JSON.stringify(legacy), 'legacy-export')).toEqual({
+      ok: true,
+      name: 'legacy-export',
+      inputs: { ...baseInputs, employeeCount: 800 },
+      coefficients: DEFAULT_COEFFICIENTS,
+    });
+  });
+
+  it('gives version 1 documents the default coefficients', () => {
+    const document = { format: 'stellar-cyber-roi-scenario', version: 1, scenario: { name: 'Old', inputs: baseInputs } };
+    expect(parseScenarioDocument(JSON.stringify(document), 'x')).toEqual({
+      ok: true,
+      name: 'Old',
+      inputs: baseInputs,
+      coefficients: DEFAULT_COEFFICIENTS,
+    });
+  });
+
+  it('gives version 2 documents the previous fixed staffing ratios', () => {
+    const inputs: Record<string, unknown> = { ...baseInputs };
+    STAFFING_FIELDS.forEach((field) => delete inputs[field]);
+    const document = { format: 'stellar-cyber-roi-scenario', version: 2, scenario: { name: 'Old', inputs, coefficients: DEFAULT_COEFFICIENTS } };
+    expect(parseScenarioDocument(JSON.stringify(document), 'x')).toMatchObject({ ok: true, inputs: baseInputs });
+  });
+
+  it('keeps version 3 documents linked at the fixed incident density', () => {
+    const { industry, incidentsPerEmployee, linkEmployeesToIncidents, unlinkedIncidentsPerMonth, ...inputs } = { ...baseInputs, employeeCount: 750 };
+    const document = { format: 'stellar-cyber-roi-scenario', version: 3, scenario: { name: 'Old', inputs, coefficients: DEFAULT_COEFFICIENTS } };
+    expect(parseScenarioDocument(JSON.stringify(document), 'x')).toMatchObject({
+      ok: true,
+      inputs: { industry, incidentsPerEmployee, linkEmployeesToIncidents, unlinkedIncidentsPerMonth: 3600 },
+    });
+    expect(unlinkedIncidentsPerMonth).toBe(2400);
+  });
+
+  it('reports version 4 documents in USD', () => {
+    const { inputCurrency, reportingCurrency, exchangeRate, ...inputs } = baseInputs;
+    const document = { format: 'stellar-cyber-roi-scenario', version: 4, scenario: { name: 'Old', inputs, coefficients: DEFAULT_COEFFICIENTS } };
+    expect(parseScenarioDocument(JSON.stringify(document), 'x')).toMatchObject({ ok: true, inputs: baseInputs });
+    expect([inputCurrency, reportingCurrency, exchangeRate]).toEqual(['USD', 'USD', 1]);
+  });
+
+  it('rejects unknown currencies and values outside the input limits', () => {
+    const document = createScenarioDocument(
+      'Broken',
+      { ...baseInputs, falsePositiveRate: 150, reportingCurrency: 'XYZ' as 'USD', exchangeRate: 0 },
+      DEFAULT_COEFFICIENTS
+    );
+    expect(parseScenarioDocument(JSON.stringify(document), 'x')).toEqual({
+      ok: false,
+      errors: [
+        { field: 'scenario.inputs.falsePositiveRate', message: 'Must be at most 100' },
+        { field: 'scenario.inputs.reportingCurrency', message: 'Expected one of USD, EUR, GBP, JPY, AUD, CAD, SGD, INR' },
+        { field: 'scenario.inputs.exchangeRate', message: 'Must be greater than 0' },
+      ],
+    });
+  });
+
+  it('keeps pinned overrides and rejects unknown or invalid ones', () => {
+    const pinned = { ...baseInputs, overrides: { humanSOCAnalysts: 8, monthlyLogVolumeGB: 5000 } };
+    expect(parseScenarioDocument(JSON.stringify(createScenarioDocument('Pinned', pinned, DEFAULT_COEFFICIENTS)), 'x')).toMatchObject({
+      ok: true,
+      inputs: pinned,
+    });
+    const broken = { ...baseInputs, overrides: { humanSOCAnalysts: -1, employeeCount: 10 } };
+    expect(parseScenarioDocument(JSON.stringify(createScenarioDocument('Broken', broken, DEFAULT_COEFFICIENTS)), 'x')).toEqual({
+      ok: false,
+      errors: [
+        { field: 'scenario.inputs.overrides.humanSOCAnalysts', message: 'Must be at least 0' },
+        { field: 'scenario.inputs.overrides.employeeCount', message: 'Unknown field' },
+      ],
+    });
+  });
+
+  it('keeps cost line items and rejects incomplete ones', () => {
+    const soar = { id: 'a', name: 'SOAR', basis: 'annual', amount: 60000, unit: 'employee', treatment: 'retired', reductionPercentage: 0 } as const;
+    const listed = { ...baseInputs, costItems: [soar] };
+    expect(parseScenarioDocument(JSON.stringify(createScenarioDocument('Stack', listed, DEFAULT_COEFFICIENTS)), 'x')).toMatchObject({
+      ok: true,
+      inputs: listed,
+    });
+    const broken = { ...baseInputs, costItems: [{ ...soar, treatment: 'gone', reductionPercentage: 120 }] };
+    expect(parseScenarioDocument(JSON.stringify(createScenarioDocument('Broken', broken as never, DEFAULT_COEFFICIENTS)), 'x')).toEqual({
+      ok: false,
+      errors: [
+        { field: 'scenario.inputs.costItems[0].treatment', message: 'Expected one of retired, reduced, unchanged' },
+        { field: 'scenario.inputs.costItems[0].reductionPercentage', message: 'Must be at most 100' },
+      ],
+    });
+  });
+
+  it('keeps MSSP tenants and rejects loads outside the input limits', () => {
+    const acme = { id: 'a', name: 'Acme', employeeCount: 800, securityIncidentsPerMonth: 3200, monthlyLogVolumeGB: 4000, falsePositiveRate: 85, monthlyFee: 15000 };
+    const mssp = { ...baseInputs, msspMode: true, tenants: [acme] };
+    expect(parseScenarioDocument(JSON.stringify(createScenarioDocument('MSSP', mssp, DEFAULT_COEFFICIENTS)), 'x')).toMatchObject({
+      ok: true,
+      inputs: mssp,
+    });
+    const broken = { ...mssp, tenants: [{ ...acme, employeeCount: 10.5, falsePositiveRate: 101 }] };
+    expect(parseScenarioDocument(JSON.stringify(createScenarioDocument('Broken', broken, DEFAULT_COEFFICIENTS)), 'x')).toEqual({
+      ok: false,
+      errors: [
+        { field: 'scenario.inputs.tenants[0].employeeCount', message: 'Must be a whole number' },
+        { field: 'scenario.inputs.tenants[0].falsePositiveRate', message: 'Must be at most 100' },
+      ],
+    });
+  });
+
+  it('keeps licensing plans and rejects unknown models or tiers outside the input limits', () => {
+    const incidentPricing = { model: 'tiered' as const, tiers: [{ from: 5000, price: 2 }], committedVolume: 3000, overagePrice: 2.5, minimumAnnualValue: 100000 };
+    const tiered = { ...baseInputs, incidentPricing };
+    expect(parseScenarioDocument(JSON.stringify(createScenarioDocument('Tiered', tiered, DEFAULT_COEFFICIENTS)), 'x')).toMatchObject({
+      ok: true,
+      inputs: tiered,
+    });
+    const broken = { ...baseInputs, incidentPricing: { ...incidentPricing, model: 'seats', tiers: [{ from: 5000, price: -1 }] } };
+    expect(parseScenarioDocument(JSON.stringify(createScenarioDocument('Broken', broken as never, DEFAULT_COEFFICIENTS)), 'x')).toEqual({
+      ok: false,
+      errors: [
+        { field: 'scenario.inputs.incidentPricing.model', message: 'Expected one of flat, tiered' },
+        { field: 'scenario.inputs.incidentPricing.tiers[0].price', message: 'Must be at least 0' },
+      ],
+    });
+  });
+
+  it('reports field-level errors for invalid coefficients', () => {
+    const document = createScenarioDocument('Broken', baseInputs, DEFAULT_COEFFICIENTS);
+    const coefficients = { ...DEFAULT_COEFFICIENTS, value: { ...DEFAULT_COEFFICIENTS.value, escalationCost: -1 } };
+    const result = parseScenarioDocument(JSON.stringify({ ...document, scenario: { ...document.scenario, coefficients } }), 'x');
+    expect(result).toEqual({
+      ok: false,
+      errors: [{ field: 'scenario.coefficients.value.escalationCost', message: 'Expected a non-negative number but got -1' }],
+    });
+  });
+
+  it('reports field-level errors for invalid inputs', () => {
+    const document = createScenarioDocument('Broken', baseInputs, DEFAULT_COEFFICIENTS);
+    const broken = { ...document, scenario: { ...document.scenario, inputs: { ...baseInputs, employeeCount: '500', salaryRegion: 'mars', employees: 10 } } };
+    const result = parseScenarioDocument(JSON.stringify(broken), 'fallback');
+    expect(result).toEqual({
+      ok: false,
+      errors: [
+        { field: 'scenario.inputs.employees', message: 'Unknown field' },
+        { field: 'scenario.inputs.employeeCount', message: 'Expected a number but got "500"' },
+        { field: 'scenario.inputs.salaryRegion', message: 'Expected one of us, emea, apac, india, custom' },
+      ],
+    });
+  });
+
+  it('rejects malformed files and newer schema versions', () => {
+    expect(parseScenarioDocument('{not json', 'x')).toMatchObject({ ok: false, errors: [{ field: '' }] });
+    expect(parseScenarioDocument(JSON.stringify({ format: 'other', version: 1 }), 'x')).toMatchObject({
+      ok: false,
+      errors: [{ field: 'format' }],
+    });
+    const newer = { ...createScenarioDocument('Future', baseInputs, DEFAULT_COEFFICIENTS), version: SCHEMA_VERSION + 1 };
+    expect(parseScenarioDocument(JSON.stringify(newer), 'x')).toMatchObject({ ok: false, errors: [{ field: 'version' }] });
+  });
+});
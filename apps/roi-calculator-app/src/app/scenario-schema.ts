@@ -0,0 +1,387 @@
+import {
+  baseInputs,
+  COST_ITEM_TREATMENTS,
+  COST_ITEM_UNITS,
+  CURRENCIES,
+  DEFAULT_COEFFICIENTS,
+  DERIVED_FIELDS,
+  INDUSTRY_PRESETS,
+  INCIDENTS_PER_EMPLOYEE,
+  PRICING_MODELS,
+  SALARY_PRESETS,
+  STAFFING_FIELDS,
+  validateInputValue,
+  type BaseInputs,
+  type CalculationInputs,
+  type CoefficientGroup,
+  type DerivedField,
+  type ModelCoefficients,
+} from '@stellarcyber/roi-engine';
+
+// Bump together with a new entry in `migrations` whenever a persisted field is added, renamed or changes meaning
+export const SCHEMA_VERSION = 9;
+
+export const SCENARIO_DOCUMENT_FORMAT = 'stellar-cyber-roi-scenario';
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export interface ScenarioDocument {
+  format: typeof SCENARIO_DOCUMENT_FORMAT;
+  version: number;
+  exportedAt: string;
+  scenario: {
+    name: string;
+    inputs: BaseInputs;
+    coefficients: ModelCoefficients;
+  };
+}
+
+export type ScenarioImportResult =
+  | { ok: true; name: string; inputs: BaseInputs; coefficients: ModelCoefficients }
+  | { ok: false; errors: FieldError[] };
+
+type RawInputs = Record<string, unknown>;
+
+// The persisted parts of a scenario before validation
+export interface RawScenario {
+  inputs: RawInputs;
+  coefficients?: unknown;
+}
+
+// Derived fields that unversioned payloads stored alongside the inputs; they are recomputed on load
+const legacyComputedFields = [
+  'securityIncidentsPerMonth',
+  'humanSOCAnalysts',
+  'humanSOCManager',
+  'humanSOCEngineer',
+  'humanSOCDirector',
+  'monthlyLogVolumeGB',
+  'stellarXDRPlatformCosts',
+  'siemLicensingCosts',
+];
+
+// migrations[n] upgrades a scenario saved at version n to version n + 1
+const migrations: ((scenario: RawScenario) => RawScenario)[] = [
+  // 0 -> 1: unversioned payloads may predate newer fields and can carry computed fields
+  (scenario) => {
+    const upgraded: RawInputs = { ...baseInputs, ...scenario.inputs };
+    legacyComputedFields.forEach((field) => delete upgraded[field]);
+    return { ...scenario, inputs: upgraded };
+  },
+  // 1 -> 2: model coefficients became editable and are saved with the scenario
+  (scenario) => ({ ...scenario, coefficients: DEFAULT_COEFFICIENTS }),
+  // 2 -> 3: staffing ratios became editable, the defaults are the fixed ratios used before
+  (scenario) => ({
+    ...scenario,
+    inputs: { ...Object.fromEntries(STAFFING_FIELDS.map((field) => [field, baseInputs[field]])), ...scenario.inputs },
+  }),
+  // 3 -> 4: incident density became editable, older scenarios keep the fixed ratio and stay linked
+  (scenario) => ({
+    ...scenario,
+    inputs: {
+      industry: 'custom',
+      incidentsPerEmployee: INCIDENTS_PER_EMPLOYEE,
+      linkEmployeesToIncidents: true,
+      unlinkedIncidentsPerMonth:
+        typeof scenario.inputs.employeeCount === 'number' ? Math.round(scenario.inputs.employeeCount * INCIDENTS_PER_EMPLOYEE) : 0,
+      ...scenario.inputs,
+    },
+  }),
+  // 4 -> 5: currencies became selectable, older scenarios were entered and reported in USD
+  (scenario) => ({
+    ...scenario,
+    inputs: { inputCurrency: 'USD', reportingCurrency: 'USD', exchangeRate: 1, ...scenario.inputs },
+  }),
+  // 5 -> 6: computed fields can be pinned, nothing was pinned before
+  (scenario) => ({ ...scenario, inputs: { overrides: {}, ...scenario.inputs } }),
+  // 6 -> 7: other security stack costs can be listed, older scenarios had none
+  (scenario) => ({ ...scenario, inputs: { costItems: [], ...scenario.inputs } }),
+  // 7 -> 8: MSSP mode was added, older scenarios model a single organization
+  (scenario) => ({ ...scenario, inputs: { msspMode: false, tenants: [], ...scenario.inputs } }),
+  // 8 -> 9: volume licensing was added, older scenarios were priced flat per incident and per GB
+  (scenario) => ({
+    ...scenario,
+    inputs: { incidentPricing: baseInputs.incidentPricing, logVolumePricing: baseInputs.logVolumePricing, ...scenario.inputs },
+  }),
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const salaryRegions = [...Object.keys(SALARY_PRESETS), 'custom'];
+const industries = [...Object.keys(INDUSTRY_PRESETS), 'custom'];
+const currencies = Object.keys(CURRENCIES);
+
+// Each pinned value must be a computed field within that field's limits
+const validateOverrides = (overrides: Record<string, unknown>, path: string): FieldError[] =>
+  Object.entries(overrides).flatMap(([field, value]): FieldError[] => {
+    if (!(DERIVED_FIELDS as string[]).includes(field)) {
+      return [{ field: `${path}.${field}`, message: 'Unknown field' }];
+    }
+    const error = typeof value === 'number' ? validateInputValue(field as DerivedField, value) : 'Expected a number';
+    return error ? [{ field: `${path}.${field}`, message: error }] : [];
+  });
+
+const pricingFields = ['incidentPricing', 'logVolumePricing'];
+const pricingModels = Object.keys(PRICING_MODELS);
+const costItemUnits = Object.keys(COST_ITEM_UNITS);
+const costItemTreatments = Object.keys(COST_ITEM_TREATMENTS);
+
+// Checks the fields of a list entry or nested object, each check adds an error for its field when it fails
+const createEntryChecker = (entry: Record<string, unknown>, path: string, errors: FieldError[]) => ({
+  text: (key: string) => {
+    if (typeof entry[key] !== 'string') {
+      errors.push({ field: `${path}.${key}`, message: 'Expected a string' });
+    }
+  },
+  oneOf: (key: string, options: string[]) => {
+    if (!options.includes(entry[key] as string)) {
+      errors.push({ field: `${path}.${key}`, message: `Expected one of ${options.join(', ')}` });
+    }
+  },
+  // A number within the limits of the input with the same kind of value, e.g. an amount or a percentage
+  number: (key: string, limitsOf: keyof CalculationInputs) => {
+    const value = entry[key];
+    const error =
+      typeof value !== 'number' || !Number.isFinite(value) ? 'Expected a finite number' : validateInputValue(limitsOf, value);
+    if (error) {
+      errors.push({ field: `${path}.${key}`, message: error });
+    }
+  },
+});
+
+const validateCostItem = (item: unknown, path: string): FieldError[] => {
+  if (!isRecord(item)) {
+    return [{ field: path, message: 'Expected an object' }];
+  }
+  const errors: FieldError[] = [];
+  const check = createEntryChecker(item, path, errors);
+  check.text('id');
+  check.text('name');
+  check.oneOf('basis', ['annual', 'perUnit']);
+  check.number('amount', 'professionalServicesCost');
+  check.oneOf('unit', costItemUnits);
+  check.oneOf('treatment', costItemTreatments);
+  check.number('reductionPercentage', 'falsePositiveRate');
+  return errors;
+};
+
+const validateTenant = (tenant: unknown, path: string): FieldError[] => {
+  if (!isRecord(tenant)) {
+    return [{ field: path, message: 'Expected an object' }];
+  }
+  const errors: FieldError[] = [];
+  const check = createEntryChecker(tenant, path, errors);
+  check.text('id');
+  check.text('name');
+  check.number('employeeCount', 'employeeCount');
+  check.number('securityIncidentsPerMonth', 'unlinkedIncidentsPerMonth');
+  check.number('monthlyLogVolumeGB', 'monthlyLogVolumeGB');
+  check.number('falsePositiveRate', 'falsePositiveRate');
+  check.number('monthlyFee', 'professionalServicesCost');
+  return errors;
+};
+
+const validatePriceTier = (tier: unknown, path: string): FieldError[] => {
+  if (!isRecord(tier)) {
+    return [{ field: path, message: 'Expected an object' }];
+  }
+  const errors: FieldError[] = [];
+  const check = createEntryChecker(tier, path, errors);
+  check.number('from', 'monthlyLogVolumeGB');
+  check.number('price', 'pricePerSecurityIncident');
+  return errors;
+};
+
+// A licensing plan must be complete, volumes and prices within the limits of the matching inputs
+export const validateVolumePricing = (pricing: unknown, path: string): FieldError[] => {
+  if (!isRecord(pricing)) {
+    return [{ field: path, message: 'Expected an object' }];
+  }
+  const errors: FieldError[] = [];
+  const check = createEntryChecker(pricing, path, errors);
+  check.oneOf('model', pricingModels);
+  if (Array.isArray(pricing.tiers)) {
+    errors.push(...pricing.tiers.flatMap((tier, index) => validatePriceTier(tier, `${path}.tiers[${index}]`)));
+  } else {
+    errors.push({ field: `${path}.tiers`, message: 'Expected an array' });
+  }
+  check.number('committedVolume', 'monthlyLogVolumeGB');
+  check.number('overagePrice', 'pricePerSecurityIncident');
+  check.number('minimumAnnualValue', 'professionalServicesCost');
+  return errors;
+};
+
+// Each cost line item must be complete, shared by saved scenarios and share links
+export const validateCostItems = (items: unknown[], path: string): FieldError[] =>
+  items.flatMap((item, index) => validateCostItem(item, `${path}[${index}]`));
+
+// Each MSSP tenant must be complete, with its load within the limits of the matching inputs
+export const validateTenants = (tenants: unknown[], path: string): FieldError[] =>
+  tenants.flatMap((tenant, index) => validateTenant(tenant, `${path}[${index}]`));
+
+export const migrateScenario = (scenario: RawScenario, fromVersion: number): RawScenario =>
+  migrations.slice(fromVersion).reduce((upgraded, migrate) => migrate(upgraded), scenario);
+
+// Invalid fields fall back to their defaults so callers can choose to keep or reject the result
+export const validateInputs = (inputs: RawInputs, path = ''): { inputs: BaseInputs; errors: FieldError[] } => {
+  const validated: RawInputs = { ...baseInputs };
+  const errors: FieldError[] = [];
+  const fieldPath = (field: string) => (path ? `${path}.${field}` : field);
+
+  Object.keys(inputs)
+    .filter((field) => !(field in baseInputs))
+    .forEach((field) => errors.push({ field: fieldPath(field), message: 'Unknown field' }));
+
+  (Object.keys(baseInputs) as (keyof BaseInputs)[]).forEach((field) => {
+    const value = inputs[field];
+    const expectedType = typeof baseInputs[field];
+    const rangeError = typeof value === 'number' ? validateInputValue(field, value) : null;
+    const isObjectField = field === 'overrides' || pricingFields.includes(field);
+    const objectErrors = !isRecord(value)
+      ? []
+      : field === 'overrides'
+        ? validateOverrides(value, fieldPath(field))
+        : pricingFields.includes(field)
+          ? validateVolumePricing(value, fieldPath(field))
+          : [];
+    const listErrors = !Array.isArray(value)
+      ? []
+      : field === 'costItems'
+        ? validateCostItems(value, fieldPath(field))
+        : field === 'tenants'
+          ? validateTenants(value, fieldPath(field))
+          : [];
+    if (value === undefined) {
+      errors.push({ field: fieldPath(field), message: 'Missing field' });
+    } else if (typeof value !== expectedType) {
+      errors.push({ field: fieldPath(field), message: `Expected a ${expectedType} but got ${JSON.stringify(value)}` });
+    } else if (typeof value === 'number' && !Number.isFinite(value)) {
+      errors.push({ field: fieldPath(field), message: 'Expected a finite number' });
+    } else if (field === 'salaryRegion' && !salaryRegions.includes(value as string)) {
+      errors.push({ field: fieldPath(field), message: `Expected one of ${salaryRegions.join(', ')}` });
+    } else if (field === 'industry' && !industries.includes(value as string)) {
+      errors.push({ field: fieldPath(field), message: `Expected one of ${industries.join(', ')}` });
+    } else if ((field === 'inputCurrency' || field === 'reportingCurrency') && !currencies.includes(value as string)) {
+      errors.push({ field: fieldPath(field), message: `Expected one of ${currencies.join(', ')}` });
+    } else if (isObjectField && !isRecord(value)) {
+      errors.push({ field: fieldPath(field), message: 'Expected an object' });
+    } else if (objectErrors.length > 0) {
+      errors.push(...objectErrors);
+    } else if ((field === 'costItems' || field === 'tenants') && !Array.isArray(value)) {
+      errors.push({ field: fieldPath(field), message: 'Expected an array' });
+    } else if (listErrors.length > 0) {
+      errors.push(...listErrors);
+    } else if (rangeError) {
+      errors.push({ field: fieldPath(field), message: rangeError });
+    } else {
+      validated[field] = value;
+    }
+  });
+
+  return { inputs: validated as unknown as BaseInputs, errors };
+};
+
+// Same rules as the inputs: every coefficient must be present as a non-negative number
+export const validateCoefficients = (
+  coefficients: unknown,
+  path = 'coefficients'
+): { coefficients: ModelCoefficients; errors: FieldError[] } => {
+  if (!isRecord(coefficients)) {
+    return { coefficients: DEFAULT_COEFFICIENTS, errors: [{ field: path, message: 'Expected an object' }] };
+  }
+  const errors: FieldError[] = [];
+  const validated = {} as Record<CoefficientGroup, Record<string, number>>;
+
+  Object.keys(coefficients)
+    .filter((group) => !(group in DEFAULT_COEFFICIENTS))
+    .forEach((group) => errors.push({ field: `${path}.${group}`, message: 'Unknown field' }));
+
+  (Object.keys(DEFAULT_COEFFICIENTS) as CoefficientGroup[]).forEach((group) => {
+    const defaults: Record<string, number> = { ...DEFAULT_COEFFICIENTS[group] };
+    validated[group] = defaults;
+    const values = coefficients[group];
+    if (!isRecord(values)) {
+      errors.push({ field: `${path}.${group}`, message: values === undefined ? 'Missing field' : 'Expected an object' });
+      return;
+    }
+    Object.keys(values)
+      .filter((key) => !(key in defaults))
+      .forEach((key) => errors.push({ field: `${path}.${group}.${key}`, message: 'Unknown field' }));
+    Object.keys(defaults).forEach((key) => {
+      const value = values[key];
+      if (value === undefined) {
+        errors.push({ field: `${path}.${group}.${key}`, message: 'Missing field' });
+      } else if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+        errors.push({ field: `${path}.${group}.${key}`, message: `Expected a non-negative number but got ${JSON.stringify(value)}` });
+      } else {
+        defaults[key] = value;
+      }
+    });
+  });
+
+  return { coefficients: validated as unknown as ModelCoefficients, errors };
+};
+
+export const createScenarioDocument = (name: string, inputs: BaseInputs, coefficients: ModelCoefficients): ScenarioDocument => ({
+  format: SCENARIO_DOCUMENT_FORMAT,
+  version: SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  scenario: { name, inputs, coefficients },
+});
+
+// Accepts current documents, older versions, and bare unversioned inputs objects
+export const parseScenarioDocument = (text: string, fallbackName: string): ScenarioImportResult => {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(text);
+  } catch (error) {
+    return { ok: false, errors: [{ field: '', message: `File is not valid JSON: ${(error as Error).message}` }] };
+  }
+  if (!isRecord(payload)) {
+    return { ok: false, errors: [{ field: '', message: 'Expected a JSON object' }] };
+  }
+
+  const isDocument = 'format' in payload || 'version' in payload;
+  if (isDocument && payload.format !== SCENARIO_DOCUMENT_FORMAT) {
+    return { ok: false, errors: [{ field: 'format', message: `Expected "${SCENARIO_DOCUMENT_FORMAT}"` }] };
+  }
+
+  const version = isDocument ? payload.version : 0;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    return { ok: false, errors: [{ field: 'version', message: 'Expected a whole schema version number' }] };
+  }
+  if (version > SCHEMA_VERSION) {
+    return {
+      ok: false,
+      errors: [{ field: 'version', message: `Version ${version} is newer than this calculator supports (${SCHEMA_VERSION})` }],
+    };
+  }
+
+  const scenario = isDocument ? payload.scenario : payload;
+  if (!isRecord(scenario)) {
+    return { ok: false, errors: [{ field: 'scenario', message: 'Expected an object' }] };
+  }
+  // Unversioned exports were either a bare inputs object or a saved scenario
+  const rawInputs = isDocument || isRecord(scenario.inputs) ? scenario.inputs : scenario;
+  const path = isDocument ? 'scenario.inputs' : isRecord(scenario.inputs) ? 'inputs' : '';
+  if (!isRecord(rawInputs)) {
+    return { ok: false, errors: [{ field: path || 'scenario', message: 'Expected an object' }] };
+  }
+
+  const migrated = migrateScenario({ inputs: rawInputs, coefficients: scenario.coefficients }, version);
+  const { inputs, errors: inputErrors } = validateInputs(migrated.inputs, path);
+  const { coefficients, errors: coefficientErrors } = validateCoefficients(
+    migrated.coefficients,
+    isDocument ? 'scenario.coefficients' : 'coefficients'
+  );
+  const errors = [...inputErrors, ...coefficientErrors];
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+  const name = typeof scenario.name === 'string' && scenario.name.trim() ? scenario.name.trim() : fallbackName;
+  return { ok: true, name, inputs, coefficients };
+};
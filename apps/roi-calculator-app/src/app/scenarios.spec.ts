@@ -0,0 +1,80 @@
+import { baseInputs, DEFAULT_COEFFICIENTS } from '@stellarcyber/roi-engine';
+import {
+  createScenario,
+  deleteScenario,
+  duplicateScenario,
+  getActiveScenario,
+  loadScenarioStore,
+  renameScenario,
+  saveScenarioStore,
+  updateScenarioCoefficients,
+  updateScenarioInputs,
+} from './scenarios';
+import { SCHEMA_VERSION } from './scenario-schema';
+
+describe('scenarios', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('starts with a single default scenario', () => {
+    const store = loadScenarioStore();
+    expect(store.scenarios).toHaveLength(1);
+    expect(getActiveScenario(store)).toMatchObject({ name: 'Current State', inputs: baseInputs });
+  });
+
+  it('upgrades inputs saved before scenarios existed', () => {
+    localStorage.setItem('roi-calculator-inputs', JSON.stringify({ employeeCount: 1200 }));
+    const store = loadScenarioStore();
+    expect(getActiveScenario(store).inputs).toEqual({ ...baseInputs, employeeCount: 1200 });
+
+    saveScenarioStore(store);
+    expect(localStorage.getItem('roi-calculator-inputs')).toBeNull();
+    expect(loadScenarioStore()).toEqual(store);
+  });
+
+  it('versions the saved store and resets invalid saved fields', () => {
+    saveScenarioStore(loadScenarioStore());
+    expect(JSON.parse(localStorage.getItem('roi-calculator-scenarios') ?? '{}').version).toBe(SCHEMA_VERSION);
+
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    localStorage.setItem(
+      'roi-calculator-scenarios',
+      JSON.stringify({ activeScenarioId: 'a', scenarios: [{ id: 'a', name: 'Old', inputs: { employeeCount: 'lots' } }] })
+    );
+    expect(getActiveScenario(loadScenarioStore()).inputs).toEqual(baseInputs);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('gives scenarios saved before coefficients were editable the defaults', () => {
+    localStorage.setItem(
+      'roi-calculator-scenarios',
+      JSON.stringify({ version: 1, activeScenarioId: 'a', scenarios: [{ id: 'a', name: 'Old', inputs: baseInputs }] })
+    );
+    expect(getActiveScenario(loadScenarioStore()).coefficients).toEqual(DEFAULT_COEFFICIENTS);
+  });
+
+  it('creates, renames, duplicates and deletes scenarios', () => {
+    let store = loadScenarioStore();
+    const currentId = store.activeScenarioId;
+
+    store = createScenario(store, 'Proposed');
+    expect(getActiveScenario(store).name).toBe('Proposed');
+
+    store = updateScenarioInputs(store, store.activeScenarioId, { ...baseInputs, employeeCount: 800 });
+    const coefficients = { ...DEFAULT_COEFFICIENTS, value: { ...DEFAULT_COEFFICIENTS.value, turnoverReduction: 40 } };
+    store = updateScenarioCoefficients(store, store.activeScenarioId, coefficients);
+    store = renameScenario(store, store.activeScenarioId, 'Conservative');
+    store = duplicateScenario(store, store.activeScenarioId);
+    expect(getActiveScenario(store)).toMatchObject({ name: 'Conservative (copy)', inputs: { employeeCount: 800 }, coefficients });
+    expect(store.scenarios).toHaveLength(3);
+
+    const [, proposed, copy] = store.scenarios;
+    store = deleteScenario(store, copy.id);
+    expect(store.activeScenarioId).toBe(currentId);
+    store = deleteScenario(store, proposed.id);
+    expect(store.scenarios.map((scenario) => scenario.id)).toEqual([currentId]);
+    expect(deleteScenario(store, currentId)).toBe(store);
+  });
+});
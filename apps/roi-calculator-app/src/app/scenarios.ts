@@ -0,0 +1,139 @@
+import { baseInputs, DEFAULT_COEFFICIENTS, type BaseInputs, type ModelCoefficients } from '@stellarcyber/roi-engine';
+import { migrateScenario, SCHEMA_VERSION, validateCoefficients, validateInputs, type RawScenario } from './scenario-schema';
+
+export interface Scenario {
+  id: string;
+  name: string;
+  inputs: BaseInputs;
+  coefficients: ModelCoefficients;
+}
+
+export interface ScenarioStore {
+  activeScenarioId: string;
+  scenarios: Scenario[];
+}
+
+const SCENARIOS_STORAGE_KEY = 'roi-calculator-scenarios';
+// Single set of inputs saved before named scenarios existed
+const LEGACY_INPUTS_STORAGE_KEY = 'roi-calculator-inputs';
+
+export const MAX_COMPARED_SCENARIOS = 4;
+
+export const createScenarioId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const createDefaultStore = (
+  inputs: BaseInputs = baseInputs,
+  coefficients: ModelCoefficients = DEFAULT_COEFFICIENTS
+): ScenarioStore => {
+  const id = createScenarioId();
+  return {
+    activeScenarioId: id,
+    scenarios: [{ id, name: 'Current State', inputs, coefficients }],
+  };
+};
+
+export const getActiveScenario = (store: ScenarioStore): Scenario =>
+  store.scenarios.find((scenario) => scenario.id === store.activeScenarioId) ?? store.scenarios[0];
+
+// Upgrade a saved scenario to the current schema, replacing invalid fields with defaults
+const restoreScenario = (
+  name: string,
+  scenario: RawScenario,
+  version: number
+): { inputs: BaseInputs; coefficients: ModelCoefficients } => {
+  const migrated = migrateScenario(scenario, version);
+  const { inputs, errors: inputErrors } = validateInputs(migrated.inputs);
+  const { coefficients, errors: coefficientErrors } = validateCoefficients(migrated.coefficients);
+  const errors = [...inputErrors, ...coefficientErrors];
+  if (errors.length > 0) {
+    console.warn(`Scenario "${name}" had invalid saved fields that were reset to defaults:`, errors);
+  }
+  return { inputs, coefficients };
+};
+
+// Load scenarios from localStorage, upgrading the legacy single set of inputs
+export const loadScenarioStore = (): ScenarioStore => {
+  try {
+    const saved = localStorage.getItem(SCENARIOS_STORAGE_KEY);
+    if (saved) {
+      // Stores saved before schema versioning have no version
+      const { version = 0, ...parsed }: ScenarioStore & { version?: number } = JSON.parse(saved);
+      if (parsed.scenarios.length > 0) {
+        return {
+          ...parsed,
+          scenarios: parsed.scenarios.map((scenario) => ({
+            ...scenario,
+            ...restoreScenario(scenario.name, { inputs: { ...scenario.inputs }, coefficients: scenario.coefficients }, version),
+          })),
+        };
+      }
+    }
+
+    const legacy = localStorage.getItem(LEGACY_INPUTS_STORAGE_KEY);
+    if (legacy) {
+      const { inputs, coefficients } = restoreScenario('Current State', { inputs: JSON.parse(legacy) }, 0);
+      return createDefaultStore(inputs, coefficients);
+    }
+  } catch (error) {
+    console.warn('Failed to load scenarios from localStorage:', error);
+  }
+  return createDefaultStore();
+};
+
+export const saveScenarioStore = (store: ScenarioStore): void => {
+  try {
+    localStorage.setItem(SCENARIOS_STORAGE_KEY, JSON.stringify({ version: SCHEMA_VERSION, ...store }));
+    localStorage.removeItem(LEGACY_INPUTS_STORAGE_KEY);
+  } catch (error) {
+    console.warn('Failed to save scenarios to localStorage:', error);
+  }
+};
+
+export const updateScenarioInputs = (store: ScenarioStore, id: string, inputs: BaseInputs): ScenarioStore => ({
+  ...store,
+  scenarios: store.scenarios.map((scenario) => (scenario.id === id ? { ...scenario, inputs } : scenario)),
+});
+
+export const updateScenarioCoefficients = (store: ScenarioStore, id: string, coefficients: ModelCoefficients): ScenarioStore => ({
+  ...store,
+  scenarios: store.scenarios.map((scenario) => (scenario.id === id ? { ...scenario, coefficients } : scenario)),
+});
+
+export const createScenario = (
+  store: ScenarioStore,
+  name: string,
+  inputs: BaseInputs = baseInputs,
+  coefficients: ModelCoefficients = DEFAULT_COEFFICIENTS
+): ScenarioStore => {
+  const id = createScenarioId();
+  return {
+    activeScenarioId: id,
+    scenarios: [...store.scenarios, { id, name, inputs, coefficients }],
+  };
+};
+
+export const renameScenario = (store: ScenarioStore, id: string, name: string): ScenarioStore => ({
+  ...store,
+  scenarios: store.scenarios.map((scenario) => (scenario.id === id ? { ...scenario, name } : scenario)),
+});
+
+export const duplicateScenario = (store: ScenarioStore, id: string): ScenarioStore => {
+  const source = store.scenarios.find((scenario) => scenario.id === id);
+  if (!source) {
+    return store;
+  }
+  return createScenario(store, `${source.name} (copy)`, source.inputs, source.coefficients);
+};
+
+// The last remaining scenario cannot be deleted
+export const deleteScenario = (store: ScenarioStore, id: string): ScenarioStore => {
+  if (store.scenarios.length <= 1) {
+    return store;
+  }
+  const scenarios = store.scenarios.filter((scenario) => scenario.id !== id);
+  return {
+    activeScenarioId: store.activeScenarioId === id ? scenarios[0].id : store.activeScenarioId,
+    scenarios,
+  };
+};
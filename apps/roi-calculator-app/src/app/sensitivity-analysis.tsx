@@ -0,0 +1,100 @@
+import React, { useMemo, useState } from 'react';
+import Box from '@mui/joy/Box';
+import Typography from '@mui/joy/Typography';
+import Button from '@mui/joy/Button';
+import Input from '@mui/joy/Input';
+import Checkbox from '@mui/joy/Checkbox';
+import ToggleButtonGroup from '@mui/joy/ToggleButtonGroup';
+import {
+  calculateSensitivity,
+  rankSensitivityDrivers,
+  type CalculationInputs,
+  type ModelCoefficients,
+  type SensitivityMetric,
+} from '@stellarcyber/roi-engine';
+import { getParameterLabel } from './parameter-labels';
+import { formatReportValue, getReportingCurrency } from './report-data';
+import { TornadoChart } from './tornado-chart';
+
+interface SensitivityAnalysisProps {
+  inputs: CalculationInputs;
+  coefficients: ModelCoefficients;
+}
+
+const metricOptions: { value: SensitivityMetric; label: string }[] = [
+  { value: 'annualSavings', label: 'Annual Savings' },
+  { value: 'roiPercentage', label: 'ROI' },
+  { value: 'totalValue', label: 'Total Value' },
+];
+
+const DEFAULT_DRIVER_COUNT = 10;
+
+export const SensitivityAnalysis: React.FC<SensitivityAnalysisProps> = ({ inputs, coefficients }) => {
+  const [variation, setVariation] = useState(10);
+  const [metric, setMetric] = useState<SensitivityMetric>('annualSavings');
+  const [showAll, setShowAll] = useState(false);
+
+  const analysis = useMemo(() => calculateSensitivity(inputs, variation, coefficients), [inputs, variation, coefficients]);
+  const ranked = useMemo(() => rankSensitivityDrivers(analysis.drivers, metric), [analysis, metric]);
+  const shown = showAll ? ranked : ranked.slice(0, DEFAULT_DRIVER_COUNT);
+
+  const formatValue = (value: number) =>
+    formatReportValue(value, metric === 'roiPercentage' ? 'percentage' : 'currency', getReportingCurrency(inputs));
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'space-between', alignItems: 'center', gap: 2, mb: 3 }}>
+        <Box>
+          <Typography level="h2" sx={{ mb: 1 }}>
+            Sensitivity Analysis
+          </Typography>
+          <Typography level="body-md" color="neutral">
+            Which inputs and model assumptions move the result most
+          </Typography>
+        </Box>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <ToggleButtonGroup size="sm" value={metric} onChange={(_, value) => value && setMetric(value)}>
+            {metricOptions.map((option) => (
+              <Button key={option.value} value={option.value}>
+                {option.label}
+              </Button>
+            ))}
+          </ToggleButtonGroup>
+          <Input
+            type="number"
+            size="sm"
+            value={variation}
+            onChange={(e) => setVariation(Math.min(100, Math.max(1, parseFloat(e.target.value) || 1)))}
+            startDecorator="±"
+            endDecorator="%"
+            slotProps={{ input: { min: 1, max: 100, step: 1 } }}
+            sx={{ width: '7rem' }}
+          />
+        </Box>
+      </Box>
+
+      <TornadoChart
+        bars={shown.map((driver) => ({ label: getParameterLabel(driver.target), low: driver.low[metric], high: driver.high[metric] }))}
+        baseline={analysis.baseline[metric]}
+        formatValue={formatValue}
+        lowLabel={`-${variation}%`}
+        highLabel={`+${variation}%`}
+      />
+
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mt: 2 }}>
+        <Typography level="body-xs" color="neutral">
+          Each driver is moved by ±{variation}% on its own, with dependent fields recalculated. {analysis.drivers.length - ranked.length}{' '}
+          drivers have no effect on this metric.
+        </Typography>
+        {ranked.length > DEFAULT_DRIVER_COUNT && (
+          <Checkbox
+            size="sm"
+            label={`Show all ${ranked.length}`}
+            checked={showAll}
+            onChange={(e) => setShowAll(e.target.checked)}
+          />
+        )}
+      </Box>
+    </Box>
+  );
+};
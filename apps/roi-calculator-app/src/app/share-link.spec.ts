@@ -0,0 +1,71 @@
+import { baseInputs, DEFAULT_COEFFICIENTS } from '@stellarcyber/roi-engine';
+import { decodeShareParams, encodeShareParams } from './share-link';
+
+describe('share links', () => {
+  it('only encodes values that differ from the defaults', () => {
+    const params = encodeShareParams({
+      inputs: { ...baseInputs, employeeCount: 1200, switchFromLegacySIEM: false },
+      coefficients: { ...DEFAULT_COEFFICIENTS, value: { ...DEFAULT_COEFFICIENTS.value, escalationCost: 8000 } },
+    });
+    expect(params.toString()).toBe('v=1&emp=1200&sw=0&c.value.escalationCost=8000');
+  });
+
+  it('restores the exact inputs and coefficients from the link', () => {
+    const scenario = {
+      inputs: {
+        ...baseInputs,
+        employeeCount: 1200,
+        salaryRegion: 'emea' as const,
+        laborOverheadMultiplier: 1.25,
+        overrides: { humanSOCAnalysts: 6, siemLicensingCosts: 90000 },
+        costItems: [
+          {
+            id: 'a',
+            name: 'Threat intel, feeds',
+            basis: 'perUnit' as const,
+            amount: 1.5,
+            unit: 'employee' as const,
+            treatment: 'reduced' as const,
+            reductionPercentage: 40,
+          },
+        ],
+        incidentPricing: {
+          model: 'tiered' as const,
+          tiers: [{ from: 5000, price: 2.25 }],
+          committedVolume: 4000,
+          overagePrice: 2.75,
+          minimumAnnualValue: 100000,
+        },
+        msspMode: true,
+        tenants: [
+          {
+            id: 't',
+            name: 'Acme & Co',
+            employeeCount: 800,
+            securityIncidentsPerMonth: 3200,
+            monthlyLogVolumeGB: 4000,
+            falsePositiveRate: 85,
+            monthlyFee: 15000,
+          },
+        ],
+      },
+      coefficients: { ...DEFAULT_COEFFICIENTS, value: { ...DEFAULT_COEFFICIENTS.value, turnoverReduction: 45 } },
+    };
+    expect(decodeShareParams(encodeShareParams(scenario))).toEqual(scenario);
+  });
+
+  it('ignores URLs without a shared configuration or from an unknown version', () => {
+    expect(decodeShareParams(new URLSearchParams('foo=bar'))).toBeNull();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(decodeShareParams(new URLSearchParams('v=99&emp=1200'))).toBeNull();
+  });
+
+  it('falls back to the default for malformed numbers', () => {
+    const decoded = decodeShareParams(new URLSearchParams('v=1&emp=abc&c.value.escalationCost=-5&o.humanSOCAnalysts=2.5'));
+    expect(decoded?.inputs.employeeCount).toBe(baseInputs.employeeCount);
+    expect(decoded?.inputs.overrides).toEqual({});
+    expect(decodeShareParams(new URLSearchParams('v=1&items=[{"name":"SOAR"}]'))?.inputs.costItems).toEqual([]);
+    expect(decodeShareParams(new URLSearchParams('v=1&ipricing={"model":"seats"}'))?.inputs.incidentPricing).toEqual(baseInputs.incidentPricing);
+    expect(decoded?.coefficients).toEqual(DEFAULT_COEFFICIENTS);
+  });
+});
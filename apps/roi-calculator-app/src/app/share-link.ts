@@ -0,0 +1,210 @@
+import {
+  baseInputs,
+  DEFAULT_COEFFICIENTS,
+  DERIVED_FIELDS,
+  validateInputValue,
+  type BaseInputs,
+  type CoefficientGroup,
+  type ModelCoefficients,
+  type PricedProduct,
+} from '@stellarcyber/roi-engine';
+import { validateCostItems, validateTenants, validateVolumePricing } from './scenario-schema';
+
+export interface SharedScenario {
+  inputs: BaseInputs;
+  coefficients: ModelCoefficients;
+}
+
+// Bump when a short key changes meaning, older links are then ignored
+export const SHARE_LINK_VERSION = 1;
+const VERSION_PARAM = 'v';
+// Coefficients use their group and key, e.g. c.value.escalationCost
+const COEFFICIENT_PARAM_PREFIX = 'c';
+// Pinned overrides use the field they pin, e.g. o.humanSOCAnalysts
+const OVERRIDE_PARAM_PREFIX = 'o';
+// Cost line items, MSSP tenants and each licensing plan are written as a single JSON value
+const COST_ITEMS_PARAM = 'items';
+const TENANTS_PARAM = 'tenants';
+const PRICING_PARAMS: Record<PricedProduct, string> = {
+  incidentPricing: 'ipricing',
+  logVolumePricing: 'xpricing',
+};
+
+type ShareField = Exclude<keyof BaseInputs, 'overrides' | 'costItems' | 'tenants' | PricedProduct>;
+
+// Short query parameter name for every persisted input
+const shareParamKeys: Record<ShareField, string> = {
+  employeeCount: 'emp',
+  averageIncidentResponseTime: 'irt',
+  falsePositiveRate: 'fpr',
+  pricePerSecurityIncident: 'ppi',
+  legacySIEMPricePerGB: 'sgb',
+  stellarXDRCostPerGB: 'xgb',
+  logVolumeIncidentRatio: 'lvr',
+  switchFromLegacySIEM: 'sw',
+  inputCurrency: 'cur',
+  reportingCurrency: 'rcur',
+  exchangeRate: 'fx',
+  industry: 'ind',
+  incidentsPerEmployee: 'ipemp',
+  linkEmployeesToIncidents: 'lnk',
+  unlinkedIncidentsPerMonth: 'uinc',
+  siemLogForwardingPercentage: 'sfw',
+  xdrLogForwardingPercentage: 'xfw',
+  salaryRegion: 'reg',
+  analystSalary: 'san',
+  managerSalary: 'smg',
+  engineerSalary: 'sen',
+  directorSalary: 'sdr',
+  laborOverheadMultiplier: 'ovh',
+  incidentsPerAnalyst: 'ipa',
+  incidentsPerManager: 'ipm',
+  incidentsPerEngineer: 'ipe',
+  incidentsPerDirector: 'ipd',
+  minAnalysts: 'mna',
+  minManagers: 'mnm',
+  minEngineers: 'mne',
+  minDirectors: 'mnd',
+  analystsPerManager: 'apm',
+  managersPerDirector: 'mpd',
+  projectionYears: 'py',
+  employeeGrowthRate: 'eg',
+  logVolumeGrowthRate: 'lg',
+  salaryInflationRate: 'si',
+  legacySIEMPriceEscalator: 'sesc',
+  stellarPriceEscalator: 'xesc',
+  discountRate: 'dr',
+  professionalServicesCost: 'ps',
+  siemMigrationCost: 'mig',
+  trainingCost: 'trn',
+  dualRunningMonths: 'dual',
+  rampUpMonths: 'ramp',
+  msspMode: 'mssp',
+};
+
+const coefficientParams = (): { group: CoefficientGroup; key: string; param: string }[] =>
+  (Object.keys(DEFAULT_COEFFICIENTS) as CoefficientGroup[]).flatMap((group) =>
+    Object.keys(DEFAULT_COEFFICIENTS[group]).map((key) => ({ group, key, param: `${COEFFICIENT_PARAM_PREFIX}.${group}.${key}` }))
+  );
+
+const getCoefficient = (coefficients: ModelCoefficients, group: CoefficientGroup, key: string): number =>
+  (coefficients[group] as unknown as Record<string, number>)[key];
+
+// Only values that differ from the defaults are written to keep links short
+export const encodeShareParams = ({ inputs, coefficients }: SharedScenario): URLSearchParams => {
+  const params = new URLSearchParams({ [VERSION_PARAM]: String(SHARE_LINK_VERSION) });
+  (Object.keys(shareParamKeys) as ShareField[]).forEach((field) => {
+    const value = inputs[field];
+    if (value === baseInputs[field]) {
+      return;
+    }
+    params.set(shareParamKeys[field], typeof value === 'boolean' ? (value ? '1' : '0') : String(value));
+  });
+  Object.entries(inputs.overrides).forEach(([field, value]) => params.set(`${OVERRIDE_PARAM_PREFIX}.${field}`, String(value)));
+  if (inputs.costItems.length > 0) {
+    params.set(COST_ITEMS_PARAM, JSON.stringify(inputs.costItems));
+  }
+  if (inputs.tenants.length > 0) {
+    params.set(TENANTS_PARAM, JSON.stringify(inputs.tenants));
+  }
+  (Object.keys(PRICING_PARAMS) as PricedProduct[]).forEach((product) => {
+    const pricing = JSON.stringify(inputs[product]);
+    if (pricing !== JSON.stringify(baseInputs[product])) {
+      params.set(PRICING_PARAMS[product], pricing);
+    }
+  });
+  coefficientParams().forEach(({ group, key, param }) => {
+    const value = getCoefficient(coefficients, group, key);
+    if (value !== getCoefficient(DEFAULT_COEFFICIENTS, group, key)) {
+      params.set(param, String(value));
+    }
+  });
+  return params;
+};
+
+// A JSON value is dropped as a whole when any part of it is malformed
+const decodeJson = <T>(raw: string | null, fallback: T, isValid: (value: unknown) => boolean): T => {
+  if (raw === null) {
+    return fallback;
+  }
+  try {
+    const value = JSON.parse(raw);
+    return isValid(value) ? value : fallback;
+  } catch (error) {
+    console.warn('Ignoring a malformed value in share link:', error);
+    return fallback;
+  }
+};
+
+// Returns null when the URL carries no shared configuration
+export const decodeShareParams = (params: URLSearchParams): SharedScenario | null => {
+  const version = params.get(VERSION_PARAM);
+  if (version === null) {
+    return null;
+  }
+  if (Number(version) !== SHARE_LINK_VERSION) {
+    console.warn(`Unsupported share link version: ${version}`);
+    return null;
+  }
+
+  const inputs: Record<string, unknown> = { ...baseInputs };
+  (Object.keys(shareParamKeys) as ShareField[]).forEach((field) => {
+    const raw = params.get(shareParamKeys[field]);
+    if (raw === null) {
+      return;
+    }
+    const defaultValue = baseInputs[field];
+    if (typeof defaultValue === 'boolean') {
+      inputs[field] = raw === '1';
+    } else if (typeof defaultValue === 'number') {
+      const value = Number(raw);
+      if (Number.isFinite(value)) {
+        inputs[field] = value;
+      }
+    } else {
+      inputs[field] = raw;
+    }
+  });
+
+  inputs.overrides = Object.fromEntries(
+    DERIVED_FIELDS.flatMap((field) => {
+      const raw = params.get(`${OVERRIDE_PARAM_PREFIX}.${field}`);
+      const value = Number(raw ?? NaN);
+      return raw !== null && validateInputValue(field, value) === null ? [[field, value]] : [];
+    })
+  );
+
+  inputs.costItems = decodeJson(
+    params.get(COST_ITEMS_PARAM),
+    [],
+    (items) => Array.isArray(items) && validateCostItems(items, '').length === 0
+  );
+  inputs.tenants = decodeJson(
+    params.get(TENANTS_PARAM),
+    [],
+    (tenants) => Array.isArray(tenants) && validateTenants(tenants, '').length === 0
+  );
+  (Object.keys(PRICING_PARAMS) as PricedProduct[]).forEach((product) => {
+    inputs[product] = decodeJson(
+      params.get(PRICING_PARAMS[product]),
+      baseInputs[product],
+      (pricing) => validateVolumePricing(pricing, '').length === 0
+    );
+  });
+
+  const coefficients: Record<string, Record<string, number>> = {};
+  (Object.keys(DEFAULT_COEFFICIENTS) as CoefficientGroup[]).forEach((group) => {
+    coefficients[group] = { ...DEFAULT_COEFFICIENTS[group] };
+  });
+  coefficientParams().forEach(({ group, key, param }) => {
+    const value = Number(params.get(param) ?? NaN);
+    if (Number.isFinite(value) && value >= 0) {
+      coefficients[group][key] = value;
+    }
+  });
+
+  return { inputs: inputs as unknown as BaseInputs, coefficients: coefficients as unknown as ModelCoefficients };
+};
+
+export const buildShareUrl = (scenario: SharedScenario): string =>
+  `${window.location.origin}${window.location.pathname}?${encodeShareParams(scenario).toString()}`;
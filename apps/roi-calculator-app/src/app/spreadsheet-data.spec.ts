@@ -0,0 +1,131 @@
+import {
+  applyInputChange,
+  applyTenantLoad,
+  calculateComputedFields,
+  DEFAULT_COEFFICIENTS,
+  defaultInputs,
+  runCalculation,
+  setVolumePricing,
+  type CalculationInputs,
+  type ModelCoefficients,
+} from '@stellarcyber/roi-engine';
+import { buildCsv, getSpreadsheetSheets, type SpreadsheetSheet } from './spreadsheet-data';
+
+// Evaluates the Excel formulas in JS, resolving each defined name from the sheet rows
+const evaluateFormulas = (sheets: SpreadsheetSheet[]): Map<string, unknown> => {
+  const rows = sheets.flatMap((sheet) => sheet.rows);
+  const values = new Map<string, unknown>(rows.map((row) => [row.key, row.value]));
+  const functions = {
+    MIN: Math.min,
+    MAX: Math.max,
+    IF: (condition: unknown, whenTrue: unknown, whenFalse: unknown) => (condition ? whenTrue : whenFalse),
+    ROUNDUP: (value: number) => Math.ceil(value),
+  };
+  rows.forEach((row) => {
+    if (!row.formula) {
+      return;
+    }
+    const expression = row.formula.replace(/(?<![<>])=/g, '===');
+    const names = [...values.keys()];
+    const evaluate = new Function(...Object.keys(functions), ...names, `return ${expression};`);
+    values.set(row.key, evaluate(...Object.values(functions), ...names.map((name) => values.get(name))));
+  });
+  return values;
+};
+
+const expectFormulasToMatchEngine = (inputs: CalculationInputs, coefficients: ModelCoefficients = DEFAULT_COEFFICIENTS) => {
+  const sheets = getSpreadsheetSheets(inputs, coefficients, runCalculation(inputs, coefficients));
+  const evaluated = evaluateFormulas(sheets);
+  sheets
+    .flatMap((sheet) => sheet.rows)
+    .filter((row) => row.formula)
+    .forEach((row) => {
+      expect([row.key, evaluated.get(row.key)]).toEqual([row.key, expect.closeTo(row.value as number, 6)]);
+    });
+};
+
+describe('spreadsheet export', () => {
+  it('includes every input, assumption, result, workforce figure, value category and trace step', () => {
+    const sheets = getSpreadsheetSheets(defaultInputs, DEFAULT_COEFFICIENTS, runCalculation(defaultInputs));
+    expect(sheets.map((sheet) => sheet.name)).toEqual(['Inputs', 'Assumptions', 'Cost Items', 'Licensing', 'Results', 'Workforce', 'Value', 'Trace']);
+    const keys = (name: string) => sheets.find((sheet) => sheet.name === name)?.rows.map((row) => row.key);
+    // Pinned overrides are marked on the rows of the fields they pin, cost line items, tenants and licensing plans have their own sheets
+    const inputFields = Object.keys(defaultInputs).filter((field) => !['overrides', 'costItems', 'tenants', 'incidentPricing', 'logVolumePricing'].includes(field));
+    expect(keys('Inputs')).toEqual(expect.arrayContaining(inputFields));
+    expect(keys('Inputs')).toHaveLength(inputFields.length);
+    expect(keys('Results')).toEqual(expect.arrayContaining(Object.keys(runCalculation(defaultInputs).results)));
+    expect(keys('Assumptions')).toContain('value_escalationCost');
+    expect(keys('Value')).toHaveLength(9);
+    expect(keys('Trace')).toContain('trace_efficiencyImprovement_6');
+  });
+
+  it('keeps the live formulas in line with the engine', () => {
+    expectFormulasToMatchEngine(defaultInputs);
+    expectFormulasToMatchEngine(calculateComputedFields({ ...defaultInputs, switchFromLegacySIEM: false, employeeCount: 5000 }));
+    expectFormulasToMatchEngine(defaultInputs, {
+      efficiency: { ...DEFAULT_COEFFICIENTS.efficiency, base: 30, cap: 60 },
+      incidentResponse: { ...DEFAULT_COEFFICIENTS.incidentResponse, base: 50 },
+      value: { ...DEFAULT_COEFFICIENTS.value, escalationCost: 8000, turnoverReduction: 40, stressValuePerAnalyst: 0 },
+    });
+    expectFormulasToMatchEngine({ ...defaultInputs, reportingCurrency: 'EUR', exchangeRate: 0.92 });
+    expectFormulasToMatchEngine(applyInputChange(defaultInputs, 'monthlyLogVolumeGB', 9000));
+    expectFormulasToMatchEngine({
+      ...defaultInputs,
+      reportingCurrency: 'EUR',
+      exchangeRate: 0.92,
+      costItems: [
+        { id: 'a', name: 'SOAR', basis: 'annual', amount: 60000, unit: 'employee', treatment: 'retired', reductionPercentage: 0 },
+        { id: 'b', name: 'Log storage', basis: 'perUnit', amount: 0.3, unit: 'logGB', treatment: 'reduced', reductionPercentage: 40 },
+        { id: 'c', name: 'Training', basis: 'perUnit', amount: 1500, unit: 'socHeadcount', treatment: 'unchanged', reductionPercentage: 0 },
+      ],
+    });
+  });
+
+  it('prices the licensing plans with tiers, a commitment and a minimum', () => {
+    const tiers = [
+      { from: 1000, price: 2.5 },
+      { from: 2000, price: 2 },
+    ];
+    const inputs = setVolumePricing(
+      setVolumePricing(defaultInputs, 'incidentPricing', { model: 'tiered', tiers, committedVolume: 3000, overagePrice: 2.2, minimumAnnualValue: 0 }),
+      'logVolumePricing',
+      { model: 'tiered', tiers: [{ from: 5000, price: 0.2 }], committedVolume: 0, overagePrice: 0, minimumAnnualValue: 200000 }
+    );
+    const keys = getSpreadsheetSheets(inputs, DEFAULT_COEFFICIENTS, runCalculation(inputs))
+      .find((sheet) => sheet.name === 'Licensing')
+      ?.rows.map((row) => row.key);
+    expect(keys).toEqual(expect.arrayContaining(['incidentPricing_tier2_cost', 'incidentPricing_overageCost', 'logVolumePricing_minimumTopUp']));
+    expectFormulasToMatchEngine(inputs);
+    expectFormulasToMatchEngine(setVolumePricing(inputs, 'incidentPricing', { ...inputs.incidentPricing, committedVolume: 1500 }));
+    expectFormulasToMatchEngine(setVolumePricing(inputs, 'incidentPricing', { ...inputs.incidentPricing, committedVolume: 1500, overagePrice: 0 }));
+    expectFormulasToMatchEngine({ ...inputs, reportingCurrency: 'EUR', exchangeRate: 0.92 });
+    const coexistence = calculateComputedFields({ ...inputs, switchFromLegacySIEM: false, xdrLogForwardingPercentage: 60 });
+    expectFormulasToMatchEngine(coexistence);
+    expectFormulasToMatchEngine(applyInputChange(coexistence, 'stellarXDRPlatformCosts', 250000));
+  });
+
+  it('splits the portfolio across the tenants in MSSP mode', () => {
+    const tenant = { name: 'Tenant', employeeCount: 500, securityIncidentsPerMonth: 2000, monthlyLogVolumeGB: 3000, falsePositiveRate: 85, monthlyFee: 20000 };
+    const inputs = applyTenantLoad({
+      ...defaultInputs,
+      msspMode: true,
+      tenants: [
+        { ...tenant, id: 'a' },
+        { ...tenant, id: 'b', name: 'Small', securityIncidentsPerMonth: 500, monthlyLogVolumeGB: 2000, falsePositiveRate: 95 },
+      ],
+    });
+    const sheets = getSpreadsheetSheets(inputs, DEFAULT_COEFFICIENTS, runCalculation(inputs));
+    expect(sheets.map((sheet) => sheet.name)).toContain('Tenants');
+    expectFormulasToMatchEngine(inputs);
+    expectFormulasToMatchEngine({ ...inputs, switchFromLegacySIEM: false, reportingCurrency: 'EUR', exchangeRate: 0.92 });
+  });
+
+  it('writes a CSV row per field with quoted text where needed', () => {
+    const sheets = getSpreadsheetSheets(defaultInputs, DEFAULT_COEFFICIENTS, runCalculation(defaultInputs));
+    const lines = buildCsv(sheets).trim().split('\r\n');
+    expect(lines[0]).toBe('Section,Field,Label,Value');
+    expect(lines).toHaveLength(1 + sheets.reduce((count, sheet) => count + sheet.rows.length, 0));
+    expect(lines).toContain('Basic Configuration,employeeCount,Number of Employees,500');
+    expect(lines).toContain('Additional Costs,switchFromLegacySIEM,Switch from Legacy SIEM,TRUE');
+  });
+});
@@ -0,0 +1,537 @@
+import type {
+  CalculationInputs,
+  CalculationOutput,
+  CalculationResults,
+  CoefficientGroup,
+  CostItemUnit,
+  ModelCoefficients,
+  PricedProduct,
+  ValueMetrics,
+  WorkforceImpact,
+} from '@stellarcyber/roi-engine';
+import {
+  aggregateTenants,
+  calculateCostItems,
+  calculatePlatformCosts,
+  calculatePortfolio,
+  calculateTenantResults,
+  COEFFICIENT_GROUP_LABELS,
+  COEFFICIENT_LABELS,
+  COST_ITEM_UNITS,
+  getCalculationTraces,
+  getCostItemAnnualCost,
+  getCostItemSavingsShare,
+  getPricingBreakdown,
+  PRICED_PRODUCTS,
+  VALUE_CATEGORIES,
+} from '@stellarcyber/roi-engine';
+import {
+  describePriceBand,
+  formatTraceSubstitution,
+  getCoefficientFormat,
+  getCurrencyLabel,
+  getInputLabel,
+  getReportingCurrency,
+  getTraceCapNote,
+  INPUT_SECTIONS,
+  type ReportFormat,
+} from './report-data';
+
+export interface SpreadsheetRow {
+  section: string;
+  key: string; // also the defined name of the value cell in the workbook
+  label: string;
+  format: ReportFormat;
+  value: number | string | boolean | null;
+  // Excel formula over the other rows' names, mirroring the engine's math
+  formula?: string;
+}
+
+export interface SpreadsheetSheet {
+  name: string;
+  rows: SpreadsheetRow[];
+}
+
+interface DerivedField {
+  label: string;
+  format: ReportFormat;
+  formula?: string;
+}
+
+// Formulas are left out where the engine iterates month by month (payback schedule)
+const resultFields: Record<keyof CalculationResults, DerivedField> = {
+  humanSOCTotalCost: {
+    label: 'Human SOC Total Cost',
+    format: 'currency',
+    formula:
+      '(humanSOCAnalysts*analystSalary+humanSOCManager*managerSalary+humanSOCEngineer*engineerSalary+humanSOCDirector*directorSalary)' +
+      '*laborOverheadMultiplier+siemLicensingCosts+costItemsCost',
+  },
+  autonomousSOCTotalCost: {
+    label: 'Autonomous SOC Total Cost',
+    format: 'currency',
+    formula: 'incidentPricing_annualCost',
+  },
+  efficiencyImprovement: {
+    label: 'Efficiency Improvement',
+    format: 'percentage',
+    formula:
+      'MIN(efficiency_base+MIN(falsePositiveRate*efficiency_falsePositiveWeight,efficiency_falsePositiveCap)' +
+      '+MIN(averageIncidentResponseTime*efficiency_responseTimeWeight,efficiency_responseTimeCap)' +
+      '+MIN(MAX(0,monthlyLogVolumeGB-efficiency_logVolumeThresholdGB)*efficiency_logVolumeWeight,efficiency_logVolumeCap),efficiency_cap)',
+  },
+  incidentResponseImprovement: {
+    label: 'Incident Response Improvement',
+    format: 'percentage',
+    formula:
+      'MIN(incidentResponse_base+MIN(averageIncidentResponseTime*incidentResponse_responseTimeWeight,incidentResponse_responseTimeCap)' +
+      '+MIN(falsePositiveRate*incidentResponse_falsePositiveWeight,incidentResponse_falsePositiveCap),incidentResponse_cap)',
+  },
+  adjustedAnnualSOCCost: {
+    label: 'Efficiency-Adjusted Human SOC Cost',
+    format: 'currency',
+    formula:
+      '(humanSOCTotalCost-costItemsCost-IF(switchFromLegacySIEM,0,siemLicensingCosts))*(1-efficiencyImprovement/100)' +
+      '+IF(switchFromLegacySIEM,0,siemLicensingCosts)+costItemsCost-costItemsSavings',
+  },
+  platformSavings: {
+    label: 'Platform Savings',
+    format: 'currency',
+    formula:
+      'siemLicensingCosts-(IF(switchFromLegacySIEM,0,siemLicensingCosts*siemLogForwardingPercentage/100)+logVolumePricing_platformCost)',
+  },
+  annualSavings: {
+    label: 'Annual Savings',
+    format: 'currency',
+    formula: 'humanSOCTotalCost-(adjustedAnnualSOCCost+autonomousSOCTotalCost)+platformSavings',
+  },
+  roiPercentage: {
+    label: 'ROI',
+    format: 'percentage',
+    formula: 'IF(autonomousSOCTotalCost=0,0,annualSavings/autonomousSOCTotalCost*100)',
+  },
+  oneTimeCosts: {
+    label: 'One-Time Costs',
+    format: 'currency',
+    formula:
+      'professionalServicesCost+siemMigrationCost+trainingCost+IF(switchFromLegacySIEM,siemLicensingCosts/12*dualRunningMonths,0)',
+  },
+  firstYearSavings: { label: 'First-Year Net Savings', format: 'currency' },
+  firstYearROIPercentage: {
+    label: 'First-Year ROI',
+    format: 'percentage',
+    formula: 'IF(autonomousSOCTotalCost+oneTimeCosts=0,0,firstYearSavings/(autonomousSOCTotalCost+oneTimeCosts)*100)',
+  },
+  paybackPeriod: { label: 'Payback Period', format: 'months' },
+};
+
+const workforceFields: Record<keyof WorkforceImpact, DerivedField> = {
+  totalHeadcount: {
+    label: 'Total SOC Headcount',
+    format: 'number',
+    formula: 'humanSOCAnalysts+humanSOCManager+humanSOCEngineer+humanSOCDirector',
+  },
+  optimizedHeadcount: {
+    label: 'Optimized Headcount',
+    format: 'number',
+    formula: 'MAX(0,ROUNDUP(totalHeadcount*(1-efficiencyImprovement/100),0))',
+  },
+  freedEmployees: {
+    label: 'Freed Employees',
+    format: 'number',
+    formula: 'MAX(0,totalHeadcount-optimizedHeadcount)',
+  },
+  monthlyTimeSavings: {
+    label: 'Monthly Time Savings (hours)',
+    format: 'hours',
+    formula: 'totalHeadcount*2080/12*(efficiencyImprovement/100)',
+  },
+  annualTimeSavings: {
+    label: 'Annual Time Savings (hours)',
+    format: 'hours',
+    formula: 'monthlyTimeSavings*12',
+  },
+};
+
+const valueFormulas: Record<keyof ValueMetrics, string> = {
+  falsePositiveReduction:
+    '(securityIncidentsPerMonth*falsePositiveRate/100*12-securityIncidentsPerMonth*value_autonomousFalsePositiveRate/100*12)' +
+    '*value_hoursPerFalsePositive*analystHourlyRate',
+  riskReduction: 'securityIncidentsPerMonth*(1-falsePositiveRate/100)*12*value_escalationCost*value_escalationReduction/100',
+  productivityImprovement: 'humanSOCAnalysts*2080*value_productivityTimeSaved/100*analystHourlyRate*value_productivityMultiplier',
+  incidentResponseTime:
+    'securityIncidentsPerMonth*(1-falsePositiveRate/100)*12*averageIncidentResponseTime*value_truePositiveResponseSavings/100*analystHourlyRate' +
+    '+securityIncidentsPerMonth*falsePositiveRate/100*12*value_falsePositiveInvestigationHours*value_falsePositiveResponseSavings/100*analystHourlyRate',
+  analystRetention: 'humanSOCAnalysts*analystSalary*laborOverheadMultiplier*value_turnoverCostShare/100*value_turnoverReduction/100',
+  complianceEfficiency: 'humanSOCAnalysts*value_complianceHoursPerAnalyst*analystHourlyRate*value_complianceEfficiency/100',
+  stressReduction: 'humanSOCAnalysts*value_stressValuePerAnalyst',
+  shiftCoverage: 'humanSOCAnalysts*value_shiftCoverageValuePerAnalyst',
+};
+
+// Yearly quantity each per-unit cost item is priced on
+const costItemQuantityFormulas: Record<CostItemUnit, string> = {
+  employee: 'employeeCount',
+  socHeadcount: '(humanSOCAnalysts+humanSOCManager+humanSOCEngineer+humanSOCDirector)',
+  incident: 'securityIncidentsPerMonth*12',
+  logGB: 'monthlyLogVolumeGB*12',
+};
+
+// Each line item gets its own named rows, the totals feed the human SOC cost in the results
+const getCostItemRows = (inputs: CalculationInputs): SpreadsheetRow[] => {
+  const totals = calculateCostItems(inputs);
+  const itemRows = inputs.costItems.flatMap((item, index): SpreadsheetRow[] => {
+    const name = `costItem${index + 1}`;
+    return [
+      {
+        section: item.name,
+        key: `${name}_amount`,
+        label: item.basis === 'annual' ? 'Annual Amount ($)' : `Price ${COST_ITEM_UNITS[item.unit]} ($)`,
+        format: 'currency',
+        value: item.amount,
+      },
+      {
+        section: item.name,
+        key: `${name}_savingsShare`,
+        label: 'Share Retired or Reduced',
+        format: 'percentage',
+        value: getCostItemSavingsShare(item),
+      },
+      {
+        section: item.name,
+        key: `${name}_cost`,
+        label: 'Annual Cost ($)',
+        format: 'currency',
+        value: getCostItemAnnualCost(item, inputs),
+        formula: item.basis === 'annual' ? `${name}_amount` : `${name}_amount*${costItemQuantityFormulas[item.unit]}`,
+      },
+      {
+        section: item.name,
+        key: `${name}_savings`,
+        label: 'Annual Savings ($)',
+        format: 'currency',
+        value: (getCostItemAnnualCost(item, inputs) * getCostItemSavingsShare(item)) / 100,
+        formula: `${name}_cost*${name}_savingsShare/100`,
+      },
+    ];
+  });
+  const sum = (suffix: string) => inputs.costItems.map((_, index) => `costItem${index + 1}_${suffix}`).join('+') || '0';
+  return [
+    ...itemRows,
+    {
+      section: 'Total',
+      key: 'costItemsCost',
+      label: 'Other Security Stack Costs ($)',
+      format: 'currency',
+      value: totals.currentCost,
+      formula: sum('cost'),
+    },
+    {
+      section: 'Total',
+      key: 'costItemsSavings',
+      label: 'Security Stack Savings ($)',
+      format: 'currency',
+      value: totals.savings,
+      formula: sum('savings'),
+    },
+  ];
+};
+
+// Each product's price bands, overage and minimum, named after the product, e.g. incidentPricing_tier2_cost.
+// The autonomous SOC total feeds the results, the Stellar XDR total the platform cost after the change.
+const getPricingRows = (inputs: CalculationInputs): SpreadsheetRow[] =>
+  (Object.keys(PRICED_PRODUCTS) as PricedProduct[]).flatMap((product): SpreadsheetRow[] => {
+    const { label: section, unit, volumeField, unitPriceField } = PRICED_PRODUCTS[product];
+    const pricing = inputs[product];
+    const breakdown = getPricingBreakdown(inputs, product);
+    // Units below the first tier are charged at the unit price input
+    const usesUnitPrice = breakdown.bands.length > (pricing.model === 'tiered' ? pricing.tiers.length : 0);
+    const row = (key: string, label: string, format: ReportFormat, value: number, formula?: string): SpreadsheetRow => ({
+      section,
+      key: `${product}_${key}`,
+      label,
+      format,
+      value,
+      formula,
+    });
+    const bandRows = breakdown.bands.flatMap((band, index) => {
+      const name = `${product}_tier${index + 1}`;
+      const label = describePriceBand(band, unit);
+      const upTo = band.to === null ? `${product}_billedVolume` : `MIN(${product}_billedVolume,${band.to})`;
+      return [
+        row(`tier${index + 1}_price`, `${label}: Unit Price ($)`, 'currency', band.price, index === 0 && usesUnitPrice ? unitPriceField : undefined),
+        row(`tier${index + 1}_volume`, `${label}: Monthly Volume`, 'number', band.volume, `MAX(0,${upTo}-${band.from})`),
+        row(`tier${index + 1}_cost`, `${label}: Annual Cost ($)`, 'currency', band.annualCost, `${name}_volume*${name}_price*12`),
+      ];
+    });
+    const bandCosts = breakdown.bands.map((_, index) => `${product}_tier${index + 1}_cost`).join('+');
+    return [
+      row(
+        'volume',
+        `Monthly Volume (${unit})`,
+        'number',
+        breakdown.volume,
+        // In coexistence Stellar XDR is licensed for the log volume forwarded to it
+        product === 'logVolumePricing' ? `${volumeField}*IF(switchFromLegacySIEM,1,xdrLogForwardingPercentage/100)` : volumeField
+      ),
+      row('committedVolume', 'Committed Monthly Volume', 'number', pricing.committedVolume),
+      row(
+        'billedVolume',
+        'Billed Monthly Volume',
+        'number',
+        breakdown.billedVolume,
+        // Without an overage price the volume above the commitment is charged through the bands
+        `IF(${product}_overagePrice>0,IF(${product}_committedVolume>0,${product}_committedVolume,${product}_volume),` +
+          `MAX(${product}_committedVolume,${product}_volume))`
+      ),
+      ...bandRows,
+      row('overagePrice', 'Overage Unit Price ($)', 'currency', pricing.overagePrice),
+      row(
+        'overageCost',
+        'Overage Annual Cost ($)',
+        'currency',
+        breakdown.overageCost,
+        `MAX(0,${product}_volume-${product}_billedVolume)*${product}_overagePrice*12`
+      ),
+      row('minimumAnnualValue', 'Minimum Annual Contract Value ($)', 'currency', pricing.minimumAnnualValue),
+      row(
+        'minimumTopUp',
+        'Minimum Contract Top-Up ($)',
+        'currency',
+        breakdown.minimumTopUp,
+        `MAX(0,${product}_minimumAnnualValue-(${bandCosts}+${product}_overageCost))`
+      ),
+      row('annualCost', 'Annual Licensing Cost ($)', 'currency', breakdown.annualCost, `${bandCosts}+${product}_overageCost+${product}_minimumTopUp`),
+      // A pinned platform cost is the price of the full log volume and replaces the licensing total
+      ...(product === 'logVolumePricing'
+        ? [
+            row(
+              'platformCost',
+              'Stellar XDR Cost after the Change ($)',
+              'currency',
+              calculatePlatformCosts(inputs).stellarXDRCost,
+              inputs.overrides.stellarXDRPlatformCosts === undefined
+                ? `IF(switchFromLegacySIEM,stellarXDRPlatformCosts,${product}_annualCost)`
+                : 'stellarXDRPlatformCosts*IF(switchFromLegacySIEM,1,xdrLogForwardingPercentage/100)'
+            ),
+          ]
+        : []),
+    ];
+  });
+
+// Each tenant's load and fee, then its share of the portfolio results split the same way as the engine
+const getTenantRows = (inputs: CalculationInputs, results: CalculationResults): SpreadsheetRow[] => {
+  const tenantResults = calculateTenantResults(inputs, results);
+  const names = inputs.tenants.map((_, index) => `tenant${index + 1}`);
+  // The efficiency gain on the SIEM licensing only applies when it is retired
+  const siemEfficiencySavings = 'IF(switchFromLegacySIEM,siemLicensingCosts*efficiencyImprovement/100,0)';
+  const total = (suffix: string) => names.map((name) => `${name}_${suffix}`).join('+');
+  const portfolio = calculatePortfolio(tenantResults);
+  const load = aggregateTenants(inputs.tenants);
+  const tenantRows = inputs.tenants.flatMap((tenant, index): SpreadsheetRow[] => {
+    const name = names[index];
+    const result = tenantResults[index];
+    const row = (key: string, label: string, format: ReportFormat, value: number, formula?: string): SpreadsheetRow => ({
+      section: tenant.name,
+      key: `${name}_${key}`,
+      label,
+      format,
+      value,
+      formula,
+    });
+    return [
+      row('employeeCount', 'Employees', 'number', tenant.employeeCount),
+      row('incidents', 'Security Incidents per Month', 'number', tenant.securityIncidentsPerMonth),
+      row('logVolumeGB', 'Monthly Log Volume (GB)', 'number', tenant.monthlyLogVolumeGB),
+      row('falsePositiveRate', 'False Positive Rate', 'percentage', tenant.falsePositiveRate),
+      row('monthlyFee', 'Monthly Fee ($)', 'currency', tenant.monthlyFee),
+      row('incidentShare', 'Share of Incidents', 'percentage', result.incidentShare, `IF(tenantIncidents=0,0,${name}_incidents/tenantIncidents*100)`),
+      row('logVolumeShare', 'Share of Log Volume', 'percentage', result.logVolumeShare, `IF(tenantLogVolumeGB=0,0,${name}_logVolumeGB/tenantLogVolumeGB*100)`),
+      row(
+        'currentCost',
+        'Cost to Serve with Human SOC ($)',
+        'currency',
+        result.currentCost,
+        `(humanSOCTotalCost-siemLicensingCosts)*${name}_incidentShare/100+siemLicensingCosts*${name}_logVolumeShare/100`
+      ),
+      row('autonomousSOCCost', 'Autonomous SOC Cost ($)', 'currency', result.autonomousSOCCost, `autonomousSOCTotalCost*${name}_incidentShare/100`),
+      row(
+        'annualSavings',
+        'Annual Savings ($)',
+        'currency',
+        result.annualSavings,
+        `(humanSOCTotalCost-adjustedAnnualSOCCost-${siemEfficiencySavings})*${name}_incidentShare/100` +
+          `+(${siemEfficiencySavings}+platformSavings)*${name}_logVolumeShare/100-${name}_autonomousSOCCost`
+      ),
+      row('costToServe', 'Cost to Serve with Autonomous SOC ($)', 'currency', result.costToServe, `${name}_currentCost-${name}_annualSavings`),
+      row('roiPercentage', 'ROI', 'percentage', result.roiPercentage, `IF(${name}_autonomousSOCCost=0,0,${name}_annualSavings/${name}_autonomousSOCCost*100)`),
+      row('annualRevenue', 'Annual Revenue ($)', 'currency', result.annualRevenue, `${name}_monthlyFee*12`),
+      row('currentMargin', 'Margin with Human SOC ($)', 'currency', result.currentMargin, `${name}_annualRevenue-${name}_currentCost`),
+      row('margin', 'Margin with Autonomous SOC ($)', 'currency', result.margin, `${name}_annualRevenue-${name}_costToServe`),
+      row('marginPercentage', 'Margin', 'percentage', result.marginPercentage, `IF(${name}_annualRevenue=0,0,${name}_margin/${name}_annualRevenue*100)`),
+    ];
+  });
+  const portfolioRow = (key: string, label: string, format: ReportFormat, value: number, formula: string): SpreadsheetRow => ({
+    section: 'Portfolio',
+    key,
+    label,
+    format,
+    value,
+    formula,
+  });
+  // The load totals come first since the shares are computed from them
+  return [
+    portfolioRow('tenantIncidents', 'Security Incidents per Month', 'number', load.securityIncidentsPerMonth, total('incidents')),
+    portfolioRow('tenantLogVolumeGB', 'Monthly Log Volume (GB)', 'number', load.monthlyLogVolumeGB, total('logVolumeGB')),
+    ...tenantRows,
+    portfolioRow('portfolioAnnualSavings', 'Annual Savings ($)', 'currency', portfolio.annualSavings, total('annualSavings')),
+    portfolioRow('portfolioAnnualRevenue', 'Annual Revenue ($)', 'currency', portfolio.annualRevenue, total('annualRevenue')),
+    portfolioRow('portfolioMargin', 'Margin with Autonomous SOC ($)', 'currency', portfolio.margin, total('margin')),
+    portfolioRow(
+      'portfolioMarginPercentage',
+      'Margin',
+      'percentage',
+      portfolio.marginPercentage,
+      'IF(portfolioAnnualRevenue=0,0,portfolioMargin/portfolioAnnualRevenue*100)'
+    ),
+  ];
+};
+
+// Defined names are prefixed with the group, since some coefficient keys match result names
+const getCoefficientName = (group: CoefficientGroup, key: string): string => `${group}_${key}`;
+
+// Every amount, inputs included, is in the reporting currency. The model scales linearly with money, so the formulas still hold.
+export const getSpreadsheetSheets = (
+  inputs: CalculationInputs,
+  coefficients: ModelCoefficients,
+  output: CalculationOutput
+): SpreadsheetSheet[] => {
+  const { results, workforce, valueMetrics, totalValue } = output;
+  const currency = getReportingCurrency(inputs);
+  const convert = (row: SpreadsheetRow): SpreadsheetRow =>
+    row.format === 'currency' && typeof row.value === 'number' ? { ...row, value: row.value * currency.rate } : row;
+
+  const sheets: SpreadsheetSheet[] = [
+    {
+      name: 'Inputs',
+      rows: INPUT_SECTIONS.flatMap((section) =>
+        section.fields.map(({ field, label, format }) => ({
+          section: section.title,
+          key: field,
+          label: getCurrencyLabel(getInputLabel(inputs, field, label), currency.currency),
+          format,
+          value: inputs[field],
+        }))
+      ),
+    },
+    {
+      name: 'Assumptions',
+      rows: (Object.keys(coefficients) as CoefficientGroup[]).flatMap((group) => {
+        const labels: Record<string, string> = COEFFICIENT_LABELS[group];
+        const values: Record<string, number> = { ...coefficients[group] };
+        return Object.keys(values).map((key) => ({
+          section: COEFFICIENT_GROUP_LABELS[group],
+          key: getCoefficientName(group, key),
+          label: getCurrencyLabel(labels[key], currency.currency),
+          format: getCoefficientFormat(labels[key]),
+          value: values[key],
+        }));
+      }),
+    },
+    {
+      name: 'Cost Items',
+      rows: getCostItemRows(inputs).map((row) => ({ ...row, label: getCurrencyLabel(row.label, currency.currency) })),
+    },
+    {
+      name: 'Licensing',
+      rows: getPricingRows(inputs).map((row) => ({ ...row, label: getCurrencyLabel(row.label, currency.currency) })),
+    },
+    {
+      name: 'Results',
+      rows: (Object.keys(resultFields) as (keyof CalculationResults)[]).map((key) => ({
+        section: 'Results',
+        key,
+        ...resultFields[key],
+        value: results[key],
+      })),
+    },
+    // Only MSSP scenarios get the tenant breakdown
+    ...(inputs.msspMode && inputs.tenants.length > 0
+      ? [
+          {
+            name: 'Tenants',
+            rows: getTenantRows(inputs, results).map((row) => ({ ...row, label: getCurrencyLabel(row.label, currency.currency) })),
+          },
+        ]
+      : []),
+    {
+      name: 'Workforce',
+      rows: [
+        ...(Object.keys(workforceFields) as (keyof WorkforceImpact)[]).map((key) => ({
+          section: 'Workforce',
+          key,
+          ...workforceFields[key],
+          value: workforce[key],
+        })),
+        {
+          section: 'Workforce',
+          key: 'analystHourlyRate',
+          label: 'Fully-Loaded Analyst Hourly Rate',
+          format: 'currency' as const,
+          value: (inputs.analystSalary * inputs.laborOverheadMultiplier) / 2080,
+          formula: 'analystSalary*laborOverheadMultiplier/2080',
+        },
+      ],
+    },
+    {
+      name: 'Value',
+      rows: [
+        ...VALUE_CATEGORIES.map((category) => ({
+          section: 'Value Creation',
+          key: category.key,
+          label: category.name,
+          format: 'currency' as const,
+          value: valueMetrics[category.key],
+          formula: valueFormulas[category.key],
+        })),
+        {
+          section: 'Value Creation',
+          key: 'totalValue',
+          label: 'Total Value Created',
+          format: 'currency' as const,
+          value: totalValue,
+          formula: VALUE_CATEGORIES.map((category) => category.key).join('+'),
+        },
+      ],
+    },
+    {
+      // The formula and substituted values are spelled out in the label since the value cells are static
+      name: 'Trace',
+      rows: Object.values(getCalculationTraces(inputs, coefficients)).flatMap((trace) =>
+        trace.steps.map((step, index) => ({
+          section: trace.title,
+          key: `trace_${trace.key}_${index + 1}`,
+          label: [`${step.label} = ${step.formula}`, formatTraceSubstitution(step, currency), getTraceCapNote(step)]
+            .filter(Boolean)
+            .join('; '),
+          format: step.format,
+          value: step.value,
+        }))
+      ),
+    },
+  ];
+  return sheets.map((sheet) => ({ ...sheet, rows: sheet.rows.map(convert) }));
+};
+
+const escapeCsv = (value: string): string => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// Raw, unformatted values so the file opens cleanly in any spreadsheet tool
+export const buildCsv = (sheets: SpreadsheetSheet[]): string => {
+  const lines = [['Section', 'Field', 'Label', 'Value']];
+  sheets.forEach((sheet) =>
+    sheet.rows.forEach((row) => {
+      const value = row.value === null ? '' : typeof row.value === 'boolean' ? (row.value ? 'TRUE' : 'FALSE') : String(row.value);
+      lines.push([row.section, row.key, row.label, value]);
+    })
+  );
+  return lines.map((line) => line.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,99 @@
+import React from 'react';
+import Box from '@mui/joy/Box';
+
+interface TornadoBar {
+  label: string;
+  low: number; // metric with the driver reduced
+  high: number; // metric with the driver increased
+}
+
+interface TornadoChartProps {
+  bars: TornadoBar[];
+  baseline: number;
+  formatValue: (value: number) => string;
+  lowLabel: string;
+  highLabel: string;
+}
+
+const WIDTH = 900;
+const LABEL_WIDTH = 320;
+const VALUE_MARGIN = 90; // room for the value text at either end of a bar
+const ROW_HEIGHT = 30;
+const BAR_HEIGHT = 18;
+const HEADER_HEIGHT = 28;
+const LOW_COLOR = '#F97316';
+const HIGH_COLOR = '#60A5FA';
+
+export const TornadoChart: React.FC<TornadoChartProps> = ({ bars, baseline, formatValue, lowLabel, highLabel }) => {
+  const chartLeft = LABEL_WIDTH + VALUE_MARGIN;
+  const halfWidth = (WIDTH - chartLeft - VALUE_MARGIN) / 2;
+  const center = chartLeft + halfWidth;
+  const maxDelta = Math.max(...bars.flatMap((bar) => [Math.abs(bar.low - baseline), Math.abs(bar.high - baseline)]), 1e-9);
+  const height = HEADER_HEIGHT + bars.length * ROW_HEIGHT + 8;
+
+  const x = (value: number) => center + ((value - baseline) / maxDelta) * halfWidth;
+
+  const renderBar = (value: number, y: number, color: string) => {
+    const end = x(value);
+    const isRight = end >= center;
+    return (
+      <>
+        <rect x={Math.min(center, end)} y={y} width={Math.abs(end - center)} height={BAR_HEIGHT} fill={color} rx={2} />
+        <text
+          x={isRight ? end + 6 : end - 6}
+          y={y + BAR_HEIGHT / 2 + 4}
+          textAnchor={isRight ? 'start' : 'end'}
+          fontSize="11"
+          fill="currentColor"
+        >
+          {formatValue(value)}
+        </text>
+      </>
+    );
+  };
+
+  return (
+    <Box sx={{ color: 'text.primary', overflowX: 'auto' }}>
+      <svg width="100%" viewBox={`0 0 ${WIDTH} ${height}`} style={{ minWidth: '40rem' }}>
+        {/* Legend */}
+        <rect x={chartLeft} y={4} width={12} height={12} fill={LOW_COLOR} rx={2} />
+        <text x={chartLeft + 18} y={14} fontSize="12" fill="currentColor">
+          {lowLabel}
+        </text>
+        <rect x={chartLeft + 120} y={4} width={12} height={12} fill={HIGH_COLOR} rx={2} />
+        <text x={chartLeft + 138} y={14} fontSize="12" fill="currentColor">
+          {highLabel}
+        </text>
+        <text x={center} y={14} textAnchor="middle" fontSize="12" fill="currentColor" fontWeight="600">
+          Baseline {formatValue(baseline)}
+        </text>
+
+        {bars.map((bar, index) => {
+          const y = HEADER_HEIGHT + index * ROW_HEIGHT + (ROW_HEIGHT - BAR_HEIGHT) / 2;
+          return (
+            <g key={bar.label}>
+              <text x={LABEL_WIDTH - 8} y={y + BAR_HEIGHT / 2 + 4} textAnchor="end" fontSize="12" fill="currentColor">
+                {bar.label}
+              </text>
+              {/* Draw the longer bar first so both stay visible when they point the same way */}
+              {Math.abs(bar.low - baseline) >= Math.abs(bar.high - baseline) ? (
+                <>
+                  {renderBar(bar.low, y, LOW_COLOR)}
+                  {renderBar(bar.high, y, HIGH_COLOR)}
+                </>
+              ) : (
+                <>
+                  {renderBar(bar.high, y, HIGH_COLOR)}
+                  {renderBar(bar.low, y, LOW_COLOR)}
+                </>
+              )}
+            </g>
+          );
+        })}
+
+        {/* Baseline */}
+        <line x1={center} y1={HEADER_HEIGHT - 4} x2={center} y2={height} stroke="currentColor" strokeWidth="1" strokeDasharray="4 3" />
+      </svg>
+    </Box>
+  );
+};
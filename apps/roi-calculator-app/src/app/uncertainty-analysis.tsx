@@ -0,0 +1,298 @@
+import React from 'react';
+import Box from '@mui/joy/Box';
+import Typography from '@mui/joy/Typography';
+import Button from '@mui/joy/Button';
+import Input from '@mui/joy/Input';
+import Select from '@mui/joy/Select';
+import Option from '@mui/joy/Option';
+import Table from '@mui/joy/Table';
+import {
+  getParameterValue,
+  isVariableParameter,
+  type Distribution,
+  type MonteCarloMetric,
+  type ModelState,
+  type MonteCarloResult,
+  type UncertainParameter,
+} from '@stellarcyber/roi-engine';
+import { getParameterId, getParameterLabel, PARAMETER_OPTIONS } from './parameter-labels';
+import { formatReportValue, getReportingCurrency, type ReportFormat } from './report-data';
+import { HistogramChart } from './histogram-chart';
+
+interface UncertaintyAnalysisProps {
+  state: ModelState; // current values, used to centre newly added parameters
+  uncertainties: UncertainParameter[];
+  onUncertaintiesChange: (uncertainties: UncertainParameter[]) => void;
+  iterations: number;
+  onIterationsChange: (iterations: number) => void;
+  result: MonteCarloResult | null;
+  isRunning: boolean;
+}
+
+export const ITERATION_OPTIONS = [1000, 5000, 10000];
+
+const DEFAULT_UNCERTAIN_PARAMETER_IDS = ['input:falsePositiveRate', 'input:averageIncidentResponseTime', 'coefficient:efficiency.base'];
+
+const distributionLabels: Record<Distribution['type'], string> = {
+  triangular: 'Triangular',
+  uniform: 'Uniform',
+  normal: 'Normal',
+};
+
+const resultRows: { metric: MonteCarloMetric; label: string; format: ReportFormat }[] = [
+  { metric: 'annualSavings', label: 'Annual Savings', format: 'currency' },
+  { metric: 'annualTimeSavings', label: 'Annual Time Savings', format: 'hours' },
+  { metric: 'platformSavings', label: 'Platform Savings', format: 'currency' },
+  { metric: 'freedEmployees', label: 'Freed Employees', format: 'number' },
+  { metric: 'roiPercentage', label: 'ROI', format: 'percentage' },
+  { metric: 'efficiencyImprovement', label: 'Efficiency Improvement', format: 'percentage' },
+  { metric: 'paybackPeriod', label: 'Payback Period', format: 'months' },
+  { metric: 'firstYearROIPercentage', label: 'First-Year ROI', format: 'percentage' },
+  { metric: 'totalValue', label: 'Total Value Created', format: 'currency' },
+];
+
+// ±20% around the current value is a reasonable starting range for most estimates
+const createDistribution = (value: number): Distribution => ({ type: 'triangular', min: value * 0.8, mode: value, max: value * 1.2 });
+
+export const createUncertainParameter = (state: ModelState, id: string): UncertainParameter => {
+  const { parameter } = PARAMETER_OPTIONS.find((option) => option.id === id) ?? PARAMETER_OPTIONS[0];
+  const value = getParameterValue(state, parameter);
+  return { parameter, distribution: createDistribution(value) };
+};
+
+export const getDefaultUncertainties = (state: ModelState): UncertainParameter[] =>
+  DEFAULT_UNCERTAIN_PARAMETER_IDS.map((id) => createUncertainParameter(state, id));
+
+// Scales a distribution by the change in its parameter's value, keeping the spread in proportion to it
+const moveDistribution = (distribution: Distribution, previous: number, current: number): Distribution => {
+  // A zero value cannot be scaled, so its range is shifted instead
+  const scale = previous === 0 ? 1 : current / previous;
+  const move = (value: number) => (previous === 0 ? value + current : value * scale);
+  switch (distribution.type) {
+    case 'triangular':
+      return { ...distribution, min: move(distribution.min), mode: move(distribution.mode), max: move(distribution.max) };
+    case 'uniform':
+      return { ...distribution, min: move(distribution.min), max: move(distribution.max) };
+    case 'normal':
+      return { ...distribution, mean: move(distribution.mean), standardDeviation: distribution.standardDeviation * Math.abs(scale) };
+  }
+};
+
+// Re-centres the distributions set up against one model state on the values of another
+export const recenterUncertainties = (uncertainties: UncertainParameter[], from: ModelState, to: ModelState): UncertainParameter[] =>
+  uncertainties.map((uncertainty) => {
+    const previous = getParameterValue(from, uncertainty.parameter);
+    const current = getParameterValue(to, uncertainty.parameter);
+    return previous === current ? uncertainty : { ...uncertainty, distribution: moveDistribution(uncertainty.distribution, previous, current) };
+  });
+
+// Keeps the centre and spread of the previous distribution when switching type
+const convertDistribution = (distribution: Distribution, type: Distribution['type']): Distribution => {
+  const center =
+    distribution.type === 'normal'
+      ? distribution.mean
+      : distribution.type === 'triangular'
+        ? distribution.mode
+        : (distribution.min + distribution.max) / 2;
+  const spread = distribution.type === 'normal' ? distribution.standardDeviation * 2 : (distribution.max - distribution.min) / 2;
+  switch (type) {
+    case 'triangular':
+      return { type, min: center - spread, mode: center, max: center + spread };
+    case 'uniform':
+      return { type, min: center - spread, max: center + spread };
+    case 'normal':
+      return { type, mean: center, standardDeviation: spread / 2 };
+  }
+};
+
+const distributionFields = (distribution: Distribution): { key: string; label: string }[] =>
+  distribution.type === 'normal'
+    ? [
+        { key: 'mean', label: 'Mean' },
+        { key: 'standardDeviation', label: 'Std Dev' },
+      ]
+    : distribution.type === 'triangular'
+      ? [
+          { key: 'min', label: 'Min' },
+          { key: 'mode', label: 'Most Likely' },
+          { key: 'max', label: 'Max' },
+        ]
+      : [
+          { key: 'min', label: 'Min' },
+          { key: 'max', label: 'Max' },
+        ];
+
+export const UncertaintyAnalysis: React.FC<UncertaintyAnalysisProps> = ({
+  state,
+  uncertainties,
+  onUncertaintiesChange,
+  iterations,
+  onIterationsChange,
+  result,
+  isRunning,
+}) => {
+  const usedIds = uncertainties.map((uncertainty) => getParameterId(uncertainty.parameter));
+  const availableOptions = PARAMETER_OPTIONS.filter(
+    (option) => !usedIds.includes(option.id) && isVariableParameter(state, option.parameter)
+  );
+
+  const updateAt = (index: number, uncertainty: UncertainParameter) =>
+    onUncertaintiesChange(uncertainties.map((current, i) => (i === index ? uncertainty : current)));
+
+  const currency = getReportingCurrency(state.inputs);
+  const formatPercentile = (value: number | null, format: ReportFormat) => formatReportValue(value, format, currency);
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'space-between', alignItems: 'center', gap: 2, mb: 3 }}>
+        <Box>
+          <Typography level="h2" sx={{ mb: 1 }}>
+            Uncertainty Analysis
+          </Typography>
+          <Typography level="body-md" color="neutral">
+            Monte Carlo simulation over uncertain inputs and model assumptions
+          </Typography>
+        </Box>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          {isRunning && (
+            <Typography level="body-sm" color="neutral">
+              Simulating…
+            </Typography>
+          )}
+          <Select
+            size="sm"
+            value={iterations}
+            onChange={(_, value) => value && onIterationsChange(value)}
+            sx={{ minWidth: '10rem' }}
+          >
+            {ITERATION_OPTIONS.map((option) => (
+              <Option key={option} value={option}>
+                {option.toLocaleString()} iterations
+              </Option>
+            ))}
+          </Select>
+        </Box>
+      </Box>
+
+      <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5, mb: 3 }}>
+        {uncertainties.map((uncertainty, index) => {
+          const id = getParameterId(uncertainty.parameter);
+          return (
+            <Box key={id} sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1 }}>
+              <Select
+                size="sm"
+                value={id}
+                onChange={(_, value) => value && updateAt(index, createUncertainParameter(state, value))}
+                sx={{ width: '22rem' }}
+              >
+                <Option value={id}>{getParameterLabel(uncertainty.parameter)}</Option>
+                {availableOptions.map((option) => (
+                  <Option key={option.id} value={option.id}>
+                    {option.label}
+                  </Option>
+                ))}
+              </Select>
+              <Select
+                size="sm"
+                value={uncertainty.distribution.type}
+                onChange={(_, value) =>
+                  value && updateAt(index, { ...uncertainty, distribution: convertDistribution(uncertainty.distribution, value) })
+                }
+                sx={{ width: '9rem' }}
+              >
+                {(Object.keys(distributionLabels) as Distribution['type'][]).map((type) => (
+                  <Option key={type} value={type}>
+                    {distributionLabels[type]}
+                  </Option>
+                ))}
+              </Select>
+              {distributionFields(uncertainty.distribution).map(({ key, label }) => (
+                <Input
+                  key={key}
+                  type="number"
+                  size="sm"
+                  startDecorator={label}
+                  value={(uncertainty.distribution as unknown as Record<string, number>)[key]}
+                  onChange={(e) =>
+                    updateAt(index, {
+                      ...uncertainty,
+                      distribution: { ...uncertainty.distribution, [key]: parseFloat(e.target.value) || 0 },
+                    })
+                  }
+                  sx={{ width: '11rem' }}
+                />
+              ))}
+              <Button
+                size="sm"
+                variant="plain"
+                color="danger"
+                onClick={() => onUncertaintiesChange(uncertainties.filter((_, i) => i !== index))}
+              >
+                Remove
+              </Button>
+            </Box>
+          );
+        })}
+        <Box>
+          <Button
+            size="sm"
+            variant="outlined"
+            disabled={availableOptions.length === 0}
+            onClick={() => onUncertaintiesChange([...uncertainties, createUncertainParameter(state, availableOptions[0].id)])}
+          >
+            Add Parameter
+          </Button>
+        </Box>
+      </Box>
+
+      {uncertainties.length === 0 ? (
+        <Typography level="body-sm" color="neutral">
+          Add at least one uncertain parameter to run the simulation.
+        </Typography>
+      ) : (
+        result && (
+          <>
+            <Table
+              size="sm"
+              sx={{ mb: 3, '& th, & td': { textAlign: 'right' }, '& th:first-of-type, & td:first-of-type': { textAlign: 'left' } }}
+            >
+              <thead>
+                <tr>
+                  <th>Metric</th>
+                  <th>P10</th>
+                  <th>P50</th>
+                  <th>P90</th>
+                </tr>
+              </thead>
+              <tbody>
+                {resultRows.map(({ metric, label, format }) => (
+                  <tr key={metric}>
+                    <td>{label}</td>
+                    <td>{formatPercentile(result.percentiles[metric].p10, format)}</td>
+                    <td>{formatPercentile(result.percentiles[metric].p50, format)}</td>
+                    <td>{formatPercentile(result.percentiles[metric].p90, format)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+
+            <Typography level="title-md" sx={{ mb: 1 }}>
+              Annual Savings Distribution
+            </Typography>
+            <HistogramChart
+              bins={result.annualSavingsHistogram}
+              markers={(['p10', 'p50', 'p90'] as const).map((key) => ({
+                label: key.toUpperCase(),
+                value: result.percentiles.annualSavings[key] ?? 0,
+              }))}
+              formatValue={(value) => formatReportValue(value, 'currency', currency)}
+            />
+            <Typography level="body-xs" color="neutral" sx={{ mt: 1 }}>
+              {result.iterations.toLocaleString()} iterations. P10 and P90 bound the middle 80% of simulated outcomes.
+            </Typography>
+          </>
+        )
+      )}
+    </Box>
+  );
+};
@@ -0,0 +1,57 @@
+import { useEffect, useRef, useState } from 'react';
+import type { MonteCarloResult, ModelState, UncertainParameter } from '@stellarcyber/roi-engine';
+import type { MonteCarloResponse } from './monte-carlo-worker-client';
+
+// Restart after input changes settle so slider drags do not queue up runs
+const DEBOUNCE_MS = 300;
+
+export const useMonteCarlo = (
+  { inputs, coefficients }: ModelState,
+  uncertainties: UncertainParameter[],
+  iterations: number,
+  enabled: boolean
+): { result: MonteCarloResult | null; isRunning: boolean } => {
+  const [result, setResult] = useState<MonteCarloResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const workerRef = useRef<Worker | null>(null);
+  const requestIdRef = useRef(0);
+
+  useEffect(() => {
+    // Workers are unavailable outside the browser, e.g. under jsdom
+    if (!enabled || typeof Worker === 'undefined') {
+      setResult(null);
+      setIsRunning(false);
+      return;
+    }
+
+    const id = ++requestIdRef.current;
+    setIsRunning(true);
+    const timeout = setTimeout(async () => {
+      const { createMonteCarloWorker } = await import('./monte-carlo-worker-client');
+      if (id !== requestIdRef.current) {
+        return;
+      }
+      // A run in flight is stale by now, so stop it instead of waiting for it
+      workerRef.current?.terminate();
+      const worker = createMonteCarloWorker();
+      workerRef.current = worker;
+      worker.onmessage = (event: MessageEvent<MonteCarloResponse>) => {
+        if (event.data.id === requestIdRef.current) {
+          setResult(event.data.result);
+          setIsRunning(false);
+        }
+      };
+      worker.onerror = (error) => {
+        console.warn('Monte Carlo simulation failed:', error);
+        setIsRunning(false);
+      };
+      worker.postMessage({ id, inputs, coefficients, uncertainties, iterations });
+    }, DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [inputs, coefficients, uncertainties, iterations, enabled]);
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  return { result, isRunning };
+};
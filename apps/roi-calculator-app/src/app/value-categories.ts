@@ -0,0 +1,33 @@
+import { VALUE_CATEGORIES, type ValueMetrics } from '@stellarcyber/roi-engine';
+
+const CATEGORY_COLORS = [
+  '#60A5FA', // Blue
+  '#34D399', // Green
+  '#F59E0B', // Amber
+  '#EF4444', // Red
+  '#8B5CF6', // Purple
+  '#06B6D4', // Cyan
+  '#F97316', // Orange
+  '#EC4899', // Pink
+  '#10B981', // Emerald
+  '#6366F1', // Indigo
+];
+
+export interface ValueCategoryItem {
+  key: keyof ValueMetrics;
+  name: string;
+  description: string;
+  value: number;
+  color: string;
+}
+
+// Value categories sorted by value descending, colored by rank so the chart and legend match
+export const getValueBreakdown = (valueMetrics: ValueMetrics): ValueCategoryItem[] =>
+  VALUE_CATEGORIES.map((category) => ({
+    key: category.key,
+    name: category.name,
+    description: category.description,
+    value: valueMetrics[category.key],
+  }))
+    .sort((a, b) => b.value - a.value)
+    .map((category, index) => ({ ...category, color: CATEGORY_COLORS[index % CATEGORY_COLORS.length] }));
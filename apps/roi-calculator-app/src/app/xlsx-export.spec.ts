@@ -0,0 +1,26 @@
+/**
+ * @jest-environment node
+ */
+import { Workbook } from 'exceljs';
+import { DEFAULT_COEFFICIENTS, defaultInputs, runCalculation } from '@stellarcyber/roi-engine';
+import { getSpreadsheetSheets } from './spreadsheet-data';
+import { buildWorkbook } from './xlsx-export';
+
+describe('XLSX export', () => {
+  it('writes one sheet per section with named cells and live formulas', async () => {
+    const output = runCalculation(defaultInputs);
+    const buffer = await buildWorkbook(getSpreadsheetSheets(defaultInputs, DEFAULT_COEFFICIENTS, output)).xlsx.writeBuffer();
+
+    const workbook = new Workbook();
+    await workbook.xlsx.load(buffer);
+    expect(workbook.worksheets.map((sheet) => sheet.name)).toEqual(['Inputs', 'Assumptions', 'Cost Items', 'Licensing', 'Results', 'Workforce', 'Value', 'Trace']);
+
+    const results = workbook.getWorksheet('Results');
+    const annualSavings = results?.getRows(2, results.rowCount - 1)?.find((row) => row.getCell(2).value === 'annualSavings');
+    expect(annualSavings?.getCell(4).value).toEqual({
+      formula: 'humanSOCTotalCost-(adjustedAnnualSOCCost+autonomousSOCTotalCost)+platformSavings',
+      result: output.results.annualSavings,
+    });
+    expect(workbook.definedNames.getRanges('employeeCount').ranges).toEqual(['Inputs!$D$2']);
+  });
+});
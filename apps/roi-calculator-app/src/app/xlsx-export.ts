@@ -0,0 +1,51 @@
+import { Workbook } from 'exceljs';
+import type { CurrencyCode } from '@stellarcyber/roi-engine';
+import { downloadFile } from './download';
+import { getCurrencySymbol, type ReportFormat } from './report-data';
+import type { SpreadsheetSheet } from './spreadsheet-data';
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const numberFormats: Partial<Record<ReportFormat, string>> = {
+  percentage: '0.0"%"',
+  decimal: '#,##0.00',
+  months: '0.0" months"',
+  hours: '#,##0" hrs"',
+  multiplier: '0.00"x"',
+  number: '#,##0',
+};
+
+// Every value cell gets a defined name matching its field so formulas read like the engine code
+export const buildWorkbook = (sheets: SpreadsheetSheet[], currency: CurrencyCode = 'USD'): Workbook => {
+  const formats = { ...numberFormats, currency: `"${getCurrencySymbol(currency)}"#,##0.00` };
+  const workbook = new Workbook();
+  workbook.creator = 'Stellar Cyber ROI Calculator';
+  workbook.calcProperties.fullCalcOnLoad = true;
+
+  sheets.forEach((sheet) => {
+    const worksheet = workbook.addWorksheet(sheet.name);
+    worksheet.columns = [
+      { header: 'Section', width: 24 },
+      { header: 'Field', width: 30 },
+      { header: 'Label', width: 40 },
+      { header: 'Value', width: 20 },
+    ];
+    worksheet.getRow(1).font = { bold: true };
+    worksheet.views = [{ state: 'frozen', ySplit: 1 }];
+
+    sheet.rows.forEach((row) => {
+      const excelRow = worksheet.addRow([row.section, row.key, row.label]);
+      const cell = excelRow.getCell(4);
+      cell.value = row.formula ? { formula: row.formula, result: row.value ?? undefined } : row.value;
+      cell.numFmt = formats[row.format] ?? 'General';
+      workbook.definedNames.add(`'${sheet.name}'!$D$${excelRow.number}`, row.key);
+    });
+  });
+
+  return workbook;
+};
+
+export const downloadXlsx = async (sheets: SpreadsheetSheet[], currency: CurrencyCode, filename: string): Promise<void> => {
+  const buffer = await buildWorkbook(sheets, currency).xlsx.writeBuffer();
+  downloadFile(buffer, XLSX_MIME_TYPE, filename);
+};
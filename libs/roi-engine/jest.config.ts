@@ -0,0 +1,10 @@
+export default {
+  displayName: '@stellarcyber/roi-engine',
+  preset: '../../jest.preset.js',
+  testEnvironment: 'node',
+  transform: {
+    '^.+\\.[tj]s$': ['babel-jest', { presets: ['@nx/js/babel'] }],
+  },
+  moduleFileExtensions: ['ts', 'js', 'html'],
+  coverageDirectory: 'test-output/jest/coverage',
+};
@@ -0,0 +1,23 @@
+export * from './lib/types.js';
+export * from './lib/coefficients.js';
+export * from './lib/profiles.js';
+export * from './lib/inputs.js';
+export * from './lib/industries.js';
+export * from './lib/cost-items.js';
+export * from './lib/mssp.js';
+export * from './lib/pricing.js';
+export * from './lib/currency.js';
+export * from './lib/validation.js';
+export * from './lib/labor.js';
+export * from './lib/roi.js';
+export * from './lib/payback.js';
+export * from './lib/finance.js';
+export * from './lib/projection.js';
+export * from './lib/value-metrics.js';
+export * from './lib/workforce.js';
+export * from './lib/parameters.js';
+export * from './lib/sensitivity.js';
+export * from './lib/monte-carlo.js';
+export * from './lib/goal-seek.js';
+export * from './lib/engine.js';
+export * from './lib/trace.js';
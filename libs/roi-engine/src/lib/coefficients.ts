@@ -0,0 +1,106 @@
+import type { CoefficientGroup, ModelCoefficients, ValueCoefficients } from './types.js';
+
+export const DEFAULT_COEFFICIENTS: ModelCoefficients = {
+  efficiency: {
+    base: 38, // Base efficiency improvement from automation
+    falsePositiveWeight: 0.2,
+    falsePositiveCap: 15,
+    responseTimeWeight: 3,
+    responseTimeCap: 25,
+    logVolumeThresholdGB: 1024, // 1 TiB
+    logVolumeWeight: 0.001,
+    logVolumeCap: 15,
+    cap: 80,
+  },
+  incidentResponse: {
+    base: 45,
+    responseTimeWeight: 2,
+    responseTimeCap: 15,
+    falsePositiveWeight: 0.15,
+    falsePositiveCap: 8,
+    cap: 80,
+  },
+  value: {
+    autonomousFalsePositiveRate: 5,
+    hoursPerFalsePositive: 2,
+    escalationCost: 5000,
+    escalationReduction: 30,
+    productivityTimeSaved: 40,
+    productivityMultiplier: 1.5,
+    truePositiveResponseSavings: 85,
+    falsePositiveInvestigationHours: 1,
+    falsePositiveResponseSavings: 10,
+    turnoverCostShare: 50,
+    turnoverReduction: 60,
+    complianceHoursPerAnalyst: 200,
+    complianceEfficiency: 70,
+    stressValuePerAnalyst: 15000,
+    shiftCoverageValuePerAnalyst: 20000,
+  },
+};
+
+export const COEFFICIENT_GROUP_LABELS: Record<CoefficientGroup, string> = {
+  efficiency: 'Efficiency Improvement',
+  incidentResponse: 'Incident Response Improvement',
+  value: 'Value Creation',
+};
+
+export const COEFFICIENT_LABELS: { [G in CoefficientGroup]: Record<keyof ModelCoefficients[G], string> } = {
+  efficiency: {
+    base: 'Base efficiency improvement (%)',
+    falsePositiveWeight: 'Uplift per % false positive rate (points)',
+    falsePositiveCap: 'False positive uplift cap (points)',
+    responseTimeWeight: 'Uplift per hour of response time (points)',
+    responseTimeCap: 'Response time uplift cap (points)',
+    logVolumeThresholdGB: 'Log volume uplift threshold (GB/month)',
+    logVolumeWeight: 'Uplift per GB above threshold (points)',
+    logVolumeCap: 'Log volume uplift cap (points)',
+    cap: 'Maximum efficiency improvement (%)',
+  },
+  incidentResponse: {
+    base: 'Base response improvement (%)',
+    responseTimeWeight: 'Uplift per hour of response time (points)',
+    responseTimeCap: 'Response time uplift cap (points)',
+    falsePositiveWeight: 'Uplift per % false positive rate (points)',
+    falsePositiveCap: 'False positive uplift cap (points)',
+    cap: 'Maximum response improvement (%)',
+  },
+  value: {
+    autonomousFalsePositiveRate: 'False positive rate with Autonomous SOC (%)',
+    hoursPerFalsePositive: 'Analyst hours per false positive',
+    escalationCost: 'Cost of an escalated incident ($)',
+    escalationReduction: 'Escalation risk reduction (%)',
+    productivityTimeSaved: 'Analyst time redirected (%)',
+    productivityMultiplier: 'High-value work multiplier',
+    truePositiveResponseSavings: 'True positive response time saved (%)',
+    falsePositiveInvestigationHours: 'Hours to investigate a false positive',
+    falsePositiveResponseSavings: 'False positive investigation time saved (%)',
+    turnoverCostShare: 'Replacement cost (% of loaded salary)',
+    turnoverReduction: 'Turnover reduction (%)',
+    complianceHoursPerAnalyst: 'Compliance hours per analyst per year',
+    complianceEfficiency: 'Compliance effort saved (%)',
+    stressValuePerAnalyst: 'Stress reduction value per analyst ($)',
+    shiftCoverageValuePerAnalyst: 'Shift coverage value per analyst ($)',
+  },
+};
+
+// Where each value-model default comes from, shown next to the assumption so it can be challenged
+export const VALUE_COEFFICIENT_SOURCES: Record<keyof ValueCoefficients, string> = {
+  autonomousFalsePositiveRate:
+    'Residual false positive rate once alerts are triaged and correlated automatically. Replace with the rate seen in a proof of value.',
+  hoursPerFalsePositive: 'Typical analyst time to open, enrich, investigate and close a benign alert.',
+  escalationCost:
+    'Average cost of an incident that escalates for lack of timely response: responder time, remediation and business disruption.',
+  escalationReduction: 'Share of genuine incidents expected to be contained before escalating thanks to earlier detection.',
+  productivityTimeSaved: 'Share of analyst time spent on repetitive triage that automation hands back for other work.',
+  productivityMultiplier: 'Value of an hour of threat hunting or engineering work relative to an hour of triage.',
+  truePositiveResponseSavings: 'Reduction in handling time for genuine incidents with automated enrichment, correlation and response.',
+  falsePositiveInvestigationHours: 'Analyst time still spent confirming a false positive that reaches the queue.',
+  falsePositiveResponseSavings: 'Share of false positive confirmation time saved by automated context gathering.',
+  turnoverCostShare: 'Cost of replacing an analyst (recruiting, onboarding, lost productivity) as a share of loaded salary.',
+  turnoverReduction: 'Expected reduction in analyst attrition from lower alert fatigue.',
+  complianceHoursPerAnalyst: 'Yearly analyst hours spent on evidence gathering and compliance reporting.',
+  complianceEfficiency: 'Share of compliance effort covered by automated reporting and retained investigation records.',
+  stressValuePerAnalyst: 'Estimated yearly value per analyst of fewer errors and better decisions under lower alert load.',
+  shiftCoverageValuePerAnalyst: 'Yearly shift premium and overtime per analyst avoided with continuous automated monitoring.',
+};
@@ -0,0 +1,49 @@
+import { calculateCostItems, getCostItemAnnualCost } from './cost-items.js';
+import { defaultInputs } from './inputs.js';
+import { calculateROI } from './roi.js';
+import type { CostLineItem } from './types.js';
+
+const item = (overrides: Partial<CostLineItem>): CostLineItem => ({
+  id: 'item',
+  name: 'SOAR',
+  basis: 'annual',
+  amount: 50000,
+  unit: 'employee',
+  treatment: 'retired',
+  reductionPercentage: 0,
+  ...overrides,
+});
+
+describe('cost items', () => {
+  it('prices per-unit items from the current inputs', () => {
+    expect(getCostItemAnnualCost(item({ basis: 'perUnit', amount: 2, unit: 'employee' }), defaultInputs)).toBe(
+      defaultInputs.employeeCount * 2
+    );
+    expect(getCostItemAnnualCost(item({ basis: 'perUnit', amount: 0.5, unit: 'logGB' }), defaultInputs)).toBe(
+      defaultInputs.monthlyLogVolumeGB * 12 * 0.5
+    );
+  });
+
+  it('saves the full, partial or no cost depending on the treatment', () => {
+    const inputs = {
+      ...defaultInputs,
+      costItems: [
+        item({ id: 'a', amount: 50000, treatment: 'retired' }),
+        item({ id: 'b', amount: 40000, treatment: 'reduced', reductionPercentage: 25 }),
+        item({ id: 'c', amount: 30000, treatment: 'unchanged' }),
+      ],
+    };
+    expect(calculateCostItems(inputs)).toEqual({ currentCost: 120000, savings: 60000 });
+  });
+
+  it('adds the items to the human SOC cost and their savings to the annual savings', () => {
+    const base = calculateROI(defaultInputs);
+    const withItems = calculateROI({
+      ...defaultInputs,
+      costItems: [item({ amount: 50000, treatment: 'retired' }), item({ id: 'b', amount: 30000, treatment: 'unchanged' })],
+    });
+    expect(withItems.humanSOCTotalCost).toBeCloseTo(base.humanSOCTotalCost + 80000);
+    expect(withItems.adjustedAnnualSOCCost).toBeCloseTo(base.adjustedAnnualSOCCost + 30000);
+    expect(withItems.annualSavings).toBeCloseTo(base.annualSavings + 50000);
+  });
+});
@@ -0,0 +1,52 @@
+import type { CalculationInputs, CostItemTreatment, CostItemUnit, CostLineItem } from './types.js';
+
+export const COST_ITEM_UNITS: Record<CostItemUnit, string> = {
+  employee: 'per employee per year',
+  socHeadcount: 'per SOC head per year',
+  incident: 'per incident',
+  logGB: 'per GB of logs',
+};
+
+export const COST_ITEM_TREATMENTS: Record<CostItemTreatment, string> = {
+  retired: 'Retired by autonomous SOC',
+  reduced: 'Reduced',
+  unchanged: 'Unchanged',
+};
+
+export interface CostItemTotals {
+  currentCost: number; // annual cost of the items today
+  savings: number; // annual cost the autonomous SOC removes
+}
+
+// Units counted over a year, monthly volumes are multiplied out
+export const getCostItemQuantity = (unit: CostItemUnit, inputs: CalculationInputs): number => {
+  switch (unit) {
+    case 'employee':
+      return inputs.employeeCount;
+    case 'socHeadcount':
+      return inputs.humanSOCAnalysts + inputs.humanSOCManager + inputs.humanSOCEngineer + inputs.humanSOCDirector;
+    case 'incident':
+      return inputs.securityIncidentsPerMonth * 12;
+    case 'logGB':
+      return inputs.monthlyLogVolumeGB * 12;
+  }
+};
+
+export const getCostItemAnnualCost = (item: CostLineItem, inputs: CalculationInputs): number =>
+  item.basis === 'annual' ? item.amount : item.amount * getCostItemQuantity(item.unit, inputs);
+
+// Share of the item's cost that goes away, as a percentage
+export const getCostItemSavingsShare = (item: CostLineItem): number =>
+  item.treatment === 'retired' ? 100 : item.treatment === 'reduced' ? item.reductionPercentage : 0;
+
+export const calculateCostItems = (inputs: CalculationInputs): CostItemTotals =>
+  inputs.costItems.reduce(
+    (totals, item) => {
+      const cost = getCostItemAnnualCost(item, inputs);
+      return {
+        currentCost: totals.currentCost + cost,
+        savings: totals.savings + (cost * getCostItemSavingsShare(item)) / 100,
+      };
+    },
+    { currentCost: 0, savings: 0 }
+  );
@@ -0,0 +1,40 @@
+import { DEFAULT_COEFFICIENTS } from './coefficients.js';
+import { convertCoefficients, DEFAULT_EXCHANGE_RATES, getExchangeRate } from './currency.js';
+import { applyInputChange, defaultInputs } from './inputs.js';
+import { SALARY_PRESETS } from './labor.js';
+import { calculateROI } from './roi.js';
+
+describe('currency', () => {
+  it('derives cross rates from the per-USD table', () => {
+    expect(getExchangeRate('USD', 'EUR', DEFAULT_EXCHANGE_RATES)).toBe(0.92);
+    expect(getExchangeRate('EUR', 'EUR', DEFAULT_EXCHANGE_RATES)).toBe(1);
+    expect(getExchangeRate('EUR', 'GBP', DEFAULT_EXCHANGE_RATES)).toBeCloseTo(0.79 / 0.92);
+  });
+
+  it('converts amounts when the input currency changes so results keep their value', () => {
+    const converted = applyInputChange(defaultInputs, 'inputCurrency', 'EUR');
+    expect(converted.analystSalary).toBe(78200);
+    expect(converted.pricePerSecurityIncident).toBe(2.76);
+    expect(converted.employeeCount).toBe(defaultInputs.employeeCount);
+    expect(converted.exchangeRate).toBeCloseTo(1 / 0.92);
+
+    const before = calculateROI(defaultInputs, DEFAULT_COEFFICIENTS);
+    const after = calculateROI(converted, convertCoefficients(DEFAULT_COEFFICIENTS, 0.92));
+    expect(after.annualSavings).toBeCloseTo(before.annualSavings * 0.92, 0);
+    expect(after.roiPercentage).toBeCloseTo(before.roiPercentage, 1);
+  });
+
+  it('only updates the rate when the reporting currency changes', () => {
+    const reported = applyInputChange(defaultInputs, 'reportingCurrency', 'GBP');
+    expect(reported.analystSalary).toBe(defaultInputs.analystSalary);
+    expect(reported.exchangeRate).toBe(0.79);
+  });
+
+  it('uses the supplied rates and converts salary presets into the input currency', () => {
+    const rates = { ...DEFAULT_EXCHANGE_RATES, INR: 80 };
+    const inr = applyInputChange(defaultInputs, 'inputCurrency', 'INR', rates);
+    expect(inr.exchangeRate).toBe(1 / 80);
+    const india = applyInputChange(inr, 'salaryRegion', 'india', rates);
+    expect(india.analystSalary).toBe(SALARY_PRESETS.india.salaries.analystSalary * 80);
+  });
+});
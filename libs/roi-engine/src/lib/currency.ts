@@ -0,0 +1,87 @@
+import { mapPricingAmounts } from './pricing.js';
+import type { CalculationInputs, CurrencyCode, ModelCoefficients, ValueCoefficients } from './types.js';
+
+export interface CurrencyInfo {
+  label: string;
+  locale: string; // used to format amounts in this currency
+}
+
+export const CURRENCIES: Record<CurrencyCode, CurrencyInfo> = {
+  USD: { label: 'US Dollar', locale: 'en-US' },
+  EUR: { label: 'Euro', locale: 'de-DE' },
+  GBP: { label: 'British Pound', locale: 'en-GB' },
+  JPY: { label: 'Japanese Yen', locale: 'ja-JP' },
+  AUD: { label: 'Australian Dollar', locale: 'en-AU' },
+  CAD: { label: 'Canadian Dollar', locale: 'en-CA' },
+  SGD: { label: 'Singapore Dollar', locale: 'en-SG' },
+  INR: { label: 'Indian Rupee', locale: 'en-IN' },
+};
+
+// Units of each currency per 1 USD
+export type ExchangeRates = Record<CurrencyCode, number>;
+
+// Indicative rates bundled with the calculator, users can edit them to match their finance team's
+export const DEFAULT_EXCHANGE_RATES: ExchangeRates = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  JPY: 150,
+  AUD: 1.52,
+  CAD: 1.36,
+  SGD: 1.34,
+  INR: 83,
+};
+
+// Inputs held in the input currency, including the derived annual platform costs
+export const CURRENCY_INPUT_FIELDS: (keyof CalculationInputs)[] = [
+  'pricePerSecurityIncident',
+  'legacySIEMPricePerGB',
+  'stellarXDRCostPerGB',
+  'analystSalary',
+  'managerSalary',
+  'engineerSalary',
+  'directorSalary',
+  'professionalServicesCost',
+  'siemMigrationCost',
+  'trainingCost',
+  'siemLicensingCosts',
+  'stellarXDRPlatformCosts',
+];
+
+// Value model assumptions expressed as amounts of money
+export const CURRENCY_COEFFICIENT_FIELDS: (keyof ValueCoefficients)[] = [
+  'escalationCost',
+  'stressValuePerAnalyst',
+  'shiftCoverageValuePerAnalyst',
+];
+
+// Units of `to` per unit of `from`
+export const getExchangeRate = (from: CurrencyCode, to: CurrencyCode, rates: ExchangeRates): number =>
+  from === to ? 1 : rates[to] / rates[from];
+
+// Converted amounts are kept to the cent so they read like entered values
+export const convertAmount = (amount: number, rate: number): number => Math.round(amount * rate * 100) / 100;
+
+export const convertInputs = (inputs: CalculationInputs, rate: number): CalculationInputs => ({
+  ...inputs,
+  ...Object.fromEntries(CURRENCY_INPUT_FIELDS.map((field) => [field, convertAmount(Number(inputs[field]), rate)])),
+  // Pinned amounts are converted along with the fields they pin
+  overrides: Object.fromEntries(
+    Object.entries(inputs.overrides).map(([field, value]) => [
+      field,
+      (CURRENCY_INPUT_FIELDS as string[]).includes(field) ? convertAmount(value, rate) : value,
+    ])
+  ),
+  costItems: inputs.costItems.map((item) => ({ ...item, amount: convertAmount(item.amount, rate) })),
+  tenants: inputs.tenants.map((tenant) => ({ ...tenant, monthlyFee: convertAmount(tenant.monthlyFee, rate) })),
+  incidentPricing: mapPricingAmounts(inputs.incidentPricing, (amount) => convertAmount(amount, rate)),
+  logVolumePricing: mapPricingAmounts(inputs.logVolumePricing, (amount) => convertAmount(amount, rate)),
+});
+
+export const convertCoefficients = (coefficients: ModelCoefficients, rate: number): ModelCoefficients => ({
+  ...coefficients,
+  value: {
+    ...coefficients.value,
+    ...Object.fromEntries(CURRENCY_COEFFICIENT_FIELDS.map((key) => [key, convertAmount(coefficients.value[key], rate)])),
+  },
+});
@@ -0,0 +1,36 @@
+import { runCalculation } from './engine.js';
+import { defaultInputs } from './inputs.js';
+
+describe('runCalculation', () => {
+  const { results, valueMetrics, totalValue, workforce } = runCalculation(defaultInputs);
+
+  it('calculates the single-year results for the default inputs', () => {
+    expect(results.humanSOCTotalCost).toBe(3 * 85000 + 120000 + 150000 + 200000 + 129600);
+    expect(results.autonomousSOCTotalCost).toBe(2400 * 3 * 12);
+    expect(results.platformSavings).toBe(129600 - 86400);
+    // 38 base + 15 false positive + 12 response time + 2.576 log volume
+    expect(results.efficiencyImprovement).toBeCloseTo(67.576);
+    expect(results.incidentResponseImprovement).toBe(61);
+    expect(results.annualSavings).toBeCloseTo(
+      results.humanSOCTotalCost - (results.adjustedAnnualSOCCost + results.autonomousSOCTotalCost) + results.platformSavings
+    );
+    expect(results.roiPercentage).toBeCloseTo((results.annualSavings / results.autonomousSOCTotalCost) * 100);
+  });
+
+  it('returns zero ROI when the autonomous SOC is free', () => {
+    expect(runCalculation({ ...defaultInputs, pricePerSecurityIncident: 0 }).results.roiPercentage).toBe(0);
+  });
+
+  it('sums the value categories into the total value', () => {
+    expect(Object.keys(valueMetrics)).toHaveLength(8);
+    expect(totalValue).toBeCloseTo(Object.values(valueMetrics).reduce((sum, value) => sum + value, 0));
+    expect(valueMetrics.stressReduction).toBe(3 * 15000);
+  });
+
+  it('derives freed headcount and saved hours from the efficiency gain', () => {
+    expect(workforce.totalHeadcount).toBe(6);
+    expect(workforce.optimizedHeadcount).toBe(2);
+    expect(workforce.freedEmployees).toBe(4);
+    expect(workforce.annualTimeSavings).toBeCloseTo(6 * 2080 * 0.67576);
+  });
+});
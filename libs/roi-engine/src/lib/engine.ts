@@ -0,0 +1,23 @@
+import { DEFAULT_COEFFICIENTS } from './coefficients.js';
+import { calculateProjection } from './projection.js';
+import { calculateROI } from './roi.js';
+import { calculateTotalValue, calculateValueMetrics } from './value-metrics.js';
+import { calculateWorkforceImpact } from './workforce.js';
+import type { CalculationInputs, CalculationOutput, ModelCoefficients } from './types.js';
+
+// Single entry point producing every figure the calculator shows
+export const runCalculation = (
+  inputs: CalculationInputs,
+  coefficients: ModelCoefficients = DEFAULT_COEFFICIENTS
+): CalculationOutput => {
+  const results = calculateROI(inputs, coefficients);
+  const valueMetrics = calculateValueMetrics(inputs, coefficients.value);
+
+  return {
+    results,
+    projection: calculateProjection(inputs, coefficients),
+    valueMetrics,
+    totalValue: calculateTotalValue(valueMetrics),
+    workforce: calculateWorkforceImpact(inputs, results),
+  };
+};
@@ -0,0 +1,28 @@
+// Net present value of cash flows at the start of each period, rate as a percentage
+export const calculateNPV = (rate: number, cashFlows: number[]): number =>
+  cashFlows.reduce((sum, cashFlow, period) => sum + cashFlow / Math.pow(1 + rate / 100, period), 0);
+
+// Internal rate of return as a percentage, found by bisection on the NPV
+export const calculateIRR = (cashFlows: number[]): number | null => {
+  let low = -99;
+  let high = 10000;
+  let npvLow = calculateNPV(low, cashFlows);
+  const npvHigh = calculateNPV(high, cashFlows);
+
+  // No sign change means no rate makes the NPV zero
+  if (Math.sign(npvLow) === Math.sign(npvHigh)) return null;
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const npvMid = calculateNPV(mid, cashFlows);
+    if (Math.abs(npvMid) < 1e-7) return mid;
+    if (Math.sign(npvMid) === Math.sign(npvLow)) {
+      low = mid;
+      npvLow = npvMid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return (low + high) / 2;
+};
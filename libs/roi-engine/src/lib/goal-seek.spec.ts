@@ -0,0 +1,42 @@
+import { calculateROI } from './roi.js';
+import { defaultInputs, INCIDENTS_PER_EMPLOYEE } from './inputs.js';
+import { goalSeek } from './goal-seek.js';
+
+describe('goalSeek', () => {
+  it('finds the price per incident that still gives the target ROI', () => {
+    const result = goalSeek(defaultInputs, 'pricePerSecurityIncident', 'roiPercentage', 200);
+    expect(result.reachable).toBe(true);
+    if (result.reachable) {
+      expect(result.achieved).toBeCloseTo(200, 3);
+      expect(result.achieved).toBeGreaterThanOrEqual(200);
+      expect(calculateROI(result.inputs).roiPercentage).toBeCloseTo(200, 3);
+    }
+  });
+
+  it('cascades derived fields when varying the organisation size', () => {
+    const result = goalSeek(defaultInputs, 'employeeCount', 'annualSavings', 0);
+    expect(result.reachable).toBe(true);
+    if (result.reachable) {
+      expect(result.achieved).toBeGreaterThanOrEqual(0);
+      expect(result.inputs.securityIncidentsPerMonth).toBe(Math.round(result.value * INCIDENTS_PER_EMPLOYEE));
+    }
+  });
+
+  it('treats payback as met at or below the target', () => {
+    const result = goalSeek(defaultInputs, 'professionalServicesCost', 'paybackPeriod', 6, { range: { min: 0, max: 5_000_000 } });
+    expect(result.reachable).toBe(true);
+    if (result.reachable) {
+      expect(result.achieved).toBeLessThanOrEqual(6);
+      expect(result.achieved).toBeCloseTo(6, 1);
+    }
+  });
+
+  it('reports the closest value when the target is out of reach', () => {
+    const result = goalSeek(defaultInputs, 'falsePositiveRate', 'roiPercentage', 1e9, { range: { min: 0, max: 100 } });
+    expect(result).toMatchObject({ reachable: false, range: { min: 0, max: 100 } });
+    if (!result.reachable) {
+      expect(result.closestValue).toBeGreaterThanOrEqual(0);
+      expect(result.closestValue).toBeLessThanOrEqual(100);
+    }
+  });
+});
@@ -0,0 +1,111 @@
+import { DEFAULT_COEFFICIENTS } from './coefficients.js';
+import { applyInputChange } from './inputs.js';
+import { calculateROI } from './roi.js';
+import type { CalculationInputs, ModelCoefficients } from './types.js';
+
+const MAX_BISECTION_STEPS = 100;
+
+export type GoalSeekMetric = 'roiPercentage' | 'annualSavings' | 'paybackPeriod';
+
+export interface GoalSeekRange {
+  min: number;
+  max: number;
+}
+
+export interface GoalSeekOptions {
+  range?: GoalSeekRange;
+  samples?: number; // grid points scanned for a crossing before bisecting
+  tolerance?: number; // width of the final bracket on the varied input
+}
+
+export type GoalSeekResult =
+  | { reachable: true; value: number; achieved: number; inputs: CalculationInputs }
+  | { reachable: false; range: GoalSeekRange; closestValue: number; closestAchieved: number | null };
+
+// Searching from zero up to ten times the current value covers most what-if questions
+export const getDefaultGoalSeekRange = (currentValue: number): GoalSeekRange => ({
+  min: 0,
+  max: Math.max(currentValue * 10, 100),
+});
+
+// Payback is met at or below the target, the other metrics at or above it
+const meetsTarget = (metric: GoalSeekMetric, achieved: number | null, target: number): boolean =>
+  metric === 'paybackPeriod' ? achieved !== null && achieved <= target : achieved !== null && achieved >= target;
+
+// Distance from the target, a payback that is never reached counts as infinitely far
+const gap = (achieved: number | null, target: number): number => (achieved === null ? Infinity : Math.abs(achieved - target));
+
+/**
+ * Finds the value of one input that brings a metric to the target.
+ * Each trial goes through applyInputChange, so derived fields cascade as in the calculator.
+ * Metrics are not monotonic everywhere (caps, rounded headcount), so the range is scanned for the
+ * crossing nearest the current value and that bracket is then bisected.
+ */
+export const goalSeek = (
+  inputs: CalculationInputs,
+  field: keyof CalculationInputs,
+  metric: GoalSeekMetric,
+  target: number,
+  options: GoalSeekOptions = {},
+  coefficients: ModelCoefficients = DEFAULT_COEFFICIENTS
+): GoalSeekResult => {
+  const currentValue = Number(inputs[field]);
+  const range = options.range ?? getDefaultGoalSeekRange(currentValue);
+  const samples = Math.max(2, options.samples ?? 200);
+  const tolerance = options.tolerance ?? (range.max - range.min) * 1e-9;
+
+  const trial = (value: number) => {
+    const trialInputs = applyInputChange(inputs, field, value);
+    const results = calculateROI(trialInputs, coefficients);
+    const achieved = results[metric];
+    return {
+      value,
+      inputs: trialInputs,
+      achieved,
+      meets: meetsTarget(metric, achieved, target),
+      // ROI is reported as 0 without autonomous SOC spend; that is a placeholder rather than a crossing
+      isDefined: metric !== 'roiPercentage' || results.autonomousSOCTotalCost > 0,
+    };
+  };
+
+  const points = Array.from({ length: samples }, (_, index) => range.min + ((range.max - range.min) * index) / (samples - 1))
+    .map(trial)
+    .filter((point) => point.isDefined);
+  if (points.length === 0) {
+    return { reachable: false, range, closestValue: currentValue, closestAchieved: null };
+  }
+
+  const brackets = points
+    .slice(1)
+    .map((point, index) => [points[index], point] as const)
+    .filter(([a, b]) => a.meets !== b.meets);
+
+  if (brackets.length === 0) {
+    if (points[0].meets) {
+      // Every value in the range meets the target, the one nearest the current value needs no change
+      const nearest = points.reduce((best, point) =>
+        Math.abs(point.value - currentValue) < Math.abs(best.value - currentValue) ? point : best
+      );
+      return { reachable: true, value: nearest.value, achieved: nearest.achieved as number, inputs: nearest.inputs };
+    }
+    const closest = points.reduce((best, point) => (gap(point.achieved, target) < gap(best.achieved, target) ? point : best));
+    return { reachable: false, range, closestValue: closest.value, closestAchieved: closest.achieved };
+  }
+
+  const distance = ([a, b]: (typeof brackets)[number]) =>
+    Math.min(Math.abs(a.value - currentValue), Math.abs(b.value - currentValue));
+  let [low, high] = brackets.reduce((best, bracket) => (distance(bracket) < distance(best) ? bracket : best));
+
+  for (let step = 0; step < MAX_BISECTION_STEPS && Math.abs(high.value - low.value) > tolerance; step++) {
+    const middle = trial((low.value + high.value) / 2);
+    if (middle.meets === low.meets) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+
+  // Report the side of the crossing that actually meets the target
+  const solution = low.meets ? low : high;
+  return { reachable: true, value: solution.value, achieved: solution.achieved as number, inputs: solution.inputs };
+};
@@ -0,0 +1,37 @@
+import type { BaseInputs, Industry } from './types.js';
+
+export interface IndustryPreset {
+  label: string;
+  ratios: Pick<BaseInputs, 'incidentsPerEmployee' | 'logVolumeIncidentRatio' | 'falsePositiveRate'>;
+}
+
+// Typical monthly incident density, log volume per incident and false positive rate by vertical
+export const INDUSTRY_PRESETS: Record<Industry, IndustryPreset> = {
+  finance: {
+    label: 'Financial Services',
+    ratios: { incidentsPerEmployee: 6, logVolumeIncidentRatio: 2, falsePositiveRate: 85 },
+  },
+  healthcare: {
+    label: 'Healthcare',
+    ratios: { incidentsPerEmployee: 4, logVolumeIncidentRatio: 1.5, falsePositiveRate: 88 },
+  },
+  retail: {
+    label: 'Retail',
+    ratios: { incidentsPerEmployee: 3.5, logVolumeIncidentRatio: 1.8, falsePositiveRate: 90 },
+  },
+  manufacturing: {
+    label: 'Manufacturing',
+    ratios: { incidentsPerEmployee: 2.5, logVolumeIncidentRatio: 1.2, falsePositiveRate: 92 },
+  },
+  publicSector: {
+    label: 'Public Sector',
+    ratios: { incidentsPerEmployee: 3, logVolumeIncidentRatio: 1.3, falsePositiveRate: 87 },
+  },
+  // Incidents come from the customers' estates, so they scale far beyond the provider's own headcount
+  mssp: {
+    label: 'MSSP',
+    ratios: { incidentsPerEmployee: 20, logVolumeIncidentRatio: 2.5, falsePositiveRate: 80 },
+  },
+};
+
+export const INDUSTRY_FIELDS = Object.keys(INDUSTRY_PRESETS.finance.ratios) as (keyof IndustryPreset['ratios'])[];
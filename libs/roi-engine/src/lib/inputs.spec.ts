@@ -0,0 +1,126 @@
+import { applyInputChange, calculateComputedFields, baseInputs, defaultInputs, setFieldPinned, toBaseInputs } from './inputs.js';
+
+describe('calculateComputedFields', () => {
+  it('derives incidents, headcount and platform costs from the base inputs', () => {
+    expect(defaultInputs).toMatchObject({
+      securityIncidentsPerMonth: 2400,
+      monthlyLogVolumeGB: 3600,
+      stellarXDRPlatformCosts: 86400,
+      siemLicensingCosts: 129600,
+      humanSOCAnalysts: 3,
+      humanSOCManager: 1,
+      humanSOCEngineer: 1,
+      humanSOCDirector: 1,
+    });
+  });
+
+  it('round-trips through the persisted base fields', () => {
+    expect(calculateComputedFields(toBaseInputs(defaultInputs))).toEqual(defaultInputs);
+  });
+});
+
+describe('applyInputChange', () => {
+  it('cascades an employee count change through incidents, staff and costs', () => {
+    const next = applyInputChange(defaultInputs, 'employeeCount', 1000);
+    expect(next).toEqual(calculateComputedFields({ ...baseInputs, employeeCount: 1000 }));
+  });
+
+  it('updates employee count when incidents change', () => {
+    const next = applyInputChange(defaultInputs, 'securityIncidentsPerMonth', 4800);
+    expect(next.employeeCount).toBe(1000);
+    expect(next.humanSOCAnalysts).toBe(5);
+    expect(next.monthlyLogVolumeGB).toBe(7200);
+  });
+
+  it('only reprices the affected platform when a per-GB price changes', () => {
+    const next = applyInputChange(defaultInputs, 'stellarXDRCostPerGB', 1);
+    expect(next.stellarXDRPlatformCosts).toBe(3600 * 12);
+    expect(next.siemLicensingCosts).toBe(defaultInputs.siemLicensingCosts);
+  });
+});
+
+describe('staffing ratios', () => {
+  it('sizes each role from its incidents-per-head ratio and minimum headcount', () => {
+    const next = applyInputChange(applyInputChange(defaultInputs, 'incidentsPerAnalyst', 500), 'minEngineers', 2);
+    expect(next).toMatchObject({ humanSOCAnalysts: 5, humanSOCManager: 1, humanSOCEngineer: 2, humanSOCDirector: 1 });
+  });
+
+  it('sizes managers and directors by span of control when set', () => {
+    const inputs = calculateComputedFields({
+      ...baseInputs,
+      employeeCount: 5000,
+      analystsPerManager: 8,
+      managersPerDirector: 2,
+    });
+    expect(inputs).toMatchObject({ humanSOCAnalysts: 24, humanSOCManager: 3, humanSOCDirector: 2 });
+  });
+
+  it('keeps the staffing rules when the incident load changes', () => {
+    const inputs = calculateComputedFields({ ...baseInputs, incidentsPerAnalyst: 400 });
+    expect(applyInputChange(inputs, 'employeeCount', 1000).humanSOCAnalysts).toBe(12);
+  });
+});
+
+describe('industry presets', () => {
+  it('loads the ratios of a preset and rescales incidents for the same employee count', () => {
+    const next = applyInputChange(defaultInputs, 'industry', 'finance');
+    expect(next).toMatchObject({ falsePositiveRate: 85, securityIncidentsPerMonth: 3000, monthlyLogVolumeGB: 6000, humanSOCAnalysts: 3 });
+  });
+
+  it('switches to a custom industry when a ratio is edited', () => {
+    const next = applyInputChange(applyInputChange(defaultInputs, 'industry', 'mssp'), 'falsePositiveRate', 70);
+    expect(next.industry).toBe('custom');
+    expect(next.incidentsPerEmployee).toBe(20);
+  });
+
+  it('sets employees and incidents independently while unlinked', () => {
+    const unlinked = applyInputChange(defaultInputs, 'linkEmployeesToIncidents', false);
+    const next = applyInputChange(applyInputChange(unlinked, 'employeeCount', 2000), 'securityIncidentsPerMonth', 1200);
+    expect(next).toMatchObject({ employeeCount: 2000, securityIncidentsPerMonth: 1200, humanSOCAnalysts: 2 });
+    expect(calculateComputedFields(toBaseInputs(next))).toEqual(next);
+    expect(applyInputChange(next, 'linkEmployeesToIncidents', true).securityIncidentsPerMonth).toBe(9600);
+  });
+});
+
+describe('salary bands', () => {
+  it('loads the salary bands of a regional preset', () => {
+    const next = applyInputChange(defaultInputs, 'salaryRegion', 'india');
+    expect(next).toMatchObject({ analystSalary: 15000, directorSalary: 60000 });
+  });
+
+  it('switches to a custom region when a salary is edited', () => {
+    const next = applyInputChange(defaultInputs, 'analystSalary', 90000);
+    expect(next.salaryRegion).toBe('custom');
+    expect(next.managerSalary).toBe(defaultInputs.managerSalary);
+  });
+});
+
+describe('pinned overrides', () => {
+  it('pins a computed field typed over and keeps it through cascades and reloads', () => {
+    const pinned = applyInputChange(defaultInputs, 'humanSOCAnalysts', 10);
+    expect(pinned.overrides).toEqual({ humanSOCAnalysts: 10 });
+
+    const next = applyInputChange(pinned, 'employeeCount', 2000);
+    expect(next).toMatchObject({ humanSOCAnalysts: 10, humanSOCEngineer: 4, monthlyLogVolumeGB: 14400 });
+    expect(calculateComputedFields(toBaseInputs(next))).toEqual(next);
+  });
+
+  it('computes the dependent fields from a pinned value', () => {
+    const pinned = applyInputChange(defaultInputs, 'monthlyLogVolumeGB', 1000);
+    expect(pinned).toMatchObject({ stellarXDRPlatformCosts: 24000, siemLicensingCosts: 36000 });
+    const spans = applyInputChange(applyInputChange(defaultInputs, 'analystsPerManager', 2), 'humanSOCAnalysts', 7);
+    expect(spans.humanSOCManager).toBe(4);
+  });
+
+  it('keeps a pinned cost when its per-GB price changes', () => {
+    const pinned = setFieldPinned(defaultInputs, 'stellarXDRPlatformCosts', true);
+    expect(applyInputChange(pinned, 'stellarXDRCostPerGB', 1).stellarXDRPlatformCosts).toBe(defaultInputs.stellarXDRPlatformCosts);
+  });
+
+  it('goes back to the computed value when unpinned', () => {
+    const pinned = applyInputChange(applyInputChange(defaultInputs, 'humanSOCDirector', 3), 'employeeCount', 1000);
+    const unpinned = setFieldPinned(pinned, 'humanSOCDirector', false);
+    expect(unpinned.overrides).toEqual({});
+    expect(unpinned).toEqual(applyInputChange(defaultInputs, 'employeeCount', 1000));
+  });
+});
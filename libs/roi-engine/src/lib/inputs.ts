@@ -0,0 +1,373 @@
+import { convertAmount, convertInputs, DEFAULT_EXCHANGE_RATES, getExchangeRate, type ExchangeRates } from './currency.js';
+import { INDUSTRY_FIELDS, INDUSTRY_PRESETS } from './industries.js';
+import { SALARY_FIELDS, SALARY_PRESETS } from './labor.js';
+import { calculateVolumePrice, DEFAULT_VOLUME_PRICING, type PricedProduct } from './pricing.js';
+import type {
+  BaseInputs,
+  CalculationInputs,
+  CurrencyCode,
+  DerivedField,
+  DerivedOverrides,
+  Industry,
+  SalaryRegion,
+  VolumePricing,
+} from './types.js';
+
+// Default incidents / default employees
+export const INCIDENTS_PER_EMPLOYEE = 2400 / 500;
+
+export const baseInputs: BaseInputs = {
+  employeeCount: 500,
+  averageIncidentResponseTime: 4,
+  falsePositiveRate: 90,
+  pricePerSecurityIncident: 3,
+  legacySIEMPricePerGB: 3,
+  stellarXDRCostPerGB: 2,
+  logVolumeIncidentRatio: 1.5,
+  switchFromLegacySIEM: true,
+  inputCurrency: 'USD',
+  reportingCurrency: 'USD',
+  exchangeRate: 1,
+  industry: 'custom',
+  incidentsPerEmployee: INCIDENTS_PER_EMPLOYEE,
+  linkEmployeesToIncidents: true,
+  unlinkedIncidentsPerMonth: 2400,
+  siemLogForwardingPercentage: 100,
+  xdrLogForwardingPercentage: 100,
+  salaryRegion: 'us',
+  ...SALARY_PRESETS.us.salaries,
+  laborOverheadMultiplier: 1,
+  incidentsPerAnalyst: 1000,
+  incidentsPerManager: 3000,
+  incidentsPerEngineer: 3000,
+  incidentsPerDirector: 6000,
+  minAnalysts: 0,
+  minManagers: 0,
+  minEngineers: 0,
+  minDirectors: 0,
+  analystsPerManager: 0,
+  managersPerDirector: 0,
+  projectionYears: 3,
+  employeeGrowthRate: 5,
+  logVolumeGrowthRate: 20,
+  salaryInflationRate: 3,
+  legacySIEMPriceEscalator: 5,
+  stellarPriceEscalator: 3,
+  discountRate: 8,
+  professionalServicesCost: 25000,
+  siemMigrationCost: 15000,
+  trainingCost: 10000,
+  dualRunningMonths: 2,
+  rampUpMonths: 3,
+  overrides: {},
+  costItems: [],
+  msspMode: false,
+  tenants: [],
+  incidentPricing: DEFAULT_VOLUME_PRICING,
+  logVolumePricing: DEFAULT_VOLUME_PRICING,
+};
+
+export const DERIVED_FIELDS: DerivedField[] = [
+  'monthlyLogVolumeGB',
+  'siemLicensingCosts',
+  'stellarXDRPlatformCosts',
+  'humanSOCAnalysts',
+  'humanSOCManager',
+  'humanSOCEngineer',
+  'humanSOCDirector',
+];
+
+type Headcount = Pick<CalculationInputs, 'humanSOCAnalysts' | 'humanSOCManager' | 'humanSOCEngineer' | 'humanSOCDirector'>;
+type LogVolumeCosts = Pick<CalculationInputs, 'monthlyLogVolumeGB' | 'stellarXDRPlatformCosts' | 'siemLicensingCosts'>;
+
+export type StaffingRatios = Pick<
+  BaseInputs,
+  | 'incidentsPerAnalyst'
+  | 'incidentsPerManager'
+  | 'incidentsPerEngineer'
+  | 'incidentsPerDirector'
+  | 'minAnalysts'
+  | 'minManagers'
+  | 'minEngineers'
+  | 'minDirectors'
+  | 'analystsPerManager'
+  | 'managersPerDirector'
+>;
+
+export const STAFFING_FIELDS: (keyof StaffingRatios)[] = [
+  'incidentsPerAnalyst',
+  'incidentsPerManager',
+  'incidentsPerEngineer',
+  'incidentsPerDirector',
+  'minAnalysts',
+  'minManagers',
+  'minEngineers',
+  'minDirectors',
+  'analystsPerManager',
+  'managersPerDirector',
+];
+
+// Heads needed for a load at a given ratio, a ratio of 0 means the role is not sized by it
+const headsFor = (load: number, perHead: number): number => (perHead > 0 ? Math.ceil(load / perHead) : 0);
+
+// SOC staff sized from the monthly incident load, span-of-control rules take precedence where set.
+// Pinned roles keep their value and roles sized from them follow it.
+export const deriveHeadcount = (
+  securityIncidentsPerMonth: number,
+  ratios: StaffingRatios,
+  overrides: DerivedOverrides = {}
+): Headcount => {
+  const humanSOCAnalysts =
+    overrides.humanSOCAnalysts ?? Math.max(ratios.minAnalysts, headsFor(securityIncidentsPerMonth, ratios.incidentsPerAnalyst));
+  const humanSOCManager =
+    overrides.humanSOCManager ??
+    Math.max(
+      ratios.minManagers,
+      ratios.analystsPerManager > 0
+        ? headsFor(humanSOCAnalysts, ratios.analystsPerManager)
+        : headsFor(securityIncidentsPerMonth, ratios.incidentsPerManager)
+    );
+  const humanSOCEngineer =
+    overrides.humanSOCEngineer ?? Math.max(ratios.minEngineers, headsFor(securityIncidentsPerMonth, ratios.incidentsPerEngineer));
+  const humanSOCDirector =
+    overrides.humanSOCDirector ??
+    Math.max(
+      ratios.minDirectors,
+      ratios.managersPerDirector > 0
+        ? headsFor(humanSOCManager, ratios.managersPerDirector)
+        : headsFor(securityIncidentsPerMonth, ratios.incidentsPerDirector)
+    );
+  return { humanSOCAnalysts, humanSOCManager, humanSOCEngineer, humanSOCDirector };
+};
+
+export const derivePlatformCosts = (
+  monthlyLogVolumeGB: number,
+  prices: Pick<BaseInputs, 'stellarXDRCostPerGB' | 'legacySIEMPricePerGB' | 'logVolumePricing'>
+): Pick<CalculationInputs, 'stellarXDRPlatformCosts' | 'siemLicensingCosts'> => ({
+  stellarXDRPlatformCosts: calculateVolumePrice(monthlyLogVolumeGB, prices.stellarXDRCostPerGB, prices.logVolumePricing).annualCost,
+  siemLicensingCosts: monthlyLogVolumeGB * prices.legacySIEMPricePerGB * 12,
+});
+
+// The pinned values among the given fields
+const pickOverrides = (overrides: DerivedOverrides, fields: DerivedField[]): DerivedOverrides =>
+  Object.fromEntries(fields.filter((field) => overrides[field] !== undefined).map((field) => [field, overrides[field]]));
+
+// Platform costs follow a pinned log volume unless they are pinned themselves
+const deriveLogVolumeCosts = (
+  securityIncidentsPerMonth: number,
+  base: Pick<BaseInputs, 'logVolumeIncidentRatio' | 'stellarXDRCostPerGB' | 'legacySIEMPricePerGB' | 'logVolumePricing' | 'overrides'>
+): LogVolumeCosts => {
+  const monthlyLogVolumeGB = base.overrides.monthlyLogVolumeGB ?? Math.round(securityIncidentsPerMonth * base.logVolumeIncidentRatio);
+  return {
+    monthlyLogVolumeGB,
+    ...derivePlatformCosts(monthlyLogVolumeGB, base),
+    ...pickOverrides(base.overrides, ['stellarXDRPlatformCosts', 'siemLicensingCosts']),
+  };
+};
+
+// Every computed field for an incident volume, with the pinned ones kept
+const deriveFromIncidents = (
+  securityIncidentsPerMonth: number,
+  inputs: BaseInputs
+): LogVolumeCosts & Headcount => ({
+  ...deriveLogVolumeCosts(securityIncidentsPerMonth, inputs),
+  ...deriveHeadcount(securityIncidentsPerMonth, inputs, inputs.overrides),
+});
+
+const deriveIncidents = (base: Pick<BaseInputs, 'employeeCount' | 'incidentsPerEmployee'>): number =>
+  Math.round(base.employeeCount * base.incidentsPerEmployee);
+
+// Expand the persisted base fields into a full set of calculation inputs
+export const calculateComputedFields = (base: BaseInputs): CalculationInputs => {
+  const securityIncidentsPerMonth = base.linkEmployeesToIncidents ? deriveIncidents(base) : base.unlinkedIncidentsPerMonth;
+  return {
+    ...base,
+    securityIncidentsPerMonth,
+    ...deriveFromIncidents(securityIncidentsPerMonth, base),
+  };
+};
+
+export const isDerivedField = (field: keyof CalculationInputs): field is DerivedField =>
+  (DERIVED_FIELDS as string[]).includes(field);
+
+// Pinning keeps the current value through later cascades, unpinning goes back to the computed value
+export const setFieldPinned = (inputs: CalculationInputs, field: DerivedField, pinned: boolean): CalculationInputs => {
+  const overrides = { ...inputs.overrides };
+  if (pinned) {
+    overrides[field] = inputs[field];
+  } else {
+    delete overrides[field];
+  }
+  const newInputs = { ...inputs, overrides };
+  return { ...newInputs, ...deriveFromIncidents(newInputs.securityIncidentsPerMonth, newInputs) };
+};
+
+// A new licensing plan reprices the Stellar XDR platform costs unless they are pinned
+export const setVolumePricing = (inputs: CalculationInputs, product: PricedProduct, pricing: VolumePricing): CalculationInputs => {
+  const newInputs = { ...inputs, [product]: pricing };
+  return { ...newInputs, ...deriveLogVolumeCosts(newInputs.securityIncidentsPerMonth, newInputs) };
+};
+
+export const defaultInputs = calculateComputedFields(baseInputs);
+
+// Apply a single field change and cascade it through the dependent fields,
+// the exchange rates convert amounts between currencies and from the USD salary presets
+export const applyInputChange = (
+  prev: CalculationInputs,
+  field: keyof CalculationInputs,
+  value: string | number | boolean,
+  rates: ExchangeRates = DEFAULT_EXCHANGE_RATES
+): CalculationInputs => {
+  const newInputs = {
+    ...prev,
+    [field]: value,
+  };
+
+  // Picking an industry preset loads its incident density, log volume ratio and false positive rate
+  if (field === 'industry' && value !== 'custom') {
+    Object.assign(newInputs, INDUSTRY_PRESETS[value as Industry].ratios);
+  }
+
+  // Editing one of those by hand moves away from the preset
+  if ((INDUSTRY_FIELDS as string[]).includes(field)) {
+    newInputs.industry = 'custom';
+  }
+
+  // Unlinking keeps the current incident volume, relinking derives it from the employee count again
+  if (field === 'linkEmployeesToIncidents' && !value) {
+    newInputs.unlinkedIncidentsPerMonth = newInputs.securityIncidentsPerMonth;
+  }
+
+  // While linked, employee count and incident density drive the incident volume
+  if (
+    newInputs.linkEmployeesToIncidents &&
+    (field === 'employeeCount' || field === 'linkEmployeesToIncidents' || field === 'industry' || field === 'incidentsPerEmployee')
+  ) {
+    const newIncidents = deriveIncidents(newInputs);
+    newInputs.securityIncidentsPerMonth = newIncidents;
+
+    // Also update SOC staff, log volume and platform costs based on the new incident count
+    Object.assign(newInputs, deriveFromIncidents(newIncidents, newInputs));
+  }
+
+  // If security incidents per month changes, update employee count proportionally while linked
+  if (field === 'securityIncidentsPerMonth') {
+    const incidents = Number(value);
+    if (newInputs.linkEmployeesToIncidents) {
+      newInputs.employeeCount = newInputs.incidentsPerEmployee > 0 ? Math.round(incidents / newInputs.incidentsPerEmployee) : 0;
+    } else {
+      newInputs.unlinkedIncidentsPerMonth = incidents;
+    }
+
+    // Also update SOC staff, log volume and platform costs based on the new incident count
+    Object.assign(newInputs, deriveFromIncidents(incidents, newInputs));
+  }
+
+  // Staffing ratio changes resize the SOC team for the current incident load
+  if ((STAFFING_FIELDS as string[]).includes(field)) {
+    Object.assign(newInputs, deriveHeadcount(newInputs.securityIncidentsPerMonth, newInputs, newInputs.overrides));
+  }
+
+  // Typing over a computed field pins it, the fields computed from it follow
+  if (isDerivedField(field)) {
+    newInputs.overrides = { ...prev.overrides, [field]: Number(value) };
+    Object.assign(newInputs, deriveFromIncidents(newInputs.securityIncidentsPerMonth, newInputs));
+  }
+
+  // If log volume incident ratio changes, update monthly log volume
+  if (field === 'logVolumeIncidentRatio' || field === 'industry') {
+    Object.assign(newInputs, deriveLogVolumeCosts(newInputs.securityIncidentsPerMonth, newInputs));
+  }
+
+  // If stellar XDR cost per GB changes, update platform costs through the licensing plan
+  if (field === 'stellarXDRCostPerGB') {
+    newInputs.stellarXDRPlatformCosts =
+      newInputs.overrides.stellarXDRPlatformCosts ??
+      calculateVolumePrice(newInputs.monthlyLogVolumeGB, Number(value), newInputs.logVolumePricing).annualCost;
+  }
+
+  // If legacy SIEM price per GB changes, update SIEM licensing costs
+  if (field === 'legacySIEMPricePerGB') {
+    newInputs.siemLicensingCosts = newInputs.overrides.siemLicensingCosts ?? newInputs.monthlyLogVolumeGB * Number(value) * 12;
+  }
+
+  // Changing the input currency converts every amount so the scenario keeps its value
+  if (field === 'inputCurrency') {
+    Object.assign(newInputs, convertInputs(newInputs, getExchangeRate(prev.inputCurrency, value as CurrencyCode, rates)));
+  }
+
+  // Either currency changing picks up the rate between them from the exchange-rate table
+  if (field === 'inputCurrency' || field === 'reportingCurrency') {
+    newInputs.exchangeRate = getExchangeRate(newInputs.inputCurrency, newInputs.reportingCurrency, rates);
+  }
+
+  // Picking a regional preset loads its salary bands, converted from USD
+  if (field === 'salaryRegion' && value !== 'custom') {
+    const rate = getExchangeRate('USD', newInputs.inputCurrency, rates);
+    Object.entries(SALARY_PRESETS[value as SalaryRegion].salaries).forEach(([salaryField, salary]) => {
+      newInputs[salaryField as keyof typeof SALARY_PRESETS.us.salaries] = convertAmount(salary, rate);
+    });
+  }
+
+  // Editing a salary by hand moves away from the preset
+  if ((SALARY_FIELDS as string[]).includes(field)) {
+    newInputs.salaryRegion = 'custom';
+  }
+
+  return newInputs;
+};
+
+// Only the base fields are persisted, the computed ones are derived on load
+export const toBaseInputs = (inputs: CalculationInputs): BaseInputs => ({
+  employeeCount: inputs.employeeCount,
+  averageIncidentResponseTime: inputs.averageIncidentResponseTime,
+  falsePositiveRate: inputs.falsePositiveRate,
+  pricePerSecurityIncident: inputs.pricePerSecurityIncident,
+  legacySIEMPricePerGB: inputs.legacySIEMPricePerGB,
+  stellarXDRCostPerGB: inputs.stellarXDRCostPerGB,
+  logVolumeIncidentRatio: inputs.logVolumeIncidentRatio,
+  switchFromLegacySIEM: inputs.switchFromLegacySIEM,
+  inputCurrency: inputs.inputCurrency,
+  reportingCurrency: inputs.reportingCurrency,
+  exchangeRate: inputs.exchangeRate,
+  industry: inputs.industry,
+  incidentsPerEmployee: inputs.incidentsPerEmployee,
+  linkEmployeesToIncidents: inputs.linkEmployeesToIncidents,
+  unlinkedIncidentsPerMonth: inputs.unlinkedIncidentsPerMonth,
+  siemLogForwardingPercentage: inputs.siemLogForwardingPercentage,
+  xdrLogForwardingPercentage: inputs.xdrLogForwardingPercentage,
+  salaryRegion: inputs.salaryRegion,
+  analystSalary: inputs.analystSalary,
+  managerSalary: inputs.managerSalary,
+  engineerSalary: inputs.engineerSalary,
+  directorSalary: inputs.directorSalary,
+  laborOverheadMultiplier: inputs.laborOverheadMultiplier,
+  incidentsPerAnalyst: inputs.incidentsPerAnalyst,
+  incidentsPerManager: inputs.incidentsPerManager,
+  incidentsPerEngineer: inputs.incidentsPerEngineer,
+  incidentsPerDirector: inputs.incidentsPerDirector,
+  minAnalysts: inputs.minAnalysts,
+  minManagers: inputs.minManagers,
+  minEngineers: inputs.minEngineers,
+  minDirectors: inputs.minDirectors,
+  analystsPerManager: inputs.analystsPerManager,
+  managersPerDirector: inputs.managersPerDirector,
+  projectionYears: inputs.projectionYears,
+  employeeGrowthRate: inputs.employeeGrowthRate,
+  logVolumeGrowthRate: inputs.logVolumeGrowthRate,
+  salaryInflationRate: inputs.salaryInflationRate,
+  legacySIEMPriceEscalator: inputs.legacySIEMPriceEscalator,
+  stellarPriceEscalator: inputs.stellarPriceEscalator,
+  discountRate: inputs.discountRate,
+  professionalServicesCost: inputs.professionalServicesCost,
+  siemMigrationCost: inputs.siemMigrationCost,
+  trainingCost: inputs.trainingCost,
+  dualRunningMonths: inputs.dualRunningMonths,
+  rampUpMonths: inputs.rampUpMonths,
+  overrides: inputs.overrides,
+  costItems: inputs.costItems,
+  msspMode: inputs.msspMode,
+  tenants: inputs.tenants,
+  incidentPricing: inputs.incidentPricing,
+  logVolumePricing: inputs.logVolumePricing,
+});
@@ -0,0 +1,44 @@
+import type { LaborCostInputs, SalaryRegion, SOCRole } from './types.js';
+
+export const HOURS_PER_YEAR = 2080; // 40 hours/week * 52 weeks
+
+export interface SalaryPreset {
+  label: string;
+  salaries: Pick<LaborCostInputs, 'analystSalary' | 'managerSalary' | 'engineerSalary' | 'directorSalary'>;
+}
+
+// Typical annual base salaries per region, in USD
+export const SALARY_PRESETS: Record<SalaryRegion, SalaryPreset> = {
+  us: {
+    label: 'United States',
+    salaries: { analystSalary: 85000, managerSalary: 120000, engineerSalary: 150000, directorSalary: 200000 },
+  },
+  emea: {
+    label: 'EMEA',
+    salaries: { analystSalary: 65000, managerSalary: 95000, engineerSalary: 110000, directorSalary: 150000 },
+  },
+  apac: {
+    label: 'APAC',
+    salaries: { analystSalary: 55000, managerSalary: 85000, engineerSalary: 100000, directorSalary: 140000 },
+  },
+  india: {
+    label: 'India',
+    salaries: { analystSalary: 15000, managerSalary: 30000, engineerSalary: 35000, directorSalary: 60000 },
+  },
+};
+
+const salaryFields: Record<SOCRole, keyof SalaryPreset['salaries']> = {
+  analyst: 'analystSalary',
+  manager: 'managerSalary',
+  engineer: 'engineerSalary',
+  director: 'directorSalary',
+};
+
+export const SALARY_FIELDS = Object.values(salaryFields);
+
+// Base salary plus benefits and overhead
+export const getFullyLoadedCost = (inputs: LaborCostInputs, role: SOCRole): number =>
+  inputs[salaryFields[role]] * inputs.laborOverheadMultiplier;
+
+export const getHourlyRate = (inputs: LaborCostInputs, role: SOCRole): number =>
+  getFullyLoadedCost(inputs, role) / HOURS_PER_YEAR;
@@ -0,0 +1,69 @@
+import { DEFAULT_COEFFICIENTS } from './coefficients.js';
+import { runCalculation } from './engine.js';
+import { defaultInputs } from './inputs.js';
+import { createRandom, runMonteCarlo, sampleDistribution, type UncertainParameter } from './monte-carlo.js';
+
+describe('sampleDistribution', () => {
+  const random = createRandom(42);
+  const draw = (count: number, sample: () => number) => Array.from({ length: count }, sample);
+
+  it('keeps uniform and triangular samples within their bounds', () => {
+    draw(1000, () => sampleDistribution({ type: 'uniform', min: 2, max: 6 }, random)).forEach((value) => {
+      expect(value).toBeGreaterThanOrEqual(2);
+      expect(value).toBeLessThanOrEqual(6);
+    });
+    const triangular = draw(5000, () => sampleDistribution({ type: 'triangular', min: 0, mode: 10, max: 10 }, random));
+    expect(Math.min(...triangular)).toBeGreaterThanOrEqual(0);
+    expect(Math.max(...triangular)).toBeLessThanOrEqual(10);
+    // Mean of a triangular distribution is (min + mode + max) / 3
+    expect(triangular.reduce((sum, value) => sum + value, 0) / triangular.length).toBeCloseTo(20 / 3, 0);
+  });
+
+  it('centres normal samples on the mean', () => {
+    const normal = draw(5000, () => sampleDistribution({ type: 'normal', mean: 100, standardDeviation: 10 }, random));
+    expect(normal.reduce((sum, value) => sum + value, 0) / normal.length).toBeCloseTo(100, 0);
+  });
+});
+
+describe('runMonteCarlo', () => {
+  const uncertainties: UncertainParameter[] = [
+    { parameter: { kind: 'input', field: 'falsePositiveRate' }, distribution: { type: 'triangular', min: 60, mode: 90, max: 95 } },
+    { parameter: { kind: 'coefficient', group: 'efficiency', key: 'base' }, distribution: { type: 'uniform', min: 30, max: 45 } },
+  ];
+
+  it('collapses to the point estimate without uncertain parameters', () => {
+    const { results, totalValue } = runCalculation(defaultInputs);
+    const simulation = runMonteCarlo(defaultInputs, [], { iterations: 10 });
+    expect(simulation.percentiles.annualSavings).toEqual({ p10: results.annualSavings, p50: results.annualSavings, p90: results.annualSavings });
+    expect(simulation.percentiles.totalValue.p50).toBe(totalValue);
+  });
+
+  it('produces ordered percentiles and a histogram covering every run', () => {
+    const simulation = runMonteCarlo(defaultInputs, uncertainties, { iterations: 2000, seed: 7, histogramBins: 20 });
+    const { p10, p50, p90 } = simulation.percentiles.annualSavings;
+    expect(p10).toBeLessThan(p50 as number);
+    expect(p50).toBeLessThan(p90 as number);
+    expect(simulation.annualSavingsHistogram).toHaveLength(20);
+    expect(simulation.annualSavingsHistogram.reduce((sum, bin) => sum + bin.count, 0)).toBe(2000);
+  });
+
+  it('keeps samples within the input limits and coefficient caps', () => {
+    const wide: UncertainParameter[] = [
+      { parameter: { kind: 'input', field: 'falsePositiveRate' }, distribution: { type: 'uniform', min: 100, max: 120 } },
+      { parameter: { kind: 'coefficient', group: 'efficiency', key: 'base' }, distribution: { type: 'uniform', min: 200, max: 300 } },
+    ];
+    const capped = runCalculation(
+      { ...defaultInputs, falsePositiveRate: 100 },
+      { ...DEFAULT_COEFFICIENTS, efficiency: { ...DEFAULT_COEFFICIENTS.efficiency, base: 80 } }
+    );
+    const simulation = runMonteCarlo(defaultInputs, wide, { iterations: 50, seed: 1 });
+    expect(simulation.percentiles.efficiencyImprovement.p90).toBe(capped.results.efficiencyImprovement);
+    expect(simulation.percentiles.annualSavings.p10).toBe(capped.results.annualSavings);
+  });
+
+  it('is reproducible for a given seed', () => {
+    expect(runMonteCarlo(defaultInputs, uncertainties, { iterations: 200, seed: 3 })).toEqual(
+      runMonteCarlo(defaultInputs, uncertainties, { iterations: 200, seed: 3 })
+    );
+  });
+});
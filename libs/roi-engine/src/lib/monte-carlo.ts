@@ -0,0 +1,156 @@
+import { DEFAULT_COEFFICIENTS } from './coefficients.js';
+import { clampParameterValue, isVariableParameter, setParameterValue } from './parameters.js';
+import { calculateROI } from './roi.js';
+import { calculateTotalValue, calculateValueMetrics } from './value-metrics.js';
+import { calculateWorkforceImpact } from './workforce.js';
+import type { CalculationInputs, ModelCoefficients, ModelParameter, ModelState } from './types.js';
+
+export type Distribution =
+  | { type: 'triangular'; min: number; mode: number; max: number }
+  | { type: 'uniform'; min: number; max: number }
+  | { type: 'normal'; mean: number; standardDeviation: number };
+
+export interface UncertainParameter {
+  parameter: ModelParameter;
+  distribution: Distribution;
+}
+
+export type MonteCarloMetric =
+  | 'annualSavings'
+  | 'annualTimeSavings'
+  | 'platformSavings'
+  | 'freedEmployees'
+  | 'roiPercentage'
+  | 'efficiencyImprovement'
+  | 'paybackPeriod'
+  | 'firstYearROIPercentage'
+  | 'totalValue';
+
+export interface PercentileRange {
+  p10: number | null; // null when payback is not reached at that percentile
+  p50: number | null;
+  p90: number | null;
+}
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+export interface MonteCarloOptions {
+  iterations: number;
+  seed?: number;
+  histogramBins?: number;
+}
+
+export interface MonteCarloResult {
+  iterations: number;
+  percentiles: Record<MonteCarloMetric, PercentileRange>;
+  annualSavingsHistogram: HistogramBin[];
+}
+
+// Small seeded generator (mulberry32) so a simulation can be reproduced
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const sampleDistribution = (distribution: Distribution, random: () => number): number => {
+  switch (distribution.type) {
+    case 'uniform':
+      return distribution.min + random() * (distribution.max - distribution.min);
+    case 'triangular': {
+      // Inverse CDF of the triangular distribution
+      const { min, mode, max } = distribution;
+      if (max <= min) {
+        return min;
+      }
+      const u = random();
+      const split = (mode - min) / (max - min);
+      return u < split
+        ? min + Math.sqrt(u * (max - min) * (mode - min))
+        : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+    }
+    case 'normal': {
+      // Box-Muller transform
+      const u = 1 - random();
+      const v = random();
+      return distribution.mean + distribution.standardDeviation * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+    }
+  }
+};
+
+// Nearest-rank percentile of an ascending list, Infinity stands for payback not reached
+const percentile = (sorted: number[], p: number): number | null => {
+  const value = sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1))];
+  return Number.isFinite(value) ? value : null;
+};
+
+const buildHistogram = (sorted: number[], binCount: number): HistogramBin[] => {
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  const width = (max - min) / binCount || 1;
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, index) => ({
+    start: min + index * width,
+    end: min + (index + 1) * width,
+    count: 0,
+  }));
+  sorted.forEach((value) => {
+    bins[Math.min(binCount - 1, Math.floor((value - min) / width))].count += 1;
+  });
+  return bins;
+};
+
+export const runMonteCarlo = (
+  inputs: CalculationInputs,
+  uncertainties: UncertainParameter[],
+  { iterations, seed = Date.now(), histogramBins = 30 }: MonteCarloOptions,
+  coefficients: ModelCoefficients = DEFAULT_COEFFICIENTS
+): MonteCarloResult => {
+  const runs = Math.max(1, Math.floor(iterations));
+  // Tenant load fields follow the tenants in MSSP mode and are held at their values
+  const variable = uncertainties.filter(({ parameter }) => isVariableParameter({ inputs, coefficients }, parameter));
+  const random = createRandom(seed);
+  const samples = {} as Record<MonteCarloMetric, number[]>;
+  const record = (metric: MonteCarloMetric, value: number) => (samples[metric] ??= []).push(value);
+
+  for (let iteration = 0; iteration < runs; iteration++) {
+    // Samples are clamped to the limits an edit in the calculator would accept
+    const state = variable.reduce<ModelState>(
+      (current, { parameter, distribution }) =>
+        setParameterValue(current, parameter, clampParameterValue(current, parameter, sampleDistribution(distribution, random))),
+      { inputs, coefficients }
+    );
+
+    const results = calculateROI(state.inputs, state.coefficients);
+    const workforce = calculateWorkforceImpact(state.inputs, results);
+    record('annualSavings', results.annualSavings);
+    record('annualTimeSavings', workforce.annualTimeSavings);
+    record('platformSavings', results.platformSavings);
+    record('freedEmployees', workforce.freedEmployees);
+    record('roiPercentage', results.roiPercentage);
+    record('efficiencyImprovement', results.efficiencyImprovement);
+    record('paybackPeriod', results.paybackPeriod ?? Infinity);
+    record('firstYearROIPercentage', results.firstYearROIPercentage);
+    record('totalValue', calculateTotalValue(calculateValueMetrics(state.inputs, state.coefficients.value)));
+  }
+
+  const percentiles = {} as Record<MonteCarloMetric, PercentileRange>;
+  (Object.keys(samples) as MonteCarloMetric[]).forEach((metric) => {
+    const sorted = samples[metric].sort((a, b) => a - b);
+    percentiles[metric] = { p10: percentile(sorted, 10), p50: percentile(sorted, 50), p90: percentile(sorted, 90) };
+  });
+
+  return {
+    iterations: runs,
+    percentiles,
+    annualSavingsHistogram: buildHistogram(samples.annualSavings, histogramBins),
+  };
+};
@@ -0,0 +1,50 @@
+import { defaultInputs, deriveHeadcount } from './inputs.js';
+import { aggregateTenants, applyTenantLoad, calculatePortfolio, calculateTenantResults } from './mssp.js';
+import { calculateROI } from './roi.js';
+import type { MsspTenant } from './types.js';
+
+const tenant = (id: string, securityIncidentsPerMonth: number, monthlyLogVolumeGB: number, falsePositiveRate: number): MsspTenant => ({
+  id,
+  name: `Tenant ${id}`,
+  employeeCount: securityIncidentsPerMonth / 4,
+  securityIncidentsPerMonth,
+  monthlyLogVolumeGB,
+  falsePositiveRate,
+  monthlyFee: 20000,
+});
+
+const tenants = [tenant('a', 1200, 3000, 80), tenant('b', 400, 500, 90), tenant('c', 400, 1500, 95)];
+
+describe('MSSP mode', () => {
+  it('combines the tenant load, weighting the false positive rate by incidents', () => {
+    expect(aggregateTenants(tenants)).toEqual({
+      employeeCount: 500,
+      securityIncidentsPerMonth: 2000,
+      monthlyLogVolumeGB: 5000,
+      falsePositiveRate: 85,
+    });
+  });
+
+  it('sizes the shared SOC from the combined load', () => {
+    const inputs = applyTenantLoad({ ...defaultInputs, msspMode: true, tenants });
+    expect(inputs.securityIncidentsPerMonth).toBe(2000);
+    expect(inputs.monthlyLogVolumeGB).toBe(5000);
+    expect(inputs).toMatchObject(deriveHeadcount(2000, defaultInputs));
+    expect(applyTenantLoad({ ...defaultInputs, tenants })).toEqual({ ...defaultInputs, tenants });
+  });
+
+  it('splits the portfolio results across the tenants so they add up', () => {
+    const inputs = applyTenantLoad({ ...defaultInputs, msspMode: true, tenants });
+    const results = calculateROI(inputs);
+    const tenantResults = calculateTenantResults(inputs, results);
+    expect(tenantResults.map((result) => result.incidentShare)).toEqual([60, 20, 20]);
+    expect(tenantResults[0].autonomousSOCCost).toBeCloseTo(1200 * inputs.pricePerSecurityIncident * 12);
+
+    const portfolio = calculatePortfolio(tenantResults);
+    expect(portfolio.currentCost).toBeCloseTo(results.humanSOCTotalCost);
+    expect(portfolio.annualSavings).toBeCloseTo(results.annualSavings);
+    expect(portfolio.roiPercentage).toBeCloseTo(results.roiPercentage);
+    expect(portfolio.annualRevenue).toBe(3 * 20000 * 12);
+    expect(portfolio.margin).toBeCloseTo(portfolio.annualRevenue - portfolio.costToServe);
+  });
+});
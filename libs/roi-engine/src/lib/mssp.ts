@@ -0,0 +1,109 @@
+import { calculateComputedFields, toBaseInputs } from './inputs.js';
+import { calculatePlatformCosts } from './roi.js';
+import type { CalculationInputs, CalculationResults, InputField, MsspTenant, PortfolioResult, TenantResult } from './types.js';
+
+// Inputs set from the combined tenant load while in MSSP mode
+export const TENANT_LOAD_FIELDS: InputField[] = [
+  'industry',
+  'employeeCount',
+  'incidentsPerEmployee',
+  'linkEmployeesToIncidents',
+  'securityIncidentsPerMonth',
+  'falsePositiveRate',
+  'logVolumeIncidentRatio',
+];
+
+export type TenantLoad = Pick<CalculationInputs, 'employeeCount' | 'securityIncidentsPerMonth' | 'monthlyLogVolumeGB' | 'falsePositiveRate'>;
+
+const sum = (tenants: MsspTenant[], field: keyof TenantLoad): number => tenants.reduce((total, tenant) => total + tenant[field], 0);
+
+const share = (part: number, total: number): number => (total > 0 ? (part / total) * 100 : 0);
+
+// Combined load of every tenant, the false positive rate is weighted by incident volume
+export const aggregateTenants = (tenants: MsspTenant[]): TenantLoad => {
+  const securityIncidentsPerMonth = sum(tenants, 'securityIncidentsPerMonth');
+  const falsePositives = tenants.reduce((total, tenant) => total + tenant.securityIncidentsPerMonth * tenant.falsePositiveRate, 0);
+  return {
+    employeeCount: sum(tenants, 'employeeCount'),
+    securityIncidentsPerMonth,
+    monthlyLogVolumeGB: sum(tenants, 'monthlyLogVolumeGB'),
+    falsePositiveRate: securityIncidentsPerMonth > 0 ? falsePositives / securityIncidentsPerMonth : 0,
+  };
+};
+
+// In MSSP mode the organization-level load is the combined tenant load, so the shared SOC is staffed for all of them.
+// The log volume ratio is set so the derived log volume matches the tenants' total, pinned fields are kept.
+export const applyTenantLoad = (inputs: CalculationInputs): CalculationInputs => {
+  if (!inputs.msspMode || inputs.tenants.length === 0) {
+    return inputs;
+  }
+  const load = aggregateTenants(inputs.tenants);
+  return calculateComputedFields({
+    ...toBaseInputs(inputs),
+    industry: 'custom',
+    employeeCount: load.employeeCount,
+    linkEmployeesToIncidents: false,
+    unlinkedIncidentsPerMonth: load.securityIncidentsPerMonth,
+    falsePositiveRate: load.falsePositiveRate,
+    logVolumeIncidentRatio:
+      load.securityIncidentsPerMonth > 0 ? load.monthlyLogVolumeGB / load.securityIncidentsPerMonth : inputs.logVolumeIncidentRatio,
+  });
+};
+
+// Splits the portfolio results across the tenants: staffing, cost items and the autonomous SOC licence follow each tenant's
+// incidents, SIEM licensing and platform savings follow its log volume. The tenants add up to the portfolio.
+export const calculateTenantResults = (inputs: CalculationInputs, results: CalculationResults): TenantResult[] => {
+  const totalIncidents = sum(inputs.tenants, 'securityIncidentsPerMonth');
+  const totalLogVolume = sum(inputs.tenants, 'monthlyLogVolumeGB');
+  const { siemCost, stellarXDRCost } = calculatePlatformCosts(inputs);
+  const siemEfficiencySavings = inputs.switchFromLegacySIEM ? inputs.siemLicensingCosts * (results.efficiencyImprovement / 100) : 0;
+  const incidentCosts = results.humanSOCTotalCost - inputs.siemLicensingCosts;
+  const incidentSavings = results.humanSOCTotalCost - results.adjustedAnnualSOCCost - siemEfficiencySavings;
+  const logVolumeSavings = siemEfficiencySavings + inputs.siemLicensingCosts - (siemCost + stellarXDRCost);
+
+  return inputs.tenants.map((tenant) => {
+    const incidentShare = share(tenant.securityIncidentsPerMonth, totalIncidents);
+    const logVolumeShare = share(tenant.monthlyLogVolumeGB, totalLogVolume);
+    const currentCost = (incidentCosts * incidentShare) / 100 + (inputs.siemLicensingCosts * logVolumeShare) / 100;
+    const autonomousSOCCost = (results.autonomousSOCTotalCost * incidentShare) / 100;
+    const annualSavings = (incidentSavings * incidentShare) / 100 + (logVolumeSavings * logVolumeShare) / 100 - autonomousSOCCost;
+    const costToServe = currentCost - annualSavings;
+    const annualRevenue = tenant.monthlyFee * 12;
+    const margin = annualRevenue - costToServe;
+    return {
+      id: tenant.id,
+      name: tenant.name,
+      incidentShare,
+      logVolumeShare,
+      currentCost,
+      autonomousSOCCost,
+      annualSavings,
+      costToServe,
+      roiPercentage: autonomousSOCCost === 0 ? 0 : (annualSavings / autonomousSOCCost) * 100,
+      annualRevenue,
+      currentMargin: annualRevenue - currentCost,
+      margin,
+      marginPercentage: annualRevenue === 0 ? 0 : (margin / annualRevenue) * 100,
+    };
+  });
+};
+
+// Totals across the tenants, with ROI and margin recomputed from the totals
+export const calculatePortfolio = (tenants: TenantResult[]): PortfolioResult => {
+  const total = (field: keyof PortfolioResult) => tenants.reduce((subtotal, tenant) => subtotal + tenant[field], 0);
+  const autonomousSOCCost = total('autonomousSOCCost');
+  const annualSavings = total('annualSavings');
+  const annualRevenue = total('annualRevenue');
+  const margin = total('margin');
+  return {
+    currentCost: total('currentCost'),
+    autonomousSOCCost,
+    annualSavings,
+    costToServe: total('costToServe'),
+    roiPercentage: autonomousSOCCost === 0 ? 0 : (annualSavings / autonomousSOCCost) * 100,
+    annualRevenue,
+    currentMargin: total('currentMargin'),
+    margin,
+    marginPercentage: annualRevenue === 0 ? 0 : (margin / annualRevenue) * 100,
+  };
+};
@@ -0,0 +1,68 @@
+import { applyInputChange } from './inputs.js';
+import { TENANT_LOAD_FIELDS } from './mssp.js';
+import { INPUT_RULES } from './validation.js';
+import type { CoefficientGroup, InputField, ModelCoefficients, ModelParameter, ModelState } from './types.js';
+
+// Coefficients given as a share in percent, which cannot pass 100
+const PERCENTAGE_COEFFICIENTS: { [G in CoefficientGroup]: (keyof ModelCoefficients[G])[] } = {
+  efficiency: ['cap'],
+  incidentResponse: ['cap'],
+  value: [
+    'autonomousFalsePositiveRate',
+    'escalationReduction',
+    'productivityTimeSaved',
+    'truePositiveResponseSavings',
+    'falsePositiveResponseSavings',
+    'turnoverReduction',
+    'complianceEfficiency',
+  ],
+};
+
+// In MSSP mode the tenant load fields are set from the tenants, so analyses cannot vary them
+export const isVariableParameter = ({ inputs }: ModelState, parameter: ModelParameter): boolean =>
+  parameter.kind !== 'input' || !inputs.msspMode || !TENANT_LOAD_FIELDS.includes(parameter.field);
+
+// Every numeric input followed by every coefficient, the exchange rate only converts results for display
+export const getModelParameters = ({ inputs, coefficients }: ModelState): ModelParameter[] => [
+  ...(Object.keys(inputs) as InputField[])
+    .filter((field) => typeof inputs[field] === 'number' && field !== 'exchangeRate')
+    .map((field): ModelParameter => ({ kind: 'input', field }))
+    .filter((parameter) => isVariableParameter({ inputs, coefficients }, parameter)),
+  ...(Object.keys(coefficients) as CoefficientGroup[]).flatMap((group) =>
+    Object.keys(coefficients[group]).map((key): ModelParameter => ({ kind: 'coefficient', group, key }))
+  ),
+];
+
+export const getParameterValue = ({ inputs, coefficients }: ModelState, parameter: ModelParameter): number =>
+  parameter.kind === 'input'
+    ? Number(inputs[parameter.field])
+    : (coefficients[parameter.group] as unknown as Record<string, number>)[parameter.key];
+
+// Inputs go through applyInputChange so derived fields follow, as when edited in the calculator
+export const setParameterValue = (state: ModelState, parameter: ModelParameter, value: number): ModelState =>
+  parameter.kind === 'input'
+    ? { ...state, inputs: applyInputChange(state.inputs, parameter.field, value) }
+    : {
+        ...state,
+        coefficients: {
+          ...state.coefficients,
+          [parameter.group]: { ...state.coefficients[parameter.group], [parameter.key]: value },
+        },
+      };
+
+// Inputs keep to their hard limits, coefficients are non-negative and a base improvement stays within its cap
+export const getParameterLimits = ({ coefficients }: ModelState, parameter: ModelParameter): { min: number; max: number } => {
+  if (parameter.kind === 'input') {
+    const rule = INPUT_RULES[parameter.field];
+    return { min: rule?.min ?? 0, max: rule?.max ?? Infinity };
+  }
+  if (parameter.key === 'base' && parameter.group !== 'value') {
+    return { min: 0, max: coefficients[parameter.group].cap };
+  }
+  return { min: 0, max: (PERCENTAGE_COEFFICIENTS[parameter.group] as string[]).includes(parameter.key) ? 100 : Infinity };
+};
+
+export const clampParameterValue = (state: ModelState, parameter: ModelParameter, value: number): number => {
+  const { min, max } = getParameterLimits(state, parameter);
+  return Math.min(max, Math.max(min, value));
+};
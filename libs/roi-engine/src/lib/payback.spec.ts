@@ -0,0 +1,62 @@
+import { defaultInputs } from './inputs.js';
+import { calculateOneTimeCosts, calculatePaybackSchedule, calculateRampFactor } from './payback.js';
+import { calculateROI } from './roi.js';
+
+const savings = { efficiencySavings: 120000, autonomousSOCTotalCost: 24000, platformSavings: 0 };
+const noOneTimeCosts = {
+  ...defaultInputs,
+  professionalServicesCost: 0,
+  siemMigrationCost: 0,
+  trainingCost: 0,
+  dualRunningMonths: 0,
+  rampUpMonths: 0,
+};
+
+describe('calculateOneTimeCosts', () => {
+  it('adds the dual-running SIEM licensing to the implementation costs', () => {
+    expect(calculateOneTimeCosts(defaultInputs)).toBe(25000 + 15000 + 10000 + (129600 / 12) * 2);
+  });
+
+  it('skips dual-running when the legacy SIEM is kept', () => {
+    expect(calculateOneTimeCosts({ ...defaultInputs, switchFromLegacySIEM: false })).toBe(50000);
+  });
+});
+
+describe('calculateRampFactor', () => {
+  it('phases efficiency gains in linearly', () => {
+    expect(calculateRampFactor(defaultInputs, 1)).toBeCloseTo(1 / 3);
+    expect(calculateRampFactor(defaultInputs, 3)).toBe(1);
+    expect(calculateRampFactor(noOneTimeCosts, 1)).toBe(1);
+  });
+});
+
+describe('calculatePaybackSchedule', () => {
+  it('pays back immediately without one-time costs or ramp-up', () => {
+    const schedule = calculatePaybackSchedule(noOneTimeCosts, savings);
+    expect(schedule.paybackPeriod).toBe(0);
+    expect(schedule.firstYearSavings).toBeCloseTo(96000);
+  });
+
+  it('interpolates the month the one-time costs are recovered', () => {
+    const schedule = calculatePaybackSchedule({ ...noOneTimeCosts, professionalServicesCost: 12000 }, savings);
+    // 8,000 net benefit per month
+    expect(schedule.paybackPeriod).toBeCloseTo(1.5);
+    expect(schedule.firstYearSavings).toBeCloseTo(96000 - 12000);
+  });
+
+  it('reports payback as not reached when the savings never cover the costs', () => {
+    const schedule = calculatePaybackSchedule(defaultInputs, { ...savings, autonomousSOCTotalCost: 200000 });
+    expect(schedule.paybackPeriod).toBeNull();
+  });
+});
+
+describe('calculateROI', () => {
+  it('reports first-year ROI net of one-time costs', () => {
+    const results = calculateROI(defaultInputs);
+    expect(results.paybackPeriod).toBeGreaterThan(0);
+    expect(results.firstYearSavings).toBeLessThan(results.annualSavings);
+    expect(results.firstYearROIPercentage).toBeCloseTo(
+      (results.firstYearSavings / (results.autonomousSOCTotalCost + results.oneTimeCosts)) * 100
+    );
+  });
+});
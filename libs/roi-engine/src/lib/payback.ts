@@ -0,0 +1,57 @@
+import type { CalculationInputs, PaybackMonth, PaybackSchedule } from './types.js';
+
+// Payback beyond this horizon is reported as not reached
+export const PAYBACK_HORIZON_MONTHS = 120;
+
+export const calculateOneTimeCosts = (inputs: CalculationInputs): number => {
+  // Dual-running only costs extra when the legacy SIEM is being retired
+  const dualRunningCost = inputs.switchFromLegacySIEM
+    ? (inputs.siemLicensingCosts / 12) * inputs.dualRunningMonths
+    : 0;
+
+  return inputs.professionalServicesCost + inputs.siemMigrationCost + inputs.trainingCost + dualRunningCost;
+};
+
+// Share of the efficiency gains realised in a month, phasing in linearly
+export const calculateRampFactor = (inputs: CalculationInputs, month: number): number =>
+  inputs.rampUpMonths <= 0 ? 1 : Math.min(1, month / inputs.rampUpMonths);
+
+interface AnnualSavingsBreakdown {
+  efficiencySavings: number; // human SOC cost removed by efficiency gains
+  autonomousSOCTotalCost: number;
+  platformSavings: number;
+}
+
+export const calculatePaybackSchedule = (
+  inputs: CalculationInputs,
+  savings: AnnualSavingsBreakdown
+): PaybackSchedule => {
+  const oneTimeCosts = calculateOneTimeCosts(inputs);
+  const months: PaybackMonth[] = [];
+  let cumulative = -oneTimeCosts;
+  let paybackPeriod: number | null = null;
+
+  for (let month = 1; month <= PAYBACK_HORIZON_MONTHS; month++) {
+    // Subscription and platform changes apply from day one, efficiency gains ramp up
+    const benefit = (
+      savings.efficiencySavings * calculateRampFactor(inputs, month) -
+      savings.autonomousSOCTotalCost +
+      savings.platformSavings
+    ) / 12;
+    const previous = cumulative;
+    cumulative += benefit;
+    months.push({ month, benefit, cumulative });
+
+    // Interpolate within the month the cumulative position turns positive
+    if (paybackPeriod === null && cumulative >= 0 && benefit > 0) {
+      paybackPeriod = month - 1 + -previous / benefit;
+    }
+  }
+
+  return {
+    oneTimeCosts,
+    months,
+    firstYearSavings: months[11].cumulative,
+    paybackPeriod,
+  };
+};
@@ -0,0 +1,75 @@
+import { defaultInputs, setVolumePricing } from './inputs.js';
+import { calculateVolumePrice, DEFAULT_VOLUME_PRICING } from './pricing.js';
+import { projectInputs } from './projection.js';
+import { calculateROI } from './roi.js';
+import type { VolumePricing } from './types.js';
+
+const tiered: VolumePricing = {
+  ...DEFAULT_VOLUME_PRICING,
+  model: 'tiered',
+  tiers: [
+    { from: 5000, price: 1 },
+    { from: 1000, price: 2 },
+  ],
+};
+
+describe('volume pricing', () => {
+  it('charges every unit at the unit price by default', () => {
+    expect(calculateVolumePrice(2400, 3, DEFAULT_VOLUME_PRICING)).toMatchObject({
+      bands: [{ from: 0, to: null, price: 3, volume: 2400, annualCost: 2400 * 3 * 12 }],
+      annualCost: 2400 * 3 * 12,
+    });
+  });
+
+  it('charges each band at its own price, below the first tier at the unit price', () => {
+    const breakdown = calculateVolumePrice(8000, 3, tiered);
+    expect(breakdown.bands.map(({ from, to, volume }) => [from, to, volume])).toEqual([
+      [0, 1000, 1000],
+      [1000, 5000, 4000],
+      [5000, null, 3000],
+    ]);
+    expect(breakdown.annualCost).toBe((1000 * 3 + 4000 * 2 + 3000 * 1) * 12);
+    expect(calculateVolumePrice(8000, 3, { ...tiered, model: 'flat' }).annualCost).toBe(8000 * 3 * 12);
+  });
+
+  it('bills the commitment in full, charges overage above it and tops up to the minimum', () => {
+    const committed = { ...tiered, committedVolume: 5000, overagePrice: 2.5 };
+    expect(calculateVolumePrice(6000, 3, committed)).toMatchObject({
+      billedVolume: 5000,
+      overageVolume: 1000,
+      overageCost: 1000 * 2.5 * 12,
+      annualCost: (1000 * 3 + 4000 * 2 + 1000 * 2.5) * 12,
+    });
+    expect(calculateVolumePrice(100, 3, committed).annualCost).toBe((1000 * 3 + 4000 * 2) * 12);
+    expect(calculateVolumePrice(100, 3, { ...DEFAULT_VOLUME_PRICING, minimumAnnualValue: 50000 })).toMatchObject({
+      minimumTopUp: 50000 - 100 * 3 * 12,
+      annualCost: 50000,
+    });
+  });
+
+  it('charges volume above the commitment at the tier prices without an overage price', () => {
+    const committed = { ...tiered, committedVolume: 2000 };
+    expect(calculateVolumePrice(6000, 3, committed)).toMatchObject({
+      billedVolume: 6000,
+      overageVolume: 0,
+      overageCost: 0,
+      annualCost: calculateVolumePrice(6000, 3, tiered).annualCost,
+    });
+    expect(calculateVolumePrice(100, 3, committed).annualCost).toBe((1000 * 3 + 1000 * 2) * 12);
+  });
+
+  it('prices the autonomous SOC and Stellar XDR from their plans', () => {
+    const minimum = { ...DEFAULT_VOLUME_PRICING, minimumAnnualValue: 500000 };
+    const inputs = setVolumePricing(setVolumePricing(defaultInputs, 'incidentPricing', minimum), 'logVolumePricing', minimum);
+    expect(calculateROI(inputs).autonomousSOCTotalCost).toBe(500000);
+    expect(inputs.stellarXDRPlatformCosts).toBe(500000);
+    expect(setVolumePricing({ ...inputs, overrides: { stellarXDRPlatformCosts: 1 } }, 'logVolumePricing', minimum).stellarXDRPlatformCosts).toBe(1);
+  });
+
+  it('keeps the commitment in later years and escalates its prices', () => {
+    const committed = { ...DEFAULT_VOLUME_PRICING, committedVolume: 2400, overagePrice: 4 };
+    const year2 = projectInputs(setVolumePricing(defaultInputs, 'incidentPricing', committed), 2);
+    expect(year2.incidentPricing).toEqual({ ...committed, overagePrice: 4 * 1.03 });
+    expect(calculateROI(year2).autonomousSOCTotalCost).toBeCloseTo((2400 * 3 * 1.03 + 120 * 4 * 1.03) * 12);
+  });
+});
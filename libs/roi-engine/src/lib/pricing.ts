@@ -0,0 +1,84 @@
+import type { CalculationInputs, PriceBand, PricingBreakdown, PricingModel, VolumePricing } from './types.js';
+
+export type PricedProduct = 'incidentPricing' | 'logVolumePricing';
+
+export interface PricedProductInfo {
+  label: string;
+  unit: string; // what the volume counts, e.g. "incidents"
+  volumeField: 'securityIncidentsPerMonth' | 'monthlyLogVolumeGB';
+  unitPriceField: 'pricePerSecurityIncident' | 'stellarXDRCostPerGB';
+}
+
+export const PRICED_PRODUCTS: Record<PricedProduct, PricedProductInfo> = {
+  incidentPricing: {
+    label: 'Autonomous SOC',
+    unit: 'incidents',
+    volumeField: 'securityIncidentsPerMonth',
+    unitPriceField: 'pricePerSecurityIncident',
+  },
+  logVolumePricing: {
+    label: 'Stellar XDR',
+    unit: 'GB',
+    volumeField: 'monthlyLogVolumeGB',
+    unitPriceField: 'stellarXDRCostPerGB',
+  },
+};
+
+export const PRICING_MODELS: Record<PricingModel, string> = {
+  flat: 'Flat unit price',
+  tiered: 'Volume tiers',
+};
+
+// Pay-as-you-go at the unit price
+export const DEFAULT_VOLUME_PRICING: VolumePricing = {
+  model: 'flat',
+  tiers: [],
+  committedVolume: 0,
+  overagePrice: 0,
+  minimumAnnualValue: 0,
+};
+
+// True when every unit is charged at the unit price, with no tiers, commitment or minimum
+export const isFlatPricing = (pricing: VolumePricing): boolean =>
+  (pricing.model === 'flat' || pricing.tiers.length === 0) && pricing.committedVolume === 0 && pricing.minimumAnnualValue === 0;
+
+// Applies a change to every amount in a plan, e.g. a currency conversion or a price escalator
+export const mapPricingAmounts = (pricing: VolumePricing, map: (amount: number) => number): VolumePricing => ({
+  ...pricing,
+  tiers: pricing.tiers.map((tier) => ({ ...tier, price: map(tier.price) })),
+  overagePrice: map(pricing.overagePrice),
+  minimumAnnualValue: map(pricing.minimumAnnualValue),
+});
+
+// Price bands ordered by volume, units below the first tier are charged at the unit price
+export const getPriceBands = (unitPrice: number, pricing: VolumePricing): Pick<PriceBand, 'from' | 'to' | 'price'>[] => {
+  const tiers = pricing.model === 'tiered' ? [...pricing.tiers].sort((a, b) => a.from - b.from) : [];
+  const starts = tiers.length > 0 && tiers[0].from === 0 ? tiers : [{ from: 0, price: unitPrice }, ...tiers];
+  return starts.map((tier, index) => ({ from: tier.from, to: index + 1 < starts.length ? starts[index + 1].from : null, price: tier.price }));
+};
+
+// Annual charge for a monthly volume. Each band is charged at its own price (graduated), a commitment is billed in full
+// with the volume above it charged at the overage price, or through the bands when no overage price is set, and the total
+// is raised to the minimum annual contract value.
+export const calculateVolumePrice = (volume: number, unitPrice: number, pricing: VolumePricing): PricingBreakdown => {
+  const billedVolume =
+    pricing.committedVolume > 0 && pricing.overagePrice > 0 ? pricing.committedVolume : Math.max(pricing.committedVolume, volume);
+  const bands = getPriceBands(unitPrice, pricing).map((band) => {
+    const bandVolume = Math.max(0, Math.min(billedVolume, band.to ?? Infinity) - band.from);
+    return { ...band, volume: bandVolume, annualCost: bandVolume * band.price * 12 };
+  });
+  const overageVolume = Math.max(0, volume - billedVolume);
+  const overageCost = overageVolume * pricing.overagePrice * 12;
+  const subtotal = bands.reduce((total, band) => total + band.annualCost, 0) + overageCost;
+  const minimumTopUp = Math.max(0, pricing.minimumAnnualValue - subtotal);
+  return { volume, billedVolume, bands, overageVolume, overageCost, minimumTopUp, annualCost: subtotal + minimumTopUp };
+};
+
+// Monthly volume a product is licensed for, in coexistence Stellar XDR only receives its forwarded share of the logs
+export const getLicensedVolume = (inputs: CalculationInputs, product: PricedProduct): number => {
+  const volume = inputs[PRICED_PRODUCTS[product].volumeField];
+  return product === 'logVolumePricing' && !inputs.switchFromLegacySIEM ? volume * (inputs.xdrLogForwardingPercentage / 100) : volume;
+};
+
+export const getPricingBreakdown = (inputs: CalculationInputs, product: PricedProduct): PricingBreakdown =>
+  calculateVolumePrice(getLicensedVolume(inputs, product), inputs[PRICED_PRODUCTS[product].unitPriceField], inputs[product]);
@@ -0,0 +1,23 @@
+import { DEFAULT_COEFFICIENTS } from './coefficients.js';
+import { runCalculation } from './engine.js';
+import { defaultInputs } from './inputs.js';
+import { BUILT_IN_PROFILES, findMatchingProfile } from './profiles.js';
+
+describe('assumption profiles', () => {
+  it('uses the calculator defaults for the expected case', () => {
+    expect(findMatchingProfile(DEFAULT_COEFFICIENTS, BUILT_IN_PROFILES)?.id).toBe('expected');
+  });
+
+  it('orders the built-in profiles from conservative to aggressive', () => {
+    const outputs = BUILT_IN_PROFILES.map((profile) => runCalculation(defaultInputs, profile.coefficients));
+    const ascending = (values: number[]) => values.every((value, index) => index === 0 || value > values[index - 1]);
+    expect(ascending(outputs.map((output) => output.results.annualSavings))).toBe(true);
+    expect(ascending(outputs.map((output) => output.results.efficiencyImprovement))).toBe(true);
+    expect(ascending(outputs.map((output) => output.totalValue))).toBe(true);
+  });
+
+  it('stops matching a profile once a coefficient is edited', () => {
+    const edited = { ...DEFAULT_COEFFICIENTS, efficiency: { ...DEFAULT_COEFFICIENTS.efficiency, base: 39 } };
+    expect(findMatchingProfile(edited, BUILT_IN_PROFILES)).toBeUndefined();
+  });
+});
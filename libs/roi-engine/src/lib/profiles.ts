@@ -0,0 +1,116 @@
+import { DEFAULT_COEFFICIENTS } from './coefficients.js';
+import type { ModelCoefficients } from './types.js';
+
+export interface AssumptionProfile {
+  id: string;
+  name: string;
+  description: string;
+  coefficients: ModelCoefficients;
+}
+
+export const CONSERVATIVE_COEFFICIENTS: ModelCoefficients = {
+  efficiency: {
+    ...DEFAULT_COEFFICIENTS.efficiency,
+    base: 28,
+    falsePositiveWeight: 0.15,
+    falsePositiveCap: 10,
+    responseTimeWeight: 2,
+    responseTimeCap: 15,
+    logVolumeCap: 10,
+    cap: 65,
+  },
+  incidentResponse: {
+    ...DEFAULT_COEFFICIENTS.incidentResponse,
+    base: 35,
+    responseTimeWeight: 1.5,
+    responseTimeCap: 10,
+    falsePositiveWeight: 0.1,
+    falsePositiveCap: 5,
+    cap: 65,
+  },
+  value: {
+    ...DEFAULT_COEFFICIENTS.value,
+    autonomousFalsePositiveRate: 10,
+    escalationCost: 3500,
+    escalationReduction: 20,
+    productivityTimeSaved: 25,
+    productivityMultiplier: 1.2,
+    truePositiveResponseSavings: 70,
+    falsePositiveResponseSavings: 5,
+    turnoverReduction: 40,
+    complianceEfficiency: 50,
+    stressValuePerAnalyst: 7500,
+    shiftCoverageValuePerAnalyst: 10000,
+  },
+};
+
+export const AGGRESSIVE_COEFFICIENTS: ModelCoefficients = {
+  efficiency: {
+    ...DEFAULT_COEFFICIENTS.efficiency,
+    base: 45,
+    falsePositiveWeight: 0.25,
+    falsePositiveCap: 18,
+    responseTimeWeight: 4,
+    responseTimeCap: 30,
+    logVolumeCap: 18,
+    cap: 88,
+  },
+  incidentResponse: {
+    ...DEFAULT_COEFFICIENTS.incidentResponse,
+    base: 55,
+    responseTimeWeight: 2.5,
+    responseTimeCap: 18,
+    falsePositiveWeight: 0.2,
+    falsePositiveCap: 10,
+    cap: 88,
+  },
+  value: {
+    ...DEFAULT_COEFFICIENTS.value,
+    autonomousFalsePositiveRate: 3,
+    escalationCost: 7500,
+    escalationReduction: 40,
+    productivityTimeSaved: 50,
+    productivityMultiplier: 1.75,
+    truePositiveResponseSavings: 90,
+    falsePositiveResponseSavings: 15,
+    turnoverReduction: 70,
+    complianceEfficiency: 80,
+    stressValuePerAnalyst: 20000,
+    shiftCoverageValuePerAnalyst: 25000,
+  },
+};
+
+// Ordered from most to least cautious so they read left to right as a range
+export const BUILT_IN_PROFILES: AssumptionProfile[] = [
+  {
+    id: 'conservative',
+    name: 'Conservative',
+    description: 'Lower automation gains and value estimates for a cautious business case',
+    coefficients: CONSERVATIVE_COEFFICIENTS,
+  },
+  {
+    id: 'expected',
+    name: 'Expected',
+    description: 'The calculator defaults',
+    coefficients: DEFAULT_COEFFICIENTS,
+  },
+  {
+    id: 'aggressive',
+    name: 'Aggressive',
+    description: 'Higher automation gains and value estimates for a best case',
+    coefficients: AGGRESSIVE_COEFFICIENTS,
+  },
+];
+
+export const coefficientsEqual = (a: ModelCoefficients, b: ModelCoefficients): boolean =>
+  (Object.keys(a) as (keyof ModelCoefficients)[]).every((group) => {
+    const left: Record<string, number> = { ...a[group] };
+    const right: Record<string, number> = { ...b[group] };
+    return Object.keys(left).every((key) => left[key] === right[key]);
+  });
+
+// The profile whose coefficients match exactly, undefined once any coefficient has been edited
+export const findMatchingProfile = (
+  coefficients: ModelCoefficients,
+  profiles: AssumptionProfile[]
+): AssumptionProfile | undefined => profiles.find((profile) => coefficientsEqual(profile.coefficients, coefficients));
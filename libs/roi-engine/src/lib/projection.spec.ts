@@ -0,0 +1,66 @@
+import { calculateIRR, calculateNPV } from './finance.js';
+import { applyInputChange, defaultInputs, deriveHeadcount } from './inputs.js';
+import { calculateProjection, projectInputs } from './projection.js';
+import { calculateROI } from './roi.js';
+
+describe('calculateNPV', () => {
+  it('discounts each period by the rate', () => {
+    expect(calculateNPV(10, [-100, 110])).toBeCloseTo(0);
+    expect(calculateNPV(0, [-100, 50, 50])).toBe(0);
+  });
+});
+
+describe('calculateIRR', () => {
+  it('finds the rate where the NPV is zero', () => {
+    expect(calculateIRR([-100, 110])).toBeCloseTo(10);
+    expect(calculateIRR([-1000, 500, 500, 500])).toBeCloseTo(23.375, 2);
+  });
+
+  it('returns null when the cash flows never change sign', () => {
+    expect(calculateIRR([100, 100])).toBeNull();
+  });
+});
+
+describe('calculateProjection', () => {
+  it('keeps year 1 identical to the single-year results', () => {
+    expect(projectInputs(defaultInputs, 1)).toEqual(defaultInputs);
+    expect(calculateProjection(defaultInputs).years[0].results).toEqual(calculateROI(defaultInputs));
+  });
+
+  it('charges the one-time costs and ramp-up to year 1', () => {
+    const projection = calculateProjection(defaultInputs);
+    const year1 = projection.years[0];
+    expect(projection.oneTimeCosts).toBe(year1.results.oneTimeCosts);
+    expect(year1.cumulativeSavings).toBeCloseTo(year1.results.firstYearSavings);
+    expect(year1.annualSavings).toBeLessThan(year1.results.annualSavings);
+  });
+
+  it('grows volumes and escalates prices in later years', () => {
+    const year2 = projectInputs(defaultInputs, 2);
+    expect(year2.securityIncidentsPerMonth).toBe(2520);
+    expect(year2.monthlyLogVolumeGB).toBe(4320);
+    expect(year2.analystSalary).toBeCloseTo(85000 * 1.03);
+    expect(year2.siemLicensingCosts).toBeCloseTo(129600 * 1.2 * 1.05);
+  });
+
+  it('re-derives headcount from the grown incident volume and keeps pinned roles', () => {
+    expect(projectInputs(defaultInputs, 2)).toMatchObject(deriveHeadcount(2520, defaultInputs));
+    const shrinking = projectInputs({ ...defaultInputs, employeeGrowthRate: -50, minAnalysts: 4 }, 3);
+    expect(shrinking.humanSOCAnalysts).toBe(4);
+    const pinned = applyInputChange({ ...defaultInputs, projectionYears: 3 }, 'humanSOCDirector', 3);
+    expect(projectInputs(pinned, 3).humanSOCDirector).toBe(3);
+  });
+
+  it('accumulates savings and discounts the cash flows', () => {
+    const inputs = { ...defaultInputs, projectionYears: 5 };
+    const projection = calculateProjection(inputs);
+    expect(projection.years).toHaveLength(5);
+    expect(projection.cumulativeSavings).toBeCloseTo(
+      projection.years.reduce((sum, year) => sum + year.annualSavings, 0) - projection.oneTimeCosts
+    );
+    expect(projection.years[4].cumulativeSavings).toBeCloseTo(projection.cumulativeSavings);
+    expect(projection.cashFlows.reduce((sum, cashFlow) => sum + cashFlow, 0)).toBeCloseTo(projection.cumulativeSavings);
+    expect(calculateProjection({ ...inputs, discountRate: 0 }).npv).toBeCloseTo(projection.cumulativeSavings);
+    expect(calculateNPV(projection.irr ?? 0, projection.cashFlows)).toBeCloseTo(0, 2);
+  });
+});
@@ -0,0 +1,94 @@
+import { DEFAULT_COEFFICIENTS } from './coefficients.js';
+import { calculateIRR, calculateNPV } from './finance.js';
+import { deriveHeadcount } from './inputs.js';
+import { calculateVolumePrice, mapPricingAmounts } from './pricing.js';
+import { calculateROI } from './roi.js';
+import type { CalculationInputs, ModelCoefficients, Projection, ProjectionYear } from './types.js';
+
+const growth = (ratePercentage: number, year: number): number => Math.pow(1 + ratePercentage / 100, year - 1);
+
+// Inputs for a later year: volumes grow and prices escalate from the year-1 inputs.
+// Licensing plans keep their committed volumes, growth beyond them is charged as overage.
+export const projectInputs = (inputs: CalculationInputs, year: number): CalculationInputs => {
+  const incidentGrowth = growth(inputs.employeeGrowthRate, year);
+  const logVolumeGrowth = growth(inputs.logVolumeGrowthRate, year);
+  const salaryGrowth = growth(inputs.salaryInflationRate, year);
+  const siemPriceGrowth = growth(inputs.legacySIEMPriceEscalator, year);
+  const stellarPriceGrowth = growth(inputs.stellarPriceEscalator, year);
+  const securityIncidentsPerMonth = Math.round(inputs.securityIncidentsPerMonth * incidentGrowth);
+  const monthlyLogVolumeGB = Math.round(inputs.monthlyLogVolumeGB * logVolumeGrowth);
+  const stellarXDRCostPerGB = inputs.stellarXDRCostPerGB * stellarPriceGrowth;
+  const logVolumePricing = mapPricingAmounts(inputs.logVolumePricing, (amount) => amount * stellarPriceGrowth);
+
+  return {
+    ...inputs,
+    employeeCount: Math.round(inputs.employeeCount * incidentGrowth),
+    securityIncidentsPerMonth,
+    // Headcount follows the staffing rules for the grown incident volume, pinned roles stay as entered
+    ...deriveHeadcount(securityIncidentsPerMonth, inputs, inputs.overrides),
+    analystSalary: inputs.analystSalary * salaryGrowth,
+    managerSalary: inputs.managerSalary * salaryGrowth,
+    engineerSalary: inputs.engineerSalary * salaryGrowth,
+    directorSalary: inputs.directorSalary * salaryGrowth,
+    monthlyLogVolumeGB,
+    legacySIEMPricePerGB: inputs.legacySIEMPricePerGB * siemPriceGrowth,
+    siemLicensingCosts: inputs.siemLicensingCosts * logVolumeGrowth * siemPriceGrowth,
+    stellarXDRCostPerGB,
+    logVolumePricing,
+    // Pinned platform costs scale with volume and price, otherwise the grown volume is repriced through the plan's tiers
+    stellarXDRPlatformCosts:
+      inputs.overrides.stellarXDRPlatformCosts === undefined
+        ? calculateVolumePrice(monthlyLogVolumeGB, stellarXDRCostPerGB, logVolumePricing).annualCost
+        : inputs.stellarXDRPlatformCosts * logVolumeGrowth * stellarPriceGrowth,
+    pricePerSecurityIncident: inputs.pricePerSecurityIncident * stellarPriceGrowth,
+    incidentPricing: mapPricingAmounts(inputs.incidentPricing, (amount) => amount * stellarPriceGrowth),
+  };
+};
+
+export const calculateProjection = (
+  inputs: CalculationInputs,
+  coefficients: ModelCoefficients = DEFAULT_COEFFICIENTS
+): Projection => {
+  const years: ProjectionYear[] = [];
+  let oneTimeCosts = 0;
+  let cumulativeSavings = 0;
+
+  for (let year = 1; year <= inputs.projectionYears; year++) {
+    const results = calculateROI(projectInputs(inputs, year), coefficients);
+
+    // Year 1 carries the one-time costs and only part of the efficiency gains while they ramp up
+    if (year === 1) {
+      oneTimeCosts = results.oneTimeCosts;
+      cumulativeSavings = -oneTimeCosts;
+    }
+    const annualSavings = year === 1 ? results.firstYearSavings + oneTimeCosts : results.annualSavings;
+
+    cumulativeSavings += annualSavings;
+    years.push({
+      year,
+      humanSOCCost: results.humanSOCTotalCost,
+      autonomousSOCCost: results.humanSOCTotalCost - annualSavings,
+      annualSavings,
+      cumulativeSavings,
+      results,
+    });
+  }
+
+  // One-time costs and the autonomous SOC subscription are paid at the start of each year
+  // and the gross benefit (savings plus the subscription they cover) lands at its end
+  const cashFlows: number[] = new Array(years.length + 1).fill(0);
+  cashFlows[0] -= oneTimeCosts;
+  years.forEach(({ year, annualSavings, results }) => {
+    cashFlows[year - 1] -= results.autonomousSOCTotalCost;
+    cashFlows[year] += annualSavings + results.autonomousSOCTotalCost;
+  });
+
+  return {
+    years,
+    cashFlows,
+    oneTimeCosts,
+    cumulativeSavings,
+    npv: calculateNPV(inputs.discountRate, cashFlows),
+    irr: calculateIRR(cashFlows),
+  };
+};
@@ -0,0 +1,56 @@
+import { applyInputChange, defaultInputs, setVolumePricing } from './inputs.js';
+import { DEFAULT_VOLUME_PRICING } from './pricing.js';
+import { calculatePlatformCosts, calculateROI } from './roi.js';
+
+describe('calculatePlatformCosts', () => {
+  it('retires the SIEM licensing when switching from the legacy SIEM', () => {
+    expect(calculatePlatformCosts(defaultInputs)).toEqual({ siemCost: 0, stellarXDRCost: 86400 });
+  });
+
+  it('keeps the SIEM and adds Stellar XDR in coexistence mode', () => {
+    const inputs = { ...defaultInputs, switchFromLegacySIEM: false };
+    expect(calculatePlatformCosts(inputs)).toEqual({ siemCost: 129600, stellarXDRCost: 86400 });
+    expect(calculateROI(inputs).platformSavings).toBe(-86400);
+  });
+
+  it('licenses each platform for the share of logs forwarded to it', () => {
+    const inputs = {
+      ...defaultInputs,
+      switchFromLegacySIEM: false,
+      siemLogForwardingPercentage: 25,
+      xdrLogForwardingPercentage: 75,
+    };
+    expect(calculatePlatformCosts(inputs)).toEqual({ siemCost: 32400, stellarXDRCost: 64800 });
+    expect(calculateROI(inputs).platformSavings).toBe(129600 - 32400 - 64800);
+  });
+
+  it('prices Stellar XDR for the forwarded log volume unless its platform cost is pinned', () => {
+    const inputs = setVolumePricing({ ...defaultInputs, switchFromLegacySIEM: false, xdrLogForwardingPercentage: 50 }, 'logVolumePricing', {
+      ...DEFAULT_VOLUME_PRICING,
+      minimumAnnualValue: 60000,
+    });
+    // Half of 3,600 GB at $2 is $43,200 a year, below the minimum
+    expect(calculatePlatformCosts(inputs).stellarXDRCost).toBe(60000);
+    expect(calculatePlatformCosts(applyInputChange(inputs, 'stellarXDRPlatformCosts', 100000)).stellarXDRCost).toBe(50000);
+  });
+});
+
+describe('calculateROI', () => {
+  it('prices the human SOC at fully-loaded salaries', () => {
+    const base = calculateROI(defaultInputs).humanSOCTotalCost - defaultInputs.siemLicensingCosts;
+    const loaded = calculateROI({ ...defaultInputs, laborOverheadMultiplier: 1.3 }).humanSOCTotalCost - defaultInputs.siemLicensingCosts;
+    expect(loaded).toBeCloseTo(base * 1.3);
+  });
+
+  it('credits no efficiency savings on the SIEM licensing kept in coexistence', () => {
+    const coexistence = { ...defaultInputs, switchFromLegacySIEM: false, siemLogForwardingPercentage: 100 };
+    const withoutSIEM = calculateROI({ ...coexistence, siemLicensingCosts: 0 });
+    const withSIEM = calculateROI(coexistence);
+    // Keeping all of the SIEM adds its licensing to the current and adjusted cost alike
+    expect(withSIEM.humanSOCTotalCost - withSIEM.adjustedAnnualSOCCost).toBeCloseTo(
+      withoutSIEM.humanSOCTotalCost - withoutSIEM.adjustedAnnualSOCCost
+    );
+    expect(withSIEM.platformSavings).toBe(-calculatePlatformCosts(coexistence).stellarXDRCost);
+    expect(withSIEM.annualSavings).toBeCloseTo(withoutSIEM.annualSavings);
+  });
+});
@@ -0,0 +1,141 @@
+import { DEFAULT_COEFFICIENTS } from './coefficients.js';
+import { calculateCostItems } from './cost-items.js';
+import { getFullyLoadedCost } from './labor.js';
+import { calculatePaybackSchedule } from './payback.js';
+import { getPricingBreakdown } from './pricing.js';
+import type {
+  CalculationInputs,
+  CalculationResults,
+  EfficiencyCoefficients,
+  IncidentResponseCoefficients,
+  ModelCoefficients,
+  PlatformCosts,
+} from './types.js';
+
+export const calculateEfficiencyImprovement = (
+  inputs: CalculationInputs,
+  coefficients: EfficiencyCoefficients = DEFAULT_COEFFICIENTS.efficiency
+): number => {
+  // Base efficiency improvement from automation
+  const baseEfficiency = coefficients.base;
+
+  // False positive rate impact: Higher false positive rates mean greater efficiency gains
+  const falsePositiveImpact = Math.min(inputs.falsePositiveRate * coefficients.falsePositiveWeight, coefficients.falsePositiveCap);
+
+  // Response time impact: Slower response times indicate greater efficiency potential
+  const responseTimeImpact = Math.min(inputs.averageIncidentResponseTime * coefficients.responseTimeWeight, coefficients.responseTimeCap);
+
+  // Log volume impact: Higher log volumes mean greater efficiency gains from automation
+  // By default every GB in excess of 1 TiB (1024 GB) adds 0.001 points, up to 15 points
+  const excessLogVolume = Math.max(0, inputs.monthlyLogVolumeGB - coefficients.logVolumeThresholdGB);
+  const logVolumeImpact = Math.min(excessLogVolume * coefficients.logVolumeWeight, coefficients.logVolumeCap);
+
+  const totalEfficiency = baseEfficiency + falsePositiveImpact + responseTimeImpact + logVolumeImpact;
+
+  // Cap at the maximum efficiency improvement (80% by default)
+  return Math.min(totalEfficiency, coefficients.cap);
+};
+
+export const calculateIncidentResponseImprovement = (
+  inputs: CalculationInputs,
+  coefficients: IncidentResponseCoefficients = DEFAULT_COEFFICIENTS.incidentResponse
+): number => {
+  // Base response time improvement
+  const baseImprovement = coefficients.base;
+
+  // Current response time impact: Slower response times mean greater improvement potential
+  const responseTimeImpact = Math.min(inputs.averageIncidentResponseTime * coefficients.responseTimeWeight, coefficients.responseTimeCap);
+
+  // False positive impact: Higher false positives mean more time wasted, so greater improvement
+  const falsePositiveImpact = Math.min(inputs.falsePositiveRate * coefficients.falsePositiveWeight, coefficients.falsePositiveCap);
+
+  const totalImprovement = baseImprovement + responseTimeImpact + falsePositiveImpact;
+
+  // Cap at the maximum response improvement (80% by default)
+  return Math.min(totalImprovement, coefficients.cap);
+};
+
+// Annual platform spend once Stellar XDR is in place
+export const calculatePlatformCosts = (inputs: CalculationInputs): PlatformCosts => {
+  // Replacing the legacy SIEM retires its licensing entirely
+  if (inputs.switchFromLegacySIEM) {
+    return { siemCost: 0, stellarXDRCost: inputs.stellarXDRPlatformCosts };
+  }
+
+  // Coexistence keeps the SIEM alongside Stellar XDR, each licensed for the share of logs it receives.
+  // Stellar XDR is priced for its forwarded volume, since tiers, commitments and minimums do not scale with it,
+  // while a pinned platform cost is taken as the price of the full volume.
+  return {
+    siemCost: inputs.siemLicensingCosts * (inputs.siemLogForwardingPercentage / 100),
+    stellarXDRCost:
+      inputs.overrides.stellarXDRPlatformCosts === undefined
+        ? getPricingBreakdown(inputs, 'logVolumePricing').annualCost
+        : inputs.stellarXDRPlatformCosts * (inputs.xdrLogForwardingPercentage / 100),
+  };
+};
+
+export const calculateROI = (
+  inputs: CalculationInputs,
+  coefficients: ModelCoefficients = DEFAULT_COEFFICIENTS
+): CalculationResults => {
+  // Human SOC annual costs at fully-loaded salaries
+  const humanSOCPersonnelCost = (
+    inputs.humanSOCAnalysts * getFullyLoadedCost(inputs, 'analyst') +
+    inputs.humanSOCManager * getFullyLoadedCost(inputs, 'manager') +
+    inputs.humanSOCEngineer * getFullyLoadedCost(inputs, 'engineer') +
+    inputs.humanSOCDirector * getFullyLoadedCost(inputs, 'director')
+  );
+
+  // The rest of the current security stack, some of which the autonomous SOC retires or reduces
+  const costItems = calculateCostItems(inputs);
+
+  const humanSOCTotalCost = humanSOCPersonnelCost + inputs.siemLicensingCosts + costItems.currentCost;
+
+  // Autonomous SOC annual costs under its licensing plan, the incident volume at the unit price unless tiers or a commitment apply
+  const autonomousSOCAnnualCost = getPricingBreakdown(inputs, 'incidentPricing').annualCost;
+
+  const efficiencyImprovement = calculateEfficiencyImprovement(inputs, coefficients.efficiency);
+  const incidentResponseImprovement = calculateIncidentResponseImprovement(inputs, coefficients.incidentResponse);
+
+  // Calculate adjusted annual SOC cost (efficiency-adjusted human cost, plus the cost items that remain).
+  // Coexistence keeps paying the SIEM licensing, so it is carried in full and left to the platform costs.
+  const retainedSIEMCost = inputs.switchFromLegacySIEM ? 0 : inputs.siemLicensingCosts;
+  const adjustedAnnualSOCCost =
+    (humanSOCPersonnelCost + inputs.siemLicensingCosts - retainedSIEMCost) * (1 - efficiencyImprovement / 100) +
+    retainedSIEMCost +
+    (costItems.currentCost - costItems.savings);
+
+  // Calculate platform savings (current SIEM licensing costs - platform costs after the change)
+  const { siemCost, stellarXDRCost } = calculatePlatformCosts(inputs);
+  const platformSavings = inputs.siemLicensingCosts - (siemCost + stellarXDRCost);
+
+  // Calculate savings and ROI
+  const annualSavings = humanSOCTotalCost - (adjustedAnnualSOCCost + autonomousSOCAnnualCost) + platformSavings;
+
+  // Calculate ROI percentage, return 0 if autonomousSOCAnnualCost is 0 to avoid NaN
+  const roiPercentage = autonomousSOCAnnualCost === 0 ? 0 : (annualSavings / autonomousSOCAnnualCost) * 100;
+
+  // Month-by-month payback including one-time costs and the efficiency ramp-up
+  const { oneTimeCosts, firstYearSavings, paybackPeriod } = calculatePaybackSchedule(inputs, {
+    efficiencySavings: humanSOCTotalCost - adjustedAnnualSOCCost,
+    autonomousSOCTotalCost: autonomousSOCAnnualCost,
+    platformSavings,
+  });
+  const firstYearInvestment = autonomousSOCAnnualCost + oneTimeCosts;
+  const firstYearROIPercentage = firstYearInvestment === 0 ? 0 : (firstYearSavings / firstYearInvestment) * 100;
+
+  return {
+    humanSOCTotalCost,
+    autonomousSOCTotalCost: autonomousSOCAnnualCost,
+    adjustedAnnualSOCCost,
+    platformSavings,
+    annualSavings,
+    roiPercentage,
+    oneTimeCosts,
+    firstYearSavings,
+    firstYearROIPercentage,
+    paybackPeriod,
+    efficiencyImprovement,
+    incidentResponseImprovement,
+  };
+};
@@ -0,0 +1,58 @@
+import { DEFAULT_COEFFICIENTS } from './coefficients.js';
+import { runCalculation } from './engine.js';
+import { defaultInputs } from './inputs.js';
+import { TENANT_LOAD_FIELDS } from './mssp.js';
+import { calculateSensitivity, getSensitivitySwing, rankSensitivityDrivers } from './sensitivity.js';
+
+describe('calculateSensitivity', () => {
+  const analysis = calculateSensitivity(defaultInputs, 10);
+  const findCoefficient = (group: string, key: string) =>
+    analysis.drivers.find((driver) => driver.target.kind === 'coefficient' && driver.target.group === group && driver.target.key === key);
+
+  it('uses the current calculation as the baseline', () => {
+    const { results, totalValue } = runCalculation(defaultInputs);
+    expect(analysis.baseline).toEqual({ annualSavings: results.annualSavings, roiPercentage: results.roiPercentage, totalValue });
+  });
+
+  it('varies every numeric model input and internal coefficient', () => {
+    // The exchange rate only converts results for display
+    const numericInputs = Object.values(defaultInputs).filter((value) => typeof value === 'number').length - 1;
+    const coefficientCount = Object.values(DEFAULT_COEFFICIENTS).reduce((count, group) => count + Object.keys(group).length, 0);
+    expect(analysis.drivers).toHaveLength(numericInputs + coefficientCount);
+    expect(findCoefficient('efficiency', 'base')?.baseValue).toBe(38);
+  });
+
+  it('ranks drivers by swing and drops ones without effect', () => {
+    const ranked = rankSensitivityDrivers(analysis.drivers, 'annualSavings');
+    ranked.slice(1).forEach((driver, index) => {
+      expect(getSensitivitySwing(driver, 'annualSavings')).toBeLessThanOrEqual(getSensitivitySwing(ranked[index], 'annualSavings'));
+    });
+    expect(ranked).toContain(findCoefficient('efficiency', 'base'));
+    // The default inputs stay below the 80% efficiency cap
+    expect(ranked).not.toContain(findCoefficient('efficiency', 'cap'));
+    expect(ranked.some((driver) => driver.target.kind === 'input' && driver.target.field === 'discountRate')).toBe(false);
+  });
+
+  it('holds the tenant load fields in MSSP mode', () => {
+    const fields = calculateSensitivity({ ...defaultInputs, msspMode: true }, 10).drivers.flatMap(({ target }) =>
+      target.kind === 'input' ? [target.field] : []
+    );
+    expect(fields).toContain('monthlyLogVolumeGB');
+    expect(fields.filter((field) => TENANT_LOAD_FIELDS.includes(field))).toEqual([]);
+  });
+
+  it('keeps a driver at its limit within range', () => {
+    const findRate = (variationPercentage: number) =>
+      calculateSensitivity(defaultInputs, variationPercentage).drivers.find(
+        (driver) => driver.target.kind === 'input' && driver.target.field === 'falsePositiveRate'
+      );
+    // A 90% false positive rate is raised no further than 100%, whatever the variation
+    expect(findRate(20)?.high).toEqual(findRate(50)?.high);
+    expect(findRate(20)?.low).not.toEqual(findRate(50)?.low);
+  });
+
+  it('cascades input changes to derived fields', () => {
+    const employees = analysis.drivers.find((driver) => driver.target.kind === 'input' && driver.target.field === 'employeeCount');
+    expect(employees && getSensitivitySwing(employees, 'annualSavings')).toBeGreaterThan(0);
+  });
+});
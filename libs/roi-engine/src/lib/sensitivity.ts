@@ -0,0 +1,63 @@
+import { DEFAULT_COEFFICIENTS } from './coefficients.js';
+import { clampParameterValue, getModelParameters, getParameterValue, setParameterValue } from './parameters.js';
+import { calculateROI } from './roi.js';
+import { calculateTotalValue, calculateValueMetrics } from './value-metrics.js';
+import type { CalculationInputs, ModelCoefficients, ModelParameter, ModelState } from './types.js';
+
+export type SensitivityMetric = 'annualSavings' | 'roiPercentage' | 'totalValue';
+
+export type SensitivityMetrics = Record<SensitivityMetric, number>;
+
+export interface SensitivityDriver {
+  target: ModelParameter;
+  baseValue: number;
+  low: SensitivityMetrics; // metrics with the driver reduced by the variation
+  high: SensitivityMetrics; // metrics with the driver increased by the variation
+}
+
+export interface SensitivityAnalysis {
+  variationPercentage: number;
+  baseline: SensitivityMetrics;
+  drivers: SensitivityDriver[];
+}
+
+const evaluateMetrics = ({ inputs, coefficients }: ModelState): SensitivityMetrics => {
+  const { annualSavings, roiPercentage } = calculateROI(inputs, coefficients);
+  return {
+    annualSavings,
+    roiPercentage,
+    totalValue: calculateTotalValue(calculateValueMetrics(inputs, coefficients.value)),
+  };
+};
+
+// Each input and coefficient is moved on its own, holding everything else at its current value and within its limits
+export const calculateSensitivity = (
+  inputs: CalculationInputs,
+  variationPercentage: number,
+  coefficients: ModelCoefficients = DEFAULT_COEFFICIENTS
+): SensitivityAnalysis => {
+  const state: ModelState = { inputs, coefficients };
+  const factor = variationPercentage / 100;
+
+  const drivers = getModelParameters(state).map((target): SensitivityDriver => {
+    const baseValue = getParameterValue(state, target);
+    const evaluateAt = (value: number) => evaluateMetrics(setParameterValue(state, target, clampParameterValue(state, target, value)));
+    return {
+      target,
+      baseValue,
+      low: evaluateAt(baseValue * (1 - factor)),
+      high: evaluateAt(baseValue * (1 + factor)),
+    };
+  });
+
+  return { variationPercentage, baseline: evaluateMetrics(state), drivers };
+};
+
+export const getSensitivitySwing = (driver: SensitivityDriver, metric: SensitivityMetric): number =>
+  Math.abs(driver.high[metric] - driver.low[metric]);
+
+// Largest swing first, drivers that do not move the metric are dropped
+export const rankSensitivityDrivers = (drivers: SensitivityDriver[], metric: SensitivityMetric): SensitivityDriver[] =>
+  drivers
+    .filter((driver) => getSensitivitySwing(driver, metric) > 1e-9)
+    .sort((a, b) => getSensitivitySwing(b, metric) - getSensitivitySwing(a, metric));
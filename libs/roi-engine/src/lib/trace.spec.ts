@@ -0,0 +1,43 @@
+import { DEFAULT_COEFFICIENTS } from './coefficients.js';
+import { runCalculation } from './engine.js';
+import { defaultInputs } from './inputs.js';
+import { getCalculationTraces, type TraceKey } from './trace.js';
+
+describe('getCalculationTraces', () => {
+  it('ends every trace on the figure the calculator reports', () => {
+    const inputs = { ...defaultInputs, switchFromLegacySIEM: false, rampUpMonths: 6 };
+    const { results, workforce, valueMetrics } = runCalculation(inputs);
+    const traces = getCalculationTraces(inputs);
+    const reported: Record<TraceKey, number | null> = {
+      annualSavings: results.annualSavings,
+      annualTimeSavings: workforce.annualTimeSavings,
+      platformSavings: results.platformSavings,
+      freedEmployees: workforce.freedEmployees,
+      roiPercentage: results.roiPercentage,
+      efficiencyImprovement: results.efficiencyImprovement,
+      paybackPeriod: results.paybackPeriod,
+      firstYearROIPercentage: results.firstYearROIPercentage,
+      ...valueMetrics,
+    };
+
+    (Object.keys(reported) as TraceKey[]).forEach((key) => {
+      const steps = traces[key].steps;
+      expect(steps[steps.length - 1].value).toBe(reported[key]);
+    });
+  });
+
+  it('rebuilds efficiency from its components and flags the caps that applied', () => {
+    const inputs = { ...defaultInputs, falsePositiveRate: 90, averageIncidentResponseTime: 2 };
+    const steps = getCalculationTraces(inputs).efficiencyImprovement.steps;
+    const byLabel = Object.fromEntries(steps.map((step) => [step.label, step]));
+
+    expect(byLabel['False positive impact']).toMatchObject({ value: DEFAULT_COEFFICIENTS.efficiency.falsePositiveCap, capApplied: true });
+    expect(byLabel['Response time impact']).toMatchObject({ value: 6, capApplied: false });
+    expect(byLabel['Efficiency improvement'].operands[0].value).toBeCloseTo(
+      DEFAULT_COEFFICIENTS.efficiency.base +
+        (byLabel['False positive impact'].value ?? 0) +
+        (byLabel['Response time impact'].value ?? 0) +
+        (byLabel['Log volume impact'].value ?? 0)
+    );
+  });
+});
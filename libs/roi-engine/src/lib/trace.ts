@@ -0,0 +1,679 @@
+import { DEFAULT_COEFFICIENTS } from './coefficients.js';
+import { calculateCostItems, getCostItemAnnualCost, getCostItemSavingsShare } from './cost-items.js';
+import { getFullyLoadedCost, getHourlyRate, HOURS_PER_YEAR } from './labor.js';
+import { getLicensedVolume, getPricingBreakdown, isFlatPricing } from './pricing.js';
+import { calculatePlatformCosts } from './roi.js';
+import { runCalculation } from './engine.js';
+import { VALUE_CATEGORIES } from './value-metrics.js';
+import type { CalculationInputs, ModelCoefficients, ValueMetrics } from './types.js';
+
+export type TraceFormat = 'currency' | 'percentage' | 'number' | 'decimal' | 'hours' | 'months' | 'multiplier';
+
+export type KpiMetric =
+  | 'annualSavings'
+  | 'annualTimeSavings'
+  | 'platformSavings'
+  | 'freedEmployees'
+  | 'roiPercentage'
+  | 'efficiencyImprovement'
+  | 'paybackPeriod'
+  | 'firstYearROIPercentage';
+
+export type TraceKey = KpiMetric | keyof ValueMetrics;
+
+export interface TraceOperand {
+  label: string;
+  value: number;
+  format: TraceFormat;
+}
+
+export interface TraceStep {
+  label: string;
+  formula: string;
+  operands: TraceOperand[]; // the values substituted into the formula
+  value: number | null; // null when payback is not reached
+  format: TraceFormat;
+  capApplied?: boolean; // set on capped steps, true when the cap limited the result
+}
+
+export interface CalculationTrace {
+  key: TraceKey;
+  title: string;
+  steps: TraceStep[]; // the last step is the reported figure
+}
+
+export type CalculationTraces = Record<TraceKey, CalculationTrace>;
+
+const operand = (label: string, value: number, format: TraceFormat): TraceOperand => ({ label, value, format });
+
+// min(raw, cap) with a flag recording whether the cap took effect
+const cappedStep = (label: string, formula: string, operands: TraceOperand[], raw: number, cap: number, format: TraceFormat): TraceStep => ({
+  label,
+  formula,
+  operands,
+  value: Math.min(raw, cap),
+  format,
+  capApplied: raw > cap,
+});
+
+// Rebuilds each KPI and value category step by step from the same inputs and coefficients as runCalculation
+export const getCalculationTraces = (
+  inputs: CalculationInputs,
+  coefficients: ModelCoefficients = DEFAULT_COEFFICIENTS
+): CalculationTraces => {
+  const { results, workforce, valueMetrics } = runCalculation(inputs, coefficients);
+  const { efficiency, value } = coefficients;
+
+  const efficiencyOperand = operand('Efficiency improvement', results.efficiencyImprovement, 'percentage');
+  const headcountOperands = [
+    operand('Analysts', inputs.humanSOCAnalysts, 'number'),
+    operand('Managers', inputs.humanSOCManager, 'number'),
+    operand('Engineers', inputs.humanSOCEngineer, 'number'),
+    operand('Directors', inputs.humanSOCDirector, 'number'),
+  ];
+  const headcountStep: TraceStep = {
+    label: 'Total SOC headcount',
+    formula: 'Analysts + Managers + Engineers + Directors',
+    operands: headcountOperands,
+    value: workforce.totalHeadcount,
+    format: 'number',
+  };
+
+  // Efficiency improvement
+  const falsePositiveRaw = inputs.falsePositiveRate * efficiency.falsePositiveWeight;
+  const responseTimeRaw = inputs.averageIncidentResponseTime * efficiency.responseTimeWeight;
+  const excessLogVolume = Math.max(0, inputs.monthlyLogVolumeGB - efficiency.logVolumeThresholdGB);
+  const logVolumeRaw = excessLogVolume * efficiency.logVolumeWeight;
+  const efficiencyTotal =
+    efficiency.base +
+    Math.min(falsePositiveRaw, efficiency.falsePositiveCap) +
+    Math.min(responseTimeRaw, efficiency.responseTimeCap) +
+    Math.min(logVolumeRaw, efficiency.logVolumeCap);
+  const efficiencySteps: TraceStep[] = [
+    {
+      label: 'Base efficiency',
+      formula: 'Base automation improvement',
+      operands: [operand('Base', efficiency.base, 'percentage')],
+      value: efficiency.base,
+      format: 'percentage',
+    },
+    cappedStep(
+      'False positive impact',
+      'min(False positive rate × Weight, Cap)',
+      [
+        operand('False positive rate', inputs.falsePositiveRate, 'percentage'),
+        operand('Weight', efficiency.falsePositiveWeight, 'decimal'),
+        operand('Cap', efficiency.falsePositiveCap, 'percentage'),
+      ],
+      falsePositiveRaw,
+      efficiency.falsePositiveCap,
+      'percentage'
+    ),
+    cappedStep(
+      'Response time impact',
+      'min(Average response time × Weight, Cap)',
+      [
+        operand('Average response time (hours)', inputs.averageIncidentResponseTime, 'decimal'),
+        operand('Weight', efficiency.responseTimeWeight, 'decimal'),
+        operand('Cap', efficiency.responseTimeCap, 'percentage'),
+      ],
+      responseTimeRaw,
+      efficiency.responseTimeCap,
+      'percentage'
+    ),
+    {
+      label: 'Excess log volume (GB)',
+      formula: 'max(0, Monthly log volume - Threshold)',
+      operands: [
+        operand('Monthly log volume (GB)', inputs.monthlyLogVolumeGB, 'number'),
+        operand('Threshold (GB)', efficiency.logVolumeThresholdGB, 'number'),
+      ],
+      value: excessLogVolume,
+      format: 'number',
+    },
+    cappedStep(
+      'Log volume impact',
+      'min(Excess log volume × Weight, Cap)',
+      [
+        operand('Excess log volume (GB)', excessLogVolume, 'number'),
+        operand('Weight', efficiency.logVolumeWeight, 'decimal'),
+        operand('Cap', efficiency.logVolumeCap, 'percentage'),
+      ],
+      logVolumeRaw,
+      efficiency.logVolumeCap,
+      'percentage'
+    ),
+    cappedStep(
+      'Efficiency improvement',
+      'min(Base + False positive impact + Response time impact + Log volume impact, Cap)',
+      [operand('Uncapped total', efficiencyTotal, 'percentage'), operand('Cap', efficiency.cap, 'percentage')],
+      efficiencyTotal,
+      efficiency.cap,
+      'percentage'
+    ),
+  ];
+
+  // Costs and savings
+  const costItems = calculateCostItems(inputs);
+  const hasCostItems = inputs.costItems.length > 0;
+  const personnelCost = results.humanSOCTotalCost - inputs.siemLicensingCosts - costItems.currentCost;
+  const { siemCost, stellarXDRCost } = calculatePlatformCosts(inputs);
+  // The other security stack costs only appear in the trace when there are any
+  const costItemSteps: TraceStep[] = hasCostItems
+    ? [
+        {
+          label: 'Other security stack costs',
+          formula: 'Sum of the cost line items',
+          operands: inputs.costItems.map((item) => operand(item.name, getCostItemAnnualCost(item, inputs), 'currency')),
+          value: costItems.currentCost,
+          format: 'currency',
+        },
+        {
+          label: 'Security stack savings',
+          formula: 'Sum of each line item × Share retired or reduced',
+          operands: inputs.costItems.map((item) => operand(`${item.name} share`, getCostItemSavingsShare(item), 'percentage')),
+          value: costItems.savings,
+          format: 'currency',
+        },
+      ]
+    : [];
+  const humanCostSteps: TraceStep[] = [
+    {
+      label: 'Human SOC personnel cost',
+      formula: '(Analysts × Analyst salary + Managers × Manager salary + Engineers × Engineer salary + Directors × Director salary) × Overhead',
+      operands: [
+        ...headcountOperands,
+        operand('Analyst salary', inputs.analystSalary, 'currency'),
+        operand('Manager salary', inputs.managerSalary, 'currency'),
+        operand('Engineer salary', inputs.engineerSalary, 'currency'),
+        operand('Director salary', inputs.directorSalary, 'currency'),
+        operand('Overhead', inputs.laborOverheadMultiplier, 'multiplier'),
+      ],
+      value: personnelCost,
+      format: 'currency',
+    },
+    ...costItemSteps,
+    {
+      label: 'Human SOC total cost',
+      formula: hasCostItems ? 'Personnel cost + SIEM licensing + Other security stack costs' : 'Personnel cost + SIEM licensing',
+      operands: [
+        operand('Personnel cost', personnelCost, 'currency'),
+        operand('SIEM licensing', inputs.siemLicensingCosts, 'currency'),
+        ...(hasCostItems ? [operand('Other security stack costs', costItems.currentCost, 'currency')] : []),
+      ],
+      value: results.humanSOCTotalCost,
+      format: 'currency',
+    },
+  ];
+  // Licensing terms beyond the unit price show each price band, the overage and the minimum contract value
+  const incidentPricing = getPricingBreakdown(inputs, 'incidentPricing');
+  const autonomousCostStep: TraceStep = isFlatPricing(inputs.incidentPricing)
+    ? {
+        label: 'Autonomous SOC cost',
+        formula: 'Incidents per month × Price per incident × 12',
+        operands: [
+          operand('Incidents per month', inputs.securityIncidentsPerMonth, 'number'),
+          operand('Price per incident', inputs.pricePerSecurityIncident, 'currency'),
+        ],
+        value: results.autonomousSOCTotalCost,
+        format: 'currency',
+      }
+    : {
+        label: 'Autonomous SOC cost',
+        formula:
+          'max(Sum of each tier\'s incidents × Tier price × 12 + Overage incidents × Overage price × 12, Minimum contract value)',
+        operands: [
+          ...incidentPricing.bands.flatMap((band, index) => [
+            operand(`Tier ${index + 1} incidents`, band.volume, 'number'),
+            operand(`Tier ${index + 1} price`, band.price, 'currency'),
+          ]),
+          operand('Overage incidents', incidentPricing.overageVolume, 'number'),
+          operand('Overage price', inputs.incidentPricing.overagePrice, 'currency'),
+          operand('Minimum contract value', inputs.incidentPricing.minimumAnnualValue, 'currency'),
+        ],
+        value: results.autonomousSOCTotalCost,
+        format: 'currency',
+      };
+  const platformSteps: TraceStep[] = [
+    inputs.switchFromLegacySIEM
+      ? {
+          label: 'Platform cost after the change',
+          formula: 'Stellar XDR platform cost (legacy SIEM retired)',
+          operands: [operand('Stellar XDR platform cost', inputs.stellarXDRPlatformCosts, 'currency')],
+          value: siemCost + stellarXDRCost,
+          format: 'currency',
+        }
+      : inputs.overrides.stellarXDRPlatformCosts !== undefined
+        ? {
+            label: 'Platform cost after the change',
+            formula: 'SIEM licensing × SIEM forwarding share + Stellar XDR platform cost × XDR forwarding share',
+            operands: [
+              operand('SIEM licensing', inputs.siemLicensingCosts, 'currency'),
+              operand('SIEM forwarding share', inputs.siemLogForwardingPercentage, 'percentage'),
+              operand('Stellar XDR platform cost', inputs.stellarXDRPlatformCosts, 'currency'),
+              operand('XDR forwarding share', inputs.xdrLogForwardingPercentage, 'percentage'),
+            ],
+            value: siemCost + stellarXDRCost,
+            format: 'currency',
+          }
+        : {
+            label: 'Platform cost after the change',
+            formula: 'SIEM licensing × SIEM forwarding share + Stellar XDR pricing for the forwarded log volume',
+            operands: [
+              operand('SIEM licensing', inputs.siemLicensingCosts, 'currency'),
+              operand('SIEM forwarding share', inputs.siemLogForwardingPercentage, 'percentage'),
+              operand('Log volume forwarded to Stellar XDR (GB)', getLicensedVolume(inputs, 'logVolumePricing'), 'number'),
+              operand('Stellar XDR licensing', stellarXDRCost, 'currency'),
+            ],
+            value: siemCost + stellarXDRCost,
+            format: 'currency',
+          },
+    {
+      label: 'Platform savings',
+      formula: 'SIEM licensing - Platform cost after the change',
+      operands: [
+        operand('SIEM licensing', inputs.siemLicensingCosts, 'currency'),
+        operand('Platform cost after the change', siemCost + stellarXDRCost, 'currency'),
+      ],
+      value: results.platformSavings,
+      format: 'currency',
+    },
+  ];
+  const costItemOperands = hasCostItems
+    ? [operand('Other security stack costs', costItems.currentCost, 'currency'), operand('Security stack savings', costItems.savings, 'currency')]
+    : [];
+  // Coexistence keeps paying the SIEM licensing, so only the personnel cost is reduced
+  const adjustedCostStep: TraceStep = !inputs.switchFromLegacySIEM
+    ? {
+        label: 'Efficiency-adjusted human SOC cost',
+        formula: hasCostItems
+          ? 'Personnel cost × (1 - Efficiency improvement) + SIEM licensing + Other security stack costs - Security stack savings'
+          : 'Personnel cost × (1 - Efficiency improvement) + SIEM licensing',
+        operands: [
+          operand('Personnel cost', personnelCost, 'currency'),
+          efficiencyOperand,
+          operand('SIEM licensing', inputs.siemLicensingCosts, 'currency'),
+          ...costItemOperands,
+        ],
+        value: results.adjustedAnnualSOCCost,
+        format: 'currency',
+      }
+    : hasCostItems
+      ? {
+          label: 'Efficiency-adjusted human SOC cost',
+          formula:
+            '(Personnel cost + SIEM licensing) × (1 - Efficiency improvement) + Other security stack costs - Security stack savings',
+          operands: [
+            operand('Personnel cost', personnelCost, 'currency'),
+            operand('SIEM licensing', inputs.siemLicensingCosts, 'currency'),
+            efficiencyOperand,
+            ...costItemOperands,
+          ],
+          value: results.adjustedAnnualSOCCost,
+          format: 'currency',
+        }
+      : {
+          label: 'Efficiency-adjusted human SOC cost',
+          formula: 'Human SOC total cost × (1 - Efficiency improvement)',
+          operands: [operand('Human SOC total cost', results.humanSOCTotalCost, 'currency'), efficiencyOperand],
+          value: results.adjustedAnnualSOCCost,
+          format: 'currency',
+        };
+  const annualSavingsSteps: TraceStep[] = [
+    ...humanCostSteps,
+    adjustedCostStep,
+    autonomousCostStep,
+    ...platformSteps,
+    {
+      label: 'Annual savings',
+      formula: 'Human SOC total cost - (Efficiency-adjusted cost + Autonomous SOC cost) + Platform savings',
+      operands: [
+        operand('Human SOC total cost', results.humanSOCTotalCost, 'currency'),
+        operand('Efficiency-adjusted cost', results.adjustedAnnualSOCCost, 'currency'),
+        operand('Autonomous SOC cost', results.autonomousSOCTotalCost, 'currency'),
+        operand('Platform savings', results.platformSavings, 'currency'),
+      ],
+      value: results.annualSavings,
+      format: 'currency',
+    },
+  ];
+
+  // One-time costs and the month-by-month payback
+  const dualRunningCost = results.oneTimeCosts - inputs.professionalServicesCost - inputs.siemMigrationCost - inputs.trainingCost;
+  const efficiencySavings = results.humanSOCTotalCost - results.adjustedAnnualSOCCost;
+  const oneTimeCostStep: TraceStep = {
+    label: 'One-time costs',
+    formula: inputs.switchFromLegacySIEM
+      ? 'Professional services + SIEM migration + Training + SIEM licensing ÷ 12 × Dual-running months'
+      : 'Professional services + SIEM migration + Training',
+    operands: [
+      operand('Professional services', inputs.professionalServicesCost, 'currency'),
+      operand('SIEM migration', inputs.siemMigrationCost, 'currency'),
+      operand('Training', inputs.trainingCost, 'currency'),
+      ...(inputs.switchFromLegacySIEM ? [operand('Dual running', dualRunningCost, 'currency')] : []),
+    ],
+    value: results.oneTimeCosts,
+    format: 'currency',
+  };
+  const monthlyBenefitStep: TraceStep = {
+    label: 'Monthly net savings at full efficiency',
+    formula: '(Efficiency savings - Autonomous SOC cost + Platform savings) ÷ 12',
+    operands: [
+      operand('Efficiency savings', efficiencySavings, 'currency'),
+      operand('Autonomous SOC cost', results.autonomousSOCTotalCost, 'currency'),
+      operand('Platform savings', results.platformSavings, 'currency'),
+    ],
+    value: (efficiencySavings - results.autonomousSOCTotalCost + results.platformSavings) / 12,
+    format: 'currency',
+  };
+  const rampUpOperand = operand('Ramp-up months', inputs.rampUpMonths, 'months');
+
+  // Value categories share the fully-loaded analyst rate
+  const analystHourlyRate = getHourlyRate(inputs, 'analyst');
+  const hourlyRateStep: TraceStep = {
+    label: 'Analyst hourly rate',
+    formula: `Analyst salary × Overhead ÷ ${HOURS_PER_YEAR} hours`,
+    operands: [
+      operand('Analyst salary', inputs.analystSalary, 'currency'),
+      operand('Overhead', inputs.laborOverheadMultiplier, 'multiplier'),
+    ],
+    value: analystHourlyRate,
+    format: 'currency',
+  };
+  const incidentsOperand = operand('Incidents per month', inputs.securityIncidentsPerMonth, 'number');
+  const falsePositiveRateOperand = operand('False positive rate', inputs.falsePositiveRate, 'percentage');
+  const analystsOperand = operand('Analysts', inputs.humanSOCAnalysts, 'number');
+  const rateOperand = operand('Analyst hourly rate', analystHourlyRate, 'currency');
+  const genuineIncidentsStep: TraceStep = {
+    label: 'Genuine incidents per year',
+    formula: 'Incidents per month × (1 - False positive rate) × 12',
+    operands: [incidentsOperand, falsePositiveRateOperand],
+    value: inputs.securityIncidentsPerMonth * (1 - inputs.falsePositiveRate / 100) * 12,
+    format: 'number',
+  };
+  const falsePositivesAvoided =
+    inputs.securityIncidentsPerMonth * ((inputs.falsePositiveRate - value.autonomousFalsePositiveRate) / 100) * 12;
+  const falsePositivesPerYear = inputs.securityIncidentsPerMonth * (inputs.falsePositiveRate / 100) * 12;
+  const genuineIncidentsPerYear = genuineIncidentsStep.value ?? 0;
+  const hoursRedirected = inputs.humanSOCAnalysts * HOURS_PER_YEAR * (value.productivityTimeSaved / 100);
+  const truePositiveSavings =
+    genuineIncidentsPerYear * inputs.averageIncidentResponseTime * (value.truePositiveResponseSavings / 100) * analystHourlyRate;
+  const falsePositiveSavings =
+    falsePositivesPerYear * value.falsePositiveInvestigationHours * (value.falsePositiveResponseSavings / 100) * analystHourlyRate;
+  const turnoverCost = getFullyLoadedCost(inputs, 'analyst') * (value.turnoverCostShare / 100);
+
+  const valueSteps: Record<keyof ValueMetrics, TraceStep[]> = {
+    falsePositiveReduction: [
+      hourlyRateStep,
+      {
+        label: 'False positives avoided per year',
+        formula: 'Incidents per month × (False positive rate - Autonomous false positive rate) × 12',
+        operands: [incidentsOperand, falsePositiveRateOperand, operand('Autonomous false positive rate', value.autonomousFalsePositiveRate, 'percentage')],
+        value: falsePositivesAvoided,
+        format: 'number',
+      },
+      {
+        label: 'False Positive Reduction',
+        formula: 'False positives avoided × Hours per false positive × Analyst hourly rate',
+        operands: [
+          operand('False positives avoided', falsePositivesAvoided, 'number'),
+          operand('Hours per false positive', value.hoursPerFalsePositive, 'decimal'),
+          rateOperand,
+        ],
+        value: valueMetrics.falsePositiveReduction,
+        format: 'currency',
+      },
+    ],
+    riskReduction: [
+      genuineIncidentsStep,
+      {
+        label: 'Risk Reduction',
+        formula: 'Genuine incidents per year × Escalation cost × Escalation reduction',
+        operands: [
+          operand('Genuine incidents per year', genuineIncidentsPerYear, 'number'),
+          operand('Escalation cost', value.escalationCost, 'currency'),
+          operand('Escalation reduction', value.escalationReduction, 'percentage'),
+        ],
+        value: valueMetrics.riskReduction,
+        format: 'currency',
+      },
+    ],
+    productivityImprovement: [
+      hourlyRateStep,
+      {
+        label: 'Hours redirected per year',
+        formula: `Analysts × ${HOURS_PER_YEAR} hours × Time saved`,
+        operands: [analystsOperand, operand('Time saved', value.productivityTimeSaved, 'percentage')],
+        value: hoursRedirected,
+        format: 'hours',
+      },
+      {
+        label: 'Productivity Improvement',
+        formula: 'Hours redirected × Analyst hourly rate × Productivity multiplier',
+        operands: [
+          operand('Hours redirected', hoursRedirected, 'hours'),
+          rateOperand,
+          operand('Productivity multiplier', value.productivityMultiplier, 'multiplier'),
+        ],
+        value: valueMetrics.productivityImprovement,
+        format: 'currency',
+      },
+    ],
+    incidentResponseTime: [
+      hourlyRateStep,
+      genuineIncidentsStep,
+      {
+        label: 'True positive response savings',
+        formula: 'Genuine incidents per year × Average response time × True positive time saved × Analyst hourly rate',
+        operands: [
+          operand('Genuine incidents per year', genuineIncidentsPerYear, 'number'),
+          operand('Average response time (hours)', inputs.averageIncidentResponseTime, 'decimal'),
+          operand('True positive time saved', value.truePositiveResponseSavings, 'percentage'),
+          rateOperand,
+        ],
+        value: truePositiveSavings,
+        format: 'currency',
+      },
+      {
+        label: 'False positive investigation savings',
+        formula: 'False positives per year × Investigation hours × False positive time saved × Analyst hourly rate',
+        operands: [
+          operand('False positives per year', falsePositivesPerYear, 'number'),
+          operand('Investigation hours', value.falsePositiveInvestigationHours, 'decimal'),
+          operand('False positive time saved', value.falsePositiveResponseSavings, 'percentage'),
+          rateOperand,
+        ],
+        value: falsePositiveSavings,
+        format: 'currency',
+      },
+      {
+        label: 'Faster Response Time',
+        formula: 'True positive response savings + False positive investigation savings',
+        operands: [
+          operand('True positive response savings', truePositiveSavings, 'currency'),
+          operand('False positive investigation savings', falsePositiveSavings, 'currency'),
+        ],
+        value: valueMetrics.incidentResponseTime,
+        format: 'currency',
+      },
+    ],
+    analystRetention: [
+      {
+        label: 'Turnover cost per analyst',
+        formula: 'Analyst salary × Overhead × Turnover cost share',
+        operands: [
+          operand('Analyst salary', inputs.analystSalary, 'currency'),
+          operand('Overhead', inputs.laborOverheadMultiplier, 'multiplier'),
+          operand('Turnover cost share', value.turnoverCostShare, 'percentage'),
+        ],
+        value: turnoverCost,
+        format: 'currency',
+      },
+      {
+        label: 'Analyst Retention',
+        formula: 'Analysts × Turnover cost per analyst × Turnover reduction',
+        operands: [
+          analystsOperand,
+          operand('Turnover cost per analyst', turnoverCost, 'currency'),
+          operand('Turnover reduction', value.turnoverReduction, 'percentage'),
+        ],
+        value: valueMetrics.analystRetention,
+        format: 'currency',
+      },
+    ],
+    complianceEfficiency: [
+      hourlyRateStep,
+      {
+        label: 'Compliance Efficiency',
+        formula: 'Analysts × Compliance hours per analyst × Analyst hourly rate × Effort saved',
+        operands: [
+          analystsOperand,
+          operand('Compliance hours per analyst', value.complianceHoursPerAnalyst, 'hours'),
+          rateOperand,
+          operand('Effort saved', value.complianceEfficiency, 'percentage'),
+        ],
+        value: valueMetrics.complianceEfficiency,
+        format: 'currency',
+      },
+    ],
+    stressReduction: [
+      {
+        label: 'Stress Reduction',
+        formula: 'Analysts × Value per analyst',
+        operands: [analystsOperand, operand('Value per analyst', value.stressValuePerAnalyst, 'currency')],
+        value: valueMetrics.stressReduction,
+        format: 'currency',
+      },
+    ],
+    shiftCoverage: [
+      {
+        label: '24/7 Coverage',
+        formula: 'Analysts × Value per analyst',
+        operands: [analystsOperand, operand('Value per analyst', value.shiftCoverageValuePerAnalyst, 'currency')],
+        value: valueMetrics.shiftCoverage,
+        format: 'currency',
+      },
+    ],
+  };
+
+  const kpiTraces: Record<KpiMetric, Omit<CalculationTrace, 'key'>> = {
+    annualSavings: { title: 'Annual Savings', steps: annualSavingsSteps },
+    annualTimeSavings: {
+      title: 'Annual Time Savings',
+      steps: [
+        headcountStep,
+        {
+          label: 'Monthly time savings',
+          formula: `Total SOC headcount × ${HOURS_PER_YEAR} hours ÷ 12 × Efficiency improvement`,
+          operands: [operand('Total SOC headcount', workforce.totalHeadcount, 'number'), efficiencyOperand],
+          value: workforce.monthlyTimeSavings,
+          format: 'hours',
+        },
+        {
+          label: 'Annual time savings',
+          formula: 'Monthly time savings × 12',
+          operands: [operand('Monthly time savings', workforce.monthlyTimeSavings, 'hours')],
+          value: workforce.annualTimeSavings,
+          format: 'hours',
+        },
+      ],
+    },
+    platformSavings: { title: 'Platform Savings', steps: platformSteps },
+    freedEmployees: {
+      title: 'Freed Employees',
+      steps: [
+        headcountStep,
+        {
+          label: 'Optimized headcount',
+          formula: 'max(0, roundup(Total SOC headcount × (1 - Efficiency improvement)))',
+          operands: [operand('Total SOC headcount', workforce.totalHeadcount, 'number'), efficiencyOperand],
+          value: workforce.optimizedHeadcount,
+          format: 'number',
+        },
+        {
+          label: 'Freed employees',
+          formula: 'max(0, Total SOC headcount - Optimized headcount)',
+          operands: [
+            operand('Total SOC headcount', workforce.totalHeadcount, 'number'),
+            operand('Optimized headcount', workforce.optimizedHeadcount, 'number'),
+          ],
+          value: workforce.freedEmployees,
+          format: 'number',
+        },
+      ],
+    },
+    roiPercentage: {
+      title: 'ROI',
+      steps: [
+        autonomousCostStep,
+        {
+          label: 'ROI',
+          formula: 'Annual savings ÷ Autonomous SOC cost × 100 (0 when there is no autonomous SOC cost)',
+          operands: [
+            operand('Annual savings', results.annualSavings, 'currency'),
+            operand('Autonomous SOC cost', results.autonomousSOCTotalCost, 'currency'),
+          ],
+          value: results.roiPercentage,
+          format: 'percentage',
+        },
+      ],
+    },
+    efficiencyImprovement: { title: 'Efficiency Improvement', steps: efficiencySteps },
+    paybackPeriod: {
+      title: 'Payback Period',
+      steps: [
+        oneTimeCostStep,
+        monthlyBenefitStep,
+        {
+          label: 'Payback period',
+          formula:
+            'First month in which cumulative net savings cover the one-time costs, with efficiency savings phasing in linearly over the ramp-up months',
+          operands: [
+            operand('One-time costs', results.oneTimeCosts, 'currency'),
+            operand('Monthly net savings at full efficiency', monthlyBenefitStep.value ?? 0, 'currency'),
+            rampUpOperand,
+          ],
+          value: results.paybackPeriod,
+          format: 'months',
+        },
+      ],
+    },
+    firstYearROIPercentage: {
+      title: 'First-Year ROI',
+      steps: [
+        oneTimeCostStep,
+        {
+          label: 'First-year net savings',
+          formula: 'Sum of the first 12 monthly net savings with efficiency ramp-up - One-time costs',
+          operands: [
+            operand('Monthly net savings at full efficiency', monthlyBenefitStep.value ?? 0, 'currency'),
+            rampUpOperand,
+            operand('One-time costs', results.oneTimeCosts, 'currency'),
+          ],
+          value: results.firstYearSavings,
+          format: 'currency',
+        },
+        {
+          label: 'First-year ROI',
+          formula: 'First-year net savings ÷ (Autonomous SOC cost + One-time costs) × 100',
+          operands: [
+            operand('First-year net savings', results.firstYearSavings, 'currency'),
+            operand('Autonomous SOC cost', results.autonomousSOCTotalCost, 'currency'),
+            operand('One-time costs', results.oneTimeCosts, 'currency'),
+          ],
+          value: results.firstYearROIPercentage,
+          format: 'percentage',
+        },
+      ],
+    },
+  };
+
+  const traces = {} as CalculationTraces;
+  (Object.keys(kpiTraces) as KpiMetric[]).forEach((key) => {
+    traces[key] = { key, ...kpiTraces[key] };
+  });
+  VALUE_CATEGORIES.forEach(({ key, name }) => {
+    traces[key] = { key, title: name, steps: valueSteps[key] };
+  });
+  return traces;
+};
@@ -0,0 +1,348 @@
+export type SalaryRegion = 'us' | 'emea' | 'apac' | 'india';
+
+export type Industry = 'finance' | 'healthcare' | 'retail' | 'manufacturing' | 'publicSector' | 'mssp';
+
+export type CurrencyCode = 'USD' | 'EUR' | 'GBP' | 'JPY' | 'AUD' | 'CAD' | 'SGD' | 'INR';
+
+export type SOCRole = 'analyst' | 'manager' | 'engineer' | 'director';
+
+// Computed inputs that can be overridden by hand
+export type DerivedField =
+  | 'monthlyLogVolumeGB'
+  | 'siemLicensingCosts'
+  | 'stellarXDRPlatformCosts'
+  | 'humanSOCAnalysts'
+  | 'humanSOCManager'
+  | 'humanSOCEngineer'
+  | 'humanSOCDirector';
+
+export type DerivedOverrides = Partial<Record<DerivedField, number>>;
+
+// What the autonomous SOC does to a cost in the existing security stack
+export type CostItemTreatment = 'retired' | 'reduced' | 'unchanged';
+
+// Per-unit items are priced per employee or SOC head per year, or per incident or GB of logs each month
+export type CostItemUnit = 'employee' | 'socHeadcount' | 'incident' | 'logGB';
+
+export interface CostLineItem {
+  id: string;
+  name: string;
+  basis: 'annual' | 'perUnit';
+  amount: number; // annual amount, or the price per unit
+  unit: CostItemUnit; // only used by per-unit items
+  treatment: CostItemTreatment;
+  reductionPercentage: number; // only used by reduced items
+}
+
+// A customer of an MSSP, served by the shared SOC
+export interface MsspTenant {
+  id: string;
+  name: string;
+  employeeCount: number;
+  securityIncidentsPerMonth: number;
+  monthlyLogVolumeGB: number;
+  falsePositiveRate: number; // percentage
+  monthlyFee: number; // what the MSSP charges the tenant
+}
+
+// Flat charges every unit at the unit price, tiered applies price breaks by monthly volume
+export type PricingModel = 'flat' | 'tiered';
+
+// Monthly units from `from` up to the next tier's start are charged at `price`
+export interface PriceTier {
+  from: number;
+  price: number;
+}
+
+// Licensing terms for a product priced by volume, on top of its unit price
+export interface VolumePricing {
+  model: PricingModel;
+  tiers: PriceTier[]; // used by the tiered model, units below the first tier are charged at the unit price
+  committedVolume: number; // monthly volume committed for the year, 0 for pay-as-you-go
+  overagePrice: number; // per unit above the committed volume, 0 charges it at the tier prices
+  minimumAnnualValue: number; // minimum annual contract value
+}
+
+export interface BaseInputs {
+  employeeCount: number;
+  averageIncidentResponseTime: number; // in hours
+  falsePositiveRate: number; // percentage
+  pricePerSecurityIncident: number; // in dollars
+  legacySIEMPricePerGB: number;
+  stellarXDRCostPerGB: number;
+  logVolumeIncidentRatio: number;
+  switchFromLegacySIEM: boolean;
+
+  // Currencies: monetary inputs are entered in the input currency, results are reported in the reporting currency
+  inputCurrency: CurrencyCode;
+  reportingCurrency: CurrencyCode;
+  exchangeRate: number; // reporting currency units per unit of input currency
+
+  // Incident density: an industry preset sets the ratios below, editing one by hand makes it custom
+  industry: Industry | 'custom';
+  incidentsPerEmployee: number; // monthly incidents per employee
+  linkEmployeesToIncidents: boolean; // when false, employees and incidents are set independently
+  unlinkedIncidentsPerMonth: number; // incident volume used while unlinked
+
+  // SIEM coexistence: share of the log volume forwarded to each platform
+  siemLogForwardingPercentage: number; // percentage
+  xdrLogForwardingPercentage: number; // percentage
+
+  // Labor costs: annual base salary per SOC role and the benefits/overhead loading
+  salaryRegion: SalaryRegion | 'custom';
+  analystSalary: number;
+  managerSalary: number;
+  engineerSalary: number;
+  directorSalary: number;
+  laborOverheadMultiplier: number;
+
+  // Staffing ratios: monthly incidents handled per head of each role (0 leaves the role unstaffed by load),
+  // a floor per role, and optional span-of-control rules that size a role from the one it manages (0 = off)
+  incidentsPerAnalyst: number;
+  incidentsPerManager: number;
+  incidentsPerEngineer: number;
+  incidentsPerDirector: number;
+  minAnalysts: number;
+  minManagers: number;
+  minEngineers: number;
+  minDirectors: number;
+  analystsPerManager: number;
+  managersPerDirector: number;
+
+  // Multi-year projection
+  projectionYears: number;
+  employeeGrowthRate: number; // percentage per year
+  logVolumeGrowthRate: number; // percentage per year
+  salaryInflationRate: number; // percentage per year
+  legacySIEMPriceEscalator: number; // percentage per year
+  stellarPriceEscalator: number; // percentage per year, Stellar XDR and per-incident pricing
+  discountRate: number; // percentage
+
+  // One-time implementation costs and ramp-up
+  professionalServicesCost: number;
+  siemMigrationCost: number;
+  trainingCost: number;
+  dualRunningMonths: number; // months both platforms are licensed during cutover
+  rampUpMonths: number; // months for efficiency gains to phase in
+
+  // Pinned values for computed fields, kept in place of the computed value whatever else changes
+  overrides: DerivedOverrides;
+
+  // Other current-state costs such as SOAR, threat-intel feeds or MDR retainers
+  costItems: CostLineItem[];
+
+  // MSSP mode: one shared SOC sized from the combined load of the tenants
+  msspMode: boolean;
+  tenants: MsspTenant[];
+
+  // Licensing terms for the autonomous SOC (per incident) and Stellar XDR (per GB of logs)
+  incidentPricing: VolumePricing;
+  logVolumePricing: VolumePricing;
+}
+
+export interface CalculationInputs extends BaseInputs {
+  // Security metrics
+  securityIncidentsPerMonth: number;
+
+  // Human SOC costs
+  humanSOCAnalysts: number;
+  humanSOCManager: number;
+  humanSOCEngineer: number;
+  humanSOCDirector: number;
+
+  // Log volume metrics
+  monthlyLogVolumeGB: number;
+  stellarXDRPlatformCosts: number;
+  siemLicensingCosts: number;
+}
+
+// Inputs holding a single value, the overrides are set through the derived fields they pin
+// and the cost items, tenants and pricing plans in their own editors
+export type InputField = Exclude<
+  keyof CalculationInputs,
+  'overrides' | 'costItems' | 'tenants' | 'incidentPricing' | 'logVolumePricing'
+>;
+
+export interface CalculationResults {
+  humanSOCTotalCost: number;
+  autonomousSOCTotalCost: number;
+  adjustedAnnualSOCCost: number;
+  platformSavings: number;
+  annualSavings: number;
+  roiPercentage: number;
+  oneTimeCosts: number;
+  firstYearSavings: number; // net of one-time costs and ramp-up
+  firstYearROIPercentage: number;
+  paybackPeriod: number | null; // in months, null when not reached
+  efficiencyImprovement: number; // percentage
+  incidentResponseImprovement: number; // percentage
+}
+
+// Units charged in one price band, the last band has no upper bound
+export interface PriceBand {
+  from: number;
+  to: number | null;
+  price: number;
+  volume: number; // monthly units charged in the band
+  annualCost: number;
+}
+
+export interface PricingBreakdown {
+  volume: number; // monthly units used
+  billedVolume: number; // monthly units charged through the bands, at least the committed volume when there is one
+  bands: PriceBand[];
+  overageVolume: number; // monthly units above the committed volume charged at the overage price
+  overageCost: number;
+  minimumTopUp: number; // added to reach the minimum annual contract value
+  annualCost: number;
+}
+
+export interface PaybackMonth {
+  month: number;
+  benefit: number;
+  cumulative: number;
+}
+
+export interface PaybackSchedule {
+  oneTimeCosts: number;
+  months: PaybackMonth[];
+  firstYearSavings: number;
+  paybackPeriod: number | null; // in months
+}
+
+export interface PlatformCosts {
+  siemCost: number;
+  stellarXDRCost: number;
+}
+
+export interface ValueMetrics {
+  falsePositiveReduction: number;
+  riskReduction: number;
+  productivityImprovement: number;
+  incidentResponseTime: number;
+  analystRetention: number;
+  complianceEfficiency: number;
+  stressReduction: number;
+  shiftCoverage: number;
+}
+
+export type LaborCostInputs = Pick<
+  BaseInputs,
+  'analystSalary' | 'managerSalary' | 'engineerSalary' | 'directorSalary' | 'laborOverheadMultiplier'
+>;
+
+export type ValueMetricsInputs = LaborCostInputs & Pick<
+  CalculationInputs,
+  'falsePositiveRate' | 'securityIncidentsPerMonth' | 'averageIncidentResponseTime' | 'humanSOCAnalysts'
+>;
+
+// Internal model coefficients, percentages are whole numbers like the inputs
+export interface EfficiencyCoefficients {
+  base: number;
+  falsePositiveWeight: number; // points per % false positive rate
+  falsePositiveCap: number;
+  responseTimeWeight: number; // points per hour of response time
+  responseTimeCap: number;
+  logVolumeThresholdGB: number;
+  logVolumeWeight: number; // points per GB above the threshold
+  logVolumeCap: number;
+  cap: number;
+}
+
+export interface IncidentResponseCoefficients {
+  base: number;
+  responseTimeWeight: number;
+  responseTimeCap: number;
+  falsePositiveWeight: number;
+  falsePositiveCap: number;
+  cap: number;
+}
+
+export interface ValueCoefficients {
+  autonomousFalsePositiveRate: number;
+  hoursPerFalsePositive: number;
+  escalationCost: number;
+  escalationReduction: number;
+  productivityTimeSaved: number;
+  productivityMultiplier: number;
+  truePositiveResponseSavings: number;
+  falsePositiveInvestigationHours: number;
+  falsePositiveResponseSavings: number;
+  turnoverCostShare: number;
+  turnoverReduction: number;
+  complianceHoursPerAnalyst: number;
+  complianceEfficiency: number;
+  stressValuePerAnalyst: number;
+  shiftCoverageValuePerAnalyst: number;
+}
+
+export interface ModelCoefficients {
+  efficiency: EfficiencyCoefficients;
+  incidentResponse: IncidentResponseCoefficients;
+  value: ValueCoefficients;
+}
+
+export type CoefficientGroup = keyof ModelCoefficients;
+
+// A numeric input or internal coefficient that analyses can vary
+export type ModelParameter =
+  | { kind: 'input'; field: InputField }
+  | { kind: 'coefficient'; group: CoefficientGroup; key: string };
+
+export interface ModelState {
+  inputs: CalculationInputs;
+  coefficients: ModelCoefficients;
+}
+
+export interface WorkforceImpact {
+  totalHeadcount: number;
+  optimizedHeadcount: number;
+  freedEmployees: number;
+  monthlyTimeSavings: number; // in hours
+  annualTimeSavings: number; // in hours
+}
+
+export interface ProjectionYear {
+  year: number;
+  humanSOCCost: number;
+  autonomousSOCCost: number;
+  annualSavings: number;
+  cumulativeSavings: number;
+  results: CalculationResults;
+}
+
+export interface Projection {
+  years: ProjectionYear[];
+  cashFlows: number[]; // index 0 is the start of year 1
+  oneTimeCosts: number;
+  cumulativeSavings: number; // net of one-time costs
+  npv: number;
+  irr: number | null; // percentage, null when the cash flows never change sign
+}
+
+// Annual figures for one tenant, its share of the shared SOC costs follows its share of the load
+export interface TenantResult {
+  id: string;
+  name: string;
+  incidentShare: number; // percentage of the portfolio's incidents
+  logVolumeShare: number; // percentage of the portfolio's log volume
+  currentCost: number; // cost to serve with the human SOC
+  autonomousSOCCost: number;
+  annualSavings: number;
+  costToServe: number; // cost to serve with the autonomous SOC
+  roiPercentage: number;
+  annualRevenue: number;
+  currentMargin: number;
+  margin: number;
+  marginPercentage: number;
+}
+
+export type PortfolioResult = Omit<TenantResult, 'id' | 'name' | 'incidentShare' | 'logVolumeShare'>;
+
+export interface CalculationOutput {
+  results: CalculationResults;
+  projection: Projection;
+  valueMetrics: ValueMetrics;
+  totalValue: number;
+  workforce: WorkforceImpact;
+}
@@ -0,0 +1,52 @@
+import { SALARY_PRESETS } from './labor.js';
+import { INDUSTRY_PRESETS } from './industries.js';
+import { applyInputChange, defaultInputs } from './inputs.js';
+import { getInputIssues, validateInputValue } from './validation.js';
+
+describe('validateInputValue', () => {
+  it('rejects values outside the hard limits', () => {
+    expect(validateInputValue('falsePositiveRate', 150)).toBe('Must be at most 100');
+    expect(validateInputValue('analystSalary', -1)).toBe('Must be at least 0');
+    expect(validateInputValue('humanSOCAnalysts', 2.5)).toBe('Must be a whole number');
+    expect(validateInputValue('exchangeRate', 0)).toBe('Must be greater than 0');
+    expect(validateInputValue('employeeCount', NaN)).toBe('Enter a number');
+    expect(validateInputValue('falsePositiveRate', 100)).toBeNull();
+    expect(validateInputValue('employeeGrowthRate', -10)).toBeNull();
+  });
+});
+
+describe('getInputIssues', () => {
+  it('finds nothing to flag in the defaults or the presets', () => {
+    expect(getInputIssues(defaultInputs)).toEqual([]);
+    Object.keys(INDUSTRY_PRESETS).forEach((industry) => {
+      expect(getInputIssues(applyInputChange(defaultInputs, 'industry', industry))).toEqual([]);
+    });
+    Object.keys(SALARY_PRESETS).forEach((region) => {
+      expect(getInputIssues(applyInputChange(defaultInputs, 'salaryRegion', region))).toEqual([]);
+    });
+  });
+
+  it('warns about implausible values and scales amounts with the input currency', () => {
+    expect(getInputIssues({ ...defaultInputs, laborOverheadMultiplier: 4 })).toEqual([
+      { field: 'laborOverheadMultiplier', severity: 'warning', message: 'Unusually high, typically at most 3' },
+    ]);
+    const yen = applyInputChange(defaultInputs, 'inputCurrency', 'JPY');
+    expect(getInputIssues(yen, 150)).toEqual([]);
+  });
+
+  it('flags derived fields that contradict the inputs they are derived from', () => {
+    const issues = getInputIssues({ ...defaultInputs, monthlyLogVolumeGB: 20000, humanSOCAnalysts: 0, managerSalary: 50000 });
+    expect(issues.map((issue) => issue.field)).toEqual(
+      expect.arrayContaining(['monthlyLogVolumeGB', 'siemLicensingCosts', 'stellarXDRPlatformCosts', 'humanSOCAnalysts', 'managerSalary'])
+    );
+    expect(issues.every((issue) => issue.severity === 'warning')).toBe(true);
+  });
+
+  it('reports values that break the hard limits as errors', () => {
+    expect(getInputIssues({ ...defaultInputs, falsePositiveRate: 150 })).toContainEqual({
+      field: 'falsePositiveRate',
+      severity: 'error',
+      message: 'Must be at most 100',
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import { calculateVolumePrice } from './pricing.js';
+import type { CalculationInputs } from './types.js';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  field: keyof CalculationInputs;
+  severity: ValidationSeverity;
+  message: string;
+}
+
+// Hard limits reject a value outright, the typical range only flags values that are allowed but implausible
+export interface FieldRule {
+  min?: number;
+  max?: number;
+  positive?: boolean; // strictly above zero
+  integer?: boolean;
+  typicalMin?: number;
+  typicalMax?: number;
+  currency?: boolean; // the typical range is in USD and scales with the input currency
+}
+
+export interface CrossFieldRule {
+  field: keyof CalculationInputs; // where the message is shown
+  check: (inputs: CalculationInputs) => string | null;
+}
+
+const count: FieldRule = { min: 0, integer: true };
+const percentage: FieldRule = { min: 0, max: 100 };
+const amount: FieldRule = { min: 0, currency: true };
+const growthRate: FieldRule = { min: -100, typicalMin: -20, typicalMax: 50 };
+const salary: FieldRule = { min: 0, currency: true, typicalMin: 10000, typicalMax: 500000 };
+
+export const INPUT_RULES: Partial<Record<keyof CalculationInputs, FieldRule>> = {
+  employeeCount: { ...count, typicalMax: 500000 },
+  averageIncidentResponseTime: { min: 0, typicalMax: 72 },
+  falsePositiveRate: { ...percentage, typicalMin: 20 },
+  pricePerSecurityIncident: { ...amount, typicalMax: 50 },
+  legacySIEMPricePerGB: { ...amount, typicalMax: 20 },
+  stellarXDRCostPerGB: { ...amount, typicalMax: 20 },
+  logVolumeIncidentRatio: { min: 0, typicalMax: 20 },
+  exchangeRate: { positive: true },
+  incidentsPerEmployee: { min: 0, typicalMax: 50 },
+  unlinkedIncidentsPerMonth: count,
+  siemLogForwardingPercentage: percentage,
+  xdrLogForwardingPercentage: percentage,
+  analystSalary: salary,
+  managerSalary: salary,
+  engineerSalary: salary,
+  directorSalary: salary,
+  laborOverheadMultiplier: { min: 1, typicalMax: 3 },
+  incidentsPerAnalyst: { min: 0 },
+  incidentsPerManager: { min: 0 },
+  incidentsPerEngineer: { min: 0 },
+  incidentsPerDirector: { min: 0 },
+  minAnalysts: count,
+  minManagers: count,
+  minEngineers: count,
+  minDirectors: count,
+  analystsPerManager: { min: 0 },
+  managersPerDirector: { min: 0 },
+  projectionYears: { min: 1, max: 10, integer: true },
+  employeeGrowthRate: growthRate,
+  logVolumeGrowthRate: { ...growthRate, typicalMax: 100 },
+  salaryInflationRate: growthRate,
+  legacySIEMPriceEscalator: growthRate,
+  stellarPriceEscalator: growthRate,
+  discountRate: { min: 0, typicalMax: 30 },
+  professionalServicesCost: amount,
+  siemMigrationCost: amount,
+  trainingCost: amount,
+  dualRunningMonths: { ...count, typicalMax: 24 },
+  rampUpMonths: { ...count, typicalMax: 24 },
+  securityIncidentsPerMonth: count,
+  humanSOCAnalysts: count,
+  humanSOCManager: count,
+  humanSOCEngineer: count,
+  humanSOCDirector: count,
+  monthlyLogVolumeGB: { min: 0 },
+  siemLicensingCosts: amount,
+  stellarXDRPlatformCosts: amount,
+};
+
+// Derived fields can be edited by hand, so they are flagged when they drift far from what the other inputs imply
+const MISMATCH_TOLERANCE = 0.5;
+
+const isMismatched = (actual: number, expected: number): boolean =>
+  Math.abs(actual - expected) > Math.max(expected, 1) * MISMATCH_TOLERANCE;
+
+const formatNumber = (value: number): string => Math.round(value).toLocaleString('en-US');
+
+export const CROSS_FIELD_RULES: CrossFieldRule[] = [
+  {
+    field: 'monthlyLogVolumeGB',
+    check: (inputs) => {
+      const expected = inputs.securityIncidentsPerMonth * inputs.logVolumeIncidentRatio;
+      return isMismatched(inputs.monthlyLogVolumeGB, expected)
+        ? `Does not match the incident volume and log volume ratio, which imply about ${formatNumber(expected)} GB`
+        : null;
+    },
+  },
+  {
+    field: 'siemLicensingCosts',
+    check: (inputs) =>
+      isMismatched(inputs.siemLicensingCosts, inputs.monthlyLogVolumeGB * inputs.legacySIEMPricePerGB * 12)
+        ? 'Does not match the monthly log volume at the legacy SIEM price per GB'
+        : null,
+  },
+  {
+    field: 'stellarXDRPlatformCosts',
+    check: (inputs) => {
+      // The platform cost input is the price of the full log volume, also in coexistence
+      const expected = calculateVolumePrice(inputs.monthlyLogVolumeGB, inputs.stellarXDRCostPerGB, inputs.logVolumePricing).annualCost;
+      return isMismatched(inputs.stellarXDRPlatformCosts, expected) ? 'Does not match the monthly log volume at the Stellar XDR pricing' : null;
+    },
+  },
+  {
+    field: 'humanSOCAnalysts',
+    check: (inputs) =>
+      inputs.humanSOCAnalysts === 0 && inputs.securityIncidentsPerMonth > 0
+        ? `No analysts are staffed for ${formatNumber(inputs.securityIncidentsPerMonth)} incidents a month`
+        : null,
+  },
+  {
+    field: 'managerSalary',
+    check: (inputs) => (inputs.managerSalary < inputs.analystSalary ? 'Lower than the analyst salary' : null),
+  },
+  {
+    field: 'directorSalary',
+    check: (inputs) => (inputs.directorSalary < inputs.managerSalary ? 'Lower than the manager salary' : null),
+  },
+  {
+    field: 'xdrLogForwardingPercentage',
+    check: (inputs) =>
+      !inputs.switchFromLegacySIEM && inputs.siemLogForwardingPercentage + inputs.xdrLogForwardingPercentage < 100
+        ? 'Together with the legacy SIEM share, part of the log volume is not forwarded anywhere'
+        : null,
+  },
+];
+
+// The hard limits for a single value, null when it can be applied
+export const validateInputValue = (field: keyof CalculationInputs, value: number): string | null => {
+  const rule = INPUT_RULES[field];
+  if (!Number.isFinite(value)) {
+    return 'Enter a number';
+  }
+  if (!rule) {
+    return null;
+  }
+  if (rule.positive && value <= 0) {
+    return 'Must be greater than 0';
+  }
+  if (rule.min !== undefined && value < rule.min) {
+    return `Must be at least ${rule.min}`;
+  }
+  if (rule.max !== undefined && value > rule.max) {
+    return `Must be at most ${rule.max}`;
+  }
+  if (rule.integer && !Number.isInteger(value)) {
+    return 'Must be a whole number';
+  }
+  return null;
+};
+
+// Every issue with the current inputs, usdRate scales the typical ranges of amounts into the input currency
+export const getInputIssues = (inputs: CalculationInputs, usdRate = 1): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  (Object.keys(INPUT_RULES) as (keyof CalculationInputs)[]).forEach((field) => {
+    const rule = INPUT_RULES[field] as FieldRule;
+    const value = inputs[field] as number;
+    const error = validateInputValue(field, value);
+    if (error) {
+      issues.push({ field, severity: 'error', message: error });
+      return;
+    }
+    const scale = rule.currency ? usdRate : 1;
+    if (rule.typicalMin !== undefined && value < rule.typicalMin * scale) {
+      issues.push({ field, severity: 'warning', message: `Unusually low, typically at least ${formatNumber(rule.typicalMin * scale)}` });
+    } else if (rule.typicalMax !== undefined && value > rule.typicalMax * scale) {
+      issues.push({ field, severity: 'warning', message: `Unusually high, typically at most ${formatNumber(rule.typicalMax * scale)}` });
+    }
+  });
+  CROSS_FIELD_RULES.forEach((rule) => {
+    const message = rule.check(inputs);
+    if (message) {
+      issues.push({ field: rule.field, severity: 'warning', message });
+    }
+  });
+  return issues;
+};
@@ -0,0 +1,78 @@
+import { DEFAULT_COEFFICIENTS } from './coefficients.js';
+import { getFullyLoadedCost, getHourlyRate, HOURS_PER_YEAR } from './labor.js';
+import type { ValueCoefficients, ValueMetrics, ValueMetricsInputs } from './types.js';
+
+export const VALUE_CATEGORIES: { key: keyof ValueMetrics; name: string; description: string }[] = [
+  { key: 'falsePositiveReduction', name: 'False Positive Reduction', description: 'Reduced analyst burnout and wasted time' },
+  { key: 'riskReduction', name: 'Risk Reduction', description: 'Prevented incident escalation costs' },
+  { key: 'productivityImprovement', name: 'Productivity Improvement', description: 'Analysts focus on high-value tasks' },
+  { key: 'incidentResponseTime', name: 'Faster Response Time', description: 'Reduced incident impact and costs' },
+  { key: 'analystRetention', name: 'Analyst Retention', description: 'Reduced turnover and training costs' },
+  { key: 'complianceEfficiency', name: 'Compliance Efficiency', description: 'Streamlined compliance processes' },
+  { key: 'stressReduction', name: 'Stress Reduction', description: 'Improved analyst well-being and decision making' },
+  { key: 'shiftCoverage', name: '24/7 Coverage', description: 'Continuous monitoring without shift premiums' },
+];
+
+export const calculateValueMetrics = (
+  inputs: ValueMetricsInputs,
+  coefficients: ValueCoefficients = DEFAULT_COEFFICIENTS.value
+): ValueMetrics => {
+  const analystCost = getFullyLoadedCost(inputs, 'analyst');
+  const analystHourlyRate = getHourlyRate(inputs, 'analyst');
+
+  // False Positive Reduction Value
+  const currentFalsePositives = inputs.securityIncidentsPerMonth * (inputs.falsePositiveRate / 100) * 12;
+  const reducedFalsePositives = inputs.securityIncidentsPerMonth * (coefficients.autonomousFalsePositiveRate / 100) * 12;
+  const falsePositiveReduction = (currentFalsePositives - reducedFalsePositives) * coefficients.hoursPerFalsePositive * analystHourlyRate;
+
+  // Risk Reduction Value (based on faster response time and better detection)
+  // Calculate actual genuine incidents (excluding false positives)
+  const genuineIncidentsPerMonth = inputs.securityIncidentsPerMonth * (1 - inputs.falsePositiveRate / 100);
+  const riskReduction = genuineIncidentsPerMonth * 12 * coefficients.escalationCost * (coefficients.escalationReduction / 100);
+
+  // Productivity Improvement (analysts focus on high-value tasks)
+  const productivityHoursSaved = inputs.humanSOCAnalysts * HOURS_PER_YEAR * (coefficients.productivityTimeSaved / 100);
+  const productivityImprovement = productivityHoursSaved * analystHourlyRate * coefficients.productivityMultiplier;
+
+  // Incident Response Time Value
+  const truePositivesPerMonth = inputs.securityIncidentsPerMonth * (1 - inputs.falsePositiveRate / 100);
+  const falsePositivesPerMonth = inputs.securityIncidentsPerMonth * (inputs.falsePositiveRate / 100);
+
+  // Savings on true positive incident response time
+  const truePositiveTimeSavings = truePositivesPerMonth * 12 * inputs.averageIncidentResponseTime *
+    (coefficients.truePositiveResponseSavings / 100) * analystHourlyRate;
+
+  // Savings on false positive investigation time
+  const falsePositiveTimeSavings = falsePositivesPerMonth * 12 * coefficients.falsePositiveInvestigationHours *
+    (coefficients.falsePositiveResponseSavings / 100) * analystHourlyRate;
+
+  const incidentResponseTime = truePositiveTimeSavings + falsePositiveTimeSavings;
+
+  // Analyst Retention Value (reduced burnout)
+  const turnoverCost = analystCost * (coefficients.turnoverCostShare / 100);
+  const analystRetention = inputs.humanSOCAnalysts * turnoverCost * (coefficients.turnoverReduction / 100);
+
+  // Compliance Efficiency Value
+  const complianceHoursPerYear = inputs.humanSOCAnalysts * coefficients.complianceHoursPerAnalyst;
+  const complianceEfficiency = complianceHoursPerYear * analystHourlyRate * (coefficients.complianceEfficiency / 100);
+
+  // Additional value from reduced stress and improved decision making
+  const stressReductionValue = inputs.humanSOCAnalysts * coefficients.stressValuePerAnalyst;
+
+  // Value from 24/7 coverage without shift premiums
+  const shiftCoverageValue = inputs.humanSOCAnalysts * coefficients.shiftCoverageValuePerAnalyst;
+
+  return {
+    falsePositiveReduction,
+    riskReduction,
+    productivityImprovement,
+    incidentResponseTime,
+    analystRetention,
+    complianceEfficiency,
+    stressReduction: stressReductionValue,
+    shiftCoverage: shiftCoverageValue,
+  };
+};
+
+export const calculateTotalValue = (valueMetrics: ValueMetrics): number =>
+  Object.values(valueMetrics).reduce((sum, value) => sum + value, 0);
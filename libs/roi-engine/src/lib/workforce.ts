@@ -0,0 +1,22 @@
+import { HOURS_PER_YEAR } from './labor.js';
+import type { CalculationInputs, CalculationResults, WorkforceImpact } from './types.js';
+
+export const calculateWorkforceImpact = (
+  inputs: CalculationInputs,
+  results: Pick<CalculationResults, 'efficiencyImprovement'>
+): WorkforceImpact => {
+  const totalHeadcount = inputs.humanSOCAnalysts + inputs.humanSOCManager + inputs.humanSOCEngineer + inputs.humanSOCDirector;
+  const optimizedHeadcount = Math.max(0, Math.ceil(totalHeadcount * (1 - results.efficiencyImprovement / 100)));
+  const freedEmployees = Math.max(0, totalHeadcount - optimizedHeadcount);
+  const monthlyHoursPerEmployee = HOURS_PER_YEAR / 12;
+  const monthlyTimeSavings = totalHeadcount * monthlyHoursPerEmployee * (results.efficiencyImprovement / 100);
+  const annualTimeSavings = monthlyTimeSavings * 12;
+
+  return {
+    totalHeadcount,
+    optimizedHeadcount,
+    freedEmployees,
+    monthlyTimeSavings,
+    annualTimeSavings,
+  };
+};